@@ -15,6 +15,9 @@ import EnhancedCampaignsPage from './pages/EnhancedCampaignsPage';
 import EnhancedDashboardPage from './pages/EnhancedDashboardPage';
 import AnalyticsPage from './pages/AnalyticsPage';
 import DNCPage from './pages/DNCPage';
+import CallerIdsPage from './pages/CallerIdsPage';
+import SegmentsPage from './pages/SegmentsPage';
+import CallbacksPage from './pages/CallbacksPage';
 import WebhooksPage from './pages/WebhooksPage';
 import BillingPage from './pages/BillingPage';
 import StatusPage from './pages/StatusPage';
@@ -99,6 +102,21 @@ function AppContent() {
             <DNCPage />
           </ProtectedRoute>
         } />
+        <Route path="/caller-ids" element={
+          <ProtectedRoute requiredPermission="campaigns">
+            <CallerIdsPage />
+          </ProtectedRoute>
+        } />
+        <Route path="/segments" element={
+          <ProtectedRoute requiredPermission="campaigns">
+            <SegmentsPage />
+          </ProtectedRoute>
+        } />
+        <Route path="/callbacks" element={
+          <ProtectedRoute requiredPermission="campaigns">
+            <CallbacksPage />
+          </ProtectedRoute>
+        } />
         <Route path="/webhooks" element={
           <ProtectedRoute requiredPermission="webhooks">
             <WebhooksPage />
@@ -0,0 +1,485 @@
+import { useEffect, useRef, useState } from 'react';
+import {
+  ArrowPathIcon,
+  BeakerIcon,
+  MicrophoneIcon,
+  PaperAirplaneIcon,
+  PlayIcon,
+  StopIcon,
+  TrashIcon
+} from '@heroicons/react/24/outline';
+import { useUser } from '../contexts/UserContext';
+import { DatabaseService } from '../services/database';
+import { AgentTestService } from '../services/agent-testing';
+import type { AgentTestRunResult, TestModelKind } from '../services/agent-testing';
+import { isSpeechRecognitionSupported, startDictation } from '../lib/speechRecognition';
+import type { Dictation } from '../lib/speechRecognition';
+import type { AIAgent, AgentTestCase, AgentTestMessage, AgentTool } from '../lib/supabase';
+import toast from 'react-hot-toast';
+
+interface AgentTestConsoleProps {
+  agent: AIAgent
+  onClose: () => void
+}
+
+function FunctionCalls({ calls }: { calls: NonNullable<AgentTestMessage['function_calls']> }) {
+  return (
+    <div className="mt-2 space-y-1">
+      {calls.map((call, index) => (
+        <div
+          key={index}
+          className={`text-xs font-mono rounded px-2 py-1 border ${
+            call.result?.success === false ? 'border-red-200 bg-red-50 text-red-800' : 'border-purple-200 bg-purple-50 text-purple-800'
+          }`}
+        >
+          <span className="font-semibold">{call.name}</span>({JSON.stringify(call.args)})
+          {typeof call.result?.message === 'string' && call.result.message && (
+            <span className="block text-gray-500">→ {call.result.message}</span>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+// Chat with an agent's current configuration and keep conversations as regression cases
+export default function AgentTestConsole({ agent, onClose }: AgentTestConsoleProps) {
+  const { user } = useUser();
+  const [modelKind, setModelKind] = useState<TestModelKind>('simulator');
+  const [variables, setVariables] = useState<Record<string, string>>(() =>
+    Object.fromEntries(AgentTestService.getVariableNames(agent).map(name => [name, '']))
+  );
+  const [newVariable, setNewVariable] = useState('');
+  const [tools, setTools] = useState<AgentTool[]>([]);
+  const [messages, setMessages] = useState<AgentTestMessage[]>([]);
+  const [input, setInput] = useState('');
+  const [thinking, setThinking] = useState(false);
+  const [listening, setListening] = useState(false);
+  const [speakReplies, setSpeakReplies] = useState(false);
+  const [testCases, setTestCases] = useState<AgentTestCase[]>([]);
+  const [caseName, setCaseName] = useState('');
+  const [runningId, setRunningId] = useState<string | null>(null);
+  const [runResults, setRunResults] = useState<Record<string, AgentTestRunResult>>({});
+  const dictation = useRef<Dictation | null>(null);
+  const transcriptEnd = useRef<HTMLDivElement | null>(null);
+
+  useEffect(() => {
+    loadConsole();
+    return () => {
+      dictation.current?.stop();
+      window.speechSynthesis?.cancel();
+    };
+  }, [agent.id]);
+
+  useEffect(() => {
+    transcriptEnd.current?.scrollIntoView({ behavior: 'smooth' });
+  }, [messages, thinking]);
+
+  const loadConsole = async () => {
+    try {
+      const [activeTools, cases] = await Promise.all([
+        AgentTestService.getActiveTools(agent.id),
+        DatabaseService.getAgentTestCases(agent.id)
+      ]);
+      setTools(activeTools);
+      setTestCases(cases);
+    } catch (error) {
+      console.error('Error loading test console:', error);
+      toast.error('Failed to load tools and test cases');
+    }
+  };
+
+  const speak = (text: string) => {
+    if (!speakReplies || !text || !window.speechSynthesis) return;
+    const utterance = new SpeechSynthesisUtterance(text);
+    utterance.lang = agent.language_code;
+    window.speechSynthesis.speak(utterance);
+  };
+
+  const sendMessage = async (text: string) => {
+    if (!text.trim() || thinking) return;
+
+    const conversation: AgentTestMessage[] = [...messages, { role: 'user', text: text.trim() }];
+    setMessages(conversation);
+    setInput('');
+    setThinking(true);
+    try {
+      const model = AgentTestService.createModel(modelKind, user);
+      const reply = await AgentTestService.converse(agent, tools, model, variables, conversation);
+      setMessages([...conversation, reply]);
+      speak(reply.text);
+    } catch (error) {
+      console.error('Error getting agent reply:', error);
+      toast.error(error instanceof Error ? error.message : 'The agent did not reply');
+      // Drop the unanswered turn so it can be sent again
+      setMessages(messages);
+      setInput(text);
+    } finally {
+      setThinking(false);
+    }
+  };
+
+  const toggleListening = () => {
+    if (listening) {
+      dictation.current?.stop();
+      return;
+    }
+
+    let heard = '';
+    try {
+      dictation.current = startDictation(
+        agent.language_code,
+        (text) => {
+          heard = text;
+          setInput(text);
+        },
+        (error) => {
+          setListening(false);
+          dictation.current = null;
+          if (error) {
+            toast.error(error);
+          } else if (heard.trim()) {
+            sendMessage(heard);
+          }
+        }
+      );
+      setListening(true);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Microphone unavailable');
+    }
+  };
+
+  const handleReset = () => {
+    window.speechSynthesis?.cancel();
+    setMessages([]);
+    setInput('');
+  };
+
+  const addVariable = (e: React.FormEvent) => {
+    e.preventDefault();
+    const name = newVariable.trim().replace(/\s+/g, '_');
+    if (!name || name in variables) return;
+    setVariables(prev => ({ ...prev, [name]: '' }));
+    setNewVariable('');
+  };
+
+  const handleSaveCase = async () => {
+    try {
+      const testCase = await AgentTestService.saveTestCase(agent, caseName, variables, messages);
+      setTestCases(prev => [testCase, ...prev]);
+      setCaseName('');
+      toast.success('Saved as a regression case');
+    } catch (error) {
+      console.error('Error saving test case:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to save test case');
+    }
+  };
+
+  const runCase = async (testCase: AgentTestCase) => {
+    const model = AgentTestService.createModel(modelKind, user);
+    const result = await AgentTestService.runTestCase(agent, testCase, model);
+    const recorded = await AgentTestService.recordRun(testCase, result);
+    setRunResults(prev => ({ ...prev, [testCase.id]: result }));
+    setTestCases(prev => prev.map(c => (c.id === testCase.id ? recorded : c)));
+    return result;
+  };
+
+  const handleRunCase = async (testCase: AgentTestCase) => {
+    setRunningId(testCase.id);
+    try {
+      const result = await runCase(testCase);
+      toast[result.passed ? 'success' : 'error'](`${testCase.name}: ${result.passed ? 'passed' : 'failed'}`);
+    } catch (error) {
+      console.error('Error running test case:', error);
+      toast.error(error instanceof Error ? error.message : 'Test run failed');
+    } finally {
+      setRunningId(null);
+    }
+  };
+
+  const handleRunAll = async () => {
+    setRunningId('all');
+    let passed = 0;
+    try {
+      for (const testCase of testCases) {
+        if ((await runCase(testCase)).passed) passed++;
+      }
+      toast[passed === testCases.length ? 'success' : 'error'](`${passed} of ${testCases.length} cases passed`);
+    } catch (error) {
+      console.error('Error running test cases:', error);
+      toast.error(error instanceof Error ? error.message : 'Test run failed');
+    } finally {
+      setRunningId(null);
+    }
+  };
+
+  const handleDeleteCase = async (testCase: AgentTestCase) => {
+    if (!confirm(`Delete the test case "${testCase.name}"?`)) return;
+
+    try {
+      await DatabaseService.deleteAgentTestCase(testCase.id);
+      setTestCases(prev => prev.filter(c => c.id !== testCase.id));
+    } catch (error) {
+      console.error('Error deleting test case:', error);
+      toast.error('Failed to delete test case');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
+      <div className="relative top-10 mx-auto p-5 border w-11/12 max-w-6xl shadow-lg rounded-md bg-white">
+        <div className="mt-3 space-y-4">
+          <div className="flex justify-between items-center">
+            <div>
+              <h3 className="text-lg font-medium text-gray-900">{agent.name} · Test Console</h3>
+              <p className="text-sm text-gray-500">
+                Talk to the agent's current configuration. Function calls are shown but not run, apart from knowledge base searches.
+              </p>
+            </div>
+            <button
+              onClick={onClose}
+              className="text-gray-400 hover:text-gray-600"
+            >
+              ✕
+            </button>
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+            <div className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Model</label>
+                <select
+                  value={modelKind}
+                  onChange={(e) => setModelKind(e.target.value as TestModelKind)}
+                  className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 text-sm"
+                >
+                  <option value="simulator">Local stand-in (offline, repeatable)</option>
+                  <option value="gemini" disabled={!user?.gemini_api_key}>
+                    Gemini{user?.gemini_api_key ? '' : ' (add an API key in Settings)'}
+                  </option>
+                </select>
+              </div>
+
+              <div>
+                <h4 className="text-sm font-medium text-gray-700">Lead variables</h4>
+                <p className="text-xs text-gray-500">Merged into {'{{field}}'} placeholders in the instruction.</p>
+                <div className="mt-2 space-y-2">
+                  {Object.entries(variables).map(([name, value]) => (
+                    <div key={name} className="flex items-center space-x-2">
+                      <span className="w-28 text-xs font-mono text-gray-600 truncate" title={name}>{name}</span>
+                      <input
+                        type="text"
+                        value={value}
+                        onChange={(e) => setVariables(prev => ({ ...prev, [name]: e.target.value }))}
+                        className="flex-1 border-gray-300 rounded-md shadow-sm text-sm py-1"
+                      />
+                    </div>
+                  ))}
+                </div>
+                <form onSubmit={addVariable} className="mt-2 flex space-x-2">
+                  <input
+                    type="text"
+                    value={newVariable}
+                    onChange={(e) => setNewVariable(e.target.value)}
+                    placeholder="Add a custom field"
+                    className="flex-1 border-gray-300 rounded-md shadow-sm text-sm py-1"
+                  />
+                  <button type="submit" className="px-3 text-sm text-blue-600 hover:text-blue-800">Add</button>
+                </form>
+              </div>
+
+              <div>
+                <h4 className="text-sm font-medium text-gray-700">Tools</h4>
+                {tools.length > 0 ? (
+                  <div className="mt-1 flex flex-wrap gap-1">
+                    {tools.map(tool => (
+                      <span key={tool.id} className="px-2 py-0.5 rounded-full text-xs font-mono bg-purple-100 text-purple-800" title={tool.description}>
+                        {tool.name}
+                      </span>
+                    ))}
+                  </div>
+                ) : (
+                  <p className="text-xs text-gray-500">No active tools.</p>
+                )}
+              </div>
+            </div>
+
+            <div className="lg:col-span-2 flex flex-col border border-gray-200 rounded-md">
+              <div className="h-96 overflow-y-auto p-4 space-y-3 bg-gray-50">
+                {messages.length === 0 && (
+                  <p className="text-sm text-gray-500 text-center mt-32">Say hello as the person the agent is calling.</p>
+                )}
+                {messages.map((message, index) => (
+                  <div key={index} className={`flex ${message.role === 'user' ? 'justify-end' : 'justify-start'}`}>
+                    <div className={`max-w-md rounded-lg px-3 py-2 text-sm ${
+                      message.role === 'user' ? 'bg-blue-600 text-white' : 'bg-white border border-gray-200 text-gray-900'
+                    }`}>
+                      {message.text && <p className="whitespace-pre-wrap">{message.text}</p>}
+                      {message.function_calls && <FunctionCalls calls={message.function_calls} />}
+                    </div>
+                  </div>
+                ))}
+                {thinking && <p className="text-sm text-gray-400">{agent.name} is replying...</p>}
+                <div ref={transcriptEnd} />
+              </div>
+
+              <form
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  sendMessage(input);
+                }}
+                className="flex items-center space-x-2 p-3 border-t border-gray-200"
+              >
+                <input
+                  type="text"
+                  value={input}
+                  onChange={(e) => setInput(e.target.value)}
+                  placeholder={listening ? 'Listening...' : 'Type what the caller says'}
+                  disabled={thinking}
+                  className="flex-1 border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 text-sm"
+                />
+                {isSpeechRecognitionSupported() && (
+                  <button
+                    type="button"
+                    onClick={toggleListening}
+                    disabled={thinking}
+                    className={`p-2 rounded-md ${listening ? 'bg-red-100 text-red-600' : 'text-gray-600 hover:bg-gray-100'}`}
+                    title={listening ? 'Stop listening' : 'Speak'}
+                  >
+                    {listening ? <StopIcon className="h-5 w-5" /> : <MicrophoneIcon className="h-5 w-5" />}
+                  </button>
+                )}
+                <button
+                  type="submit"
+                  disabled={thinking || !input.trim()}
+                  className="p-2 text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+                  title="Send"
+                >
+                  <PaperAirplaneIcon className="h-5 w-5" />
+                </button>
+              </form>
+
+              <div className="flex flex-wrap items-center gap-2 px-3 pb-3">
+                <label className="flex items-center text-xs text-gray-600 mr-auto">
+                  <input
+                    type="checkbox"
+                    checked={speakReplies}
+                    onChange={(e) => setSpeakReplies(e.target.checked)}
+                    className="h-4 w-4 mr-1 text-blue-600 border-gray-300 rounded"
+                  />
+                  Speak replies
+                </label>
+                <button
+                  type="button"
+                  onClick={handleReset}
+                  className="inline-flex items-center px-3 py-1 text-xs text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200"
+                >
+                  <ArrowPathIcon className="h-4 w-4 mr-1" />
+                  New conversation
+                </button>
+                <input
+                  type="text"
+                  value={caseName}
+                  onChange={(e) => setCaseName(e.target.value)}
+                  placeholder="Case name"
+                  className="w-40 border-gray-300 rounded-md shadow-sm text-xs py-1"
+                />
+                <button
+                  type="button"
+                  onClick={handleSaveCase}
+                  disabled={messages.length === 0 || thinking}
+                  className="inline-flex items-center px-3 py-1 text-xs text-white bg-green-600 rounded-md hover:bg-green-700 disabled:opacity-50"
+                >
+                  <BeakerIcon className="h-4 w-4 mr-1" />
+                  Save as regression case
+                </button>
+              </div>
+            </div>
+          </div>
+
+          <div>
+            <div className="flex justify-between items-center mb-2">
+              <h4 className="text-sm font-medium text-gray-900">Regression cases</h4>
+              {testCases.length > 0 && (
+                <button
+                  onClick={handleRunAll}
+                  disabled={!!runningId}
+                  className="inline-flex items-center px-3 py-1 text-xs font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+                >
+                  <PlayIcon className="h-4 w-4 mr-1" />
+                  {runningId === 'all' ? 'Running...' : 'Run all'}
+                </button>
+              )}
+            </div>
+            {testCases.length === 0 ? (
+              <p className="text-sm text-gray-500">
+                No saved cases. Replays check that the agent makes the same function calls on each turn.
+              </p>
+            ) : (
+              <div className="space-y-2">
+                {testCases.map(testCase => {
+                  const result = runResults[testCase.id];
+                  return (
+                    <div key={testCase.id} className="p-3 border border-gray-200 rounded-md">
+                      <div className="flex items-center justify-between">
+                        <div>
+                          <span className="text-sm font-medium text-gray-900">{testCase.name}</span>
+                          <span className="ml-2 text-xs text-gray-500">
+                            {testCase.messages.filter(message => message.role === 'user').length} turns
+                          </span>
+                          {testCase.last_run_at && (
+                            <span className={`ml-2 px-2 py-0.5 rounded-full text-xs ${
+                              testCase.last_run_passed ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'
+                            }`}>
+                              {testCase.last_run_passed ? 'Passed' : 'Failed'} {new Date(testCase.last_run_at).toLocaleString()}
+                            </span>
+                          )}
+                        </div>
+                        <div className="flex items-center space-x-1">
+                          <button
+                            onClick={() => handleRunCase(testCase)}
+                            disabled={!!runningId}
+                            className="p-1 text-green-600 hover:text-green-900 disabled:opacity-50"
+                            title="Run"
+                          >
+                            <PlayIcon className="h-4 w-4" />
+                          </button>
+                          <button
+                            onClick={() => handleDeleteCase(testCase)}
+                            className="p-1 text-red-600 hover:text-red-900"
+                            title="Delete"
+                          >
+                            <TrashIcon className="h-4 w-4" />
+                          </button>
+                        </div>
+                      </div>
+
+                      {result && (
+                        <div className="mt-2 space-y-2">
+                          {result.turns.map((turn, index) => (
+                            <div key={index} className={`text-xs border-l-2 pl-2 ${turn.problems.length ? 'border-red-400' : 'border-green-400'}`}>
+                              <p className="text-gray-700"><span className="font-medium">Caller:</span> {turn.user}</p>
+                              {turn.actual && (
+                                <div className="text-gray-600">
+                                  <span className="font-medium">Agent:</span> {turn.actual.text}
+                                  {turn.actual.function_calls && <FunctionCalls calls={turn.actual.function_calls} />}
+                                </div>
+                              )}
+                              {turn.problems.map((problem, i) => (
+                                <p key={i} className="text-red-700">{problem}</p>
+                              ))}
+                            </div>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
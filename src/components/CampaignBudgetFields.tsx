@@ -0,0 +1,60 @@
+import type { CampaignBudget } from '../services/campaign-budget';
+
+interface CampaignBudgetFieldsProps {
+  budget: CampaignBudget
+  onChange: (budget: CampaignBudget) => void
+}
+
+const parseAmount = (value: string): number | undefined => {
+  const amount = parseFloat(value);
+  return Number.isFinite(amount) && amount > 0 ? amount : undefined;
+};
+
+// Minute and spend caps of a campaign; left empty, only the account's monthly limit applies
+export default function CampaignBudgetFields({ budget, onChange }: CampaignBudgetFieldsProps) {
+  return (
+    <div>
+      <div className="grid grid-cols-3 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700">Minute Budget</label>
+          <input
+            type="number"
+            min="1"
+            value={budget.budget_minutes ?? ''}
+            onChange={(e) => onChange({ ...budget, budget_minutes: parseAmount(e.target.value) })}
+            placeholder="No limit"
+            className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700">Cost per Minute ($)</label>
+          <input
+            type="number"
+            min="0"
+            step="0.001"
+            value={budget.cost_per_minute ?? ''}
+            onChange={(e) => onChange({ ...budget, cost_per_minute: parseAmount(e.target.value) })}
+            placeholder="0.05"
+            className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700">Spend Budget ($)</label>
+          <input
+            type="number"
+            min="0"
+            step="0.01"
+            value={budget.budget_spend ?? ''}
+            onChange={(e) => onChange({ ...budget, budget_spend: parseAmount(e.target.value) })}
+            disabled={!budget.cost_per_minute}
+            placeholder={budget.cost_per_minute ? 'No limit' : 'Set a cost per minute'}
+            className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 disabled:bg-gray-100"
+          />
+        </div>
+      </div>
+      <p className="mt-1 text-xs text-gray-500">
+        Answered calls count per started minute. The dialer stops placing calls the budget cannot cover and pauses the campaign once it is used up.
+      </p>
+    </div>
+  );
+}
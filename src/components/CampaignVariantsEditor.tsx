@@ -0,0 +1,137 @@
+import { PlusIcon, TrashIcon } from '@heroicons/react/24/outline';
+import type { AIAgent, CampaignVariant } from '../lib/supabase';
+
+interface CampaignVariantsEditorProps {
+  variants: CampaignVariant[]
+  agents: AIAgent[]
+  onChange: (variants: CampaignVariant[]) => void
+}
+
+const VARIANT_LETTERS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ';
+
+function newVariant(index: number): CampaignVariant {
+  return {
+    id: `variant_${Date.now()}_${Math.random().toString(36).substr(2, 6)}`,
+    name: `Variant ${VARIANT_LETTERS[index] || index + 1}`,
+    weight: 50
+  };
+}
+
+// A/B test arms of a campaign; the first variant is the control the others are compared against
+export default function CampaignVariantsEditor({ variants, agents, onChange }: CampaignVariantsEditorProps) {
+  const totalWeight = variants.reduce((sum, variant) => sum + (variant.weight > 0 ? variant.weight : 0), 0);
+
+  const updateVariant = (index: number, updates: Partial<CampaignVariant>) => {
+    onChange(variants.map((variant, i) => (i === index ? { ...variant, ...updates } : variant)));
+  };
+
+  const startTest = () => onChange([newVariant(0), newVariant(1)]);
+
+  if (variants.length === 0) {
+    return (
+      <div className="border border-dashed border-gray-300 rounded-lg p-4 text-center">
+        <p className="text-sm text-gray-600">
+          Split this campaign's leads across several agents or scripts and compare how they perform.
+        </p>
+        <button
+          type="button"
+          onClick={startTest}
+          className="mt-3 inline-flex items-center px-3 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+        >
+          <PlusIcon className="-ml-1 mr-2 h-4 w-4" />
+          Set up A/B test
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {variants.map((variant, index) => (
+        <div key={variant.id} className="border border-gray-200 rounded-lg p-4 space-y-3">
+          <div className="grid grid-cols-3 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700">
+                Name {index === 0 && <span className="text-xs text-gray-500">(control)</span>}
+              </label>
+              <input
+                type="text"
+                value={variant.name}
+                onChange={(e) => updateVariant(index, { name: e.target.value })}
+                className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700">AI Agent</label>
+              <select
+                value={variant.agent_id || ''}
+                onChange={(e) => updateVariant(index, { agent_id: e.target.value || undefined })}
+                className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500"
+              >
+                <option value="">Campaign agent</option>
+                {agents.map((agent) => (
+                  <option key={agent.id} value={agent.id}>{agent.name}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Traffic Weight</label>
+              <div className="mt-1 flex items-center">
+                <input
+                  type="number"
+                  min="0"
+                  value={variant.weight}
+                  onChange={(e) => updateVariant(index, { weight: Math.max(0, parseInt(e.target.value, 10) || 0) })}
+                  className="block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500"
+                />
+                <span className="ml-2 text-sm text-gray-500 whitespace-nowrap">
+                  {totalWeight > 0 ? Math.round((variant.weight / totalWeight) * 100) : 0}%
+                </span>
+              </div>
+            </div>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Script</label>
+            <textarea
+              rows={3}
+              value={variant.custom_system_instruction || ''}
+              onChange={(e) => updateVariant(index, { custom_system_instruction: e.target.value || undefined })}
+              placeholder="Leave empty to use the agent's own instructions"
+              className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500"
+            />
+          </div>
+          {variants.length > 2 && (
+            <div className="flex justify-end">
+              <button
+                type="button"
+                onClick={() => onChange(variants.filter((_, i) => i !== index))}
+                className="inline-flex items-center text-sm text-red-600 hover:text-red-800"
+              >
+                <TrashIcon className="h-4 w-4 mr-1" />
+                Remove
+              </button>
+            </div>
+          )}
+        </div>
+      ))}
+
+      <div className="flex justify-between">
+        <button
+          type="button"
+          onClick={() => onChange([...variants, newVariant(variants.length)])}
+          className="inline-flex items-center px-3 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+        >
+          <PlusIcon className="-ml-1 mr-2 h-4 w-4" />
+          Add Variant
+        </button>
+        <button
+          type="button"
+          onClick={() => onChange([])}
+          className="text-sm text-gray-500 hover:text-gray-700"
+        >
+          Turn off A/B test
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,295 @@
+import { useEffect, useState } from 'react';
+import { PencilIcon, PlusIcon, TagIcon, TrashIcon } from '@heroicons/react/24/outline';
+import { DispositionService, DISPOSITION_CATEGORIES } from '../services/dispositions';
+import type { DispositionCategory, DispositionDefinition } from '../services/dispositions';
+import toast from 'react-hot-toast';
+
+interface DispositionSettingsProps {
+  profileId: string
+}
+
+const CATEGORY_STYLES: Record<DispositionCategory, string> = {
+  success: 'bg-green-100 text-green-800',
+  contact: 'bg-blue-100 text-blue-800',
+  no_contact: 'bg-gray-100 text-gray-800',
+  dnc: 'bg-red-100 text-red-800'
+};
+
+// Disposition catalog section of the settings page
+export default function DispositionSettings({ profileId }: DispositionSettingsProps) {
+  const [catalog, setCatalog] = useState<DispositionDefinition[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editing, setEditing] = useState<DispositionDefinition | null>(null);
+  const [isNew, setIsNew] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  const loadCatalog = async (refresh = false) => {
+    setLoading(true);
+    setCatalog(await DispositionService.getCatalog(profileId, refresh));
+    setLoading(false);
+  };
+
+  useEffect(() => {
+    loadCatalog();
+  }, [profileId]);
+
+  const openNew = () => {
+    setIsNew(true);
+    setEditing({
+      code: '',
+      label: '',
+      category: 'contact',
+      is_final: true,
+      is_system: false,
+      is_active: true,
+      sort_order: (catalog[catalog.length - 1]?.sort_order || 0) + 10
+    });
+  };
+
+  const openEdit = (disposition: DispositionDefinition) => {
+    setIsNew(false);
+    setEditing({ ...disposition });
+  };
+
+  const save = async (disposition: DispositionDefinition) => {
+    if (isNew && catalog.some(entry => entry.code === disposition.code.trim().toLowerCase())) {
+      toast.error('A disposition with this code already exists');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await DispositionService.saveDisposition(profileId, disposition);
+      toast.success('Disposition saved');
+      setEditing(null);
+      await loadCatalog(true);
+    } catch (error) {
+      console.error('Error saving disposition:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to save disposition');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const remove = async (disposition: DispositionDefinition) => {
+    if (!confirm(`Delete the disposition "${disposition.label}"? Calls already marked with it keep its code.`)) return;
+
+    try {
+      await DispositionService.deleteDisposition(profileId, disposition);
+      toast.success('Disposition deleted');
+      await loadCatalog(true);
+    } catch (error) {
+      console.error('Error deleting disposition:', error);
+      toast.error('Failed to delete disposition');
+    }
+  };
+
+  const formatRetry = (disposition: DispositionDefinition) => {
+    if (disposition.is_final) return 'Closes lead';
+    const delay = disposition.retry_delay_minutes != null ? `after ${disposition.retry_delay_minutes} min` : 'campaign delay';
+    const attempts = disposition.max_attempts != null && Number.isFinite(disposition.max_attempts)
+      ? `, up to ${disposition.max_attempts}×`
+      : '';
+    return `Retry ${delay}${attempts}`;
+  };
+
+  return (
+    <div className="bg-white shadow-sm rounded-lg border border-gray-200">
+      <div className="px-4 py-5 sm:p-6">
+        <div className="flex items-center justify-between mb-6">
+          <div className="flex items-center">
+            <TagIcon className="h-6 w-6 text-gray-400 mr-3" />
+            <h3 className="text-lg leading-6 font-medium text-gray-900">
+              Call Dispositions
+            </h3>
+          </div>
+          <button
+            type="button"
+            onClick={openNew}
+            className="inline-flex items-center px-3 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+          >
+            <PlusIcon className="-ml-1 mr-2 h-4 w-4" />
+            Add Disposition
+          </button>
+        </div>
+
+        <p className="text-sm text-gray-500 mb-4">
+          Outcomes agents and the dialer record for each call. The dialer's own dispositions can be relabelled and given other retry rules, but not deleted.
+        </p>
+
+        {loading ? (
+          <div className="flex items-center justify-center h-24">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-500"></div>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Disposition</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Category</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Lead</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                  <th className="px-4 py-3"></th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {catalog.map((disposition) => (
+                  <tr key={disposition.code} className={disposition.is_active ? '' : 'opacity-60'}>
+                    <td className="px-4 py-3 text-sm">
+                      <div className="font-medium text-gray-900">{disposition.label}</div>
+                      <div className="text-xs text-gray-500 font-mono">
+                        {disposition.code}{disposition.is_system && ' · dialer'}
+                      </div>
+                    </td>
+                    <td className="px-4 py-3 text-sm">
+                      <span className={`inline-flex px-2 py-0.5 text-xs font-medium rounded-full ${CATEGORY_STYLES[disposition.category]}`}>
+                        {DISPOSITION_CATEGORIES.find(category => category.value === disposition.category)?.label}
+                      </span>
+                    </td>
+                    <td className="px-4 py-3 text-sm text-gray-700">{formatRetry(disposition)}</td>
+                    <td className="px-4 py-3 text-sm text-gray-700">{disposition.is_active ? 'Active' : 'Off'}</td>
+                    <td className="px-4 py-3 text-right text-sm whitespace-nowrap">
+                      <button
+                        type="button"
+                        onClick={() => openEdit(disposition)}
+                        className="text-blue-600 hover:text-blue-800"
+                        title="Edit"
+                      >
+                        <PencilIcon className="h-4 w-4" />
+                      </button>
+                      {!disposition.is_system && disposition.id && (
+                        <button
+                          type="button"
+                          onClick={() => remove(disposition)}
+                          className="ml-3 text-red-600 hover:text-red-800"
+                          title="Delete"
+                        >
+                          <TrashIcon className="h-4 w-4" />
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {editing && (
+        <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
+          <div className="relative top-20 mx-auto p-5 border w-11/12 max-w-lg shadow-lg rounded-md bg-white">
+            <h3 className="text-lg font-medium text-gray-900 mb-4">
+              {isNew ? 'Add Disposition' : `Edit ${editing.label}`}
+            </h3>
+            <div className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">Label</label>
+                  <input
+                    type="text"
+                    value={editing.label}
+                    onChange={(e) => setEditing({ ...editing, label: e.target.value })}
+                    className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">Code</label>
+                  <input
+                    type="text"
+                    value={editing.code}
+                    disabled={!isNew}
+                    onChange={(e) => setEditing({ ...editing, code: e.target.value })}
+                    placeholder="e.g. left_message_with_assistant"
+                    className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm font-mono disabled:bg-gray-100"
+                  />
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Category</label>
+                <select
+                  value={editing.category}
+                  onChange={(e) => setEditing({ ...editing, category: e.target.value as DispositionCategory })}
+                  className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                >
+                  {DISPOSITION_CATEGORIES.map((category) => (
+                    <option key={category.value} value={category.value}>{category.label}</option>
+                  ))}
+                </select>
+              </div>
+
+              <label className="flex items-center">
+                <input
+                  type="checkbox"
+                  checked={editing.is_final}
+                  onChange={(e) => setEditing({ ...editing, is_final: e.target.checked })}
+                  className="h-4 w-4 text-blue-600 border-gray-300 rounded"
+                />
+                <span className="ml-2 text-sm text-gray-700">Final: the lead is not called again</span>
+              </label>
+
+              {!editing.is_final && (
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700">Retry After (minutes)</label>
+                    <input
+                      type="number"
+                      min="0"
+                      value={editing.retry_delay_minutes ?? ''}
+                      onChange={(e) => setEditing({ ...editing, retry_delay_minutes: e.target.value === '' ? undefined : Math.max(0, parseInt(e.target.value, 10) || 0) })}
+                      placeholder="Campaign delay"
+                      className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700">Max Attempts</label>
+                    <input
+                      type="number"
+                      min="0"
+                      value={editing.max_attempts != null && Number.isFinite(editing.max_attempts) ? editing.max_attempts : ''}
+                      onChange={(e) => setEditing({ ...editing, max_attempts: e.target.value === '' ? undefined : Math.max(0, parseInt(e.target.value, 10) || 0) })}
+                      placeholder="Campaign limit"
+                      className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                    />
+                  </div>
+                </div>
+              )}
+
+              {!editing.is_system && (
+                <label className="flex items-center">
+                  <input
+                    type="checkbox"
+                    checked={editing.is_active}
+                    onChange={(e) => setEditing({ ...editing, is_active: e.target.checked })}
+                    className="h-4 w-4 text-blue-600 border-gray-300 rounded"
+                  />
+                  <span className="ml-2 text-sm text-gray-700">Active: agents can pick it</span>
+                </label>
+              )}
+            </div>
+
+            <div className="mt-6 flex justify-end space-x-3">
+              <button
+                type="button"
+                onClick={() => setEditing(null)}
+                className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+              >
+                Cancel
+              </button>
+              <button
+                type="button"
+                onClick={() => save(editing)}
+                disabled={saving}
+                className="px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+              >
+                {saving ? 'Saving...' : 'Save'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
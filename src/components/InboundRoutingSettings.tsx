@@ -0,0 +1,316 @@
+import { useEffect, useState } from 'react';
+import { CalendarDaysIcon, PlusIcon, TrashIcon } from '@heroicons/react/24/outline';
+import { useUser } from '../contexts/UserContext';
+import { DatabaseService } from '../services/database';
+import { InboundRoutingService, AFTER_HOURS_ACTIONS } from '../services/inbound-routing';
+import type { InboundRoutingDecision } from '../services/inbound-routing';
+import type { AIAgent, BusinessHoliday, Profile } from '../lib/supabase';
+import toast from 'react-hot-toast';
+
+interface InboundRoutingSettingsProps {
+  profile: Profile
+}
+
+const STATUS_STYLES: Record<InboundRoutingDecision['status'], string> = {
+  open: 'bg-green-100 text-green-800',
+  closed: 'bg-gray-100 text-gray-800',
+  holiday: 'bg-yellow-100 text-yellow-800'
+};
+
+const describeRoute = (decision: InboundRoutingDecision) => {
+  switch (decision.action) {
+    case 'agent':
+      return 'Answered by the agent';
+    case 'after_hours_agent':
+      return `Answered by ${decision.agent?.name}`;
+    case 'voicemail':
+      return 'Voicemail';
+    case 'callback':
+      return 'Callback request';
+  }
+};
+
+// YYYY-MM-DDTHH:MM in the browser's timezone, for a datetime-local input
+const toDateTimeInput = (date: Date) =>
+  new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+
+// After-hours handling and holiday calendar section of the settings page
+export default function InboundRoutingSettings({ profile }: InboundRoutingSettingsProps) {
+  const { updateUser } = useUser();
+  const [agents, setAgents] = useState<AIAgent[]>([]);
+  const [holidays, setHolidays] = useState<BusinessHoliday[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [settings, setSettings] = useState({
+    after_hours_action: profile.after_hours_action || 'agent',
+    after_hours_agent_id: profile.after_hours_agent_id || '',
+    after_hours_message: profile.after_hours_message || ''
+  });
+  const [saving, setSaving] = useState(false);
+  const [newHoliday, setNewHoliday] = useState({ name: '', date: '', recurs_annually: false });
+  const [checkAt, setCheckAt] = useState(() => toDateTimeInput(new Date()));
+
+  useEffect(() => {
+    loadRouting();
+  }, [profile.id]);
+
+  const loadRouting = async () => {
+    try {
+      setLoading(true);
+      const [agentsData, holidaysData] = await Promise.all([
+        DatabaseService.getAIAgents(profile.id),
+        DatabaseService.getBusinessHolidays(profile.id)
+      ]);
+      setAgents(agentsData);
+      setHolidays(holidaysData);
+    } catch (error) {
+      console.error('Error loading inbound routing:', error);
+      toast.error('Failed to load inbound routing');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      await updateUser({
+        // Cleared fields are saved empty, which means the default
+        after_hours_action: settings.after_hours_action,
+        after_hours_agent_id: settings.after_hours_agent_id,
+        after_hours_message: settings.after_hours_message.trim()
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleAddHoliday = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newHoliday.name.trim() || !newHoliday.date) return;
+
+    try {
+      const holiday = await DatabaseService.createBusinessHoliday({
+        profile_id: profile.id,
+        name: newHoliday.name.trim(),
+        date: newHoliday.date,
+        recurs_annually: newHoliday.recurs_annually
+      });
+      setHolidays(prev => [...prev, holiday].sort((a, b) => a.date.localeCompare(b.date)));
+      setNewHoliday({ name: '', date: '', recurs_annually: false });
+    } catch (error) {
+      console.error('Error adding holiday:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to add holiday');
+    }
+  };
+
+  const handleDeleteHoliday = async (holiday: BusinessHoliday) => {
+    if (!confirm(`Remove ${holiday.name} from the holiday calendar?`)) return;
+
+    try {
+      await DatabaseService.deleteBusinessHoliday(holiday.id);
+      setHolidays(prev => prev.filter(h => h.id !== holiday.id));
+    } catch (error) {
+      console.error('Error deleting holiday:', error);
+      toast.error('Failed to remove holiday');
+    }
+  };
+
+  // Routing preview with the settings as edited, before they are saved
+  const previewAt = checkAt ? new Date(checkAt) : new Date();
+  const previewContext = {
+    profile: {
+      company_name: profile.company_name,
+      after_hours_action: settings.after_hours_action,
+      after_hours_agent_id: settings.after_hours_agent_id,
+      after_hours_message: settings.after_hours_message
+    },
+    agents,
+    holidays
+  };
+  const afterHoursCandidates = agents.filter(agent => agent.is_active);
+
+  return (
+    <div className="bg-white shadow-sm rounded-lg border border-gray-200">
+      <div className="px-4 py-5 sm:p-6 space-y-6">
+        <div className="flex items-center">
+          <CalendarDaysIcon className="h-6 w-6 text-gray-400 mr-3" />
+          <h3 className="text-lg leading-6 font-medium text-gray-900">
+            Inbound Hours & Holidays
+          </h3>
+        </div>
+
+        <p className="text-sm text-gray-500">
+          Incoming calls reach an agent during its business hours. Outside them, and on holidays, they follow the after-hours setting below.
+        </p>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700">When closed</label>
+            <select
+              value={settings.after_hours_action}
+              onChange={(e) => setSettings({ ...settings, after_hours_action: e.target.value as typeof settings.after_hours_action })}
+              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+            >
+              {AFTER_HOURS_ACTIONS.map(action => (
+                <option key={action.value} value={action.value}>{action.label}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700">After-hours agent</label>
+            <select
+              value={settings.after_hours_agent_id}
+              onChange={(e) => setSettings({ ...settings, after_hours_agent_id: e.target.value })}
+              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+            >
+              <option value="">First active agent of the After Hours type</option>
+              {afterHoursCandidates.map(agent => (
+                <option key={agent.id} value={agent.id}>{agent.name}</option>
+              ))}
+            </select>
+          </div>
+          <div className="md:col-span-2">
+            <label className="block text-sm font-medium text-gray-700">Closed message</label>
+            <textarea
+              value={settings.after_hours_message}
+              onChange={(e) => setSettings({ ...settings, after_hours_message: e.target.value })}
+              rows={2}
+              placeholder="Played before voicemail or callback capture. Leave blank to say when the agent opens again."
+              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+            />
+          </div>
+        </div>
+        <div className="flex justify-end">
+          <button
+            type="button"
+            onClick={handleSave}
+            disabled={saving}
+            className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+          >
+            {saving ? 'Saving...' : 'Save After-Hours Settings'}
+          </button>
+        </div>
+
+        <div>
+          <h4 className="text-sm font-medium text-gray-900 mb-2">Holidays</h4>
+          {holidays.length > 0 ? (
+            <ul className="divide-y divide-gray-200 border border-gray-200 rounded-md mb-3">
+              {holidays.map(holiday => (
+                <li key={holiday.id} className="flex items-center justify-between px-4 py-2 text-sm">
+                  <span>
+                    <span className="font-medium text-gray-900">{holiday.name}</span>
+                    <span className="ml-2 text-gray-500">
+                      {holiday.recurs_annually
+                        ? `${new Date(`${holiday.date}T00:00:00`).toLocaleDateString(undefined, { month: 'long', day: 'numeric' })}, every year`
+                        : new Date(`${holiday.date}T00:00:00`).toLocaleDateString()}
+                    </span>
+                  </span>
+                  <button
+                    type="button"
+                    onClick={() => handleDeleteHoliday(holiday)}
+                    className="text-red-600 hover:text-red-800"
+                    title="Remove"
+                  >
+                    <TrashIcon className="h-4 w-4" />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="text-sm text-gray-500 mb-3">No holidays yet.</p>
+          )}
+          <form onSubmit={handleAddHoliday} className="flex flex-wrap items-center gap-2">
+            <input
+              type="text"
+              value={newHoliday.name}
+              onChange={(e) => setNewHoliday({ ...newHoliday, name: e.target.value })}
+              placeholder="Holiday name"
+              className="rounded-md border-gray-300 shadow-sm sm:text-sm"
+            />
+            <input
+              type="date"
+              value={newHoliday.date}
+              onChange={(e) => setNewHoliday({ ...newHoliday, date: e.target.value })}
+              className="rounded-md border-gray-300 shadow-sm sm:text-sm"
+            />
+            <label className="flex items-center text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={newHoliday.recurs_annually}
+                onChange={(e) => setNewHoliday({ ...newHoliday, recurs_annually: e.target.checked })}
+                className="h-4 w-4 mr-1 text-blue-600 border-gray-300 rounded"
+              />
+              Every year
+            </label>
+            <button
+              type="submit"
+              disabled={!newHoliday.name.trim() || !newHoliday.date}
+              className="inline-flex items-center px-3 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+            >
+              <PlusIcon className="-ml-1 mr-1 h-4 w-4" />
+              Add Holiday
+            </button>
+          </form>
+        </div>
+
+        <div>
+          <div className="flex flex-wrap items-center justify-between gap-2 mb-2">
+            <h4 className="text-sm font-medium text-gray-900">Routing check</h4>
+            <label className="flex items-center text-sm text-gray-700">
+              Incoming call at
+              <input
+                type="datetime-local"
+                value={checkAt}
+                onChange={(e) => setCheckAt(e.target.value)}
+                className="ml-2 rounded-md border-gray-300 shadow-sm sm:text-sm"
+              />
+            </label>
+          </div>
+          {loading ? (
+            <div className="flex items-center justify-center h-16">
+              <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-500"></div>
+            </div>
+          ) : agents.length === 0 ? (
+            <p className="text-sm text-gray-500">No agents yet.</p>
+          ) : (
+            <table className="min-w-full divide-y divide-gray-200 border border-gray-200 rounded-md">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Agent</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Local time</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Call goes to</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {agents.map(agent => {
+                  const decision = InboundRoutingService.evaluate(agent, previewContext, previewAt);
+                  return (
+                    <tr key={agent.id}>
+                      <td className="px-4 py-2 text-sm text-gray-900">{agent.name}</td>
+                      <td className="px-4 py-2 text-sm text-gray-500">{decision.localTime} {decision.timezone}</td>
+                      <td className="px-4 py-2 text-sm">
+                        <span className={`inline-flex px-2 py-0.5 text-xs font-medium rounded-full ${STATUS_STYLES[decision.status]}`}>
+                          {decision.status === 'holiday' ? decision.holiday?.name : decision.status === 'open' ? 'Open' : 'Closed'}
+                        </span>
+                        {decision.nextOpenAt && (
+                          <span className="block text-xs text-gray-500">
+                            Opens {InboundRoutingService.formatNextOpening(decision.nextOpenAt, decision.timezone)}
+                          </span>
+                        )}
+                      </td>
+                      <td className="px-4 py-2 text-sm text-gray-700">
+                        {describeRoute(decision)}
+                        <span className="block text-xs text-gray-500">{decision.reason}</span>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -16,6 +16,9 @@ import {
   CreditCardIcon,
   UsersIcon,
   SignalIcon,
+  PhoneArrowUpRightIcon,
+  FunnelIcon,
+  ClockIcon,
 } from '@heroicons/react/24/outline';
 import { useAuth } from '../hooks/useAuth';
 import { usePermissions } from '../hooks/usePermissions';
@@ -31,6 +34,9 @@ const navigation = [
   { name: 'Campaigns', href: '/campaigns', icon: MegaphoneIcon, permission: 'campaigns' },
   { name: 'Enhanced Dashboard', href: '/enhanced-dashboard', icon: HomeIcon, permission: 'dashboard' },
   { name: 'Enhanced Campaigns', href: '/enhanced-campaigns', icon: MegaphoneIcon, permission: 'campaigns' },
+  { name: 'Caller IDs', href: '/caller-ids', icon: PhoneArrowUpRightIcon, permission: 'campaigns' },
+  { name: 'Segments', href: '/segments', icon: FunnelIcon, permission: 'campaigns' },
+  { name: 'Callbacks', href: '/callbacks', icon: ClockIcon, permission: 'campaigns' },
   { name: 'DNC List', href: '/dnc', icon: ShieldExclamationIcon, permission: 'dnc' },
   { name: 'Webhooks', href: '/webhooks', icon: LinkIcon, permission: 'webhooks' },
   { name: 'Billing', href: '/billing', icon: CreditCardIcon, permission: 'billing' },
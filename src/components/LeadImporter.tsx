@@ -0,0 +1,252 @@
+import { useEffect, useMemo, useState } from 'react';
+import { DocumentArrowUpIcon, ExclamationTriangleIcon } from '@heroicons/react/24/outline';
+import { LEAD_IMPORT_FIELDS, LeadImportService } from '../services/lead-import';
+import type { ColumnMapping, ColumnTarget, DuplicateOptions, DuplicatePolicy, LeadImportRow, ParsedSheet } from '../services/lead-import';
+import toast from 'react-hot-toast';
+
+interface LeadImporterProps {
+  onRowsChange: (rows: LeadImportRow[]) => void
+  duplicateOptions: DuplicateOptions
+  onDuplicateOptionsChange: (options: DuplicateOptions) => void
+}
+
+export default function LeadImporter({ onRowsChange, duplicateOptions, onDuplicateOptionsChange }: LeadImporterProps) {
+  const [fileName, setFileName] = useState('');
+  const [sheet, setSheet] = useState<ParsedSheet | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping>([]);
+  const [parsing, setParsing] = useState(false);
+
+  const preview = useMemo(
+    () => (sheet ? LeadImportService.buildPreview(sheet, mapping) : null),
+    [sheet, mapping]
+  );
+
+  useEffect(() => {
+    onRowsChange(preview?.rows || []);
+  }, [preview, onRowsChange]);
+
+  const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    setParsing(true);
+    try {
+      const parsed = await LeadImportService.readFile(file);
+      setFileName(file.name);
+      setSheet(parsed);
+      setMapping(LeadImportService.suggestMapping(parsed.headers));
+      toast.success(`Read ${parsed.rows.length} rows from ${file.name}`);
+    } catch (error) {
+      console.error('Error reading lead file:', error);
+      toast.error('Could not read the file. Please upload a CSV or XLSX file.');
+    } finally {
+      setParsing(false);
+    }
+  };
+
+  // A lead field can only come from one column; the previous column falls back to custom_fields
+  const updateMapping = (columnIndex: number, target: ColumnTarget) => {
+    setMapping(prev => prev.map((current, index) => {
+      if (index === columnIndex) return target;
+      if (target !== 'custom_field' && target !== 'ignore' && current === target) return 'custom_field';
+      return current;
+    }));
+  };
+
+  const downloadCSVTemplate = () => {
+    const csvContent = [
+      'phone_number,first_name,last_name,email,company',
+      '+1234567890,John,Doe,john.doe@example.com,Acme Corp',
+      '+1234567891,Jane,Smith,jane.smith@example.com,Tech Solutions',
+      '+1234567892,Bob,Johnson,bob.johnson@example.com,"Marketing, Inc"'
+    ].join('\n');
+
+    const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
+    const link = document.createElement('a');
+    const url = URL.createObjectURL(blob);
+    link.setAttribute('href', url);
+    link.setAttribute('download', 'campaign_leads_template.csv');
+    link.style.visibility = 'hidden';
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+
+    toast.success('CSV template downloaded!');
+  };
+
+  const phoneMapped = mapping.includes('phone_number');
+  const invalidRows = preview?.rows.filter(row => row.errors.length > 0) || [];
+
+  return (
+    <div className="space-y-6">
+      {/* File Upload */}
+      <div className="border-2 border-dashed border-gray-300 rounded-lg p-6 text-center">
+        <DocumentArrowUpIcon className="mx-auto h-12 w-12 text-gray-400" />
+        <div className="mt-4">
+          <label htmlFor="lead-upload" className="cursor-pointer">
+            <span className="mt-2 block text-sm font-medium text-gray-900">
+              {fileName ? `Loaded ${fileName}` : 'Upload a CSV or Excel (.xlsx) file with leads'}
+            </span>
+            <span className="mt-1 block text-sm text-gray-500">
+              You can map your columns to lead fields in the next step
+            </span>
+          </label>
+          <input
+            id="lead-upload"
+            type="file"
+            accept=".csv,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+            onChange={handleFileUpload}
+            className="hidden"
+          />
+          <div className="mt-3 flex items-center justify-center space-x-3">
+            <button
+              type="button"
+              disabled={parsing}
+              onClick={() => document.getElementById('lead-upload')?.click()}
+              className="inline-flex items-center px-4 py-2 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+            >
+              {parsing ? 'Reading...' : fileName ? 'Choose Another File' : 'Choose File'}
+            </button>
+            <span className="text-gray-400">or</span>
+            <button
+              type="button"
+              onClick={downloadCSVTemplate}
+              className="inline-flex items-center px-4 py-2 border border-blue-300 shadow-sm text-sm font-medium rounded-md text-blue-700 bg-blue-50 hover:bg-blue-100"
+            >
+              Download Template
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {/* Column Mapping */}
+      {sheet && (
+        <div>
+          <h5 className="text-md font-medium text-gray-900 mb-3">Map Columns</h5>
+          <div className="border border-gray-200 rounded-md divide-y divide-gray-200">
+            {sheet.headers.map((header, index) => (
+              <div key={index} className="flex items-center justify-between px-3 py-2">
+                <div className="min-w-0">
+                  <div className="text-sm font-medium text-gray-900 truncate">{header}</div>
+                  <div className="text-xs text-gray-500 truncate">
+                    e.g. {sheet.rows.find(row => row[index])?.[index] || '(empty)'}
+                  </div>
+                </div>
+                <select
+                  value={mapping[index]}
+                  onChange={(e) => updateMapping(index, e.target.value as ColumnTarget)}
+                  className="ml-4 w-48 border border-gray-300 rounded-md px-2 py-1 text-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                >
+                  {LEAD_IMPORT_FIELDS.map(({ field, label, required }) => (
+                    <option key={field} value={field}>{label}{required ? ' *' : ''}</option>
+                  ))}
+                  <option value="custom_field">Custom field</option>
+                  <option value="ignore">Don't import</option>
+                </select>
+              </div>
+            ))}
+          </div>
+          {!phoneMapped && (
+            <p className="mt-2 text-sm text-red-600">Map one column to Phone Number to import leads.</p>
+          )}
+        </div>
+      )}
+
+      {/* Validation Preview */}
+      {preview && preview.rows.length > 0 && (
+        <div>
+          <div className="flex items-center justify-between mb-3">
+            <h5 className="text-md font-medium text-gray-900">Preview</h5>
+            <div className="text-sm">
+              <span className="text-green-600">{preview.validCount} ready</span>
+              {preview.duplicateCount > 0 && (
+                <span className="ml-3 text-yellow-600">{preview.duplicateCount} repeated numbers</span>
+              )}
+              {preview.errorCount > 0 && (
+                <span className="ml-3 text-red-600">{preview.errorCount} with errors (skipped)</span>
+              )}
+            </div>
+          </div>
+          <div className="max-h-60 overflow-y-auto border border-gray-200 rounded-md">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Row</th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Phone</th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Name</th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Email</th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Company</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {preview.rows.slice(0, 10).map((row) => (
+                  <tr key={row.rowNumber} className={row.errors.length > 0 ? 'bg-red-50' : row.duplicateOfRow ? 'bg-yellow-50' : ''}>
+                    <td className="px-3 py-2 text-sm text-gray-500" title={row.duplicateOfRow ? `Same number as row ${row.duplicateOfRow}` : undefined}>
+                      {row.rowNumber}
+                    </td>
+                    <td className="px-3 py-2 text-sm text-gray-900">{row.lead.phone_number}</td>
+                    <td className="px-3 py-2 text-sm text-gray-900">
+                      {row.lead.first_name} {row.lead.last_name}
+                    </td>
+                    <td className="px-3 py-2 text-sm text-gray-900">{row.lead.email}</td>
+                    <td className="px-3 py-2 text-sm text-gray-900">{row.lead.company}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {preview.rows.length > 10 && (
+              <div className="px-3 py-2 text-sm text-gray-500 bg-gray-50">
+                ... and {preview.rows.length - 10} more rows
+              </div>
+            )}
+          </div>
+
+          {/* Duplicate Handling */}
+          <div className="mt-4 grid grid-cols-1 gap-4 sm:grid-cols-2">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                When a number already exists
+              </label>
+              <select
+                value={duplicateOptions.policy}
+                onChange={(e) => onDuplicateOptionsChange({ ...duplicateOptions, policy: e.target.value as DuplicatePolicy })}
+                className="w-full border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+              >
+                <option value="skip">Skip the new row</option>
+                <option value="update">Update the existing lead's fields</option>
+                <option value="keep_newest">Keep the newest record</option>
+              </select>
+            </div>
+            <label className="flex items-center text-sm text-gray-700 sm:mt-6">
+              <input
+                type="checkbox"
+                checked={duplicateOptions.acrossCampaigns}
+                onChange={(e) => onDuplicateOptionsChange({ ...duplicateOptions, acrossCampaigns: e.target.checked })}
+                className="h-4 w-4 text-blue-600 border-gray-300 rounded mr-2"
+              />
+              Skip numbers already in my other campaigns
+            </label>
+          </div>
+
+          {invalidRows.length > 0 && (
+            <div className="mt-4 rounded-md bg-red-50 border border-red-200 p-3">
+              <div className="flex items-center text-sm font-medium text-red-800">
+                <ExclamationTriangleIcon className="h-4 w-4 mr-2" />
+                Rows that will not be imported
+              </div>
+              <ul className="mt-2 max-h-40 overflow-y-auto text-sm text-red-700 space-y-1">
+                {invalidRows.slice(0, 50).map(row => (
+                  <li key={row.rowNumber}>Row {row.rowNumber}: {row.errors.join('; ')}</li>
+                ))}
+              </ul>
+              {invalidRows.length > 50 && (
+                <p className="mt-1 text-xs text-red-600">... and {invalidRows.length - 50} more</p>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
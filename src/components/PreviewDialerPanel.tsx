@@ -0,0 +1,103 @@
+import { useEffect, useState } from 'react';
+import { ArrowPathIcon, ForwardIcon, PhoneIcon } from '@heroicons/react/24/outline';
+import { useUser } from '../contexts/UserContext';
+import { DatabaseService } from '../services/database';
+import type { Campaign, CampaignLead, DialerCommand } from '../lib/supabase';
+import toast from 'react-hot-toast';
+
+interface PreviewDialerPanelProps {
+  campaign: Campaign
+}
+
+// Preview-mode campaigns only dial the lead the dialer worker offers once someone picks it
+export default function PreviewDialerPanel({ campaign }: PreviewDialerPanelProps) {
+  const { user } = useUser();
+  const [lead, setLead] = useState<CampaignLead | null>(null);
+  // The offered lead a decision was sent for; cleared when the worker offers the next one
+  const [decidedLeadId, setDecidedLeadId] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadLead();
+  }, [campaign.preview_lead_id]);
+
+  const loadLead = async () => {
+    if (!campaign.preview_lead_id) {
+      setLead(null);
+      return;
+    }
+
+    try {
+      setLead(await DatabaseService.getCampaignLead(campaign.preview_lead_id));
+    } catch (error) {
+      console.error('Error loading preview lead:', error);
+    }
+  };
+
+  const sendCommand = async (command: DialerCommand['command'], leadId?: string) => {
+    if (!user) return;
+
+    try {
+      if (leadId) setDecidedLeadId(leadId);
+      await DatabaseService.sendDialerCommand(user.id, campaign.id, command, leadId);
+    } catch (error) {
+      console.error('Error sending preview command:', error);
+      toast.error('Failed to reach the dialer');
+      setDecidedLeadId(null);
+    }
+  };
+
+  const name = lead ? [lead.first_name, lead.last_name].filter(Boolean).join(' ') || lead.phone_number : '';
+  const decided = !!lead && decidedLeadId === lead.id;
+
+  return (
+    <div className="mt-4 rounded-md border border-blue-200 bg-blue-50 p-3">
+      <div className="flex items-center justify-between">
+        <p className="text-sm font-medium text-blue-900">Next lead</p>
+        <button
+          onClick={() => sendCommand('preview_next')}
+          className="text-blue-600 hover:text-blue-800"
+          title="Ask the dialer for the next lead"
+        >
+          <ArrowPathIcon className="h-4 w-4" />
+        </button>
+      </div>
+
+      {lead ? (
+        <>
+          <div className="mt-2 text-sm">
+            <p className="font-medium text-gray-900">{name}</p>
+            <p className="font-mono text-gray-700">{lead.phone_number}</p>
+            {lead.company && <p className="text-gray-600">{lead.company}</p>}
+            <p className="text-xs text-gray-500">
+              {lead.call_attempts} previous attempt{lead.call_attempts === 1 ? '' : 's'}
+              {lead.outcome && ` · last outcome ${lead.outcome.replace(/_/g, ' ')}`}
+            </p>
+            {lead.notes && <p className="mt-1 text-xs text-gray-600 line-clamp-2">{lead.notes}</p>}
+          </div>
+          <div className="mt-3 flex space-x-2">
+            <button
+              onClick={() => sendCommand('preview_dial', lead.id)}
+              disabled={decided}
+              className="flex-1 bg-green-600 text-white text-sm font-medium py-2 px-3 rounded-md hover:bg-green-700 disabled:opacity-50 transition-colors"
+            >
+              <PhoneIcon className="h-4 w-4 inline mr-1" />
+              Dial
+            </button>
+            <button
+              onClick={() => sendCommand('preview_skip', lead.id)}
+              disabled={decided}
+              className="flex-1 bg-white text-gray-700 text-sm font-medium py-2 px-3 rounded-md border border-gray-300 hover:bg-gray-50 disabled:opacity-50 transition-colors"
+            >
+              <ForwardIcon className="h-4 w-4 inline mr-1" />
+              Skip
+            </button>
+          </div>
+        </>
+      ) : (
+        <p className="mt-2 text-sm text-blue-800">
+          No lead can be called right now. Leads appear here while they are inside their calling window.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,124 @@
+import { useState } from 'react';
+import { CallbackService } from '../services/callbacks';
+import { getLocalDateParts } from '../services/calling-windows';
+import type { Campaign, CampaignLead, LeadCallback } from '../lib/supabase';
+import toast from 'react-hot-toast';
+
+interface ScheduleCallbackModalProps {
+  lead: CampaignLead
+  campaign: Pick<Campaign, 'id' | 'profile_id' | 'timezone'>
+  callId?: string // call in which the lead asked for it
+  existing?: LeadCallback // rescheduling keeps its notes
+  onClose: () => void
+  onScheduled?: (callback: LeadCallback) => void
+}
+
+// Schedules (or reschedules) a callback at a time in the lead's timezone
+export default function ScheduleCallbackModal({ lead, campaign, callId, existing, onClose, onScheduled }: ScheduleCallbackModalProps) {
+  const timezone = existing?.timezone || CallbackService.getLeadTimezone(lead, campaign.timezone);
+  const leadNow = getLocalDateParts(timezone);
+  const [date, setDate] = useState(leadNow.date);
+  const [time, setTime] = useState('');
+  const [notes, setNotes] = useState(existing?.notes || '');
+  const [saving, setSaving] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    setSaving(true);
+    try {
+      const callback = await CallbackService.scheduleCallback({
+        lead,
+        campaign,
+        date,
+        time,
+        timezone,
+        notes,
+        requestedBy: 'user',
+        callId
+      });
+      toast.success(`Callback scheduled for ${CallbackService.formatLocalTime(callback.scheduled_at, timezone)}`);
+      onScheduled?.(callback);
+      onClose();
+    } catch (error) {
+      console.error('Error scheduling callback:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to schedule callback');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const name = [lead.first_name, lead.last_name].filter(Boolean).join(' ') || lead.phone_number;
+
+  return (
+    <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
+      <div className="relative top-20 mx-auto p-5 border w-11/12 max-w-md shadow-lg rounded-md bg-white">
+        <div className="mt-3">
+          <h3 className="text-lg font-medium text-gray-900 mb-1">
+            {existing ? 'Reschedule Callback' : 'Schedule Callback'}
+          </h3>
+          <p className="text-sm text-gray-500 mb-4">
+            {name} · their time is {leadNow.time} ({timezone})
+          </p>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Date</label>
+                <input
+                  type="date"
+                  required
+                  min={leadNow.date}
+                  value={date}
+                  onChange={(e) => setDate(e.target.value)}
+                  className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Time (their time)</label>
+                <input
+                  type="time"
+                  required
+                  value={time}
+                  onChange={(e) => setTime(e.target.value)}
+                  className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500"
+                />
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Notes (Optional)</label>
+              <textarea
+                rows={2}
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                placeholder="Wants pricing for the team plan"
+                className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500"
+              />
+            </div>
+
+            <p className="text-xs text-gray-500">
+              The dialer calls the lead at this time ahead of other leads, even outside the campaign's calling hours. Legal calling hours still apply.
+            </p>
+
+            <div className="flex justify-end space-x-3 pt-4">
+              <button
+                type="button"
+                onClick={onClose}
+                className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={saving || !time}
+                className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+              >
+                {saving ? 'Scheduling...' : 'Schedule'}
+              </button>
+            </div>
+          </form>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,129 @@
+import { useEffect, useState } from 'react';
+import { TrophyIcon, XMarkIcon } from '@heroicons/react/24/outline';
+import { CampaignVariantService, MIN_VARIANT_SAMPLE } from '../services/campaign-variants';
+import type { SignificanceResult, VariantComparison as Comparison, VariantMetric, VariantResult } from '../services/campaign-variants';
+import type { Campaign } from '../lib/supabase';
+
+interface VariantComparisonProps {
+  campaign: Campaign
+  onClose: () => void
+}
+
+const METRICS: Array<{ key: VariantMetric; label: string; count: (r: VariantResult) => string }> = [
+  { key: 'answerRate', label: 'Answer Rate', count: r => `${r.answered}/${r.leads} leads` },
+  { key: 'appointmentRate', label: 'Appointment Rate', count: r => `${r.appointments}/${r.answered} answered` },
+  { key: 'conversionRate', label: 'Conversion Rate', count: r => `${r.conversions}/${r.answered} answered` }
+];
+
+function SignificanceBadge({ result }: { result: SignificanceResult }) {
+  if (result.pValue === null) {
+    return <span className="text-xs text-gray-400">Not enough data</span>;
+  }
+
+  const lift = result.lift !== null ? `${result.lift >= 0 ? '+' : ''}${result.lift.toFixed(1)}% ` : '';
+  return (
+    <span className={`inline-flex px-2 py-0.5 text-xs font-medium rounded-full ${
+      result.significant ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-700'
+    }`}>
+      {lift}{result.significant ? 'significant' : 'not significant'} (p={result.pValue.toFixed(3)})
+    </span>
+  );
+}
+
+export default function VariantComparison({ campaign, onClose }: VariantComparisonProps) {
+  const [comparison, setComparison] = useState<Comparison | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    setLoading(true);
+    CampaignVariantService.getVariantComparison(campaign)
+      .then(setComparison)
+      .finally(() => setLoading(false));
+  }, [campaign]);
+
+  const winner = comparison?.winner
+    ? comparison.results.find(result => result.variant.id === comparison.winner?.variantId)
+    : undefined;
+
+  return (
+    <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
+      <div className="relative top-10 mx-auto p-5 border w-11/12 max-w-5xl shadow-lg rounded-md bg-white">
+        <div className="flex items-center justify-between mb-4">
+          <div>
+            <h3 className="text-lg font-medium text-gray-900">A/B Test: {campaign.name}</h3>
+            <p className="text-sm text-gray-500">
+              Each variant is compared with the control. Results are significant at p &lt; 0.05, with at least {MIN_VARIANT_SAMPLE} leads on each side.
+            </p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <XMarkIcon className="h-6 w-6" />
+          </button>
+        </div>
+
+        {loading ? (
+          <div className="flex items-center justify-center h-32">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-500"></div>
+          </div>
+        ) : !comparison || comparison.results.length === 0 ? (
+          <p className="text-sm text-gray-500 py-8 text-center">This campaign has no variants.</p>
+        ) : (
+          <div className="space-y-4">
+            {winner ? (
+              <div className="flex items-center p-3 rounded-md bg-green-50 border border-green-200 text-sm text-green-800">
+                <TrophyIcon className="h-5 w-5 mr-2" />
+                <span>
+                  <strong>{winner.variant.name}</strong> is the winner on{' '}
+                  {METRICS.find(metric => metric.key === comparison.winner?.metric)?.label.toLowerCase()}.
+                </span>
+              </div>
+            ) : (
+              <div className="p-3 rounded-md bg-gray-50 border border-gray-200 text-sm text-gray-600">
+                No variant is significantly better than all the others yet. Keep the test running.
+              </div>
+            )}
+
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Variant</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Calls</th>
+                    {METRICS.map(metric => (
+                      <th key={metric.key} className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        {metric.label}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {comparison.results.map(result => (
+                    <tr key={result.variant.id} className={result.variant.id === winner?.variant.id ? 'bg-green-50' : ''}>
+                      <td className="px-4 py-3 text-sm">
+                        <div className="font-medium text-gray-900">{result.variant.name}</div>
+                        <div className="text-xs text-gray-500">
+                          {result.isControl ? 'Control' : `Weight ${result.variant.weight}`}
+                        </div>
+                      </td>
+                      <td className="px-4 py-3 text-sm text-gray-900">{result.calls}</td>
+                      {METRICS.map(metric => (
+                        <td key={metric.key} className="px-4 py-3 text-sm">
+                          <div className="font-semibold text-gray-900">{result[metric.key].toFixed(1)}%</div>
+                          <div className="text-xs text-gray-500">{metric.count(result)}</div>
+                          {!result.isControl && (
+                            <div className="mt-1">
+                              <SignificanceBadge result={result.significance[metric.key]} />
+                            </div>
+                          )}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
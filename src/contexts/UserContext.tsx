@@ -1,6 +1,7 @@
 import React, { createContext, useContext, useState, useEffect } from 'react';
 import type { Profile } from '../lib/supabase';
 import { DatabaseService } from '../services/database';
+import { setDefaultPhoneCountry } from '../lib/phoneNumbers';
 import { useAuth } from '../hooks/useAuth';
 import toast from 'react-hot-toast';
 
@@ -28,6 +29,7 @@ export function UserProvider({ children }: { children: React.ReactNode }) {
     try {
       setLoading(true);
       const profile = await DatabaseService.getProfile(authUser.id);
+      setDefaultPhoneCountry(profile?.default_country);
       setUser(profile);
     } catch (error) {
       console.error('Error loading user profile:', error);
@@ -52,6 +54,7 @@ export function UserProvider({ children }: { children: React.ReactNode }) {
       const updatedProfile = await DatabaseService.updateProfile(authUser.id, updates);
       
       if (updatedProfile) {
+        setDefaultPhoneCountry(updatedProfile.default_country);
         setUser(updatedProfile);
         toast.success('Profile updated successfully');
       } else {
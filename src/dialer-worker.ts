@@ -0,0 +1,34 @@
+import { DialerWorker } from './services/dialer-worker';
+import { SimulatedTelephonyProvider, TwilioTelephonyProvider } from './services/telephony';
+import type { TelephonyProvider } from './services/telephony';
+
+// Entry point of the headless dialer worker (npm run worker)
+const env = process.env;
+
+// Status callbacks are relayed into each profile's webhook_events, so every profile gets its own provider
+const providerFor = (profileId: string): TelephonyProvider => env.TWILIO_ACCOUNT_SID && env.TWILIO_AUTH_TOKEN
+  ? new TwilioTelephonyProvider({
+    accountSid: env.TWILIO_ACCOUNT_SID,
+    authToken: env.TWILIO_AUTH_TOKEN,
+    twimlUrl: env.TWILIO_TWIML_URL || '',
+    statusCallbackUrl: env.TWILIO_STATUS_CALLBACK_URL || '',
+    profileId
+  })
+  : new SimulatedTelephonyProvider();
+
+const worker = new DialerWorker(env.DIALER_WORKER_ID || undefined, providerFor, {
+  pollIntervalMs: env.DIALER_POLL_INTERVAL_MS ? parseInt(env.DIALER_POLL_INTERVAL_MS, 10) : undefined
+});
+
+const shutdown = async () => {
+  await worker.shutdown();
+  process.exit(0);
+};
+
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
+
+worker.start().catch(error => {
+  console.error('Dialer worker failed to start:', error);
+  process.exit(1);
+});
@@ -166,6 +166,9 @@ export function usePermissions() {
       '/billing': 'billing',
       '/settings': 'settings',
       '/webhooks': 'webhooks',
+      '/caller-ids': 'campaigns',
+      '/segments': 'campaigns',
+      '/callbacks': 'campaigns',
       '/dnc': 'dnc',
       '/status': 'status'
     };
@@ -0,0 +1,24 @@
+import type { CampaignLead } from './supabase';
+
+// {{field}} or {{field|fallback}}; custom fields are looked up by name after the standard ones
+const MERGE_FIELD_PATTERN = /\{\{\s*([\w.]+)\s*(?:\|([^}]*))?\}\}/g;
+
+export function mergeLeadFields(template: string, lead?: Partial<CampaignLead>): string {
+  return template
+    .replace(MERGE_FIELD_PATTERN, (_match, field: string, fallback?: string) => {
+      const name = field.startsWith('custom_fields.') ? field.slice('custom_fields.'.length) : field;
+      const value = lead?.[name as keyof CampaignLead] ?? lead?.custom_fields?.[name];
+      const text = value === undefined || value === null || typeof value === 'object' ? '' : String(value).trim();
+      return text || (fallback ?? '').trim();
+    })
+    // Tidy the gaps left by empty fields
+    .replace(/\s{2,}/g, ' ')
+    .replace(/\s+([,.!?;:])/g, '$1')
+    .trim();
+}
+
+// Names of the fields a template uses, in order of first use
+export function getMergeFieldNames(template: string): string[] {
+  const names = Array.from(template.matchAll(MERGE_FIELD_PATTERN), match => match[1].replace(/^custom_fields\./, ''));
+  return Array.from(new Set(names));
+}
@@ -0,0 +1,171 @@
+// Streams that never hold page text
+const SKIPPED_STREAM_TYPES = /\/(Image|XRef|ObjStm|Metadata|EmbeddedFile)\b|\/Length[123]\b/;
+
+async function inflate(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+// PDF literal string body, from just after "(" up to its matching ")"
+function readLiteral(content: string, start: number): { text: string; end: number } {
+  let text = '';
+  let depth = 1;
+  let i = start;
+  while (i < content.length) {
+    const char = content[i];
+    if (char === '\\') {
+      const next = content[i + 1];
+      const escapes: Record<string, string> = { n: '\n', r: '\r', t: '\t', b: '', f: '', '(': '(', ')': ')', '\\': '\\' };
+      if (next in escapes) {
+        text += escapes[next];
+        i += 2;
+      } else if (/[0-7]/.test(next)) {
+        const octal = content.slice(i + 1, i + 4).match(/^[0-7]{1,3}/)![0];
+        text += String.fromCharCode(parseInt(octal, 8));
+        i += 1 + octal.length;
+      } else {
+        // Escaped line break continues the string
+        i += next === '\r' && content[i + 2] === '\n' ? 3 : 2;
+      }
+      continue;
+    }
+    if (char === '(') depth++;
+    if (char === ')' && --depth === 0) break;
+    text += char;
+    i++;
+  }
+  return { text, end: i + 1 };
+}
+
+function readHex(content: string, start: number): { text: string; end: number } {
+  const end = content.indexOf('>', start);
+  const hex = content.slice(start, end === -1 ? content.length : end).replace(/\s+/g, '');
+  let text = '';
+  for (let i = 0; i < hex.length; i += 2) {
+    text += String.fromCharCode(parseInt(hex.slice(i, i + 2).padEnd(2, '0'), 16));
+  }
+  return { text, end: end === -1 ? content.length : end + 1 };
+}
+
+// Text shown between BT and ET in a content stream, one line per text line
+function contentStreamText(content: string): string {
+  let output = '';
+  const operands: Array<string | number> = [];
+  let array: Array<string | number> | null = null;
+  let i = 0;
+
+  const push = (value: string | number) => (array ? array.push(value) : operands.push(value));
+
+  while (i < content.length) {
+    const char = content[i];
+    if (char === '(') {
+      const literal = readLiteral(content, i + 1);
+      push(literal.text);
+      i = literal.end;
+    } else if ((char === '<' || char === '>') && content[i + 1] === char) {
+      // Dictionary delimiters
+      i += 2;
+    } else if (char === '<') {
+      const hex = readHex(content, i + 1);
+      push(hex.text);
+      i = hex.end;
+    } else if (char === '[') {
+      array = [];
+      i++;
+    } else if (char === ']') {
+      operands.push(array ? array.map(item => (typeof item === 'number' ? (item < -200 ? ' ' : '') : item)).join('') : '');
+      array = null;
+      i++;
+    } else if (char === '%') {
+      while (i < content.length && content[i] !== '\n' && content[i] !== '\r') i++;
+    } else if (/[-+.\d]/.test(char)) {
+      const number = content.slice(i).match(/^[-+]?\d*\.?\d+/);
+      if (number) {
+        push(parseFloat(number[0]));
+        i += number[0].length;
+      } else {
+        i++;
+      }
+    } else if (/[A-Za-z'"*]/.test(char)) {
+      const operator = content.slice(i).match(/^[A-Za-z'"*]+/)![0];
+      i += operator.length;
+
+      const last = operands[operands.length - 1];
+      if (operator === 'Tj' || operator === 'TJ') {
+        if (typeof last === 'string') output += last;
+      } else if (operator === "'" || operator === '"') {
+        output += '\n' + (typeof last === 'string' ? last : '');
+      } else if (operator === 'T*' || operator === 'TD' || operator === 'Tm' || operator === 'ET') {
+        output += '\n';
+      } else if (operator === 'Td') {
+        output += typeof last === 'number' && last !== 0 ? '\n' : ' ';
+      }
+      operands.length = 0;
+    } else {
+      i++;
+    }
+  }
+
+  return output;
+}
+
+/**
+ * Text of a PDF's content streams, read without a PDF library. Covers text drawn with the standard
+ * font encodings; text in fonts with custom encodings (common with embedded CID fonts) does not come
+ * out readable and is dropped.
+ */
+export async function extractPdfText(bytes: Uint8Array): Promise<string> {
+  const source = new TextDecoder('latin1').decode(bytes);
+  if (!source.startsWith('%PDF')) {
+    throw new Error('Not a valid PDF file');
+  }
+
+  const texts: string[] = [];
+  const streamPattern = /stream\r?\n/g;
+  let match: RegExpExecArray | null;
+  while ((match = streamPattern.exec(source))) {
+    // The stream dictionary ends right before the keyword
+    const dictionaryEnd = source.lastIndexOf('>>', match.index);
+    const dictionaryStart = source.lastIndexOf(' obj', dictionaryEnd);
+    if (dictionaryEnd === -1 || source.slice(dictionaryEnd + 2, match.index).trim() !== '') continue;
+
+    const dictionary = source.slice(Math.max(0, dictionaryStart), dictionaryEnd);
+    const dataStart = match.index + match[0].length;
+    const endKeyword = source.indexOf('endstream', dataStart);
+    if (endKeyword === -1) break;
+    streamPattern.lastIndex = endKeyword;
+
+    // A direct /Length is exact; otherwise drop the line break before the keyword
+    const length = dictionary.match(/\/Length\s+(\d+)\b(?!\s+\d+\s+R)/);
+    let dataEnd = length ? Math.min(endKeyword, dataStart + parseInt(length[1], 10)) : endKeyword;
+    if (!length) {
+      while (dataEnd > dataStart && (source[dataEnd - 1] === '\n' || source[dataEnd - 1] === '\r')) dataEnd--;
+    }
+
+    if (SKIPPED_STREAM_TYPES.test(dictionary)) continue;
+
+    const filters = dictionary.match(/\/Filter\s*(\[[^\]]*\]|\/\w+)/)?.[1] || '';
+    if (filters && filters.replace(/\/FlateDecode|[[\]\s]/g, '') !== '') continue; // images and other encodings
+
+    let data = bytes.subarray(dataStart, dataEnd);
+    try {
+      if (filters.includes('FlateDecode')) {
+        data = await inflate(data);
+      }
+    } catch {
+      continue;
+    }
+
+    const content = new TextDecoder('latin1').decode(data);
+    if (!/\bBT\b/.test(content)) continue;
+    texts.push(contentStreamText(content));
+  }
+
+  return texts
+    .join('\n\n')
+    .split('\n')
+    .map(line => line.replace(/[^\S\n]+/g, ' ').trim())
+    // Lines of control characters are text in an encoding we cannot read
+    .filter(line => line && !Array.from(line).some(char => char.charCodeAt(0) < 32 && char !== '\t'))
+    .join('\n');
+}
@@ -0,0 +1,204 @@
+import type { CampaignLead } from './supabase';
+
+// E.164 normalization and numbering-plan classification.
+// Numbers without a country code are read in the profile's default country.
+
+// 'fixed_line_or_mobile' where the plan (e.g. NANP) does not separate mobile ranges
+export type PhoneLineType = NonNullable<CampaignLead['line_type']>
+
+export interface ParsedPhoneNumber {
+  e164: string
+  country: string | null // ISO 3166-1 alpha-2, null when the calling code is shared or unknown
+  countryCallingCode: string
+  nationalNumber: string
+  lineType: PhoneLineType
+}
+
+interface CountryPlan {
+  callingCode: string
+  trunkPrefix?: string
+  nationalLength: [number, number]
+  lineTypes: [RegExp, PhoneLineType][]
+}
+
+const NANP_LINE_TYPES: [RegExp, PhoneLineType][] = [
+  [/^8(00|33|44|55|66|77|88)/, 'toll_free'],
+  [/^900/, 'premium_rate'],
+  [/^5(00|2[1-9]|33|44|66|77|88)/, 'personal'],
+  [/^[2-9]\d{2}[2-9]/, 'fixed_line_or_mobile']
+];
+
+export const COUNTRY_PLANS: Record<string, CountryPlan> = {
+  US: { callingCode: '1', nationalLength: [10, 10], lineTypes: NANP_LINE_TYPES },
+  CA: { callingCode: '1', nationalLength: [10, 10], lineTypes: NANP_LINE_TYPES },
+  GB: {
+    callingCode: '44',
+    trunkPrefix: '0',
+    nationalLength: [9, 10],
+    lineTypes: [[/^7[1-57-9]/, 'mobile'], [/^70/, 'personal'], [/^80/, 'toll_free'], [/^9/, 'premium_rate'], [/^8[47]/, 'shared_cost'], [/^[123]/, 'fixed_line']]
+  },
+  IE: {
+    callingCode: '353',
+    trunkPrefix: '0',
+    nationalLength: [7, 9],
+    lineTypes: [[/^8[3-9]/, 'mobile'], [/^1800/, 'toll_free'], [/^15/, 'premium_rate'], [/^[1-9]/, 'fixed_line']]
+  },
+  AU: {
+    callingCode: '61',
+    trunkPrefix: '0',
+    nationalLength: [9, 9],
+    lineTypes: [[/^4/, 'mobile'], [/^180/, 'toll_free'], [/^19/, 'premium_rate'], [/^13/, 'shared_cost'], [/^[2378]/, 'fixed_line']]
+  },
+  NZ: {
+    callingCode: '64',
+    trunkPrefix: '0',
+    nationalLength: [8, 10],
+    lineTypes: [[/^2/, 'mobile'], [/^80/, 'toll_free'], [/^900/, 'premium_rate'], [/^[34679]/, 'fixed_line']]
+  },
+  DE: {
+    callingCode: '49',
+    trunkPrefix: '0',
+    nationalLength: [6, 11],
+    lineTypes: [[/^1[5-7]/, 'mobile'], [/^800/, 'toll_free'], [/^900/, 'premium_rate'], [/^[2-9]/, 'fixed_line']]
+  },
+  FR: {
+    callingCode: '33',
+    trunkPrefix: '0',
+    nationalLength: [9, 9],
+    lineTypes: [[/^[67]/, 'mobile'], [/^80/, 'toll_free'], [/^8[1-2]/, 'shared_cost'], [/^89/, 'premium_rate'], [/^[1-59]/, 'fixed_line']]
+  },
+  ES: {
+    callingCode: '34',
+    nationalLength: [9, 9],
+    lineTypes: [[/^[67]/, 'mobile'], [/^90[09]/, 'toll_free'], [/^80[367]/, 'premium_rate'], [/^[89]/, 'fixed_line']]
+  },
+  MX: {
+    callingCode: '52',
+    nationalLength: [10, 10],
+    lineTypes: [[/^800/, 'toll_free'], [/^900/, 'premium_rate'], [/^[1-9]/, 'fixed_line_or_mobile']]
+  },
+  IN: {
+    callingCode: '91',
+    trunkPrefix: '0',
+    nationalLength: [10, 10],
+    lineTypes: [[/^[6-9]/, 'mobile'], [/^1800/, 'toll_free'], [/^[1-5]/, 'fixed_line']]
+  },
+  PH: {
+    callingCode: '63',
+    trunkPrefix: '0',
+    nationalLength: [9, 10],
+    lineTypes: [[/^9/, 'mobile'], [/^1800/, 'toll_free'], [/^[2-8]/, 'fixed_line']]
+  }
+};
+
+export const DEFAULT_PHONE_COUNTRY = 'US';
+
+let defaultCountry = DEFAULT_PHONE_COUNTRY;
+
+// Set from the signed-in profile; used by every normalization that does not pass a country
+export function setDefaultPhoneCountry(country?: string | null): void {
+  const code = country?.toUpperCase();
+  defaultCountry = code && COUNTRY_PLANS[code] ? code : DEFAULT_PHONE_COUNTRY;
+}
+
+export function getDefaultPhoneCountry(): string {
+  return defaultCountry;
+}
+
+function classify(plan: CountryPlan, nationalNumber: string): PhoneLineType {
+  return plan.lineTypes.find(([pattern]) => pattern.test(nationalNumber))?.[1] || 'unknown';
+}
+
+function isValidNational(plan: CountryPlan, nationalNumber: string): boolean {
+  const [min, max] = plan.nationalLength;
+  if (nationalNumber.length < min || nationalNumber.length > max) {
+    return false;
+  }
+  // NANP area codes and exchanges never start with 0 or 1
+  if (plan.callingCode === '1') {
+    return /^[2-9]\d{2}[2-9]\d{6}$/.test(nationalNumber);
+  }
+  return true;
+}
+
+function buildResult(callingCode: string, nationalNumber: string, plans: [string, CountryPlan][]): ParsedPhoneNumber | null {
+  const valid = plans.filter(([, plan]) => isValidNational(plan, nationalNumber));
+  if (plans.length > 0 && valid.length === 0) {
+    return null;
+  }
+
+  const [country, plan] = valid[0] || [null, null];
+  return {
+    e164: `+${callingCode}${nationalNumber}`,
+    country: valid.length === 1 ? country : null,
+    countryCallingCode: callingCode,
+    nationalNumber,
+    lineType: plan ? classify(plan, nationalNumber) : 'unknown'
+  };
+}
+
+export function parsePhoneNumber(input: string, country: string = defaultCountry): ParsedPhoneNumber | null {
+  const trimmed = (input || '').trim();
+  if (!trimmed) return null;
+
+  // Drop extensions ("x123", "ext. 123") before reading digits
+  const withoutExtension = trimmed.replace(/\s*(?:x|ext\.?|extension)\s*\d+$/i, '');
+  const digits = withoutExtension.replace(/\D/g, '');
+  const international = withoutExtension.startsWith('+') || withoutExtension.startsWith('00') || withoutExtension.startsWith('011');
+
+  if (international) {
+    const full = withoutExtension.startsWith('+') ? digits
+      : withoutExtension.startsWith('00') ? digits.slice(2)
+      : digits.slice(3);
+    if (full.length < 8 || full.length > 15) return null;
+
+    // Calling codes are prefix-free, so the first match is the only match
+    for (const length of [1, 2, 3]) {
+      const callingCode = full.slice(0, length);
+      const plans = Object.entries(COUNTRY_PLANS).filter(([, plan]) => plan.callingCode === callingCode);
+      if (plans.length > 0) {
+        return buildResult(callingCode, full.slice(length), plans);
+      }
+    }
+    // Country we have no plan for: keep the digits, cannot validate further
+    return { e164: `+${full}`, country: null, countryCallingCode: '', nationalNumber: full, lineType: 'unknown' };
+  }
+
+  const code = COUNTRY_PLANS[country.toUpperCase()] ? country.toUpperCase() : DEFAULT_PHONE_COUNTRY;
+  const plan = COUNTRY_PLANS[code];
+  let nationalNumber = digits;
+  if (plan.callingCode === '1' && nationalNumber.length === 11 && nationalNumber.startsWith('1')) {
+    nationalNumber = nationalNumber.slice(1);
+  } else if (plan.trunkPrefix && nationalNumber.startsWith(plan.trunkPrefix)) {
+    nationalNumber = nationalNumber.slice(plan.trunkPrefix.length);
+  }
+
+  return buildResult(plan.callingCode, nationalNumber, [[code, plan]]);
+}
+
+export function toE164(input: string, country?: string): string | null {
+  return parsePhoneNumber(input, country)?.e164 || null;
+}
+
+export function isValidPhoneNumber(input: string, country?: string): boolean {
+  return parsePhoneNumber(input, country) !== null;
+}
+
+// Canonical form for storage: E.164 when the number parses, otherwise the trimmed input
+export function normalizePhoneNumber(input: string, country?: string): string {
+  return toE164(input, country) || (input || '').trim();
+}
+
+// Forms a number may have been stored in before normalization, for lookups against older rows
+export function phoneNumberVariants(input: string, country?: string): string[] {
+  const parsed = parsePhoneNumber(input, country);
+  const variants = [(input || '').trim()];
+  if (parsed) {
+    variants.push(parsed.e164, parsed.nationalNumber);
+    if (parsed.countryCallingCode === '1') {
+      const n = parsed.nationalNumber;
+      variants.push(`1${n}`, `(${n.slice(0, 3)}) ${n.slice(3, 6)}-${n.slice(6)}`, `+1 (${n.slice(0, 3)}) ${n.slice(3, 6)}-${n.slice(6)}`);
+    }
+  }
+  return Array.from(new Set(variants.filter(Boolean)));
+}
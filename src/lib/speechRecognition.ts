@@ -0,0 +1,62 @@
+// The parts of the Web Speech API used here; TypeScript's DOM types do not include it
+interface SpeechRecognitionResultEvent {
+  results: ArrayLike<ArrayLike<{ transcript: string }> & { isFinal: boolean }>
+}
+
+interface BrowserSpeechRecognition {
+  lang: string
+  interimResults: boolean
+  continuous: boolean
+  onresult: ((event: SpeechRecognitionResultEvent) => void) | null
+  onerror: ((event: { error: string }) => void) | null
+  onend: (() => void) | null
+  start(): void
+  stop(): void
+}
+
+type SpeechRecognitionConstructor = new () => BrowserSpeechRecognition
+
+export interface Dictation {
+  stop(): void
+}
+
+function getRecognitionConstructor(): SpeechRecognitionConstructor | undefined {
+  const speechWindow = window as unknown as {
+    SpeechRecognition?: SpeechRecognitionConstructor
+    webkitSpeechRecognition?: SpeechRecognitionConstructor
+  };
+  return speechWindow.SpeechRecognition || speechWindow.webkitSpeechRecognition;
+}
+
+export function isSpeechRecognitionSupported(): boolean {
+  return typeof window !== 'undefined' && !!getRecognitionConstructor();
+}
+
+// Listens to the microphone for one utterance; onText gets the transcript so far, onEnd fires once
+export function startDictation(
+  languageCode: string,
+  onText: (text: string, isFinal: boolean) => void,
+  onEnd: (error?: string) => void
+): Dictation {
+  const Recognition = getRecognitionConstructor();
+  if (!Recognition) {
+    throw new Error('Speech recognition is not supported in this browser');
+  }
+
+  const recognition = new Recognition();
+  let failure: string | undefined;
+  recognition.lang = languageCode;
+  recognition.interimResults = true;
+  recognition.continuous = false;
+  recognition.onresult = (event) => {
+    const results = Array.from(event.results);
+    onText(results.map(result => result[0].transcript).join(''), results.every(result => result.isFinal));
+  };
+  recognition.onerror = (event) => {
+    failure = event.error === 'not-allowed' ? 'Microphone access was denied' : `Speech recognition failed: ${event.error}`;
+  };
+  recognition.onend = () => onEnd(failure);
+  recognition.start();
+
+  return { stop: () => recognition.stop() };
+}
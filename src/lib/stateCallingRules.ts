@@ -0,0 +1,156 @@
+// State telemarketing restrictions that are stricter than the federal TCPA.
+// Bump STATE_RULES_VERSION whenever a rule or holiday calendar changes so
+// decision traces and violation records show which table was applied.
+
+export const STATE_RULES_VERSION = '2025.2';
+export const STATE_RULES_EFFECTIVE_DATE = '2025-01-01';
+
+export type HolidayId =
+  | 'new_years_day'
+  | 'mlk_day'
+  | 'presidents_day'
+  | 'confederate_memorial_day'
+  | 'memorial_day'
+  | 'juneteenth'
+  | 'independence_day'
+  | 'labor_day'
+  | 'columbus_day'
+  | 'veterans_day'
+  | 'thanksgiving'
+  | 'day_after_thanksgiving'
+  | 'christmas_day'
+
+export type HolidayDefinition =
+  | { name: string; month: number; day: number } // fixed date; the nearest weekday is blocked too when it falls on a weekend
+  | { name: string; month: number; weekday: number; nth: number } // nth weekday of the month, -1 = last
+  | { name: string; after: HolidayId; days: number } // days after another holiday
+
+export interface StateHoursWindow {
+  days: number[] // 0=Sunday, 1=Monday, etc.
+  start: string // HH:MM format, local time
+  end: string // HH:MM format, exclusive
+}
+
+export interface StateCallingRule {
+  state: string
+  name: string
+  // Days not covered by any window are banned outright
+  windows: StateHoursWindow[]
+  holidays: HolidayId[]
+  maxCallsPer24Hours?: number
+  citation: string
+}
+
+const WEEKDAYS = [1, 2, 3, 4, 5];
+const MON_SAT = [1, 2, 3, 4, 5, 6];
+const ALL_DAYS = [0, 1, 2, 3, 4, 5, 6];
+
+export const HOLIDAY_DEFINITIONS: Record<HolidayId, HolidayDefinition> = {
+  new_years_day: { name: "New Year's Day", month: 1, day: 1 },
+  mlk_day: { name: 'Martin Luther King Jr. Day', month: 1, weekday: 1, nth: 3 },
+  presidents_day: { name: "Presidents' Day", month: 2, weekday: 1, nth: 3 },
+  confederate_memorial_day: { name: 'Confederate Memorial Day', month: 4, weekday: 1, nth: 4 },
+  memorial_day: { name: 'Memorial Day', month: 5, weekday: 1, nth: -1 },
+  juneteenth: { name: 'Juneteenth', month: 6, day: 19 },
+  independence_day: { name: 'Independence Day', month: 7, day: 4 },
+  labor_day: { name: 'Labor Day', month: 9, weekday: 1, nth: 1 },
+  columbus_day: { name: 'Columbus Day', month: 10, weekday: 1, nth: 2 },
+  veterans_day: { name: 'Veterans Day', month: 11, day: 11 },
+  thanksgiving: { name: 'Thanksgiving Day', month: 11, weekday: 4, nth: 4 },
+  day_after_thanksgiving: { name: 'Day after Thanksgiving', after: 'thanksgiving', days: 1 },
+  christmas_day: { name: 'Christmas Day', month: 12, day: 25 }
+};
+
+const FEDERAL_HOLIDAYS: HolidayId[] = [
+  'new_years_day', 'mlk_day', 'presidents_day', 'memorial_day', 'juneteenth', 'independence_day',
+  'labor_day', 'columbus_day', 'veterans_day', 'thanksgiving', 'christmas_day'
+];
+
+export const STATE_CALLING_RULES: Record<string, StateCallingRule> = {
+  AL: {
+    state: 'AL',
+    name: 'Alabama Telephone Solicitation Act',
+    windows: [{ days: MON_SAT, start: '08:00', end: '21:00' }],
+    holidays: [...FEDERAL_HOLIDAYS, 'confederate_memorial_day'],
+    citation: 'Ala. Code § 8-19A-14'
+  },
+  CT: {
+    state: 'CT',
+    name: 'Connecticut Telemarketing Act',
+    windows: [{ days: ALL_DAYS, start: '09:00', end: '20:00' }],
+    holidays: [],
+    citation: 'Conn. Gen. Stat. § 42-288a'
+  },
+  FL: {
+    state: 'FL',
+    name: 'Florida Telephone Solicitation Act',
+    windows: [{ days: ALL_DAYS, start: '08:00', end: '20:00' }],
+    holidays: [],
+    maxCallsPer24Hours: 3,
+    citation: 'Fla. Stat. § 501.616'
+  },
+  LA: {
+    state: 'LA',
+    name: 'Louisiana Telephone Solicitation Relief Act',
+    windows: [{ days: MON_SAT, start: '08:00', end: '20:00' }],
+    holidays: FEDERAL_HOLIDAYS,
+    citation: 'La. R.S. 45:844.17'
+  },
+  MD: {
+    state: 'MD',
+    name: 'Maryland Stop the Spam Calls Act',
+    windows: [{ days: ALL_DAYS, start: '08:00', end: '20:00' }],
+    holidays: [],
+    maxCallsPer24Hours: 3,
+    citation: 'Md. Code, Com. Law § 14-4503'
+  },
+  MS: {
+    state: 'MS',
+    name: 'Mississippi Telephone Solicitation Act',
+    windows: [{ days: MON_SAT, start: '08:00', end: '20:00' }],
+    holidays: [],
+    citation: 'Miss. Code § 77-3-725'
+  },
+  OK: {
+    state: 'OK',
+    name: 'Oklahoma Telephone Solicitation Act',
+    windows: [{ days: ALL_DAYS, start: '08:00', end: '20:00' }],
+    holidays: [],
+    maxCallsPer24Hours: 3,
+    citation: '15 Okla. Stat. § 775C.4'
+  },
+  RI: {
+    state: 'RI',
+    name: 'Rhode Island Telephone Sales Solicitation Act',
+    windows: [
+      { days: WEEKDAYS, start: '09:00', end: '18:00' },
+      { days: [6], start: '10:00', end: '17:00' }
+    ],
+    holidays: FEDERAL_HOLIDAYS,
+    citation: 'R.I. Gen. Laws § 5-61-3.4'
+  },
+  TX: {
+    state: 'TX',
+    name: 'Texas Business and Commerce Code',
+    windows: [
+      { days: MON_SAT, start: '09:00', end: '21:00' },
+      { days: [0], start: '12:00', end: '21:00' }
+    ],
+    holidays: [],
+    citation: 'Tex. Bus. & Com. Code § 301.051'
+  },
+  UT: {
+    state: 'UT',
+    name: 'Utah Telephone Fraud Prevention Act',
+    windows: [{ days: MON_SAT, start: '08:00', end: '21:00' }],
+    holidays: FEDERAL_HOLIDAYS,
+    citation: 'Utah Code § 13-25a-103'
+  },
+  WA: {
+    state: 'WA',
+    name: 'Washington Telephone Solicitation Act',
+    windows: [{ days: ALL_DAYS, start: '08:00', end: '20:00' }],
+    holidays: [],
+    citation: 'RCW 80.36.390'
+  }
+};
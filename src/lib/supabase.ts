@@ -26,13 +26,28 @@ export interface Profile {
   can_use_inbound: boolean
   can_use_outbound_dialer: boolean
   max_concurrent_calls: number
+  default_country?: string // ISO 3166-1 alpha-2, for phone numbers entered without a country code
   twilio_phone_number?: string
   twilio_account_sid?: string
   gemini_api_key?: string
+  // Inbound calls outside an agent's business hours or on a holiday
+  after_hours_action?: 'agent' | 'voicemail' | 'callback' // default 'agent'; voicemail when no after-hours agent is active
+  after_hours_agent_id?: string // defaults to the first active after_hours agent
+  after_hours_message?: string // played before taking a voicemail or callback request
   created_at: string
   updated_at: string
 }
 
+// A day the profile's agents are closed for inbound calls
+export interface BusinessHoliday {
+  id: string
+  profile_id: string
+  name: string
+  date: string // YYYY-MM-DD, in each agent's timezone
+  recurs_annually: boolean // same month and day every year
+  created_at: string
+}
+
 export interface AIAgent {
   id: string
   profile_id: string
@@ -55,10 +70,117 @@ export interface AIAgent {
   escalation_phone_number?: string
   escalation_email?: string
   status?: 'available' | 'busy' | 'offline'
+  active_version_id?: string // agent_versions row the current configuration matches
+  created_at: string
+  updated_at: string
+}
+
+// Immutable snapshot of an agent's conversational configuration
+export interface AgentVersion {
+  id: string
+  profile_id: string
+  agent_id: string
+  version: number // 1, 2, ... per agent
+  system_instruction?: string
+  voice_name: AIAgent['voice_name']
+  language_code: string
+  escalation_enabled: boolean
+  escalation_type?: AIAgent['escalation_type']
+  escalation_phone_number?: string
+  escalation_email?: string
+  note?: string // what changed, as the editor described it
+  created_at: string
+}
+
+// A file uploaded to an agent's knowledge base; its text lives in knowledge_chunks
+export interface KnowledgeDocument {
+  id: string
+  profile_id: string
+  agent_id: string
+  name: string
+  file_type: 'pdf' | 'docx' | 'markdown' | 'csv' | 'text'
+  size_bytes: number
+  chunk_count: number
+  created_at: string
+}
+
+// A function an agent can call during a conversation, bound to an HTTP request or a built-in action
+export interface AgentTool {
+  id: string
+  profile_id: string
+  agent_id: string
+  name: string // function name the model calls
+  description: string
+  parameters: Record<string, unknown> // JSON Schema of the arguments, type "object"
+  action_type: 'http' | 'builtin'
+  builtin_action?: 'schedule_callback' | 'search_knowledge_base'
+  http_config?: {
+    url: string // may use {{args.name}}
+    method: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE' // GET sends the arguments as query parameters
+    headers?: Record<string, string> // values may use {{secret}}, {{args.name}}, {{call_id}}
+    timeout_ms?: number
+  }
+  has_secret?: boolean // set by set_agent_tool_secret; the secret itself only the dialer worker reads. Referenced as {{secret}}
+  is_active: boolean
   created_at: string
   updated_at: string
 }
 
+// A tool call run by the dialer worker: asked for by the voice runtime during a call (call_id set),
+// or a test run from the tools panel (tool_id set)
+export interface AgentToolCall {
+  id: string
+  profile_id: string
+  call_id?: string
+  tool_id?: string
+  name: string
+  args: Record<string, unknown>
+  status: 'pending' | 'processing' | 'completed' | 'failed'
+  result?: { success: boolean; message: string; status?: number; data?: unknown; durationMs: number }
+  processed_by?: string
+  processed_at?: string
+  created_at: string
+}
+
+// One turn of a test console conversation; agent turns list the function calls the agent made
+export interface AgentTestMessage {
+  role: 'user' | 'agent'
+  text: string
+  function_calls?: Array<{
+    name: string
+    args: Record<string, unknown>
+    result?: Record<string, unknown> // simulated; the console never runs HTTP tools
+  }>
+}
+
+// A saved test console session, replayed as a regression case
+export interface AgentTestCase {
+  id: string
+  profile_id: string
+  agent_id: string
+  name: string
+  lead_variables: Record<string, string> // merged into the system instruction
+  messages: AgentTestMessage[] // user turns are replayed; agent turns are the expected behaviour
+  last_run_at?: string
+  last_run_passed?: boolean
+  created_at: string
+  updated_at: string
+}
+
+export interface KnowledgeChunk {
+  id: string
+  profile_id: string
+  agent_id: string
+  document_id: string
+  chunk_index: number
+  heading?: string // nearest heading above the passage, when the document has them
+  content: string
+  created_at: string
+  knowledge_documents?: {
+    name: string
+  }
+}
+
 export interface CallLog {
   id: string
   profile_id: string
@@ -83,6 +205,8 @@ export interface CallLog {
   follow_up_date?: string
   tags?: string[]
   metadata?: Record<string, any>
+  answered_by?: 'human' | 'machine' | 'fax' | 'unknown' // answering-machine detection result
+  variant_id?: string // campaign A/B test variant the call used
   created_at: string
   outbound_campaigns?: {
     name: string
@@ -97,20 +221,42 @@ export interface Campaign {
   description?: string
   status: 'draft' | 'active' | 'paused' | 'completed' | 'cancelled'
   caller_id: string
+  caller_id_strategy?: 'fixed' | 'rotate' | 'local_presence' // fixed always uses caller_id; the others draw from the caller ID pool
   max_concurrent_calls: number
   call_timeout_seconds: number
   retry_attempts: number
   retry_delay_minutes: number
+  retry_policy?: Record<string, { delay_minutes?: number; max_attempts?: number }> // per call outcome
   start_time?: string
   end_time?: string
   timezone: string
   days_of_week: number[]
   scheduled_start_date?: string
   scheduled_end_date?: string
+  paused_by_schedule?: boolean // paused by the scheduler outside the calling window, resumed by it too
+  started_at?: string
+  completed_at?: string
   custom_system_instruction?: string
   custom_voice_name?: 'Puck' | 'Charon' | 'Kore' | 'Fenrir' | 'Aoede' | 'Leda' | 'Orus' | 'Zephyr'
   priority: 'low' | 'normal' | 'high' | 'urgent'
+  dialing_mode?: 'preview' | 'progressive' | 'predictive'
+  max_abandon_rate?: number // percent of answered calls, predictive mode only
+  preview_lead_id?: string | null // preview mode: the lead the dialer offers next, null when none is callable
+  amd_enabled?: boolean // answering-machine detection
+  amd_machine_action?: 'hangup' | 'voicemail' | 'agent'
+  amd_unknown_action?: 'hangup' | 'voicemail' | 'agent' // detection could not tell
+  voicemail_message?: string // spoken by text-to-speech; lead fields merge from {{first_name}} etc.
   compliance_settings?: Record<string, any>
+  variants?: CampaignVariant[] // A/B test arms; empty or missing runs agent_id with custom_system_instruction
+  segment_id?: string // lead segment that keeps feeding new matches into the campaign
+  segment_synced_at?: string
+  budget_minutes?: number // billed minutes the campaign may use; the account's monthly limit applies either way
+  budget_spend?: number // spend cap, counted at cost_per_minute
+  cost_per_minute?: number
+  minutes_used?: number // billed minutes so far, per started minute of each answered call
+  budget_exhausted_at?: string // when the dialer last paused the campaign for its budget
+  dialer_owner?: string // id of the dialer worker running the campaign
+  dialer_lease_expires_at?: string
   total_leads: number
   leads_called: number
   leads_answered: number
@@ -119,30 +265,189 @@ export interface Campaign {
   updated_at: string
 }
 
+// One arm of a campaign A/B test; leads are split across variants by weight
+export interface CampaignVariant {
+  id: string
+  name: string
+  agent_id?: string // falls back to the campaign's agent
+  custom_system_instruction?: string // falls back to the campaign's script
+  weight: number // relative share of leads
+}
+
 export interface CampaignLead {
   id: string
   campaign_id: string
-  phone_number: string
+  phone_number: string // E.164
+  line_type?: 'fixed_line' | 'mobile' | 'fixed_line_or_mobile' | 'toll_free' | 'premium_rate' | 'shared_cost' | 'personal' | 'unknown'
   first_name?: string
   last_name?: string
   email?: string
   company?: string
   title?: string
-  status: 'pending' | 'called' | 'answered' | 'no_answer' | 'busy' | 'failed' | 'completed'
+  status: 'pending' | 'dialing' | 'called' | 'answered' | 'no_answer' | 'busy' | 'failed' | 'retry' | 'completed' | 'dnc'
   priority: 'low' | 'normal' | 'high' | 'urgent'
   call_attempts: number
   last_call_at?: string
-  next_call_at?: string
+  next_call_at?: string // earliest time the dialer may retry the lead
   outcome?: string
+  outcome_attempts?: Record<string, number> // attempts per call outcome, for per-outcome retry limits
   notes?: string
   custom_fields?: Record<string, any>
   do_not_call: boolean
+  variant_id?: string // A/B test variant, kept across retries
   preferred_call_time?: string
   timezone?: string
   created_at: string
   updated_at: string
 }
 
+// Call back a lead asked for; once due the dialer calls it ahead of fresh leads
+export interface LeadCallback {
+  id: string
+  profile_id: string
+  campaign_id: string
+  lead_id: string
+  scheduled_at: string // UTC instant of the agreed time
+  timezone: string // the lead's timezone the time was agreed in
+  status: 'scheduled' | 'dialed' | 'missed' | 'cancelled' // missed: not dialed within CALLBACK_MISSED_AFTER_MINUTES
+  requested_by: 'agent' | 'user'
+  requested_call_id?: string // call in which the lead asked for it
+  dialed_call_id?: string
+  dialed_at?: string
+  notes?: string
+  created_at: string
+  updated_at: string
+  campaign_leads?: Pick<CampaignLead, 'first_name' | 'last_name' | 'phone_number' | 'company' | 'status'>
+  outbound_campaigns?: {
+    name: string
+  }
+}
+
+// One dial attempt held by a dialer worker; the lease is renewed while the call is in flight
+export interface DialerQueueEntry {
+  id: string
+  profile_id: string
+  campaign_id: string
+  lead_id: string
+  agent_id?: string
+  priority: 'low' | 'normal' | 'high' | 'urgent'
+  status: 'queued' | 'dialing' | 'completed' | 'failed' | 'cancelled'
+  scheduled_at?: string
+  lease_owner?: string
+  lease_expires_at?: string
+  started_at?: string
+  completed_at?: string
+  metadata?: Record<string, string>
+  created_at: string
+  updated_at: string
+}
+
+// Sent by the UI, carried out by the dialer worker that owns the campaign
+export interface DialerCommand {
+  id: string
+  profile_id: string
+  campaign_id: string
+  command: 'start' | 'pause' | 'resume' | 'stop' | 'preview_next' | 'preview_dial' | 'preview_skip'
+  lead_id?: string // preview_dial and preview_skip: the lead the user was offered
+  status: 'pending' | 'processing' | 'completed' | 'failed'
+  processed_by?: string
+  processed_at?: string
+  error?: string
+  created_at: string
+}
+
+// Outbound number in a profile's caller ID pool
+export interface CallerIdNumber {
+  id: string
+  profile_id: string
+  phone_number: string // E.164
+  label?: string
+  area_code?: number
+  region?: string // US state or Canadian province of the area code, for local presence
+  status: 'active' | 'resting' | 'retired'
+  daily_limit: number // calls per day, 0 for no limit
+  calls_today: number
+  usage_date?: string // local day (YYYY-MM-DD), in the calling campaign's timezone, counted by calls_today
+  total_calls: number
+  answered_calls: number
+  recent_outcomes?: string // latest attempts, oldest first: '1' answered, '0' not answered
+  rested_until?: string
+  rest_reason?: string
+  last_used_at?: string
+  created_at: string
+  updated_at: string
+}
+
+// Entry in a profile's disposition catalog; call_logs.outcome and campaign_leads.outcome hold its code
+export interface Disposition {
+  id: string
+  profile_id: string
+  code: string // unique per profile
+  label: string
+  category: 'contact' | 'no_contact' | 'dnc' | 'success'
+  is_final: boolean // the lead is not called again
+  retry_delay_minutes?: number // unset to use the campaign retry delay
+  max_attempts?: number // attempts ending with this disposition before the lead is closed
+  is_system: boolean // reported by the dialer itself, cannot be deleted
+  is_active: boolean
+  sort_order: number
+  created_at: string
+  updated_at: string
+}
+
+// Saved campaign configuration that new campaigns can start from
+export interface CampaignTemplate {
+  id: string
+  profile_id: string
+  name: string
+  description?: string
+  settings: Partial<Campaign> // only the fields in TEMPLATE_SETTING_FIELDS
+  source_campaign_id?: string // campaign the template was saved from
+  created_at: string
+  updated_at: string
+}
+
+// One condition of a lead segment
+export interface LeadSegmentRule {
+  field: string // CampaignLead column, 'state', or 'custom_fields.<name>'
+  operator: 'equals' | 'not_equals' | 'contains' | 'not_contains' | 'starts_with' | 'in' | 'not_in' | 'lt' | 'gt' | 'is_empty' | 'is_not_empty'
+  value?: string | number | string[]
+}
+
+// Saved, rule-based selection of the profile's leads that can feed a campaign
+export interface LeadSegment {
+  id: string
+  profile_id: string
+  name: string
+  description?: string
+  match: 'all' | 'any'
+  rules: LeadSegmentRule[]
+  source_campaign_ids?: string[] // campaigns whose leads are matched, all of the profile's when empty
+  created_at: string
+  updated_at: string
+}
+
+// Profile-level list of people never to call, whatever campaign they are in
+export interface SuppressionList {
+  id: string
+  profile_id: string
+  name: string
+  kind: 'existing_customers' | 'competitors' | 'other'
+  description?: string
+  is_active: boolean
+  created_at: string
+  updated_at: string
+}
+
+export interface SuppressionEntry {
+  id: string
+  list_id: string
+  profile_id: string
+  type: 'phone' | 'email' | 'domain' | 'company'
+  value: string // normalized, see SuppressionService.normalizeValue
+  created_at: string
+}
+
 export interface Appointment {
   id: string
   profile_id: string
@@ -175,6 +480,15 @@ export interface FunctionCallLog {
   created_at: string
 }
 
+// Lead counts for one campaign, taken from campaign_leads
+export interface CampaignLeadStats {
+  total: number
+  remaining: number // still to be called or in flight
+  called: number
+  answered: number
+  completed: number
+}
+
 export interface AnalyticsData {
   totalCalls: number
   totalMinutes: number
@@ -185,7 +499,7 @@ export interface AnalyticsData {
   costPerCall: number
   callsByDay: Array<{ date: string; count: number }>
   callsByStatus: Array<{ status: string; count: number }>
-  topOutcomes: Array<{ outcome: string; count: number }>
+  topOutcomes: Array<{ outcome: string; count: number; label?: string; category?: Disposition['category'] }>
   callVolumeData: Array<{ date: string; calls: number }>
   performanceData: Array<{ date: string; success_rate: number }>
   callOutcomeData: Array<{ name: string; value: number; color: string }>
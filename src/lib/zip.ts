@@ -0,0 +1,54 @@
+function readUint16(bytes: Uint8Array, offset: number): number {
+  return bytes[offset] | (bytes[offset + 1] << 8);
+}
+
+function readUint32(bytes: Uint8Array, offset: number): number {
+  return (bytes[offset] | (bytes[offset + 1] << 8) | (bytes[offset + 2] << 16) | (bytes[offset + 3] << 24)) >>> 0;
+}
+
+// Text entries (.xml, .rels) of a zip archive such as an .xlsx or .docx file, by path
+export async function unzip(bytes: Uint8Array): Promise<Map<string, string>> {
+  // Locate the end-of-central-directory record
+  let eocd = -1;
+  for (let i = bytes.length - 22; i >= Math.max(0, bytes.length - 65557); i--) {
+    if (readUint32(bytes, i) === 0x06054b50) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd === -1) {
+    throw new Error('Not a valid zip archive');
+  }
+
+  const files = new Map<string, string>();
+  const decoder = new TextDecoder();
+  const entryCount = readUint16(bytes, eocd + 10);
+  let offset = readUint32(bytes, eocd + 16);
+
+  for (let entry = 0; entry < entryCount; entry++) {
+    if (readUint32(bytes, offset) !== 0x02014b50) break;
+
+    const method = readUint16(bytes, offset + 10);
+    const compressedSize = readUint32(bytes, offset + 20);
+    const nameLength = readUint16(bytes, offset + 28);
+    const extraLength = readUint16(bytes, offset + 30);
+    const commentLength = readUint16(bytes, offset + 32);
+    const localOffset = readUint32(bytes, offset + 42);
+    const name = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (!name.endsWith('.xml') && !name.endsWith('.rels')) continue;
+
+    const dataStart = localOffset + 30 + readUint16(bytes, localOffset + 26) + readUint16(bytes, localOffset + 28);
+    const data = bytes.slice(dataStart, dataStart + compressedSize);
+
+    if (method === 0) {
+      files.set(name, decoder.decode(data));
+    } else if (method === 8) {
+      const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+      files.set(name, await new Response(stream).text());
+    }
+  }
+
+  return files;
+}
@@ -7,12 +7,27 @@ import {
   PencilIcon,
   ClockIcon,
   UserIcon,
-  ExclamationTriangleIcon
+  ExclamationTriangleIcon,
+  ArrowUturnLeftIcon,
+  BookOpenIcon,
+  DocumentArrowUpIcon,
+  MagnifyingGlassIcon,
+  WrenchScrewdriverIcon,
+  ChatBubbleLeftRightIcon
 } from '@heroicons/react/24/outline';
 import { useUser, usePermissions } from '../contexts/UserContext';
+import AgentTestConsole from '../components/AgentTestConsole';
 import { DatabaseService } from '../services/database';
 import { RealtimeService } from '../services/realtime';
-import type { AIAgent } from '../lib/supabase';
+import { AgentVersionService, VERSIONED_FIELDS } from '../services/agent-versions';
+import type { AgentVersionStats } from '../services/agent-versions';
+import { KnowledgeBaseService, KNOWLEDGE_FILE_TYPES } from '../services/knowledge-base';
+import type { KnowledgeSearchResult } from '../services/knowledge-base';
+import { AgentToolService, BUILTIN_TOOLS, HTTP_METHODS } from '../services/agent-tools';
+import type { AgentToolStats, BuiltinAction, HttpMethod, SchemaProperty, ToolArguments, ToolInvocationResult } from '../services/agent-tools';
+import { diffLines, sideBySide } from '../lib/textDiff';
+import { InboundRoutingService } from '../services/inbound-routing';
+import type { AIAgent, AgentTool, AgentVersion, BusinessHoliday, KnowledgeDocument } from '../lib/supabase';
 import toast from 'react-hot-toast';
 
 const VOICE_OPTIONS = [
@@ -64,6 +79,11 @@ export default function AgentsPage() {
   const [showCreateModal, setShowCreateModal] = useState(false);
   const [showEditModal, setShowEditModal] = useState(false);
   const [selectedAgent, setSelectedAgent] = useState<AIAgent | null>(null);
+  const [historyAgent, setHistoryAgent] = useState<AIAgent | null>(null);
+  const [knowledgeAgent, setKnowledgeAgent] = useState<AIAgent | null>(null);
+  const [toolsAgent, setToolsAgent] = useState<AIAgent | null>(null);
+  const [testAgent, setTestAgent] = useState<AIAgent | null>(null);
+  const [holidays, setHolidays] = useState<BusinessHoliday[]>([]);
 
   useEffect(() => {
     if (user) {
@@ -77,8 +97,12 @@ export default function AgentsPage() {
 
     try {
       setLoading(true);
-      const agentsData = await DatabaseService.getAIAgents(user.id);
+      const [agentsData, holidaysData] = await Promise.all([
+        DatabaseService.getAIAgents(user.id),
+        DatabaseService.getBusinessHolidays(user.id)
+      ]);
       setAgents(agentsData);
+      setHolidays(holidaysData);
     } catch (error) {
       console.error('Error loading agents:', error);
       toast.error('Failed to load AI agents');
@@ -216,6 +240,34 @@ export default function AgentsPage() {
                     >
                       <PencilIcon className="h-4 w-4" />
                     </button>
+                    <button
+                      onClick={() => setHistoryAgent(agent)}
+                      className="p-2 text-gray-600 hover:bg-gray-50 rounded-md"
+                      title="Version history"
+                    >
+                      <ClockIcon className="h-4 w-4" />
+                    </button>
+                    <button
+                      onClick={() => setKnowledgeAgent(agent)}
+                      className="p-2 text-gray-600 hover:bg-gray-50 rounded-md"
+                      title="Knowledge base"
+                    >
+                      <BookOpenIcon className="h-4 w-4" />
+                    </button>
+                    <button
+                      onClick={() => setToolsAgent(agent)}
+                      className="p-2 text-gray-600 hover:bg-gray-50 rounded-md"
+                      title="Tools"
+                    >
+                      <WrenchScrewdriverIcon className="h-4 w-4" />
+                    </button>
+                    <button
+                      onClick={() => setTestAgent(agent)}
+                      className="p-2 text-gray-600 hover:bg-gray-50 rounded-md"
+                      title="Test console"
+                    >
+                      <ChatBubbleLeftRightIcon className="h-4 w-4" />
+                    </button>
                     <button
                       onClick={() => handleDeleteAgent(agent.id)}
                       className="p-2 text-red-600 hover:bg-red-50 rounded-md"
@@ -266,6 +318,7 @@ export default function AgentsPage() {
                     <span className="text-sm text-gray-500">Hours</span>
                     <span className="text-sm font-medium text-gray-900">
                       {formatBusinessHours(agent.business_hours_start, agent.business_hours_end)}
+                      <InboundStatusBadge agent={agent} holidays={holidays} />
                     </span>
                   </div>
 
@@ -336,6 +389,83 @@ export default function AgentsPage() {
           onSuccess={loadAgents}
         />
       )}
+
+      {/* Version History Modal */}
+      {historyAgent && (
+        <AgentVersionsModal
+          agent={historyAgent}
+          onClose={() => setHistoryAgent(null)}
+          onRollback={loadAgents}
+        />
+      )}
+
+      {/* Knowledge Base Modal */}
+      {knowledgeAgent && (
+        <KnowledgeBaseModal
+          agent={knowledgeAgent}
+          onClose={() => setKnowledgeAgent(null)}
+        />
+      )}
+
+      {/* Tools Modal */}
+      {toolsAgent && (
+        <AgentToolsModal
+          agent={toolsAgent}
+          onClose={() => setToolsAgent(null)}
+        />
+      )}
+
+      {/* Test Console */}
+      {testAgent && (
+        <AgentTestConsole
+          agent={testAgent}
+          onClose={() => setTestAgent(null)}
+        />
+      )}
+    </div>
+  );
+}
+
+// Whether inbound calls reach the agent right now
+function InboundStatusBadge({ agent, holidays }: { agent: AIAgent; holidays: BusinessHoliday[] }) {
+  const status = InboundRoutingService.getOpenStatus(agent, holidays);
+  const styles = {
+    open: 'bg-green-100 text-green-800',
+    closed: 'bg-gray-100 text-gray-600',
+    holiday: 'bg-yellow-100 text-yellow-800'
+  };
+  const title = status.nextOpenAt
+    ? `Opens ${InboundRoutingService.formatNextOpening(status.nextOpenAt, status.timezone)}`
+    : `${status.localTime} ${status.timezone}`;
+
+  return (
+    <span className={`ml-2 px-2 py-0.5 rounded-full text-xs ${styles[status.status]}`} title={title}>
+      {status.status === 'open' ? 'Open' : status.status === 'holiday' ? status.holiday?.name : 'Closed'}
+    </span>
+  );
+}
+
+const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+// Days the agent takes inbound calls within its business hours
+function BusinessDaysPicker({ days, onChange }: { days: number[]; onChange: (days: number[]) => void }) {
+  return (
+    <div>
+      <label className="block text-sm font-medium text-gray-700">Business Days</label>
+      <div className="mt-1 flex space-x-1">
+        {WEEKDAY_LABELS.map((label, day) => (
+          <button
+            key={day}
+            type="button"
+            onClick={() => onChange(days.includes(day) ? days.filter(d => d !== day) : [...days, day].sort())}
+            className={`px-2 py-1 text-xs font-medium rounded-md border ${
+              days.includes(day) ? 'bg-blue-600 text-white border-blue-600' : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'
+            }`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
     </div>
   );
 }
@@ -370,7 +500,7 @@ function CreateAgentModal({ onClose, onSuccess }: { onClose: () => void; onSucce
 
     setLoading(true);
     try {
-      await DatabaseService.createAIAgent({
+      const agent = await DatabaseService.createAIAgent({
         ...formData,
         profile_id: user.id,
         is_active: true,
@@ -378,6 +508,9 @@ function CreateAgentModal({ onClose, onSuccess }: { onClose: () => void; onSucce
         voice_name: formData.voice_name as AIAgent['voice_name'],
         escalation_type: formData.escalation_type as AIAgent['escalation_type']
       });
+      if (agent) {
+        await AgentVersionService.recordInitialVersion(agent);
+      }
       
       toast.success('AI agent created successfully');
       onSuccess();
@@ -538,6 +671,11 @@ function CreateAgentModal({ onClose, onSuccess }: { onClose: () => void; onSucce
                   </div>
                 </div>
 
+                <BusinessDaysPicker
+                  days={formData.business_days}
+                  onChange={(business_days) => setFormData({ ...formData, business_days })}
+                />
+
                 <div>
                   <label className="block text-sm font-medium text-gray-700">Timezone</label>
                   <select
@@ -661,15 +799,17 @@ function EditAgentModal({
     escalation_phone_number: agent.escalation_phone_number || '',
     escalation_email: agent.escalation_email || ''
   });
+  const [changeNote, setChangeNote] = useState('');
+  const configChanged = !AgentVersionService.isSameConfig(agent, formData);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
 
     setLoading(true);
     try {
-      await DatabaseService.updateAIAgent(agent.id, formData);
+      await AgentVersionService.saveAgent(agent, formData, changeNote);
       
-      toast.success('AI agent updated successfully');
+      toast.success(configChanged ? 'AI agent updated, new version saved' : 'AI agent updated successfully');
       onSuccess();
       onClose();
     } catch (error) {
@@ -751,6 +891,21 @@ function EditAgentModal({
                     ))}
                   </select>
                 </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">Language</label>
+                  <select
+                    value={formData.language_code}
+                    onChange={(e) => setFormData({ ...formData, language_code: e.target.value })}
+                    className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500"
+                  >
+                    {LANGUAGES.map(lang => (
+                      <option key={lang.value} value={lang.value}>
+                        {lang.label}
+                      </option>
+                    ))}
+                  </select>
+                </div>
               </div>
 
               <div className="space-y-4">
@@ -798,6 +953,24 @@ function EditAgentModal({
                     />
                   </div>
                 </div>
+
+                <BusinessDaysPicker
+                  days={formData.business_days}
+                  onChange={(business_days) => setFormData({ ...formData, business_days })}
+                />
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">Timezone</label>
+                  <select
+                    value={formData.timezone}
+                    onChange={(e) => setFormData({ ...formData, timezone: e.target.value })}
+                    className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500"
+                  >
+                    {TIMEZONES.map(tz => (
+                      <option key={tz} value={tz}>{tz}</option>
+                    ))}
+                  </select>
+                </div>
               </div>
             </div>
 
@@ -811,6 +984,22 @@ function EditAgentModal({
               />
             </div>
 
+            {configChanged && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700">What changed (Optional)</label>
+                <input
+                  type="text"
+                  value={changeNote}
+                  onChange={(e) => setChangeNote(e.target.value)}
+                  placeholder="Shorter greeting, asks for the decision maker first"
+                  className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500"
+                />
+                <p className="mt-1 text-xs text-gray-500">
+                  Instruction, voice, language and escalation changes are saved as a new version you can compare and roll back.
+                </p>
+              </div>
+            )}
+
             <div className="flex justify-end space-x-3 pt-6">
               <button
                 type="button"
@@ -832,4 +1021,1012 @@ function EditAgentModal({
       </div>
     </div>
   );
-}
\ No newline at end of file
+}
+const VERSION_FIELD_LABELS: Record<typeof VERSIONED_FIELDS[number], string> = {
+  system_instruction: 'System Instruction',
+  voice_name: 'Voice',
+  language_code: 'Language',
+  escalation_enabled: 'Escalation',
+  escalation_type: 'Escalation Type',
+  escalation_phone_number: 'Escalation Phone',
+  escalation_email: 'Escalation Email'
+};
+
+const formatVersionValue = (value: unknown) => {
+  if (typeof value === 'boolean') return value ? 'On' : 'Off';
+  return value === undefined || value === null || value === '' ? '-' : String(value);
+};
+
+// Version history of an agent: outcomes per version, side-by-side diff against an older version, rollback
+function AgentVersionsModal({
+  agent,
+  onClose,
+  onRollback
+}: {
+  agent: AIAgent;
+  onClose: () => void;
+  onRollback: () => void
+}) {
+  const [versions, setVersions] = useState<AgentVersion[]>([]);
+  const [stats, setStats] = useState<Record<string, AgentVersionStats>>({});
+  const [loading, setLoading] = useState(true);
+  const [rollingBack, setRollingBack] = useState(false);
+  const [selectedId, setSelectedId] = useState('');
+  const [compareId, setCompareId] = useState('');
+
+  useEffect(() => {
+    loadVersions();
+  }, [agent.id]);
+
+  const loadVersions = async () => {
+    try {
+      setLoading(true);
+      const [versionData, statsData] = await Promise.all([
+        DatabaseService.getAgentVersions(agent.id),
+        AgentVersionService.getVersionStats(agent)
+      ]);
+      setVersions(versionData);
+      setStats(statsData);
+      selectVersion(versionData, agent.active_version_id || versionData[0]?.id || '');
+    } catch (error) {
+      console.error('Error loading agent versions:', error);
+      toast.error('Failed to load version history');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Compares against the version before it by default
+  const selectVersion = (list: AgentVersion[], id: string) => {
+    const index = list.findIndex(version => version.id === id);
+    setSelectedId(id);
+    setCompareId(list[index + 1]?.id || '');
+  };
+
+  const handleRollback = async (version: AgentVersion) => {
+    if (!confirm(`Roll ${agent.name} back to version ${version.version}? New calls will use it right away.`)) return;
+
+    setRollingBack(true);
+    try {
+      await AgentVersionService.rollback(agent, version);
+      toast.success(`Rolled back to version ${version.version}`);
+      onRollback();
+      onClose();
+    } catch (error) {
+      console.error('Error rolling back agent:', error);
+      toast.error('Failed to roll back');
+    } finally {
+      setRollingBack(false);
+    }
+  };
+
+  const selected = versions.find(version => version.id === selectedId);
+  const compared = versions.find(version => version.id === compareId);
+  const changedFields = selected && compared
+    ? VERSIONED_FIELDS.filter(field => field !== 'system_instruction' && (selected[field] ?? '') !== (compared[field] ?? ''))
+    : [];
+  const rows = selected ? sideBySide(diffLines(compared?.system_instruction || '', selected.system_instruction || '')) : [];
+
+  const cellClass = (type?: string) =>
+    type === 'removed' ? 'bg-red-50 text-red-800' : type === 'added' ? 'bg-green-50 text-green-800' : type ? 'text-gray-700' : 'bg-gray-50';
+
+  return (
+    <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
+      <div className="relative top-10 mx-auto p-5 border w-11/12 max-w-6xl shadow-lg rounded-md bg-white">
+        <div className="mt-3">
+          <div className="flex justify-between items-center mb-6">
+            <h3 className="text-lg font-medium text-gray-900">{agent.name} · Version History</h3>
+            <button
+              onClick={onClose}
+              className="text-gray-400 hover:text-gray-600"
+            >
+              ✕
+            </button>
+          </div>
+
+          {loading ? (
+            <div className="flex items-center justify-center h-64">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-500"></div>
+            </div>
+          ) : versions.length === 0 ? (
+            <p className="text-sm text-gray-500 py-12 text-center">
+              No versions yet. One is saved the next time this agent's instruction, voice, language or escalation settings change.
+            </p>
+          ) : (
+            <div className="grid grid-cols-4 gap-6">
+              <ul className="col-span-1 space-y-2 max-h-[32rem] overflow-y-auto">
+                {versions.map((version) => {
+                  const versionStats = stats[version.id];
+                  return (
+                    <li key={version.id}>
+                      <button
+                        onClick={() => selectVersion(versions, version.id)}
+                        className={`w-full text-left p-3 rounded-md border ${
+                          version.id === selectedId ? 'border-blue-500 bg-blue-50' : 'border-gray-200 hover:bg-gray-50'
+                        }`}
+                      >
+                        <div className="flex items-center justify-between">
+                          <span className="text-sm font-medium text-gray-900">Version {version.version}</span>
+                          {version.id === agent.active_version_id && (
+                            <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800">Active</span>
+                          )}
+                        </div>
+                        {version.note && <p className="mt-1 text-xs text-gray-600 line-clamp-2">{version.note}</p>}
+                        <p className="mt-1 text-xs text-gray-500">{new Date(version.created_at).toLocaleString()}</p>
+                        <p className="mt-1 text-xs text-gray-500">
+                          {versionStats
+                            ? `${versionStats.calls} calls · ${Math.round((versionStats.contacts / versionStats.calls) * 100)}% contacts · ${Math.floor(versionStats.averageDurationSeconds / 60)}:${String(versionStats.averageDurationSeconds % 60).padStart(2, '0')} avg`
+                            : 'No calls yet'}
+                        </p>
+                      </button>
+                    </li>
+                  );
+                })}
+              </ul>
+
+              {selected && (
+                <div className="col-span-3 space-y-4">
+                  <div className="flex items-center justify-between">
+                    <div className="flex items-center space-x-2 text-sm text-gray-700">
+                      <span>Version {selected.version} compared with</span>
+                      <select
+                        value={compareId}
+                        onChange={(e) => setCompareId(e.target.value)}
+                        className="border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 text-sm"
+                      >
+                        <option value="">Nothing (full text)</option>
+                        {versions.filter(version => version.id !== selected.id).map((version) => (
+                          <option key={version.id} value={version.id}>Version {version.version}</option>
+                        ))}
+                      </select>
+                    </div>
+                    {selected.id !== agent.active_version_id && (
+                      <button
+                        onClick={() => handleRollback(selected)}
+                        disabled={rollingBack}
+                        className="inline-flex items-center px-3 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+                      >
+                        <ArrowUturnLeftIcon className="h-4 w-4 mr-1" />
+                        {rollingBack ? 'Rolling back...' : `Roll back to version ${selected.version}`}
+                      </button>
+                    )}
+                  </div>
+
+                  {compared && changedFields.length > 0 && (
+                    <table className="min-w-full divide-y divide-gray-200 border border-gray-200 rounded-md">
+                      <thead className="bg-gray-50">
+                        <tr>
+                          <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Setting</th>
+                          <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Version {compared.version}</th>
+                          <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Version {selected.version}</th>
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y divide-gray-200">
+                        {changedFields.map((field) => (
+                          <tr key={field}>
+                            <td className="px-4 py-2 text-sm text-gray-500">{VERSION_FIELD_LABELS[field]}</td>
+                            <td className="px-4 py-2 text-sm text-red-800">{formatVersionValue(compared[field])}</td>
+                            <td className="px-4 py-2 text-sm text-green-800">{formatVersionValue(selected[field])}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  )}
+
+                  <div>
+                    <h4 className="text-sm font-medium text-gray-900 mb-2">{VERSION_FIELD_LABELS.system_instruction}</h4>
+                    <div className="border border-gray-200 rounded-md max-h-[28rem] overflow-y-auto">
+                      <table className="min-w-full table-fixed font-mono text-xs">
+                        <tbody>
+                          {rows.map((row, index) => (
+                            <tr key={index}>
+                              <td className={`w-1/2 px-3 py-0.5 whitespace-pre-wrap align-top border-r border-gray-200 ${cellClass(row.left?.type)}`}>
+                                {row.left?.text}
+                              </td>
+                              <td className={`w-1/2 px-3 py-0.5 whitespace-pre-wrap align-top ${cellClass(row.right?.type)}`}>
+                                {row.right?.text}
+                              </td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                      {rows.length === 0 && (
+                        <p className="p-3 text-sm text-gray-500">No system instruction in either version.</p>
+                      )}
+                    </div>
+                  </div>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+const KNOWLEDGE_FILE_ACCEPT = Object.keys(KNOWLEDGE_FILE_TYPES).map(extension => `.${extension}`).join(',');
+
+const formatFileSize = (bytes: number) =>
+  bytes < 1024 * 1024 ? `${Math.max(1, Math.round(bytes / 1024))} KB` : `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+// Documents the agent answers from through search_knowledge_base, with a search box to check what it would find
+function KnowledgeBaseModal({ agent, onClose }: { agent: AIAgent; onClose: () => void }) {
+  const [documents, setDocuments] = useState<KnowledgeDocument[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [uploading, setUploading] = useState(false);
+  const [query, setQuery] = useState('');
+  const [searching, setSearching] = useState(false);
+  const [results, setResults] = useState<KnowledgeSearchResult[] | null>(null);
+
+  useEffect(() => {
+    loadDocuments();
+  }, [agent.id]);
+
+  const loadDocuments = async () => {
+    try {
+      setLoading(true);
+      setDocuments(await DatabaseService.getKnowledgeDocuments(agent.id));
+    } catch (error) {
+      console.error('Error loading knowledge documents:', error);
+      toast.error('Failed to load documents');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = '';
+    if (files.length === 0) return;
+
+    setUploading(true);
+    for (const file of files) {
+      try {
+        const document = await KnowledgeBaseService.uploadDocument(agent, file);
+        setDocuments(prev => [document, ...prev]);
+        toast.success(`${file.name}: ${document.chunk_count} passages indexed`);
+      } catch (error) {
+        console.error('Error uploading knowledge document:', error);
+        toast.error(`${file.name}: ${error instanceof Error ? error.message : 'upload failed'}`);
+      }
+    }
+    setUploading(false);
+  };
+
+  const handleDelete = async (document: KnowledgeDocument) => {
+    if (!confirm(`Remove "${document.name}" from ${agent.name}'s knowledge base?`)) return;
+
+    try {
+      await KnowledgeBaseService.deleteDocument(document);
+      setDocuments(prev => prev.filter(d => d.id !== document.id));
+      setResults(null);
+      toast.success('Document removed');
+    } catch (error) {
+      console.error('Error deleting knowledge document:', error);
+      toast.error('Failed to remove document');
+    }
+  };
+
+  const handleSearch = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!query.trim()) return;
+
+    setSearching(true);
+    try {
+      setResults(await KnowledgeBaseService.search(agent.id, query));
+    } catch (error) {
+      console.error('Error searching knowledge base:', error);
+      toast.error('Search failed');
+    } finally {
+      setSearching(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
+      <div className="relative top-10 mx-auto p-5 border w-11/12 max-w-4xl shadow-lg rounded-md bg-white">
+        <div className="mt-3 space-y-6">
+          <div className="flex justify-between items-center">
+            <div>
+              <h3 className="text-lg font-medium text-gray-900">{agent.name} · Knowledge Base</h3>
+              <p className="text-sm text-gray-500">
+                FAQs, price sheets and policies the agent looks up during calls with the search_knowledge_base function.
+              </p>
+            </div>
+            <button
+              onClick={onClose}
+              className="text-gray-400 hover:text-gray-600"
+            >
+              ✕
+            </button>
+          </div>
+
+          <label className={`flex items-center justify-center px-4 py-6 border-2 border-dashed border-gray-300 rounded-lg text-sm text-gray-600 ${
+            uploading ? 'opacity-50' : 'cursor-pointer hover:border-blue-400'
+          }`}>
+            <DocumentArrowUpIcon className="h-6 w-6 mr-2 text-gray-400" />
+            {uploading ? 'Reading and indexing...' : 'Upload PDF, DOCX, Markdown, CSV or text files (up to 10 MB each)'}
+            <input
+              type="file"
+              multiple
+              accept={KNOWLEDGE_FILE_ACCEPT}
+              disabled={uploading}
+              onChange={handleUpload}
+              className="hidden"
+            />
+          </label>
+
+          {loading ? (
+            <div className="flex items-center justify-center h-32">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-500"></div>
+            </div>
+          ) : documents.length > 0 ? (
+            <table className="min-w-full divide-y divide-gray-200 border border-gray-200 rounded-md">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Document</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Size</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Passages</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Added</th>
+                  <th className="px-4 py-2"></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {documents.map((document) => (
+                  <tr key={document.id}>
+                    <td className="px-4 py-2 text-sm text-gray-900">
+                      {document.name}
+                      <span className="ml-2 px-2 py-0.5 rounded-full text-xs bg-gray-100 text-gray-600 uppercase">{document.file_type}</span>
+                    </td>
+                    <td className="px-4 py-2 text-sm text-gray-500">{formatFileSize(document.size_bytes)}</td>
+                    <td className="px-4 py-2 text-sm text-gray-500">{document.chunk_count}</td>
+                    <td className="px-4 py-2 text-sm text-gray-500">{new Date(document.created_at).toLocaleDateString()}</td>
+                    <td className="px-4 py-2 text-right">
+                      <button
+                        onClick={() => handleDelete(document)}
+                        className="text-red-600 hover:text-red-900"
+                        title="Remove"
+                      >
+                        <TrashIcon className="h-4 w-4" />
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          ) : (
+            <p className="text-sm text-gray-500 text-center py-6">No documents yet.</p>
+          )}
+
+          {documents.length > 0 && (
+            <div>
+              <form onSubmit={handleSearch} className="flex space-x-2">
+                <input
+                  type="text"
+                  value={query}
+                  onChange={(e) => setQuery(e.target.value)}
+                  placeholder="Try a question a caller might ask, e.g. refund policy"
+                  className="flex-1 border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 text-sm"
+                />
+                <button
+                  type="submit"
+                  disabled={searching || !query.trim()}
+                  className="inline-flex items-center px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+                >
+                  <MagnifyingGlassIcon className="h-4 w-4 mr-1" />
+                  {searching ? 'Searching...' : 'Search'}
+                </button>
+              </form>
+
+              {results && (
+                <div className="mt-4 space-y-3">
+                  {results.length === 0 && <p className="text-sm text-gray-500">Nothing matches; the agent would say it will find out.</p>}
+                  {results.map((result, index) => (
+                    <div key={index} className="p-3 border border-gray-200 rounded-md">
+                      <p className="text-xs text-gray-500">
+                        {result.document}{result.heading && ` › ${result.heading}`} · score {result.score.toFixed(2)}
+                      </p>
+                      <p className="mt-1 text-sm text-gray-800 whitespace-pre-wrap">{result.content}</p>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+interface ToolFormState {
+  id?: string
+  name: string
+  description: string
+  parametersText: string
+  action_type: AgentTool['action_type']
+  builtin_action: BuiltinAction
+  method: HttpMethod
+  url: string
+  headers: Array<{ name: string; value: string }>
+  secret: string // blank keeps the saved secret
+  hasSecret: boolean
+  timeoutSeconds: string
+  is_active: boolean
+}
+
+const EMPTY_TOOL_SCHEMA = {
+  type: 'object',
+  properties: {
+    order_id: { type: 'string', description: 'Order number the caller reads out' }
+  },
+  required: ['order_id']
+};
+
+const toToolForm = (tool?: AgentTool): ToolFormState => ({
+  id: tool?.id,
+  name: tool?.name || '',
+  description: tool?.description || '',
+  parametersText: JSON.stringify(tool?.parameters || EMPTY_TOOL_SCHEMA, null, 2),
+  action_type: tool?.action_type || 'http',
+  builtin_action: tool?.builtin_action || 'schedule_callback',
+  method: tool?.http_config?.method || 'POST',
+  url: tool?.http_config?.url || '',
+  headers: Object.entries(tool?.http_config?.headers || {}).map(([name, value]) => ({ name, value })),
+  secret: '',
+  hasSecret: !!tool?.has_secret,
+  timeoutSeconds: tool?.http_config?.timeout_ms ? String(tool.http_config.timeout_ms / 1000) : '',
+  is_active: tool?.is_active ?? true
+});
+
+// Placeholder arguments for the test panel, one per declared property
+const exampleArguments = (schema: AgentTool['parameters']) => {
+  const examples: Record<string, unknown> = { string: '', number: 0, integer: 0, boolean: false, array: [], object: {} };
+  return Object.fromEntries(
+    Object.entries<SchemaProperty>(AgentToolService.getProperties(schema)).map(([key, property]) => [
+      key,
+      Array.isArray(property.enum) ? property.enum[0] : examples[property.type || ''] ?? ''
+    ])
+  );
+};
+
+const formatToolAction = (tool: AgentTool) => {
+  if (tool.action_type === 'builtin') {
+    return tool.builtin_action ? BUILTIN_TOOLS[tool.builtin_action].label : 'Built-in';
+  }
+  try {
+    return `${tool.http_config?.method} ${new URL(tool.http_config?.url || '').host}`;
+  } catch {
+    return `${tool.http_config?.method} ${tool.http_config?.url}`;
+  }
+};
+
+// Functions the agent can call, with the live error rate and latency of each and a panel to try them out
+function AgentToolsModal({ agent, onClose }: { agent: AIAgent; onClose: () => void }) {
+  const [tools, setTools] = useState<AgentTool[]>([]);
+  const [stats, setStats] = useState<Record<string, AgentToolStats>>({});
+  const [loading, setLoading] = useState(true);
+  const [form, setForm] = useState<ToolFormState | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [testTool, setTestTool] = useState<AgentTool | null>(null);
+  const [testArgs, setTestArgs] = useState('');
+  const [testing, setTesting] = useState(false);
+  const [testResult, setTestResult] = useState<ToolInvocationResult | null>(null);
+
+  useEffect(() => {
+    loadTools();
+  }, [agent.id]);
+
+  const loadTools = async () => {
+    try {
+      setLoading(true);
+      const agentTools = await DatabaseService.getAgentTools(agent.id);
+      setTools(agentTools);
+      setStats(await AgentToolService.getToolStats(agent.profile_id, agentTools.map(tool => tool.name)));
+    } catch (error) {
+      console.error('Error loading agent tools:', error);
+      toast.error('Failed to load tools');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const updateForm = (updates: Partial<ToolFormState>) => {
+    setForm(prev => (prev ? { ...prev, ...updates } : prev));
+  };
+
+  // Built-in actions bring their own declaration
+  const selectBuiltin = (action: BuiltinAction) => {
+    const { declaration } = BUILTIN_TOOLS[action];
+    updateForm({
+      builtin_action: action,
+      name: declaration.name,
+      description: declaration.description,
+      parametersText: JSON.stringify(declaration.parameters, null, 2)
+    });
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!form) return;
+
+    let parameters: AgentTool['parameters'];
+    try {
+      parameters = AgentToolService.parseSchema(form.parametersText);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Invalid parameters');
+      return;
+    }
+
+    const timeoutSeconds = parseFloat(form.timeoutSeconds);
+    const tool: Partial<AgentTool> = {
+      id: form.id,
+      name: form.name.trim(),
+      description: form.description.trim(),
+      parameters,
+      action_type: form.action_type,
+      builtin_action: form.action_type === 'builtin' ? form.builtin_action : undefined,
+      http_config: form.action_type === 'http'
+        ? {
+            url: form.url.trim(),
+            method: form.method,
+            headers: Object.fromEntries(form.headers.filter(header => header.name.trim()).map(header => [header.name.trim(), header.value])),
+            timeout_ms: timeoutSeconds > 0 ? Math.round(timeoutSeconds * 1000) : undefined
+          }
+        : undefined,
+      is_active: form.is_active
+    };
+    const errors = AgentToolService.validateTool(tool, tools);
+    if (errors.length > 0) {
+      toast.error(errors[0]);
+      return;
+    }
+
+    setSaving(true);
+    try {
+      let saved: AgentTool;
+      if (form.id) {
+        const { id, ...updates } = tool;
+        saved = await DatabaseService.updateAgentTool(id!, updates);
+      } else {
+        saved = await DatabaseService.createAgentTool({
+          ...(tool as Omit<AgentTool, 'id' | 'created_at' | 'updated_at' | 'profile_id' | 'agent_id'>),
+          profile_id: agent.profile_id,
+          agent_id: agent.id
+        });
+      }
+      if (form.secret) {
+        await DatabaseService.setAgentToolSecret(saved.id, form.secret);
+      }
+      toast.success(form.id ? 'Tool updated' : 'Tool added');
+      setForm(null);
+      loadTools();
+    } catch (error) {
+      console.error('Error saving agent tool:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to save tool');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggle = async (tool: AgentTool) => {
+    try {
+      const updated = await DatabaseService.updateAgentTool(tool.id, { is_active: !tool.is_active });
+      setTools(prev => prev.map(t => (t.id === tool.id ? updated : t)));
+    } catch (error) {
+      console.error('Error updating agent tool:', error);
+      toast.error('Failed to update tool');
+    }
+  };
+
+  const handleDelete = async (tool: AgentTool) => {
+    if (!confirm(`Remove the ${tool.name} tool from ${agent.name}?`)) return;
+
+    try {
+      await DatabaseService.deleteAgentTool(tool.id);
+      setTools(prev => prev.filter(t => t.id !== tool.id));
+      if (testTool?.id === tool.id) setTestTool(null);
+      toast.success('Tool removed');
+    } catch (error) {
+      console.error('Error deleting agent tool:', error);
+      toast.error('Failed to remove tool');
+    }
+  };
+
+  const openTest = (tool: AgentTool) => {
+    setForm(null);
+    setTestTool(tool);
+    setTestArgs(JSON.stringify(exampleArguments(tool.parameters), null, 2));
+    setTestResult(null);
+  };
+
+  const handleTest = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!testTool) return;
+
+    let args: ToolArguments;
+    try {
+      args = JSON.parse(testArgs || '{}');
+    } catch {
+      toast.error('Arguments are not valid JSON');
+      return;
+    }
+
+    setTesting(true);
+    try {
+      setTestResult(await AgentToolService.test(testTool, args));
+    } finally {
+      setTesting(false);
+    }
+  };
+
+  const inputClass = 'mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 text-sm';
+
+  return (
+    <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
+      <div className="relative top-10 mx-auto p-5 border w-11/12 max-w-5xl shadow-lg rounded-md bg-white">
+        <div className="mt-3 space-y-6">
+          <div className="flex justify-between items-center">
+            <div>
+              <h3 className="text-lg font-medium text-gray-900">{agent.name} · Tools</h3>
+              <p className="text-sm text-gray-500">
+                Functions the agent can call during conversations. Stats cover live calls over the last 30 days.
+              </p>
+            </div>
+            <button
+              onClick={onClose}
+              className="text-gray-400 hover:text-gray-600"
+            >
+              ✕
+            </button>
+          </div>
+
+          {loading ? (
+            <div className="flex items-center justify-center h-32">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-500"></div>
+            </div>
+          ) : tools.length > 0 ? (
+            <table className="min-w-full divide-y divide-gray-200 border border-gray-200 rounded-md">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Tool</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Action</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Calls</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Errors</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Latency (avg / p95)</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Active</th>
+                  <th className="px-4 py-2"></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {tools.map((tool) => {
+                  const toolStats = stats[tool.name];
+                  return (
+                    <tr key={tool.id}>
+                      <td className="px-4 py-2 text-sm">
+                        <p className="font-mono text-gray-900">{tool.name}</p>
+                        <p className="text-xs text-gray-500 line-clamp-1">{tool.description}</p>
+                      </td>
+                      <td className="px-4 py-2 text-sm text-gray-500">{formatToolAction(tool)}</td>
+                      <td className="px-4 py-2 text-sm text-gray-500">
+                        {toolStats?.calls || 0}
+                        {toolStats?.lastCalledAt && (
+                          <p className="text-xs text-gray-400">last {new Date(toolStats.lastCalledAt).toLocaleDateString()}</p>
+                        )}
+                      </td>
+                      <td className={`px-4 py-2 text-sm ${toolStats && toolStats.errorRate > 0.1 ? 'text-red-600 font-medium' : 'text-gray-500'}`}>
+                        {toolStats ? `${Math.round(toolStats.errorRate * 100)}%` : '—'}
+                      </td>
+                      <td className="px-4 py-2 text-sm text-gray-500">
+                        {toolStats ? `${toolStats.averageMs} / ${toolStats.p95Ms} ms` : '—'}
+                      </td>
+                      <td className="px-4 py-2 text-sm">
+                        <input
+                          type="checkbox"
+                          checked={tool.is_active}
+                          onChange={() => handleToggle(tool)}
+                          className="h-4 w-4 text-blue-600 border-gray-300 rounded"
+                        />
+                      </td>
+                      <td className="px-4 py-2 text-right whitespace-nowrap">
+                        <button
+                          onClick={() => openTest(tool)}
+                          className="p-1 text-green-600 hover:text-green-900"
+                          title="Test"
+                        >
+                          <PlayIcon className="h-4 w-4" />
+                        </button>
+                        <button
+                          onClick={() => {
+                            setTestTool(null);
+                            setForm(toToolForm(tool));
+                          }}
+                          className="p-1 text-blue-600 hover:text-blue-900"
+                          title="Edit"
+                        >
+                          <PencilIcon className="h-4 w-4" />
+                        </button>
+                        <button
+                          onClick={() => handleDelete(tool)}
+                          className="p-1 text-red-600 hover:text-red-900"
+                          title="Remove"
+                        >
+                          <TrashIcon className="h-4 w-4" />
+                        </button>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          ) : (
+            <p className="text-sm text-gray-500 text-center py-6">No tools yet.</p>
+          )}
+
+          {!form && (
+            <button
+              onClick={() => {
+                setTestTool(null);
+                setForm(toToolForm());
+              }}
+              className="inline-flex items-center px-3 py-2 text-sm font-medium text-blue-600 border border-blue-300 rounded-md hover:bg-blue-50"
+            >
+              <PlusIcon className="h-4 w-4 mr-1" />
+              Add Tool
+            </button>
+          )}
+
+          {form && (
+            <form onSubmit={handleSave} className="p-4 border border-gray-200 rounded-md space-y-4">
+              <h4 className="text-sm font-medium text-gray-900">{form.id ? `Edit ${form.name}` : 'New tool'}</h4>
+
+              <div className="flex space-x-6">
+                <label className="flex items-center text-sm text-gray-700">
+                  <input
+                    type="radio"
+                    checked={form.action_type === 'http'}
+                    onChange={() => updateForm({ action_type: 'http' })}
+                    className="mr-2"
+                  />
+                  HTTP request
+                </label>
+                <label className="flex items-center text-sm text-gray-700">
+                  <input
+                    type="radio"
+                    checked={form.action_type === 'builtin'}
+                    onChange={() => {
+                      updateForm({ action_type: 'builtin' });
+                      selectBuiltin(form.builtin_action);
+                    }}
+                    className="mr-2"
+                  />
+                  Built-in action
+                </label>
+              </div>
+
+              {form.action_type === 'builtin' && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">Action</label>
+                  <select
+                    value={form.builtin_action}
+                    onChange={(e) => selectBuiltin(e.target.value as BuiltinAction)}
+                    className={inputClass}
+                  >
+                    {(Object.keys(BUILTIN_TOOLS) as BuiltinAction[]).map(action => (
+                      <option key={action} value={action}>{BUILTIN_TOOLS[action].label}</option>
+                    ))}
+                  </select>
+                </div>
+              )}
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">Function name</label>
+                  <input
+                    type="text"
+                    value={form.name}
+                    onChange={(e) => updateForm({ name: e.target.value })}
+                    disabled={form.action_type === 'builtin'}
+                    placeholder="lookup_order"
+                    className={`${inputClass} font-mono disabled:bg-gray-50`}
+                    required
+                  />
+                </div>
+                <div className="flex items-end">
+                  <label className="flex items-center text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={form.is_active}
+                      onChange={(e) => updateForm({ is_active: e.target.checked })}
+                      className="h-4 w-4 mr-2 text-blue-600 border-gray-300 rounded"
+                    />
+                    Agent can call this tool
+                  </label>
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Description</label>
+                <textarea
+                  value={form.description}
+                  onChange={(e) => updateForm({ description: e.target.value })}
+                  rows={2}
+                  placeholder="Look up the status of an order when the caller asks where it is"
+                  className={inputClass}
+                  required
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Parameters (JSON Schema)</label>
+                <textarea
+                  value={form.parametersText}
+                  onChange={(e) => updateForm({ parametersText: e.target.value })}
+                  rows={8}
+                  disabled={form.action_type === 'builtin'}
+                  className={`${inputClass} font-mono text-xs disabled:bg-gray-50`}
+                />
+              </div>
+
+              {form.action_type === 'http' && (
+                <>
+                  <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700">Method</label>
+                      <select
+                        value={form.method}
+                        onChange={(e) => updateForm({ method: e.target.value as HttpMethod })}
+                        className={inputClass}
+                      >
+                        {HTTP_METHODS.map(method => <option key={method} value={method}>{method}</option>)}
+                      </select>
+                    </div>
+                    <div className="md:col-span-2">
+                      <label className="block text-sm font-medium text-gray-700">URL</label>
+                      <input
+                        type="text"
+                        value={form.url}
+                        onChange={(e) => updateForm({ url: e.target.value })}
+                        placeholder="https://api.example.com/orders/{{args.order_id}}"
+                        className={`${inputClass} font-mono`}
+                        required
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700">Timeout (seconds)</label>
+                      <input
+                        type="number"
+                        min="1"
+                        max="30"
+                        value={form.timeoutSeconds}
+                        onChange={(e) => updateForm({ timeoutSeconds: e.target.value })}
+                        placeholder="10"
+                        className={inputClass}
+                      />
+                    </div>
+                  </div>
+
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700">Headers</label>
+                    <p className="text-xs text-gray-500">
+                      Values can use {'{{secret}}'}, {'{{call_id}}'} and {'{{args.name}}'}. {form.method === 'GET'
+                        ? 'Arguments are sent as query parameters.'
+                        : 'Arguments are sent as a JSON body with the call_id.'}
+                    </p>
+                    {form.headers.map((header, index) => (
+                      <div key={index} className="flex space-x-2 mt-2">
+                        <input
+                          type="text"
+                          value={header.name}
+                          onChange={(e) => updateForm({ headers: form.headers.map((h, i) => (i === index ? { ...h, name: e.target.value } : h)) })}
+                          placeholder="Authorization"
+                          className="w-1/3 border-gray-300 rounded-md shadow-sm text-sm font-mono"
+                        />
+                        <input
+                          type="text"
+                          value={header.value}
+                          onChange={(e) => updateForm({ headers: form.headers.map((h, i) => (i === index ? { ...h, value: e.target.value } : h)) })}
+                          placeholder="Bearer {{secret}}"
+                          className="flex-1 border-gray-300 rounded-md shadow-sm text-sm font-mono"
+                        />
+                        <button
+                          type="button"
+                          onClick={() => updateForm({ headers: form.headers.filter((_, i) => i !== index) })}
+                          className="p-2 text-red-600 hover:bg-red-50 rounded-md"
+                        >
+                          <TrashIcon className="h-4 w-4" />
+                        </button>
+                      </div>
+                    ))}
+                    <button
+                      type="button"
+                      onClick={() => updateForm({ headers: [...form.headers, { name: '', value: '' }] })}
+                      className="mt-2 text-sm text-blue-600 hover:text-blue-800"
+                    >
+                      + Add header
+                    </button>
+                  </div>
+
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700">Auth secret</label>
+                    <input
+                      type="password"
+                      value={form.secret}
+                      onChange={(e) => updateForm({ secret: e.target.value })}
+                      placeholder={form.hasSecret ? 'Saved; leave blank to keep it' : 'API key or token, only readable by the dialer worker'}
+                      autoComplete="new-password"
+                      className={inputClass}
+                    />
+                  </div>
+                </>
+              )}
+
+              <div className="flex justify-end space-x-3">
+                <button
+                  type="button"
+                  onClick={() => setForm(null)}
+                  className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  disabled={saving}
+                  className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+                >
+                  {saving ? 'Saving...' : 'Save Tool'}
+                </button>
+              </div>
+            </form>
+          )}
+
+          {testTool && (
+            <form onSubmit={handleTest} className="p-4 border border-gray-200 rounded-md space-y-3">
+              <div className="flex justify-between items-center">
+                <h4 className="text-sm font-medium text-gray-900">Test <span className="font-mono">{testTool.name}</span></h4>
+                <button
+                  type="button"
+                  onClick={() => setTestTool(null)}
+                  className="text-gray-400 hover:text-gray-600"
+                >
+                  ✕
+                </button>
+              </div>
+              <p className="text-xs text-gray-500">
+                Test runs call the bound URL for real, from the dialer worker, but are not counted in the stats. Built-in actions only report what they would do.
+              </p>
+              <textarea
+                value={testArgs}
+                onChange={(e) => setTestArgs(e.target.value)}
+                rows={6}
+                className={`${inputClass} font-mono text-xs`}
+              />
+              <button
+                type="submit"
+                disabled={testing}
+                className="inline-flex items-center px-4 py-2 text-sm font-medium text-white bg-green-600 rounded-md hover:bg-green-700 disabled:opacity-50"
+              >
+                <PlayIcon className="h-4 w-4 mr-1" />
+                {testing ? 'Running...' : 'Run'}
+              </button>
+
+              {testResult && (
+                <div className={`p-3 rounded-md border ${testResult.success ? 'border-green-200 bg-green-50' : 'border-red-200 bg-red-50'}`}>
+                  <p className={`text-sm font-medium ${testResult.success ? 'text-green-800' : 'text-red-800'}`}>
+                    {testResult.message} · {testResult.durationMs} ms
+                  </p>
+                  {testResult.data !== undefined && (
+                    <pre className="mt-2 text-xs text-gray-800 whitespace-pre-wrap max-h-64 overflow-y-auto">
+                      {typeof testResult.data === 'string' ? testResult.data : JSON.stringify(testResult.data, null, 2)}
+                    </pre>
+                  )}
+                </div>
+              )}
+            </form>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
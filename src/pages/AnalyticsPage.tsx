@@ -2,6 +2,10 @@ import { useState, useEffect } from 'react';
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, LineChart, Line, PieChart, Pie, Cell } from 'recharts';
 import { useUser } from '../contexts/UserContext';
 import { DatabaseService } from '../services/database';
+import { BusinessIntelligenceService } from '../services/business-intelligence';
+import type { AnsweringMachineAnalytics } from '../services/business-intelligence';
+import { DispositionService, DISPOSITION_CATEGORIES } from '../services/dispositions';
+import type { DispositionCategory } from '../services/dispositions';
 import type { AnalyticsData } from '../lib/supabase';
 import toast from 'react-hot-toast';
 
@@ -10,20 +14,32 @@ export default function AnalyticsPage() {
   const [loading, setLoading] = useState(true);
   const [timeRange, setTimeRange] = useState('7d');
   const [analytics, setAnalytics] = useState<AnalyticsData | null>(null);
+  const [amdStats, setAmdStats] = useState<AnsweringMachineAnalytics | null>(null);
+  const [topDispositions, setTopDispositions] = useState<AnalyticsData['topOutcomes']>([]);
 
   useEffect(() => {
     if (user) {
       loadAnalytics();
     }
-  }, [user]);
+  }, [user, timeRange]);
 
   const loadAnalytics = async () => {
     if (!user) return;
 
     try {
       setLoading(true);
-      const analyticsData = await DatabaseService.getAnalytics(user.id);
+      const days = { '7d': 7, '30d': 30, '90d': 90, '1y': 365 }[timeRange] || 7;
+      const [analyticsData, amdData, dispositions] = await Promise.all([
+        DatabaseService.getAnalytics(user.id),
+        BusinessIntelligenceService.getAnsweringMachineAnalytics(user.id, {
+          start: new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString(),
+          end: new Date().toISOString()
+        }),
+        DispositionService.getCatalog(user.id)
+      ]);
       setAnalytics(analyticsData);
+      setAmdStats(amdData);
+      setTopDispositions(DispositionService.labelOutcomes(dispositions, analyticsData.topOutcomes || []));
     } catch (error) {
       console.error('Error loading analytics:', error);
       toast.error('Failed to load analytics');
@@ -32,6 +48,13 @@ export default function AnalyticsPage() {
     }
   };
 
+  const categoryColors: Record<DispositionCategory, string> = {
+    success: 'bg-green-100 text-green-800',
+    contact: 'bg-blue-100 text-blue-800',
+    no_contact: 'bg-gray-100 text-gray-800',
+    dnc: 'bg-red-100 text-red-800'
+  };
+
   if (loading) {
     return (
       <div className="min-h-screen bg-gray-50 flex items-center justify-center">
@@ -213,6 +236,49 @@ export default function AnalyticsPage() {
           </ResponsiveContainer>
         </div>
 
+        {/* Answering Machine Detection */}
+        <div className="bg-white p-6 rounded-lg shadow">
+          <h3 className="text-lg font-medium text-gray-900 mb-4">Who Answered</h3>
+          {!amdStats || amdStats.detectedCalls === 0 ? (
+            <div className="text-center py-8">
+              <p className="text-gray-500">No calls with answering machine detection yet</p>
+            </div>
+          ) : (
+            <div className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <p className="text-sm text-gray-500">Human</p>
+                  <p className="text-2xl font-semibold text-green-600">{amdStats.humanRate}%</p>
+                  <p className="text-xs text-gray-500">{amdStats.human} calls</p>
+                </div>
+                <div>
+                  <p className="text-sm text-gray-500">Machine</p>
+                  <p className="text-2xl font-semibold text-orange-600">{amdStats.machineRate}%</p>
+                  <p className="text-xs text-gray-500">{amdStats.machine} calls</p>
+                </div>
+              </div>
+              <div className="flex h-3 rounded-full overflow-hidden bg-gray-200">
+                <div className="bg-green-500" style={{ width: `${amdStats.humanRate}%` }}></div>
+                <div className="bg-orange-500" style={{ width: `${amdStats.machineRate}%` }}></div>
+              </div>
+              <dl className="grid grid-cols-3 gap-4 text-sm">
+                <div>
+                  <dt className="text-gray-500">Voicemails left</dt>
+                  <dd className="font-medium text-gray-900">{amdStats.voicemailsLeft}</dd>
+                </div>
+                <div>
+                  <dt className="text-gray-500">Fax</dt>
+                  <dd className="font-medium text-gray-900">{amdStats.fax}</dd>
+                </div>
+                <div>
+                  <dt className="text-gray-500">Undetermined</dt>
+                  <dd className="font-medium text-gray-900">{amdStats.unknown}</dd>
+                </div>
+              </dl>
+            </div>
+          )}
+        </div>
+
         {/* Top Performing Scripts */}
         <div className="bg-white p-6 rounded-lg shadow">
           <h3 className="text-lg font-medium text-gray-900 mb-4">Top Performing Scripts</h3>
@@ -242,6 +308,32 @@ export default function AnalyticsPage() {
             )}
           </div>
         </div>
+
+        {/* Top Dispositions */}
+        <div className="bg-white p-6 rounded-lg shadow">
+          <h3 className="text-lg font-medium text-gray-900 mb-4">Top Dispositions</h3>
+          {topDispositions.length === 0 ? (
+            <div className="text-center py-8">
+              <p className="text-gray-500">No dispositions recorded yet</p>
+            </div>
+          ) : (
+            <div className="space-y-3">
+              {topDispositions.slice(0, 8).map((entry) => (
+                <div key={entry.outcome} className="flex items-center justify-between">
+                  <div className="flex items-center">
+                    <p className="text-sm font-medium text-gray-900">{entry.label}</p>
+                    {entry.category && (
+                      <span className={`ml-2 inline-flex px-2 py-0.5 text-xs font-medium rounded-full ${categoryColors[entry.category]}`}>
+                        {DISPOSITION_CATEGORIES.find(category => category.value === entry.category)?.label}
+                      </span>
+                    )}
+                  </div>
+                  <p className="text-sm text-gray-500">{entry.count} calls</p>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
       </div>
     </div>
   );
@@ -0,0 +1,237 @@
+import { useState, useEffect } from 'react';
+import { ClockIcon, PencilIcon, XCircleIcon } from '@heroicons/react/24/outline';
+import { useUser } from '../contexts/UserContext';
+import { DatabaseService } from '../services/database';
+import { CallbackService } from '../services/callbacks';
+import type { CallbackDisplayStatus } from '../services/callbacks';
+import ScheduleCallbackModal from '../components/ScheduleCallbackModal';
+import type { Campaign, CampaignLead, LeadCallback } from '../lib/supabase';
+import toast from 'react-hot-toast';
+
+type CallbackTab = 'upcoming' | 'missed' | 'done'
+
+const TAB_STATUSES: Record<CallbackTab, CallbackDisplayStatus[]> = {
+  upcoming: ['upcoming', 'due'],
+  missed: ['missed'],
+  done: ['dialed', 'cancelled']
+};
+
+const STATUS_STYLES: Record<CallbackDisplayStatus, string> = {
+  upcoming: 'bg-blue-100 text-blue-800',
+  due: 'bg-green-100 text-green-800',
+  missed: 'bg-red-100 text-red-800',
+  dialed: 'bg-gray-100 text-gray-800',
+  cancelled: 'bg-gray-100 text-gray-500'
+};
+
+export default function CallbacksPage() {
+  const { user } = useUser();
+  const [callbacks, setCallbacks] = useState<LeadCallback[]>([]);
+  const [campaigns, setCampaigns] = useState<Campaign[]>([]);
+  const [campaignId, setCampaignId] = useState('');
+  const [tab, setTab] = useState<CallbackTab>('upcoming');
+  const [loading, setLoading] = useState(true);
+  const [rescheduling, setRescheduling] = useState<{ callback: LeadCallback; lead: CampaignLead; campaign: Campaign } | null>(null);
+
+  useEffect(() => {
+    if (user) {
+      loadData();
+    }
+  }, [user, campaignId]);
+
+  const loadData = async () => {
+    if (!user) return;
+
+    try {
+      setLoading(true);
+      const [callbackData, campaignData] = await Promise.all([
+        DatabaseService.getLeadCallbacks(user.id, { campaignId: campaignId || undefined }),
+        DatabaseService.getCampaigns(user.id)
+      ]);
+      setCallbacks(callbackData);
+      setCampaigns(campaignData);
+    } catch (error) {
+      console.error('Error loading callbacks:', error);
+      toast.error('Failed to load callbacks');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleReschedule = async (callback: LeadCallback) => {
+    const campaign = campaigns.find(c => c.id === callback.campaign_id);
+    const lead = await DatabaseService.getCampaignLead(callback.lead_id);
+    if (!campaign || !lead) {
+      toast.error('The lead or its campaign no longer exists');
+      return;
+    }
+    setRescheduling({ callback, lead, campaign });
+  };
+
+  const handleCancel = async (callback: LeadCallback) => {
+    if (!confirm('Cancel this callback?')) return;
+
+    try {
+      await CallbackService.cancelCallback(callback);
+      setCallbacks(prev => prev.map(c => c.id === callback.id ? { ...c, status: 'cancelled' } : c));
+      toast.success('Callback cancelled');
+    } catch (error) {
+      console.error('Error cancelling callback:', error);
+      toast.error('Failed to cancel callback');
+    }
+  };
+
+  const now = new Date();
+  const withStatus = callbacks.map(callback => ({ callback, status: CallbackService.getDisplayStatus(callback, now) }));
+  const counts = Object.fromEntries(
+    (Object.keys(TAB_STATUSES) as CallbackTab[]).map(key => [key, withStatus.filter(item => TAB_STATUSES[key].includes(item.status)).length])
+  ) as Record<CallbackTab, number>;
+  const visible = withStatus.filter(item => TAB_STATUSES[tab].includes(item.status));
+  // Most recent first once they are done
+  if (tab === 'done') visible.reverse();
+
+  return (
+    <div className="space-y-6">
+      <div className="sm:flex sm:items-center sm:justify-between">
+        <div>
+          <h1 className="text-2xl font-semibold text-gray-900">Callbacks</h1>
+          <p className="mt-2 text-sm text-gray-700">
+            Calls leads asked for, by your agents or your team. Due callbacks are dialed ahead of fresh leads while the campaign runs.
+          </p>
+        </div>
+        <div className="mt-4 sm:mt-0">
+          <select
+            value={campaignId}
+            onChange={(e) => setCampaignId(e.target.value)}
+            className="block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 text-sm"
+          >
+            <option value="">All campaigns</option>
+            {campaigns.map((campaign) => (
+              <option key={campaign.id} value={campaign.id}>{campaign.name}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <div className="border-b border-gray-200">
+        <nav className="-mb-px flex space-x-8">
+          {([
+            { key: 'upcoming', label: 'Upcoming' },
+            { key: 'missed', label: 'Missed' },
+            { key: 'done', label: 'Dialed & Cancelled' }
+          ] as Array<{ key: CallbackTab; label: string }>).map((item) => (
+            <button
+              key={item.key}
+              onClick={() => setTab(item.key)}
+              className={`whitespace-nowrap py-2 px-1 border-b-2 font-medium text-sm ${
+                tab === item.key
+                  ? 'border-blue-500 text-blue-600'
+                  : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+              }`}
+            >
+              {item.label}
+              <span className="ml-2 rounded-full bg-gray-100 px-2 py-0.5 text-xs text-gray-600">{counts[item.key]}</span>
+            </button>
+          ))}
+        </nav>
+      </div>
+
+      {loading ? (
+        <div className="flex items-center justify-center h-64">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-500"></div>
+        </div>
+      ) : visible.length > 0 ? (
+        <div className="bg-white shadow-sm rounded-lg border border-gray-200 overflow-hidden">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Lead</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Campaign</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">When</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Notes</th>
+                <th className="px-6 py-3"></th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {visible.map(({ callback, status }) => {
+                const lead = callback.campaign_leads;
+                const open = status === 'upcoming' || status === 'due' || status === 'missed';
+                return (
+                  <tr key={callback.id} className="hover:bg-gray-50">
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div className="text-sm font-medium text-gray-900">
+                        {[lead?.first_name, lead?.last_name].filter(Boolean).join(' ') || lead?.phone_number || 'Unknown lead'}
+                      </div>
+                      <div className="text-sm text-gray-500 font-mono">{lead?.phone_number}</div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {callback.outbound_campaigns?.name || '-'}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div className="text-sm text-gray-900">{CallbackService.formatLocalTime(callback.scheduled_at, callback.timezone)}</div>
+                      <div className="text-xs text-gray-500">
+                        Your time: {new Date(callback.scheduled_at).toLocaleString()}
+                      </div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full capitalize ${STATUS_STYLES[status]}`}>
+                        {status}
+                      </span>
+                      <div className="mt-1 text-xs text-gray-500">
+                        {callback.requested_by === 'agent' ? 'Asked on a call' : 'Added by a user'}
+                      </div>
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-500 max-w-xs">
+                      {callback.notes || '-'}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-right text-sm">
+                      {open && (
+                        <div className="flex justify-end space-x-3">
+                          <button
+                            onClick={() => handleReschedule(callback)}
+                            className="text-blue-600 hover:text-blue-900"
+                            title="Reschedule"
+                          >
+                            <PencilIcon className="h-4 w-4" />
+                          </button>
+                          <button
+                            onClick={() => handleCancel(callback)}
+                            className="text-red-600 hover:text-red-900"
+                            title="Cancel"
+                          >
+                            <XCircleIcon className="h-4 w-4" />
+                          </button>
+                        </div>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      ) : (
+        <div className="text-center py-12">
+          <ClockIcon className="mx-auto h-12 w-12 text-gray-400" />
+          <h3 className="mt-2 text-sm font-medium text-gray-900">
+            {tab === 'missed' ? 'No missed callbacks' : tab === 'done' ? 'No dialed or cancelled callbacks' : 'No upcoming callbacks'}
+          </h3>
+          <p className="mt-1 text-sm text-gray-500">
+            Callbacks appear here when a lead asks to be called back, or when you schedule one from a call or a campaign's leads.
+          </p>
+        </div>
+      )}
+
+      {rescheduling && (
+        <ScheduleCallbackModal
+          lead={rescheduling.lead}
+          campaign={rescheduling.campaign}
+          existing={rescheduling.callback}
+          onClose={() => setRescheduling(null)}
+          onScheduled={() => loadData()}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,348 @@
+import { useState, useEffect } from 'react';
+import {
+  PlusIcon,
+  TrashIcon,
+  PhoneIcon,
+  PauseIcon,
+  PlayIcon,
+  ExclamationTriangleIcon
+} from '@heroicons/react/24/outline';
+import { useUser } from '../contexts/UserContext';
+import { DatabaseService } from '../services/database';
+import { CallerIdPool, DEFAULT_CALLER_ID_DAILY_LIMIT } from '../services/caller-id-pool';
+import type { CallerIdNumber } from '../lib/supabase';
+import toast from 'react-hot-toast';
+
+const STATUS_STYLES: Record<CallerIdNumber['status'], { label: string; color: string }> = {
+  active: { label: 'Active', color: 'bg-green-100 text-green-800' },
+  resting: { label: 'Resting', color: 'bg-yellow-100 text-yellow-800' },
+  retired: { label: 'Retired', color: 'bg-gray-100 text-gray-800' }
+};
+
+function formatRate(rate: number | null): string {
+  return rate === null ? '-' : `${(rate * 100).toFixed(1)}%`;
+}
+
+export default function CallerIdsPage() {
+  const { user } = useUser();
+  const [numbers, setNumbers] = useState<CallerIdNumber[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showAddModal, setShowAddModal] = useState(false);
+
+  useEffect(() => {
+    if (user) {
+      loadNumbers();
+    }
+  }, [user]);
+
+  const loadNumbers = async () => {
+    if (!user) return;
+
+    try {
+      setLoading(true);
+      const pool = await DatabaseService.getCallerIdNumbers(user.id);
+      setNumbers(pool);
+    } catch (error) {
+      console.error('Error loading caller ID pool:', error);
+      toast.error('Failed to load caller IDs');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleToggleRest = async (number: CallerIdNumber) => {
+    const resting = number.status === 'resting';
+    try {
+      await DatabaseService.updateCallerIdNumber(number.id, resting
+        ? { status: 'active', rest_reason: '' }
+        : CallerIdPool.restUpdates('Rested manually'));
+      toast.success(resting ? 'Number reactivated' : 'Number rested');
+      loadNumbers();
+    } catch (error) {
+      console.error('Error updating caller ID:', error);
+      toast.error('Failed to update caller ID');
+    }
+  };
+
+  const handleDelete = async (number: CallerIdNumber) => {
+    if (!confirm(`Remove ${number.phone_number} from the caller ID pool?`)) {
+      return;
+    }
+
+    try {
+      await DatabaseService.deleteCallerIdNumber(number.id);
+      setNumbers(prev => prev.filter(n => n.id !== number.id));
+      toast.success('Number removed from the pool');
+    } catch (error) {
+      console.error('Error deleting caller ID:', error);
+      toast.error('Failed to remove number');
+    }
+  };
+
+  // Daily counts are kept per campaign timezone; the browser's day is the closest match here
+  const timezone = Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+  const available = numbers.filter(number => CallerIdPool.isAvailable(number, new Date(), timezone)).length;
+  const resting = numbers.filter(number => number.status === 'resting').length;
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-500"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="sm:flex sm:items-center sm:justify-between">
+        <div>
+          <h1 className="text-2xl font-semibold text-gray-900">Caller IDs</h1>
+          <p className="mt-2 text-sm text-gray-700">
+            Numbers campaigns call from when they rotate caller IDs or use local presence.
+          </p>
+        </div>
+        <div className="mt-4 sm:mt-0">
+          <button
+            type="button"
+            onClick={() => setShowAddModal(true)}
+            className="inline-flex items-center justify-center rounded-md border border-transparent bg-blue-600 px-4 py-2 text-sm font-medium text-white shadow-sm hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2"
+          >
+            <PlusIcon className="-ml-1 mr-2 h-5 w-5" aria-hidden="true" />
+            Add Number
+          </button>
+        </div>
+      </div>
+
+      {/* Stats */}
+      <div className="bg-white shadow-sm rounded-lg border border-gray-200 p-6">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+          <div className="text-center">
+            <div className="text-2xl font-bold text-gray-900">{numbers.length}</div>
+            <div className="text-sm text-gray-500">Numbers in Pool</div>
+          </div>
+          <div className="text-center">
+            <div className="text-2xl font-bold text-green-600">{available}</div>
+            <div className="text-sm text-gray-500">Available Now</div>
+          </div>
+          <div className="text-center">
+            <div className="text-2xl font-bold text-yellow-600">{resting}</div>
+            <div className="text-sm text-gray-500">Resting</div>
+          </div>
+        </div>
+      </div>
+
+      {numbers.length > 0 ? (
+        <div className="bg-white shadow-sm rounded-lg border border-gray-200 overflow-hidden">
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Phone Number
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Region
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Status
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Calls Today
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Answer Rate (Recent / All)
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Actions
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {numbers.map((number) => {
+                  const status = STATUS_STYLES[number.status];
+                  const health = CallerIdPool.getHealth(number);
+
+                  return (
+                    <tr key={number.id} className={`hover:bg-gray-50 ${number.status === 'retired' ? 'opacity-60' : ''}`}>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <div className="flex items-center">
+                          <PhoneIcon className="h-5 w-5 text-gray-400 mr-3" />
+                          <div>
+                            <div className="text-sm font-medium text-gray-900 font-mono">{number.phone_number}</div>
+                            {number.label && <div className="text-xs text-gray-500">{number.label}</div>}
+                          </div>
+                        </div>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                        {number.region || '-'}
+                        {number.area_code && <span className="ml-2 text-xs text-gray-500">({number.area_code})</span>}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${status.color}`}>
+                          {status.label}
+                        </span>
+                        {number.status === 'resting' && (
+                          <div className="mt-1 text-xs text-gray-500" title={number.rest_reason}>
+                            {number.rested_until && `Until ${new Date(number.rested_until).toLocaleString()}`}
+                          </div>
+                        )}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                        {CallerIdPool.callsToday(number, new Date(), timezone)}
+                        {number.daily_limit > 0 && <span className="text-gray-500"> / {number.daily_limit}</span>}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                        <div className="flex items-center">
+                          {formatRate(health.recentRate)} / {formatRate(health.lifetimeRate)}
+                          {health.collapsed && <ExclamationTriangleIcon className="h-4 w-4 text-red-500 ml-2" />}
+                        </div>
+                        <div className="text-xs text-gray-500">{number.total_calls} calls</div>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
+                        <div className="flex space-x-3">
+                          {number.status !== 'retired' && (
+                            <button
+                              onClick={() => handleToggleRest(number)}
+                              className="text-gray-600 hover:text-gray-900"
+                              title={number.status === 'resting' ? 'Reactivate' : 'Rest'}
+                            >
+                              {number.status === 'resting' ? <PlayIcon className="h-4 w-4" /> : <PauseIcon className="h-4 w-4" />}
+                            </button>
+                          )}
+                          <button
+                            onClick={() => handleDelete(number)}
+                            className="text-red-600 hover:text-red-900"
+                            title="Remove from pool"
+                          >
+                            <TrashIcon className="h-4 w-4" />
+                          </button>
+                        </div>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      ) : (
+        <div className="text-center py-12">
+          <PhoneIcon className="mx-auto h-12 w-12 text-gray-400" />
+          <h3 className="mt-2 text-sm font-medium text-gray-900">No caller IDs yet</h3>
+          <p className="mt-1 text-sm text-gray-500">
+            Add numbers from several area codes so campaigns can call leads from a local number.
+          </p>
+        </div>
+      )}
+
+      {showAddModal && (
+        <AddCallerIdModal
+          onClose={() => setShowAddModal(false)}
+          onSuccess={loadNumbers}
+        />
+      )}
+    </div>
+  );
+}
+
+function AddCallerIdModal({ onClose, onSuccess }: { onClose: () => void; onSuccess: () => void }) {
+  const { user } = useUser();
+  const [loading, setLoading] = useState(false);
+  const [formData, setFormData] = useState({
+    phone_number: '',
+    label: '',
+    daily_limit: DEFAULT_CALLER_ID_DAILY_LIMIT
+  });
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user) return;
+
+    setLoading(true);
+    try {
+      await DatabaseService.addCallerIdNumber({
+        profile_id: user.id,
+        phone_number: formData.phone_number,
+        label: formData.label || undefined,
+        daily_limit: formData.daily_limit
+      });
+
+      toast.success('Number added to the pool');
+      onSuccess();
+      onClose();
+    } catch (error) {
+      console.error('Error adding caller ID:', error);
+      toast.error('Failed to add number');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
+      <div className="relative top-20 mx-auto p-5 border w-96 shadow-lg rounded-md bg-white">
+        <div className="mt-3">
+          <h3 className="text-lg font-medium text-gray-900 mb-4">Add Caller ID</h3>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Phone Number</label>
+              <input
+                type="tel"
+                required
+                value={formData.phone_number}
+                onChange={(e) => setFormData({ ...formData, phone_number: e.target.value })}
+                className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500"
+                placeholder="+1 (555) 123-4567"
+              />
+              <p className="mt-1 text-xs text-gray-500">
+                Must be a number your telephony account owns
+              </p>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Label (Optional)</label>
+              <input
+                type="text"
+                value={formData.label}
+                onChange={(e) => setFormData({ ...formData, label: e.target.value })}
+                className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500"
+                placeholder="Austin office"
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Daily Call Limit</label>
+              <input
+                type="number"
+                min="0"
+                value={formData.daily_limit}
+                onChange={(e) => setFormData({ ...formData, daily_limit: parseInt(e.target.value, 10) || 0 })}
+                className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500"
+              />
+              <p className="mt-1 text-xs text-gray-500">
+                0 for no limit. Numbers that place fewer calls are less likely to be flagged as spam.
+              </p>
+            </div>
+
+            <div className="flex justify-end space-x-3 pt-4">
+              <button
+                type="button"
+                onClick={onClose}
+                className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={loading}
+                className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+              >
+                {loading ? 'Adding...' : 'Add Number'}
+              </button>
+            </div>
+          </form>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -14,7 +14,10 @@ import { useUser } from '../contexts/UserContext';
 import { DatabaseService } from '../services/database';
 import { RealtimeService } from '../services/realtime';
 import { ExportService } from '../services/export';
-import type { CallLog } from '../lib/supabase';
+import { DispositionService, DEFAULT_DISPOSITIONS } from '../services/dispositions';
+import type { DispositionDefinition } from '../services/dispositions';
+import ScheduleCallbackModal from '../components/ScheduleCallbackModal';
+import type { CallLog, Campaign, CampaignLead } from '../lib/supabase';
 import toast from 'react-hot-toast';
 
 export default function CallsPage() {
@@ -28,6 +31,9 @@ export default function CallsPage() {
   const [showTranscript, setShowTranscript] = useState(false);
   const [currentPage, setCurrentPage] = useState(1);
   const [totalCalls, setTotalCalls] = useState(0);
+  const [dispositions, setDispositions] = useState<DispositionDefinition[]>(DEFAULT_DISPOSITIONS);
+  const [savingDisposition, setSavingDisposition] = useState(false);
+  const [callbackTarget, setCallbackTarget] = useState<{ call: CallLog; lead: CampaignLead; campaign: Campaign } | null>(null);
   const callsPerPage = 20;
 
   useEffect(() => {
@@ -37,6 +43,12 @@ export default function CallsPage() {
     }
   }, [user, currentPage, filter, statusFilter]);
 
+  useEffect(() => {
+    if (user) {
+      DispositionService.getCatalog(user.id).then(setDispositions);
+    }
+  }, [user]);
+
   const loadCalls = async () => {
     if (!user) return;
 
@@ -85,7 +97,7 @@ export default function CallsPage() {
     try {
       // Get all calls for export (not just current page)
       const allCalls = await DatabaseService.getAllCallLogs(user!.id);
-      ExportService.exportCallsToCSV(allCalls);
+      ExportService.exportCallsToCSV(allCalls, undefined, dispositions);
       toast.success('Call history exported successfully');
     } catch (error) {
       console.error('Error exporting calls:', error);
@@ -93,6 +105,41 @@ export default function CallsPage() {
     }
   };
 
+  const handleSetDisposition = async (code: string) => {
+    if (!user || !selectedCall || !code) return;
+
+    setSavingDisposition(true);
+    try {
+      await DispositionService.setCallDisposition(user.id, selectedCall.id, code);
+      const updated = { ...selectedCall, outcome: code };
+      setSelectedCall(updated);
+      setCalls(prev => prev.map(call => call.id === updated.id ? updated : call));
+      toast.success('Disposition saved');
+      if (code === 'callback_requested') {
+        await handleScheduleCallback(updated);
+      }
+    } catch (error) {
+      console.error('Error saving disposition:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to save disposition');
+    } finally {
+      setSavingDisposition(false);
+    }
+  };
+
+  const handleScheduleCallback = async (call: CallLog) => {
+    if (!call.lead_id || !call.campaign_id) return;
+
+    const [lead, campaign] = await Promise.all([
+      DatabaseService.getCampaignLead(call.lead_id),
+      DatabaseService.getCampaign(call.campaign_id)
+    ]);
+    if (!lead || !campaign) {
+      toast.error('The lead or its campaign no longer exists');
+      return;
+    }
+    setCallbackTarget({ call, lead, campaign });
+  };
+
   const formatDuration = (seconds: number) => {
     const minutes = Math.floor(seconds / 60);
     const remainingSeconds = seconds % 60;
@@ -310,7 +357,7 @@ export default function CallsPage() {
                   </td>
                   <td className="px-6 py-4 text-sm text-gray-500 max-w-xs">
                     <div className="truncate">
-                      {call.call_summary || call.outcome || 'No summary available'}
+                      {call.call_summary || DispositionService.getLabel(dispositions, call.outcome) || 'No summary available'}
                     </div>
                     {call.sentiment_score && (
                       <div className="text-xs mt-1">
@@ -460,13 +507,32 @@ export default function CallsPage() {
                     </>
                   )}
 
-                  {selectedCall.outcome && (
-                    <>
-                      <h4 className="text-sm font-medium text-gray-900 mb-2 mt-4">Outcome:</h4>
-                      <div className="text-sm text-gray-700 bg-green-50 p-4 border border-green-200 rounded-lg">
-                        {selectedCall.outcome}
-                      </div>
-                    </>
+                  <h4 className="text-sm font-medium text-gray-900 mb-2 mt-4">Disposition:</h4>
+                  <div className="flex items-center justify-between text-sm text-gray-700 bg-green-50 p-4 border border-green-200 rounded-lg">
+                    <span>{DispositionService.getLabel(dispositions, selectedCall.outcome) || 'Not set'}</span>
+                    <select
+                      value=""
+                      disabled={savingDisposition}
+                      onChange={(e) => handleSetDisposition(e.target.value)}
+                      className="rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm disabled:opacity-50"
+                    >
+                      <option value="">Set disposition...</option>
+                      {DispositionService.getAgentDispositions(dispositions).map((disposition) => (
+                        <option key={disposition.code} value={disposition.code}>{disposition.label}</option>
+                      ))}
+                    </select>
+                  </div>
+
+                  {selectedCall.lead_id && selectedCall.campaign_id && (
+                    <div className="mt-3 flex justify-end">
+                      <button
+                        onClick={() => handleScheduleCallback(selectedCall)}
+                        className="inline-flex items-center px-3 py-1.5 border border-blue-300 text-sm font-medium rounded-md text-blue-700 bg-blue-50 hover:bg-blue-100"
+                      >
+                        <ClockIcon className="h-4 w-4 mr-1" />
+                        Schedule Callback
+                      </button>
+                    </div>
                   )}
                 </div>
               </div>
@@ -474,6 +540,15 @@ export default function CallsPage() {
           </div>
         </div>
       )}
+
+      {callbackTarget && (
+        <ScheduleCallbackModal
+          lead={callbackTarget.lead}
+          campaign={callbackTarget.campaign}
+          callId={callbackTarget.call.id}
+          onClose={() => setCallbackTarget(null)}
+        />
+      )}
     </div>
   );
 }
\ No newline at end of file
@@ -1,4 +1,5 @@
 import { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
 import { 
   PlusIcon, 
   PlayIcon, 
@@ -8,12 +9,33 @@ import {
   DocumentArrowUpIcon,
   EyeIcon,
   PencilIcon,
-  MegaphoneIcon
+  MegaphoneIcon,
+  BeakerIcon,
+  ArrowPathIcon,
+  DocumentDuplicateIcon,
+  BookmarkIcon,
+  XMarkIcon,
+  ClockIcon
 } from '@heroicons/react/24/outline';
 import { useUser, usePermissions } from '../contexts/UserContext';
 import { DatabaseService } from '../services/database';
 import { RealtimeService } from '../services/realtime';
-import type { Campaign, CampaignLead, AIAgent } from '../lib/supabase';
+import { DEFAULT_DUPLICATE_OPTIONS, LeadImportService } from '../services/lead-import';
+import type { DuplicateOptions, LeadImportResult, LeadImportRow } from '../services/lead-import';
+import { LeadSegmentService } from '../services/lead-segments';
+import { CampaignTemplateService } from '../services/campaign-templates';
+import type { CloneLeadOption } from '../services/campaign-templates';
+import { CampaignBudgetService } from '../services/campaign-budget';
+import type { CallHistory, CampaignBudget } from '../services/campaign-budget';
+import LeadImporter from '../components/LeadImporter';
+import ScheduleCallbackModal from '../components/ScheduleCallbackModal';
+import CampaignVariantsEditor from '../components/CampaignVariantsEditor';
+import CampaignBudgetFields from '../components/CampaignBudgetFields';
+import VariantComparison from '../components/VariantComparison';
+import PreviewDialerPanel from '../components/PreviewDialerPanel';
+import type { AmdAction } from '../services/auto-dialer';
+import { DEFAULT_MAX_ABANDON_RATE } from '../services/dialer-pacing';
+import type { Campaign, CampaignLead, CampaignTemplate, CampaignVariant, AIAgent } from '../lib/supabase';
 import toast from 'react-hot-toast';
 
 export default function CampaignsPage() {
@@ -25,6 +47,10 @@ export default function CampaignsPage() {
   const [showLeadsModal, setShowLeadsModal] = useState(false);
   const [selectedCampaign, setSelectedCampaign] = useState<Campaign | null>(null);
   const [campaignLeads, setCampaignLeads] = useState<CampaignLead[]>([]);
+  const [comparisonCampaign, setComparisonCampaign] = useState<Campaign | null>(null);
+  const [cloningCampaign, setCloningCampaign] = useState<Campaign | null>(null);
+  const [templateCampaign, setTemplateCampaign] = useState<Campaign | null>(null);
+  const [budgetCampaign, setBudgetCampaign] = useState<Campaign | null>(null);
 
   useEffect(() => {
     if (user && canUseOutboundDialer) {
@@ -74,9 +100,18 @@ export default function CampaignsPage() {
   };
 
   const handleStatusChange = async (campaignId: string, newStatus: Campaign['status']) => {
+    if (!user) return;
+    const campaign = campaigns.find(c => c.id === campaignId);
+    if (newStatus === 'active' && campaign && CampaignBudgetService.isExhausted(campaign)) {
+      toast.error('This campaign has used up its budget. Raise the budget to resume it.');
+      return;
+    }
+
+    // The dialer worker that holds the campaign carries out the change and updates the status
+    const command = newStatus === 'paused' ? 'pause' : campaign?.status === 'paused' ? 'resume' : 'start';
     try {
-      await DatabaseService.updateCampaign(campaignId, { status: newStatus });
-      toast.success(`Campaign ${newStatus}`);
+      await DatabaseService.sendDialerCommand(user.id, campaignId, command);
+      toast.success(newStatus === 'paused' ? 'Pausing campaign' : 'Starting campaign');
     } catch (error) {
       console.error('Error updating campaign status:', error);
       toast.error('Failed to update campaign status');
@@ -240,6 +275,22 @@ export default function CampaignsPage() {
                   <p className="text-sm text-gray-900 font-mono">{campaign.caller_id}</p>
                 </div>
 
+                <CampaignBudgetUsage campaign={campaign} onEdit={() => setBudgetCampaign(campaign)} />
+
+                {campaign.status === 'active' && campaign.dialing_mode === 'preview' && (
+                  <PreviewDialerPanel campaign={campaign} />
+                )}
+
+                {campaign.variants && campaign.variants.length > 0 && (
+                  <button
+                    onClick={() => setComparisonCampaign(campaign)}
+                    className="mt-4 w-full bg-purple-50 text-purple-700 text-sm font-medium py-2 px-3 rounded-md hover:bg-purple-100 transition-colors"
+                  >
+                    <BeakerIcon className="h-4 w-4 inline mr-1" />
+                    Compare {campaign.variants.length} Variants
+                  </button>
+                )}
+
                 <div className="mt-6 flex space-x-2">
                   <button 
                     onClick={() => handleViewLeads(campaign)}
@@ -254,6 +305,23 @@ export default function CampaignsPage() {
                   </button>
                 </div>
 
+                <div className="mt-3 flex space-x-2">
+                  <button
+                    onClick={() => setCloningCampaign(campaign)}
+                    className="flex-1 bg-gray-100 text-gray-700 text-sm font-medium py-2 px-3 rounded-md hover:bg-gray-200 transition-colors"
+                  >
+                    <DocumentDuplicateIcon className="h-4 w-4 inline mr-1" />
+                    Clone
+                  </button>
+                  <button
+                    onClick={() => setTemplateCampaign(campaign)}
+                    className="flex-1 bg-gray-100 text-gray-700 text-sm font-medium py-2 px-3 rounded-md hover:bg-gray-200 transition-colors"
+                  >
+                    <BookmarkIcon className="h-4 w-4 inline mr-1" />
+                    Save as Template
+                  </button>
+                </div>
+
                 <div className="mt-3 flex space-x-2">
                   {campaign.status === 'draft' && (
                     <button 
@@ -322,11 +390,47 @@ export default function CampaignsPage() {
         />
       )}
 
+      {/* Clone Campaign Modal */}
+      {cloningCampaign && (
+        <CloneCampaignModal
+          campaign={cloningCampaign}
+          onClose={() => setCloningCampaign(null)}
+          onSuccess={loadCampaigns}
+        />
+      )}
+
+      {/* Save Template Modal */}
+      {templateCampaign && (
+        <SaveTemplateModal
+          campaign={templateCampaign}
+          onClose={() => setTemplateCampaign(null)}
+        />
+      )}
+
+      {budgetCampaign && (
+        <CampaignBudgetModal
+          campaign={budgetCampaign}
+          onClose={() => setBudgetCampaign(null)}
+        />
+      )}
+
+      {/* A/B Test Results */}
+      {comparisonCampaign && (
+        <VariantComparison
+          campaign={comparisonCampaign}
+          onClose={() => setComparisonCampaign(null)}
+        />
+      )}
+
       {/* Campaign Leads Modal */}
       {showLeadsModal && selectedCampaign && (
         <CampaignLeadsModal
           campaign={selectedCampaign}
           leads={campaignLeads}
+          onLeadsImported={() => {
+            handleViewLeads(selectedCampaign);
+            loadCampaigns();
+          }}
           onClose={() => {
             setShowLeadsModal(false);
             setSelectedCampaign(null);
@@ -344,12 +448,16 @@ function CreateCampaignModal({ onClose, onSuccess }: { onClose: () => void; onSu
   const [loading, setLoading] = useState(false);
   const [agents, setAgents] = useState<AIAgent[]>([]);
   const [currentStep, setCurrentStep] = useState(1);
-  const [leads, setLeads] = useState<any[]>([]);
+  const [leadRows, setLeadRows] = useState<LeadImportRow[]>([]);
+  const [duplicateOptions, setDuplicateOptions] = useState<DuplicateOptions>(DEFAULT_DUPLICATE_OPTIONS);
+  const [savedTemplates, setSavedTemplates] = useState<CampaignTemplate[]>([]);
+  const [callHistory, setCallHistory] = useState<CallHistory>({ calls: 0 });
   const [formData, setFormData] = useState({
     name: '',
     description: '',
     agent_id: '',
     caller_id: '+18553947135', // Default from Twilio settings
+    caller_id_strategy: 'fixed' as NonNullable<Campaign['caller_id_strategy']>,
     max_concurrent_calls: 1,
     call_timeout_seconds: 30,
     retry_attempts: 3,
@@ -361,12 +469,28 @@ function CreateCampaignModal({ onClose, onSuccess }: { onClose: () => void; onSu
     scheduled_start_date: '',
     scheduled_end_date: '',
     custom_system_instruction: '',
-    custom_voice_name: 'Puck'
+    custom_voice_name: 'Puck',
+    dialing_mode: 'progressive' as NonNullable<Campaign['dialing_mode']>,
+    max_abandon_rate: DEFAULT_MAX_ABANDON_RATE,
+    amd_enabled: false,
+    amd_machine_action: 'hangup' as AmdAction,
+    amd_unknown_action: 'agent' as AmdAction,
+    voicemail_message: '',
+    variants: [] as CampaignVariant[],
+    priority: 'normal' as Campaign['priority'],
+    budget_minutes: undefined as number | undefined,
+    budget_spend: undefined as number | undefined,
+    cost_per_minute: undefined as number | undefined,
+    // Carried over from a saved template, not edited in this form
+    retry_policy: undefined as Campaign['retry_policy'],
+    compliance_settings: undefined as Campaign['compliance_settings']
   });
 
   useEffect(() => {
     loadAgents();
     loadDefaultSettings();
+    loadTemplates();
+    loadCallHistory();
   }, []);
 
   const loadAgents = async () => {
@@ -384,6 +508,16 @@ function CreateCampaignModal({ onClose, onSuccess }: { onClose: () => void; onSu
     }
   };
 
+  const loadTemplates = async () => {
+    if (!user) return;
+    setSavedTemplates(await DatabaseService.getCampaignTemplates(user.id));
+  };
+
+  const loadCallHistory = async () => {
+    if (!user) return;
+    setCallHistory(await CampaignBudgetService.getCallHistory(user.id));
+  };
+
   const loadDefaultSettings = async () => {
     if (!user) return;
     try {
@@ -444,46 +578,36 @@ function CreateCampaignModal({ onClose, onSuccess }: { onClose: () => void; onSu
     }));
   };
 
-  const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (!file) return;
-
-    const reader = new FileReader();
-    reader.onload = (e) => {
-      try {
-        const text = e.target?.result as string;
-        const lines = text.split('\n').filter(line => line.trim());
-        const headers = lines[0].split(',').map(h => h.trim().toLowerCase());
-        
-        const phoneIndex = headers.findIndex(h => h.includes('phone') || h.includes('number'));
-        const firstNameIndex = headers.findIndex(h => h.includes('first') || h.includes('fname'));
-        const lastNameIndex = headers.findIndex(h => h.includes('last') || h.includes('lname'));
-        const emailIndex = headers.findIndex(h => h.includes('email'));
-        const companyIndex = headers.findIndex(h => h.includes('company') || h.includes('business'));
-
-        const parsedLeads = lines.slice(1).map((line, index) => {
-          const values = line.split(',').map(v => v.trim().replace(/"/g, ''));
-          return {
-            id: `temp-${index}`,
-            phone_number: values[phoneIndex] || '',
-            first_name: values[firstNameIndex] || '',
-            last_name: values[lastNameIndex] || '',
-            email: values[emailIndex] || '',
-            company: values[companyIndex] || '',
-            status: 'pending'
-          };
-        }).filter(lead => lead.phone_number);
-
-        setLeads(parsedLeads);
-        toast.success(`Loaded ${parsedLeads.length} leads from CSV`);
-      } catch (error) {
-        console.error('Error parsing CSV:', error);
-        toast.error('Error parsing CSV file. Please check the format.');
-      }
-    };
-    reader.readAsText(file);
+  const applySavedTemplate = (template: CampaignTemplate) => {
+    const { agent_id, ...settings } = CampaignTemplateService.extractSettings(template.settings);
+    // The template's agent may have been deleted or switched off since
+    const agentAvailable = agents.some(agent => agent.id === agent_id);
+    setFormData(prev => ({
+      ...prev,
+      ...settings,
+      agent_id: agentAvailable && agent_id ? agent_id : prev.agent_id
+    }));
+    if (agent_id && !agentAvailable) {
+      toast.error("The template's agent is not available, please pick one");
+    }
+  };
+
+  const handleDeleteTemplate = async (template: CampaignTemplate) => {
+    if (!confirm(`Delete the template "${template.name}"?`)) return;
+
+    try {
+      await DatabaseService.deleteCampaignTemplate(template.id);
+      setSavedTemplates(prev => prev.filter(t => t.id !== template.id));
+      toast.success('Template deleted');
+    } catch (error) {
+      console.error('Error deleting template:', error);
+      toast.error('Failed to delete template');
+    }
   };
 
+  const validLeadRows = leadRows.filter(row => row.errors.length === 0);
+  const estimate = user ? CampaignBudgetService.estimate(validLeadRows.length, formData, callHistory, user) : null;
+
   const validateForm = () => {
     if (!formData.name.trim()) {
       toast.error('Campaign name is required');
@@ -497,8 +621,18 @@ function CreateCampaignModal({ onClose, onSuccess }: { onClose: () => void; onSu
       toast.error('Caller ID is required');
       return false;
     }
-    if (currentStep === 2 && leads.length === 0) {
-      toast.error('Please upload leads or add them manually');
+    if (formData.variants.length > 0) {
+      if (formData.variants.some(variant => !variant.name.trim())) {
+        toast.error('Every variant needs a name');
+        return false;
+      }
+      if (formData.variants.filter(variant => variant.weight > 0).length < 2) {
+        toast.error('An A/B test needs at least two variants with traffic');
+        return false;
+      }
+    }
+    if (currentStep === 2 && validLeadRows.length === 0) {
+      toast.error('Please upload a file with at least one valid lead');
       return false;
     }
     return true;
@@ -527,11 +661,12 @@ function CreateCampaignModal({ onClose, onSuccess }: { onClose: () => void; onSu
         ...formData,
         profile_id: user.id,
         status: 'draft',
-        priority: 'normal' as const,
         custom_voice_name: formData.custom_voice_name as Campaign['custom_voice_name'],
         // Convert empty strings to null for timestamp fields
         scheduled_start_date: formData.scheduled_start_date || undefined,
         scheduled_end_date: formData.scheduled_end_date || undefined,
+        voicemail_message: formData.voicemail_message || undefined,
+        variants: formData.variants.length > 0 ? formData.variants : undefined,
         // Initialize lead counters
         total_leads: 0,
         leads_called: 0,
@@ -540,24 +675,19 @@ function CreateCampaignModal({ onClose, onSuccess }: { onClose: () => void; onSu
       });
 
       // Add leads to campaign
-      if (campaign && leads.length > 0) {
-        for (const lead of leads) {
-          await DatabaseService.createCampaignLead({
-            campaign_id: campaign.id,
-            phone_number: lead.phone_number,
-            first_name: lead.first_name,
-            last_name: lead.last_name,
-            email: lead.email,
-            company: lead.company,
-            status: 'pending',
-            priority: 'normal',
-            call_attempts: 0,
-            do_not_call: false
-          });
+      if (campaign && validLeadRows.length > 0) {
+        const result = await LeadImportService.importLeads(campaign.id, validLeadRows, {
+          duplicates: duplicateOptions,
+          profileId: user.id
+        });
+        if (result.failed > 0) {
+          console.error('Lead import errors:', result.errors);
+          toast.error(`${result.failed} leads could not be imported`);
         }
+        toast.success(`Campaign created. Leads: ${LeadImportService.summarize(result)}`);
+      } else {
+        toast.success('Campaign created successfully');
       }
-      
-      toast.success(`Campaign created successfully with ${leads.length} leads`);
       onSuccess();
       onClose();
     } catch (error) {
@@ -570,29 +700,6 @@ function CreateCampaignModal({ onClose, onSuccess }: { onClose: () => void; onSu
 
   // Removed unused function
 
-  const downloadCSVTemplate = () => {
-    const csvContent = [
-      'phone_number,first_name,last_name,email,company',
-      '+1234567890,John,Doe,john.doe@example.com,Acme Corp',
-      '+1234567891,Jane,Smith,jane.smith@example.com,Tech Solutions',
-      '+1234567892,Bob,Johnson,bob.johnson@example.com,Marketing Inc'
-    ].join('\n');
-    
-    const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
-    const link = document.createElement('a');
-    const url = URL.createObjectURL(blob);
-    link.setAttribute('href', url);
-    link.setAttribute('download', 'campaign_leads_template.csv');
-    link.style.visibility = 'hidden';
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
-    
-    toast.success('CSV template downloaded!');
-  };
-
-  // Removed unused function
-
   // Removed unused function
 
   return (
@@ -641,6 +748,38 @@ function CreateCampaignModal({ onClose, onSuccess }: { onClose: () => void; onSu
           {/* Step 1: Campaign Details */}
           {currentStep === 1 && (
             <div className="space-y-6">
+              {/* Saved Templates */}
+              {savedTemplates.length > 0 && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-3">Your Templates</label>
+                  <div className="grid grid-cols-2 gap-3">
+                    {savedTemplates.map((template) => (
+                      <div
+                        key={template.id}
+                        className="relative border border-gray-200 rounded-lg hover:border-blue-500 hover:bg-blue-50 transition-colors"
+                      >
+                        <button
+                          type="button"
+                          onClick={() => applySavedTemplate(template)}
+                          className="w-full p-3 pr-8 text-left"
+                        >
+                          <div className="font-medium text-gray-900">{template.name}</div>
+                          <div className="text-sm text-gray-500">{template.description || template.settings.description}</div>
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => handleDeleteTemplate(template)}
+                          className="absolute top-2 right-2 text-gray-400 hover:text-red-600"
+                          title="Delete template"
+                        >
+                          <XMarkIcon className="h-4 w-4" />
+                        </button>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
               {/* Campaign Templates */}
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-3">Quick Start Templates</label>
@@ -738,6 +877,24 @@ function CreateCampaignModal({ onClose, onSuccess }: { onClose: () => void; onSu
                 </div>
               </div>
 
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Caller ID Selection</label>
+                <select
+                  value={formData.caller_id_strategy}
+                  onChange={(e) => setFormData({ ...formData, caller_id_strategy: e.target.value as NonNullable<Campaign['caller_id_strategy']> })}
+                  className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500"
+                >
+                  <option value="fixed">Always use the caller ID above</option>
+                  <option value="rotate">Rotate through the caller ID pool</option>
+                  <option value="local_presence">Local presence: match the lead's area code or state</option>
+                </select>
+                {formData.caller_id_strategy !== 'fixed' && (
+                  <p className="mt-1 text-xs text-gray-500">
+                    Numbers come from <Link to="/caller-ids" className="text-blue-600 hover:text-blue-800">Caller IDs</Link>. The caller ID above is used when every pool number has reached its daily limit or is resting.
+                  </p>
+                )}
+              </div>
+
               <div className="grid grid-cols-2 gap-6">
                 <div>
                   <label className="block text-sm font-medium text-gray-700">Timezone</label>
@@ -787,6 +944,30 @@ function CreateCampaignModal({ onClose, onSuccess }: { onClose: () => void; onSu
                 </div>
               </div>
 
+              <div className="grid grid-cols-2 gap-6">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">Start Date</label>
+                  <input
+                    type="date"
+                    value={formData.scheduled_start_date}
+                    onChange={(e) => setFormData({ ...formData, scheduled_start_date: e.target.value })}
+                    className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500"
+                  />
+                  <p className="mt-1 text-xs text-gray-500">The campaign starts by itself on this date</p>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">End Date</label>
+                  <input
+                    type="date"
+                    value={formData.scheduled_end_date}
+                    min={formData.scheduled_start_date || undefined}
+                    onChange={(e) => setFormData({ ...formData, scheduled_end_date: e.target.value })}
+                    className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500"
+                  />
+                  <p className="mt-1 text-xs text-gray-500">Completed at the end of this day</p>
+                </div>
+              </div>
+
               <div className="grid grid-cols-3 gap-4">
                 <div>
                   <label className="block text-sm font-medium text-gray-700">Max Concurrent Calls</label>
@@ -822,6 +1003,113 @@ function CreateCampaignModal({ onClose, onSuccess }: { onClose: () => void; onSu
                   />
                 </div>
               </div>
+
+              <CampaignBudgetFields
+                budget={formData}
+                onChange={(budget) => setFormData({ ...formData, ...budget })}
+              />
+
+              <div className="grid grid-cols-2 gap-6">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">Dialing Mode</label>
+                  <select
+                    value={formData.dialing_mode}
+                    onChange={(e) => setFormData({ ...formData, dialing_mode: e.target.value as NonNullable<Campaign['dialing_mode']> })}
+                    className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500"
+                  >
+                    <option value="preview">Preview - review each lead before dialing</option>
+                    <option value="progressive">Progressive - one call per free agent slot</option>
+                    <option value="predictive">Predictive - overdial based on answer rate</option>
+                  </select>
+                </div>
+                {formData.dialing_mode === 'predictive' && (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700">Max Abandon Rate (%)</label>
+                    <input
+                      type="number"
+                      min="0"
+                      max="10"
+                      step="0.5"
+                      value={formData.max_abandon_rate}
+                      onChange={(e) => {
+                        // A cleared field falls back to the default cap
+                        const rate = parseFloat(e.target.value);
+                        setFormData({ ...formData, max_abandon_rate: Number.isFinite(rate) ? Math.min(10, Math.max(0, rate)) : DEFAULT_MAX_ABANDON_RATE });
+                      }}
+                      className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500"
+                    />
+                    <p className="mt-1 text-xs text-gray-500">
+                      Answered calls with no free agent. The dialer falls back to progressive pacing at this limit.
+                    </p>
+                  </div>
+                )}
+              </div>
+
+              <div className="space-y-4">
+                <label className="flex items-center text-sm font-medium text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={formData.amd_enabled}
+                    onChange={(e) => setFormData({ ...formData, amd_enabled: e.target.checked })}
+                    className="h-4 w-4 text-blue-600 border-gray-300 rounded mr-2"
+                  />
+                  Detect answering machines
+                </label>
+                {formData.amd_enabled && (
+                  <>
+                    <div className="grid grid-cols-2 gap-6">
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700">When a machine answers</label>
+                        <select
+                          value={formData.amd_machine_action}
+                          onChange={(e) => setFormData({ ...formData, amd_machine_action: e.target.value as AmdAction })}
+                          className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500"
+                        >
+                          <option value="hangup">Hang up</option>
+                          <option value="voicemail">Leave a voicemail</option>
+                          <option value="agent">Let the AI agent talk</option>
+                        </select>
+                      </div>
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700">When detection is unsure</label>
+                        <select
+                          value={formData.amd_unknown_action}
+                          onChange={(e) => setFormData({ ...formData, amd_unknown_action: e.target.value as AmdAction })}
+                          className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500"
+                        >
+                          <option value="agent">Let the AI agent talk</option>
+                          <option value="voicemail">Leave a voicemail</option>
+                          <option value="hangup">Hang up</option>
+                        </select>
+                      </div>
+                    </div>
+                    {(formData.amd_machine_action === 'voicemail' || formData.amd_unknown_action === 'voicemail') && (
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700">Voicemail Message</label>
+                        <textarea
+                          rows={3}
+                          value={formData.voicemail_message}
+                          onChange={(e) => setFormData({ ...formData, voicemail_message: e.target.value })}
+                          placeholder="Hi {{first_name|there}}, this is Acme calling about your quote. Please call us back at 555-0100."
+                          className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500"
+                        />
+                        <p className="mt-1 text-xs text-gray-500">
+                          Read out by text-to-speech. Use {'{{first_name}}'}, {'{{company}}'} or any custom field; add a fallback with {'{{first_name|there}}'}.
+                        </p>
+                      </div>
+                    )}
+                  </>
+                )}
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">A/B Test</label>
+                <CampaignVariantsEditor
+                  variants={formData.variants}
+                  agents={agents}
+                  onChange={(variants) => setFormData({ ...formData, variants })}
+                />
+              </div>
             </div>
           )}
 
@@ -831,85 +1119,11 @@ function CreateCampaignModal({ onClose, onSuccess }: { onClose: () => void; onSu
               <div>
                 <h4 className="text-lg font-medium text-gray-900 mb-4">Add Leads to Campaign</h4>
                 
-                {/* CSV Upload */}
-                <div className="border-2 border-dashed border-gray-300 rounded-lg p-6 text-center">
-                  <DocumentArrowUpIcon className="mx-auto h-12 w-12 text-gray-400" />
-                  <div className="mt-4">
-                    <label htmlFor="csv-upload" className="cursor-pointer">
-                      <span className="mt-2 block text-sm font-medium text-gray-900">
-                        Upload CSV file with leads
-                      </span>
-                      <span className="mt-1 block text-sm text-gray-500">
-                        CSV should include columns: phone_number, first_name, last_name, email, company
-                      </span>
-                    </label>
-                    <input
-                      id="csv-upload"
-                      type="file"
-                      accept=".csv"
-                      onChange={handleFileUpload}
-                      className="hidden"
-                    />
-                    <div className="mt-3 flex items-center justify-center space-x-3">
-                      <button
-                        type="button"
-                        onClick={() => document.getElementById('csv-upload')?.click()}
-                        className="inline-flex items-center px-4 py-2 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
-                      >
-                        Choose File
-                      </button>
-                      <span className="text-gray-400">or</span>
-                      <button
-                        type="button"
-                        onClick={downloadCSVTemplate}
-                        className="inline-flex items-center px-4 py-2 border border-blue-300 shadow-sm text-sm font-medium rounded-md text-blue-700 bg-blue-50 hover:bg-blue-100"
-                      >
-                        <svg className="w-4 h-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 10v6m0 0l-3-3m3 3l3-3m2 8H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
-                        </svg>
-                        Download Template
-                      </button>
-                    </div>
-                  </div>
-                </div>
-
-                {/* Leads Preview */}
-                {leads.length > 0 && (
-                  <div className="mt-6">
-                    <h5 className="text-md font-medium text-gray-900 mb-3">
-                      Loaded Leads ({leads.length})
-                    </h5>
-                    <div className="max-h-60 overflow-y-auto border border-gray-200 rounded-md">
-                      <table className="min-w-full divide-y divide-gray-200">
-                        <thead className="bg-gray-50">
-                          <tr>
-                            <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Phone</th>
-                            <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Name</th>
-                            <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Email</th>
-                            <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Company</th>
-                          </tr>
-                        </thead>
-                        <tbody className="bg-white divide-y divide-gray-200">
-                          {leads.slice(0, 10).map((lead, index) => (
-                            <tr key={index}>
-                              <td className="px-3 py-2 text-sm text-gray-900">{lead.phone_number}</td>
-                              <td className="px-3 py-2 text-sm text-gray-900">
-                                {lead.first_name} {lead.last_name}
-                              </td>
-                              <td className="px-3 py-2 text-sm text-gray-900">{lead.email}</td>
-                              <td className="px-3 py-2 text-sm text-gray-900">{lead.company}</td>
-                            </tr>
-                          ))}
-                        </tbody>
-                      </table>
-                      {leads.length > 10 && (
-                        <div className="px-3 py-2 text-sm text-gray-500 bg-gray-50">
-                          ... and {leads.length - 10} more leads
-                        </div>
-                      )}
-                    </div>
-                  </div>
-                )}
+                <LeadImporter
+                  onRowsChange={setLeadRows}
+                  duplicateOptions={duplicateOptions}
+                  onDuplicateOptionsChange={setDuplicateOptions}
+                />
               </div>
             </div>
           )}
@@ -934,9 +1148,20 @@ function CreateCampaignModal({ onClose, onSuccess }: { onClose: () => void; onSu
                           {agents.find(a => a.id === formData.agent_id)?.name}
                         </dd>
                       </div>
+                      {formData.variants.length > 0 && (
+                        <div className="flex justify-between">
+                          <dt className="text-sm text-gray-500">A/B Test:</dt>
+                          <dd className="text-sm text-gray-900">
+                            {formData.variants.map(variant => `${variant.name} (${variant.weight})`).join(', ')}
+                          </dd>
+                        </div>
+                      )}
                       <div className="flex justify-between">
                         <dt className="text-sm text-gray-500">Caller ID:</dt>
-                        <dd className="text-sm text-gray-900">{formData.caller_id}</dd>
+                        <dd className="text-sm text-gray-900">
+                          {formData.caller_id_strategy === 'fixed' ? formData.caller_id
+                            : formData.caller_id_strategy === 'rotate' ? 'Pool rotation' : 'Local presence'}
+                        </dd>
                       </div>
                       <div className="flex justify-between">
                         <dt className="text-sm text-gray-500">Schedule:</dt>
@@ -944,6 +1169,14 @@ function CreateCampaignModal({ onClose, onSuccess }: { onClose: () => void; onSu
                           {formData.start_time} - {formData.end_time}
                         </dd>
                       </div>
+                      {(formData.scheduled_start_date || formData.scheduled_end_date) && (
+                        <div className="flex justify-between">
+                          <dt className="text-sm text-gray-500">Runs:</dt>
+                          <dd className="text-sm text-gray-900">
+                            {formData.scheduled_start_date || 'Now'} - {formData.scheduled_end_date || 'Until done'}
+                          </dd>
+                        </div>
+                      )}
                     </dl>
                   </div>
                   
@@ -962,14 +1195,67 @@ function CreateCampaignModal({ onClose, onSuccess }: { onClose: () => void; onSu
                         <dt className="text-sm text-gray-500">Retry Attempts:</dt>
                         <dd className="text-sm text-gray-900">{formData.retry_attempts}</dd>
                       </div>
+                      <div className="flex justify-between">
+                        <dt className="text-sm text-gray-500">Dialing Mode:</dt>
+                        <dd className="text-sm text-gray-900 capitalize">
+                          {formData.dialing_mode}
+                          {formData.dialing_mode === 'predictive' && ` (max ${formData.max_abandon_rate}% abandoned)`}
+                        </dd>
+                      </div>
+                      <div className="flex justify-between">
+                        <dt className="text-sm text-gray-500">Answering Machines:</dt>
+                        <dd className="text-sm text-gray-900">
+                          {formData.amd_enabled ? formData.amd_machine_action.replace('agent', 'AI agent') : 'Not detected'}
+                        </dd>
+                      </div>
                       <div className="flex justify-between">
                         <dt className="text-sm text-gray-500">Total Leads:</dt>
-                        <dd className="text-sm text-gray-900">{leads.length}</dd>
+                        <dd className="text-sm text-gray-900">{validLeadRows.length}</dd>
                       </div>
                     </dl>
                   </div>
                 </div>
               </div>
+
+              {estimate && (
+                <div className={`rounded-lg p-6 ${
+                  estimate.exceedsAccount || estimate.exceedsBudget ? 'bg-yellow-50 border border-yellow-200' : 'bg-gray-50'
+                }`}>
+                  <h5 className="font-medium text-gray-900">Estimated Usage</h5>
+                  <p className="mt-1 text-sm text-gray-600">
+                    {estimate.leads} leads × {estimate.attemptsPerLead.toFixed(1)} attempts × {estimate.minutesPerAttempt.toFixed(1)} min
+                    {' '}= <span className="font-semibold text-gray-900">{estimate.minutes.toLocaleString()} minutes</span>
+                    {estimate.spend !== undefined && <> (${estimate.spend.toFixed(2)})</>}
+                  </p>
+                  <p className="mt-1 text-xs text-gray-500">
+                    {estimate.fromHistory
+                      ? `Attempts per lead and billed minutes per attempt from your last ${callHistory.calls} outbound calls.`
+                      : 'Not enough call history yet: assumes every retry is used and two minutes per attempt.'}
+                  </p>
+                  <dl className="mt-3 grid grid-cols-2 gap-4">
+                    <div>
+                      <dt className="text-sm text-gray-500">Account minutes left this month</dt>
+                      <dd className="text-sm text-gray-900">{estimate.accountMinutesLeft.toLocaleString()}</dd>
+                    </div>
+                    <div>
+                      <dt className="text-sm text-gray-500">Campaign budget</dt>
+                      <dd className="text-sm text-gray-900">
+                        {estimate.budgetMinutesLeft !== undefined ? `${estimate.budgetMinutesLeft.toLocaleString()} minutes` : 'None'}
+                      </dd>
+                    </div>
+                  </dl>
+                  {estimate.exceedsAccount && (
+                    <p className="mt-3 text-sm text-yellow-800">
+                      This campaign would use up the minutes left on your account before it finishes; calls stop once the monthly limit is reached.
+                    </p>
+                  )}
+                  {estimate.exceedsBudget && (
+                    <p className="mt-3 text-sm text-yellow-800">
+                      The budget covers about {estimate.leadsCovered} of {estimate.leads} leads; the dialer will pause the campaign when it is used up.
+                    </p>
+                  )}
+                </div>
+              )}
             </div>
           )}
 
@@ -1024,20 +1310,79 @@ function CreateCampaignModal({ onClose, onSuccess }: { onClose: () => void; onSu
 function CampaignLeadsModal({ 
   campaign, 
   leads, 
+  onLeadsImported,
   onClose 
 }: { 
   campaign: Campaign; 
   leads: CampaignLead[]; 
+  onLeadsImported: () => void;
   onClose: () => void 
 }) {
+  const { user } = useUser();
+  const [showImport, setShowImport] = useState(false);
+  const [importRows, setImportRows] = useState<LeadImportRow[]>([]);
+  const [duplicateOptions, setDuplicateOptions] = useState<DuplicateOptions>(DEFAULT_DUPLICATE_OPTIONS);
+  const [importing, setImporting] = useState(false);
+  const [importResult, setImportResult] = useState<LeadImportResult | null>(null);
+  const [syncing, setSyncing] = useState(false);
+  const [callbackLead, setCallbackLead] = useState<CampaignLead | null>(null);
+
+  const handleImport = async () => {
+    if (!user) return;
+
+    setImporting(true);
+    try {
+      const result = await LeadImportService.importLeads(campaign.id, importRows, {
+        duplicates: duplicateOptions,
+        profileId: user.id
+      });
+      setImportResult(result);
+      setShowImport(false);
+      toast.success(`Import finished: ${LeadImportService.summarize(result)}`);
+      onLeadsImported();
+    } catch (error) {
+      console.error('Error importing leads:', error);
+      toast.error('Failed to import leads');
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  // Pulls the linked segment's current matches in now instead of waiting for the dialer
+  const handleSegmentSync = async () => {
+    if (!campaign.segment_id) return;
+
+    setSyncing(true);
+    try {
+      const segment = await DatabaseService.getLeadSegment(campaign.segment_id);
+      if (!segment) {
+        toast.error('The linked segment no longer exists');
+        return;
+      }
+      const result = await LeadSegmentService.feedCampaign(campaign, segment);
+      setImportResult(result);
+      setShowImport(false);
+      toast.success(`Segment synced: ${LeadImportService.summarize(result)}`);
+      onLeadsImported();
+    } catch (error) {
+      console.error('Error syncing segment:', error);
+      toast.error('Failed to sync segment');
+    } finally {
+      setSyncing(false);
+    }
+  };
+
   const getLeadStatusColor = (status: string) => {
     switch (status) {
       case 'completed': return 'text-green-600 bg-green-100';
       case 'answered': return 'text-blue-600 bg-blue-100';
+      case 'dialing':
       case 'called': return 'text-yellow-600 bg-yellow-100';
+      case 'retry': return 'text-indigo-600 bg-indigo-100';
       case 'no_answer': return 'text-orange-600 bg-orange-100';
       case 'busy': return 'text-purple-600 bg-purple-100';
-      case 'failed': return 'text-red-600 bg-red-100';
+      case 'failed':
+      case 'dnc': return 'text-red-600 bg-red-100';
       case 'pending': return 'text-gray-600 bg-gray-100';
       default: return 'text-gray-600 bg-gray-100';
     }
@@ -1051,14 +1396,99 @@ function CampaignLeadsModal({
             <h3 className="text-lg font-medium text-gray-900">
               Campaign Leads: {campaign.name}
             </h3>
-            <button
-              onClick={onClose}
-              className="text-gray-400 hover:text-gray-600"
-            >
-              ✕
-            </button>
+            <div className="flex items-center space-x-3">
+              {campaign.segment_id && (
+                <button
+                  onClick={handleSegmentSync}
+                  disabled={syncing}
+                  className="inline-flex items-center px-3 py-1.5 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+                >
+                  <ArrowPathIcon className="h-4 w-4 mr-1" />
+                  {syncing ? 'Syncing...' : 'Sync Segment'}
+                </button>
+              )}
+              <button
+                onClick={() => {
+                  setShowImport(!showImport);
+                  setImportResult(null);
+                }}
+                className="inline-flex items-center px-3 py-1.5 border border-blue-300 text-sm font-medium rounded-md text-blue-700 bg-blue-50 hover:bg-blue-100"
+              >
+                <DocumentArrowUpIcon className="h-4 w-4 mr-1" />
+                {showImport ? 'Cancel Import' : 'Import Leads'}
+              </button>
+              <button
+                onClick={onClose}
+                className="text-gray-400 hover:text-gray-600"
+              >
+                ✕
+              </button>
+            </div>
           </div>
 
+          {showImport && (
+            <div className="mb-6 border border-gray-200 rounded-lg p-4">
+              <LeadImporter
+                onRowsChange={setImportRows}
+                duplicateOptions={duplicateOptions}
+                onDuplicateOptionsChange={setDuplicateOptions}
+              />
+              <div className="mt-4 flex justify-end">
+                <button
+                  onClick={handleImport}
+                  disabled={importing || !importRows.some(row => row.errors.length === 0)}
+                  className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+                >
+                  {importing ? 'Importing...' : 'Import'}
+                </button>
+              </div>
+            </div>
+          )}
+
+          {importResult && (
+            <div className="mb-6 rounded-lg bg-gray-50 border border-gray-200 p-4">
+              <h4 className="text-sm font-medium text-gray-900">Import Summary</h4>
+              <dl className="mt-2 grid grid-cols-6 gap-4 text-center">
+                <div>
+                  <dt className="text-xs text-gray-500">Inserted</dt>
+                  <dd className="text-lg font-semibold text-green-600">{importResult.inserted}</dd>
+                </div>
+                <div>
+                  <dt className="text-xs text-gray-500">Updated</dt>
+                  <dd className="text-lg font-semibold text-blue-600">{importResult.updated}</dd>
+                </div>
+                <div>
+                  <dt className="text-xs text-gray-500">Merged</dt>
+                  <dd className="text-lg font-semibold text-purple-600">{importResult.merged}</dd>
+                </div>
+                <div>
+                  <dt className="text-xs text-gray-500">Skipped</dt>
+                  <dd className="text-lg font-semibold text-yellow-600">{importResult.skipped}</dd>
+                </div>
+                <div>
+                  <dt className="text-xs text-gray-500">Suppressed</dt>
+                  <dd className="text-lg font-semibold text-gray-600">{importResult.suppressed}</dd>
+                </div>
+                <div>
+                  <dt className="text-xs text-gray-500">Failed</dt>
+                  <dd className="text-lg font-semibold text-red-600">{importResult.failed}</dd>
+                </div>
+              </dl>
+              {importResult.duplicates.length > 0 && (
+                <ul className="mt-3 max-h-32 overflow-y-auto text-xs text-gray-600 space-y-1">
+                  {importResult.duplicates.map(duplicate => (
+                    <li key={duplicate.rowNumber}>
+                      Row {duplicate.rowNumber} ({duplicate.phone_number}): {duplicate.action}, {duplicate.reason.toLowerCase()}
+                    </li>
+                  ))}
+                </ul>
+              )}
+              {importResult.errors.map(error => (
+                <p key={error} className="mt-1 text-xs text-red-600">{error}</p>
+              ))}
+            </div>
+          )}
+
           <div className="overflow-x-auto">
             <table className="min-w-full divide-y divide-gray-200">
               <thead className="bg-gray-50">
@@ -1081,6 +1511,7 @@ function CampaignLeadsModal({
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                     Outcome
                   </th>
+                  <th className="px-6 py-3"></th>
                 </tr>
               </thead>
               <tbody className="bg-white divide-y divide-gray-200">
@@ -1115,6 +1546,20 @@ function CampaignLeadsModal({
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
                       {lead.outcome || '-'}
+                      {lead.preferred_call_time && (
+                        <div className="text-xs text-gray-400">Call back {lead.preferred_call_time}</div>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-right">
+                      {!lead.do_not_call && lead.status !== 'dnc' && (
+                        <button
+                          onClick={() => setCallbackLead(lead)}
+                          className="text-blue-600 hover:text-blue-900"
+                          title="Schedule callback"
+                        >
+                          <ClockIcon className="h-4 w-4" />
+                        </button>
+                      )}
                     </td>
                   </tr>
                 ))}
@@ -1122,6 +1567,15 @@ function CampaignLeadsModal({
             </table>
           </div>
 
+          {callbackLead && (
+            <ScheduleCallbackModal
+              lead={callbackLead}
+              campaign={campaign}
+              onClose={() => setCallbackLead(null)}
+              onScheduled={onLeadsImported}
+            />
+          )}
+
           {leads.length === 0 && (
             <div className="text-center py-8">
               <DocumentArrowUpIcon className="mx-auto h-12 w-12 text-gray-400" />
@@ -1135,4 +1589,285 @@ function CampaignLeadsModal({
       </div>
     </div>
   );
-}
\ No newline at end of file
+}
+// Clone Campaign Modal Component
+function CloneCampaignModal({
+  campaign,
+  onClose,
+  onSuccess
+}: {
+  campaign: Campaign;
+  onClose: () => void;
+  onSuccess: () => void
+}) {
+  const [loading, setLoading] = useState(false);
+  const [name, setName] = useState(`${campaign.name} (Copy)`);
+  const [leadOption, setLeadOption] = useState<CloneLeadOption>('unreached');
+
+  const leadOptions: Array<{ value: CloneLeadOption; label: string; description: string }> = [
+    { value: 'unreached', label: 'Unreached leads only', description: 'Leads nobody answered yet, for another pass' },
+    { value: 'all', label: 'All leads', description: 'Every lead except do-not-call, reset to pending' },
+    { value: 'none', label: 'No leads', description: 'Settings only, add leads later' }
+  ];
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    setLoading(true);
+    try {
+      const result = await CampaignTemplateService.cloneCampaign(campaign, { name, leads: leadOption });
+      if (result.leads && result.leads.failed > 0) {
+        console.error('Lead import errors:', result.leads.errors);
+        toast.error(`${result.leads.failed} leads could not be copied`);
+      }
+      toast.success(result.leads
+        ? `Campaign cloned. Leads: ${LeadImportService.summarize(result.leads)}`
+        : 'Campaign cloned');
+      onSuccess();
+      onClose();
+    } catch (error) {
+      console.error('Error cloning campaign:', error);
+      toast.error('Failed to clone campaign');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
+      <div className="relative top-20 mx-auto p-5 border w-11/12 max-w-md shadow-lg rounded-md bg-white">
+        <div className="mt-3">
+          <h3 className="text-lg font-medium text-gray-900 mb-4">Clone Campaign</h3>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Campaign Name</label>
+              <input
+                type="text"
+                required
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500"
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Leads</label>
+              <div className="space-y-2">
+                {leadOptions.map((option) => (
+                  <label key={option.value} className="flex items-start">
+                    <input
+                      type="radio"
+                      name="clone-leads"
+                      value={option.value}
+                      checked={leadOption === option.value}
+                      onChange={() => setLeadOption(option.value)}
+                      className="mt-1 h-4 w-4 text-blue-600 border-gray-300"
+                    />
+                    <span className="ml-2">
+                      <span className="block text-sm text-gray-900">{option.label}</span>
+                      <span className="block text-xs text-gray-500">{option.description}</span>
+                    </span>
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            <p className="text-xs text-gray-500">
+              The clone starts as a draft with the same agent, hours, retry and compliance settings, voice and instruction.
+            </p>
+
+            <div className="flex justify-end space-x-3 pt-4">
+              <button
+                type="button"
+                onClick={onClose}
+                className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={loading || !name.trim()}
+                className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+              >
+                {loading ? 'Cloning...' : 'Clone'}
+              </button>
+            </div>
+          </form>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+// Save Template Modal Component
+function SaveTemplateModal({ campaign, onClose }: { campaign: Campaign; onClose: () => void }) {
+  const [loading, setLoading] = useState(false);
+  const [name, setName] = useState(campaign.name);
+  const [description, setDescription] = useState(campaign.description || '');
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    setLoading(true);
+    try {
+      await CampaignTemplateService.saveTemplate(campaign, name, description);
+      toast.success('Template saved. It is offered when you create a new campaign.');
+      onClose();
+    } catch (error) {
+      console.error('Error saving template:', error);
+      toast.error('Failed to save template');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
+      <div className="relative top-20 mx-auto p-5 border w-11/12 max-w-md shadow-lg rounded-md bg-white">
+        <div className="mt-3">
+          <h3 className="text-lg font-medium text-gray-900 mb-4">Save as Template</h3>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Template Name</label>
+              <input
+                type="text"
+                required
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500"
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Description (Optional)</label>
+              <textarea
+                rows={2}
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500"
+              />
+            </div>
+
+            <p className="text-xs text-gray-500">
+              Saves the agent, calling hours, retry policy, compliance settings, budget, voice and instruction. Leads and dates are not included.
+            </p>
+
+            <div className="flex justify-end space-x-3 pt-4">
+              <button
+                type="button"
+                onClick={onClose}
+                className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={loading || !name.trim()}
+                className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+              >
+                {loading ? 'Saving...' : 'Save Template'}
+              </button>
+            </div>
+          </form>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function CampaignBudgetUsage({ campaign, onEdit }: { campaign: Campaign; onEdit: () => void }) {
+  const limit = CampaignBudgetService.getBudgetMinutes(campaign);
+  const used = campaign.minutes_used || 0;
+  const spend = CampaignBudgetService.getSpend(campaign);
+
+  return (
+    <div className="mt-4">
+      <div className="flex justify-between text-sm text-gray-500">
+        <span>
+          Budget
+          <button onClick={onEdit} className="ml-2 text-blue-600 hover:text-blue-800">
+            {limit === undefined ? 'Set' : 'Change'}
+          </button>
+        </span>
+        <span>
+          {limit === undefined ? `${used} min, account limit only` : `${used}/${limit} min`}
+          {spend !== undefined && ` · $${spend.toFixed(2)}`}
+        </span>
+      </div>
+      {limit !== undefined && (
+        <div className="mt-1 w-full bg-gray-200 rounded-full h-2">
+          <div
+            className={`h-2 rounded-full ${used >= limit ? 'bg-red-500' : 'bg-green-500'}`}
+            style={{ width: `${Math.min(100, (used / limit) * 100)}%` }}
+          ></div>
+        </div>
+      )}
+      {limit !== undefined && used >= limit && (
+        <p className="mt-1 text-xs text-red-600">Budget used up; the dialer places no more calls for this campaign.</p>
+      )}
+    </div>
+  );
+}
+
+function CampaignBudgetModal({ campaign, onClose }: { campaign: Campaign; onClose: () => void }) {
+  const [loading, setLoading] = useState(false);
+  const [budget, setBudget] = useState<CampaignBudget>({
+    budget_minutes: campaign.budget_minutes || undefined,
+    budget_spend: campaign.budget_spend || undefined,
+    cost_per_minute: campaign.cost_per_minute || undefined
+  });
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    setLoading(true);
+    try {
+      // Cleared fields are written as 0, which means no limit; undefined would leave the old value
+      await DatabaseService.updateCampaign(campaign.id, {
+        budget_minutes: budget.budget_minutes ?? 0,
+        budget_spend: budget.budget_spend ?? 0,
+        cost_per_minute: budget.cost_per_minute ?? 0
+      });
+      toast.success('Budget updated');
+      onClose();
+    } catch (error) {
+      console.error('Error updating budget:', error);
+      toast.error('Failed to update budget');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
+      <div className="relative top-20 mx-auto p-5 border w-11/12 max-w-2xl shadow-lg rounded-md bg-white">
+        <div className="mt-3">
+          <h3 className="text-lg font-medium text-gray-900 mb-1">Campaign Budget</h3>
+          <p className="text-sm text-gray-500 mb-4">
+            {campaign.name} has used {campaign.minutes_used || 0} minutes so far.
+          </p>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <CampaignBudgetFields budget={budget} onChange={setBudget} />
+
+            <div className="flex justify-end space-x-3 pt-4">
+              <button
+                type="button"
+                onClick={onClose}
+                className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={loading}
+                className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+              >
+                {loading ? 'Saving...' : 'Save Budget'}
+              </button>
+            </div>
+          </form>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -13,7 +13,7 @@ import {
 import { useUser, usePermissions } from '../contexts/UserContext';
 import { DatabaseService } from '../services/database';
 import { RealtimeService } from '../services/realtime';
-import type { Campaign, CampaignLead } from '../lib/supabase';
+import type { Campaign, CampaignLead, DialerCommand } from '../lib/supabase';
 import toast from 'react-hot-toast';
 
 // Removed unused interface
@@ -22,8 +22,6 @@ interface DialerStatus {
   isRunning: boolean
   activeCalls: number
   queuedLeads: number
-  callsPerHour: number
-  estimatedCompletion: string
 }
 
 export default function EnhancedCampaignsPage() {
@@ -44,7 +42,7 @@ export default function EnhancedCampaignsPage() {
       setupRealtimeSubscriptions();
       
       // Refresh dialer statuses every 10 seconds
-      const interval = setInterval(updateDialerStatuses, 10000);
+      const interval = setInterval(refreshDialerStatuses, 10000);
       return () => clearInterval(interval);
     }
   }, [user, canUseOutboundDialer]);
@@ -60,7 +58,7 @@ export default function EnhancedCampaignsPage() {
       setLoading(true);
       const campaignsData = await DatabaseService.getCampaigns(user.id);
       setCampaigns(campaignsData);
-      await updateDialerStatuses();
+      await updateDialerStatuses(campaignsData);
     } catch (error) {
       console.error('Error loading campaigns:', error);
       toast.error('Failed to load campaigns');
@@ -104,22 +102,30 @@ export default function EnhancedCampaignsPage() {
     setFilteredCampaigns(filtered);
   };
 
-  const updateDialerStatuses = async () => {
+  const refreshDialerStatuses = async () => {
+    if (!user) return;
+    await updateDialerStatuses(await DatabaseService.getCampaigns(user.id));
+  };
+
+  // The dialer worker renews its lease on the campaign while it runs it
+  const updateDialerStatuses = async (campaignList: Campaign[] = campaigns) => {
+    if (!user) return;
+
     const statuses = new Map<string, DialerStatus>();
-    
-    for (const campaign of campaigns) {
-      if (campaign.status === 'active') {
-        // In a real implementation, this would query the actual dialer engine
+    const queue = await DatabaseService.getDialerQueue(user.id);
+
+    for (const campaign of campaignList) {
+      const leaseLive = !!campaign.dialer_lease_expires_at && new Date(campaign.dialer_lease_expires_at).getTime() > Date.now();
+      const entries = queue.filter(entry => entry.campaign_id === campaign.id);
+      if (campaign.status === 'active' || leaseLive || entries.length > 0) {
         statuses.set(campaign.id, {
-          isRunning: true,
-          activeCalls: Math.floor(Math.random() * 5),
-          queuedLeads: Math.floor(Math.random() * 100),
-          callsPerHour: 45,
-          estimatedCompletion: '2 hours'
+          isRunning: leaseLive,
+          activeCalls: entries.filter(entry => entry.status === 'dialing').length,
+          queuedLeads: Math.max(0, (campaign.total_leads || 0) - (campaign.leads_completed || 0))
         });
       }
     }
-    
+
     setDialerStatuses(statuses);
   };
 
@@ -150,10 +156,16 @@ export default function EnhancedCampaignsPage() {
     };
   };
 
+  // The dialer worker carries out the command and updates the campaign status
+  const sendDialerCommand = async (campaign: Campaign, command: DialerCommand['command']) => {
+    if (!user) return;
+    await DatabaseService.sendDialerCommand(user.id, campaign.id, command);
+  };
+
   const handleStartCampaign = async (campaign: Campaign) => {
     try {
-      await DatabaseService.updateCampaign(campaign.id, { status: 'active' });
-      toast.success(`Campaign "${campaign.name}" started`);
+      await sendDialerCommand(campaign, campaign.status === 'paused' ? 'resume' : 'start');
+      toast.success(`Starting campaign "${campaign.name}"`);
       loadCampaigns();
     } catch (error) {
       console.error('Error starting campaign:', error);
@@ -163,8 +175,8 @@ export default function EnhancedCampaignsPage() {
 
   const handlePauseCampaign = async (campaign: Campaign) => {
     try {
-      await DatabaseService.updateCampaign(campaign.id, { status: 'paused' });
-      toast.success(`Campaign "${campaign.name}" paused`);
+      await sendDialerCommand(campaign, 'pause');
+      toast.success(`Pausing campaign "${campaign.name}"`);
       loadCampaigns();
     } catch (error) {
       console.error('Error pausing campaign:', error);
@@ -178,8 +190,8 @@ export default function EnhancedCampaignsPage() {
     }
 
     try {
-      await DatabaseService.updateCampaign(campaign.id, { status: 'completed' });
-      toast.success(`Campaign "${campaign.name}" stopped`);
+      await sendDialerCommand(campaign, 'stop');
+      toast.success(`Stopping campaign "${campaign.name}"`);
       loadCampaigns();
     } catch (error) {
       console.error('Error stopping campaign:', error);
@@ -376,10 +388,17 @@ export default function EnhancedCampaignsPage() {
                   <div className="bg-gray-50 rounded-lg p-3 mb-4">
                     <div className="flex items-center justify-between mb-2">
                       <span className="text-xs font-medium text-gray-700">Auto-Dialer Status</span>
-                      <div className="flex items-center space-x-1">
-                        <div className="w-2 h-2 bg-green-500 rounded-full animate-pulse"></div>
-                        <span className="text-xs text-green-600">Running</span>
-                      </div>
+                      {dialerStatus.isRunning ? (
+                        <div className="flex items-center space-x-1">
+                          <div className="w-2 h-2 bg-green-500 rounded-full animate-pulse"></div>
+                          <span className="text-xs text-green-600">Running</span>
+                        </div>
+                      ) : (
+                        <div className="flex items-center space-x-1">
+                          <div className="w-2 h-2 bg-yellow-500 rounded-full"></div>
+                          <span className="text-xs text-yellow-600">Waiting for worker</span>
+                        </div>
+                      )}
                     </div>
                     <div className="grid grid-cols-2 gap-2 text-xs">
                       <div>
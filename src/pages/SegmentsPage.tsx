@@ -0,0 +1,888 @@
+import { useState, useEffect } from 'react';
+import {
+  PlusIcon,
+  TrashIcon,
+  PencilIcon,
+  FunnelIcon,
+  NoSymbolIcon,
+  ArrowRightCircleIcon
+} from '@heroicons/react/24/outline';
+import { useUser } from '../contexts/UserContext';
+import { DatabaseService } from '../services/database';
+import { LeadSegmentService, SEGMENT_FIELDS, SEGMENT_OPERATORS } from '../services/lead-segments';
+import { LeadImportService } from '../services/lead-import';
+import { SuppressionService, SUPPRESSION_LIST_KINDS } from '../services/suppression';
+import type { SuppressionEntryType } from '../services/suppression';
+import type { Campaign, CampaignLead, LeadSegment, LeadSegmentRule, SuppressionEntry, SuppressionList } from '../lib/supabase';
+import toast from 'react-hot-toast';
+
+const CUSTOM_FIELD = 'custom_fields.';
+
+// Operators whose value is a comma-separated list, and those that take no value
+const LIST_OPERATORS: LeadSegmentRule['operator'][] = ['in', 'not_in'];
+const VALUELESS_OPERATORS: LeadSegmentRule['operator'][] = ['is_empty', 'is_not_empty'];
+
+function describeRule(rule: LeadSegmentRule): string {
+  const field = LeadSegmentService.getField(rule.field).label;
+  const operator = SEGMENT_OPERATORS.find(entry => entry.value === rule.operator)?.label || rule.operator;
+  if (VALUELESS_OPERATORS.includes(rule.operator)) return `${field} ${operator}`;
+  const value = Array.isArray(rule.value) ? rule.value.join(', ') : rule.value;
+  return `${field} ${operator} ${value}`;
+}
+
+export default function SegmentsPage() {
+  const { user } = useUser();
+  const [segments, setSegments] = useState<LeadSegment[]>([]);
+  const [lists, setLists] = useState<SuppressionList[]>([]);
+  const [campaigns, setCampaigns] = useState<Campaign[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editingSegment, setEditingSegment] = useState<LeadSegment | null>(null);
+  const [showSegmentModal, setShowSegmentModal] = useState(false);
+  const [feedingSegment, setFeedingSegment] = useState<LeadSegment | null>(null);
+  const [showListModal, setShowListModal] = useState(false);
+  const [entriesList, setEntriesList] = useState<SuppressionList | null>(null);
+
+  useEffect(() => {
+    if (user) {
+      loadData();
+    }
+  }, [user]);
+
+  const loadData = async () => {
+    if (!user) return;
+
+    try {
+      setLoading(true);
+      const [segmentData, listData, campaignData] = await Promise.all([
+        DatabaseService.getLeadSegments(user.id),
+        DatabaseService.getSuppressionLists(user.id),
+        DatabaseService.getCampaigns(user.id)
+      ]);
+      setSegments(segmentData);
+      setLists(listData);
+      setCampaigns(campaignData);
+    } catch (error) {
+      console.error('Error loading segments:', error);
+      toast.error('Failed to load segments');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleDeleteSegment = async (segment: LeadSegment) => {
+    const feeding = campaigns.filter(campaign => campaign.segment_id === segment.id);
+    const warning = feeding.length > 0 ? ` It feeds ${feeding.map(campaign => campaign.name).join(', ')}.` : '';
+    if (!confirm(`Delete the segment "${segment.name}"?${warning}`)) {
+      return;
+    }
+
+    try {
+      await DatabaseService.deleteLeadSegment(segment.id);
+      setSegments(prev => prev.filter(s => s.id !== segment.id));
+      toast.success('Segment deleted');
+    } catch (error) {
+      console.error('Error deleting segment:', error);
+      toast.error('Failed to delete segment');
+    }
+  };
+
+  const handleToggleList = async (list: SuppressionList) => {
+    try {
+      await DatabaseService.updateSuppressionList(list.id, { is_active: !list.is_active });
+      setLists(prev => prev.map(l => l.id === list.id ? { ...l, is_active: !list.is_active } : l));
+      toast.success(list.is_active ? 'Suppression list paused' : 'Suppression list active');
+    } catch (error) {
+      console.error('Error updating suppression list:', error);
+      toast.error('Failed to update suppression list');
+    }
+  };
+
+  const handleDeleteList = async (list: SuppressionList) => {
+    if (!confirm(`Delete the suppression list "${list.name}" and all of its entries?`)) {
+      return;
+    }
+
+    try {
+      await DatabaseService.deleteSuppressionList(list.id);
+      setLists(prev => prev.filter(l => l.id !== list.id));
+      toast.success('Suppression list deleted');
+    } catch (error) {
+      console.error('Error deleting suppression list:', error);
+      toast.error('Failed to delete suppression list');
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-500"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="sm:flex sm:items-center sm:justify-between">
+        <div>
+          <h1 className="text-2xl font-semibold text-gray-900">Segments & Suppression</h1>
+          <p className="mt-2 text-sm text-gray-700">
+            Pick leads by rules to feed campaigns, and keep people who must never be called out of every campaign.
+          </p>
+        </div>
+        <div className="mt-4 sm:mt-0 flex space-x-3">
+          <button
+            type="button"
+            onClick={() => setShowListModal(true)}
+            className="inline-flex items-center rounded-md border border-gray-300 bg-white px-4 py-2 text-sm font-medium text-gray-700 shadow-sm hover:bg-gray-50"
+          >
+            <NoSymbolIcon className="-ml-1 mr-2 h-5 w-5" aria-hidden="true" />
+            New Suppression List
+          </button>
+          <button
+            type="button"
+            onClick={() => {
+              setEditingSegment(null);
+              setShowSegmentModal(true);
+            }}
+            className="inline-flex items-center justify-center rounded-md border border-transparent bg-blue-600 px-4 py-2 text-sm font-medium text-white shadow-sm hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2"
+          >
+            <PlusIcon className="-ml-1 mr-2 h-5 w-5" aria-hidden="true" />
+            New Segment
+          </button>
+        </div>
+      </div>
+
+      {/* Segments */}
+      <div className="bg-white shadow-sm rounded-lg border border-gray-200 overflow-hidden">
+        <div className="px-6 py-4 border-b border-gray-200">
+          <h3 className="text-lg font-medium text-gray-900">Segments</h3>
+        </div>
+        {segments.length > 0 ? (
+          <ul className="divide-y divide-gray-200">
+            {segments.map((segment) => {
+              const feeding = campaigns.filter(campaign => campaign.segment_id === segment.id);
+              return (
+                <li key={segment.id} className="px-6 py-4 flex items-start justify-between">
+                  <div className="min-w-0">
+                    <div className="text-sm font-medium text-gray-900">{segment.name}</div>
+                    {segment.description && <div className="text-sm text-gray-500">{segment.description}</div>}
+                    <div className="mt-1 text-xs text-gray-600">
+                      {segment.rules.length === 0
+                        ? 'All leads'
+                        : segment.rules.map(describeRule).join(segment.match === 'any' ? ' or ' : ' and ')}
+                    </div>
+                    {feeding.length > 0 && (
+                      <div className="mt-1 text-xs text-blue-600">Feeds {feeding.map(campaign => campaign.name).join(', ')}</div>
+                    )}
+                  </div>
+                  <div className="flex space-x-3 ml-4">
+                    <button
+                      onClick={() => setFeedingSegment(segment)}
+                      className="text-blue-600 hover:text-blue-900"
+                      title="Feed a campaign"
+                    >
+                      <ArrowRightCircleIcon className="h-5 w-5" />
+                    </button>
+                    <button
+                      onClick={() => {
+                        setEditingSegment(segment);
+                        setShowSegmentModal(true);
+                      }}
+                      className="text-gray-600 hover:text-gray-900"
+                      title="Edit"
+                    >
+                      <PencilIcon className="h-4 w-4" />
+                    </button>
+                    <button
+                      onClick={() => handleDeleteSegment(segment)}
+                      className="text-red-600 hover:text-red-900"
+                      title="Delete"
+                    >
+                      <TrashIcon className="h-4 w-4" />
+                    </button>
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+        ) : (
+          <div className="text-center py-12">
+            <FunnelIcon className="mx-auto h-12 w-12 text-gray-400" />
+            <h3 className="mt-2 text-sm font-medium text-gray-900">No segments yet</h3>
+            <p className="mt-1 text-sm text-gray-500">
+              Define a segment such as "company contains Acme and call attempts less than 2" to feed it into a campaign.
+            </p>
+          </div>
+        )}
+      </div>
+
+      {/* Suppression Lists */}
+      <div className="bg-white shadow-sm rounded-lg border border-gray-200 overflow-hidden">
+        <div className="px-6 py-4 border-b border-gray-200">
+          <h3 className="text-lg font-medium text-gray-900">Suppression Lists</h3>
+          <p className="text-sm text-gray-500">
+            Checked at import and before every dial. Entries match a lead's phone number, email, email domain or company.
+          </p>
+        </div>
+        {lists.length > 0 ? (
+          <ul className="divide-y divide-gray-200">
+            {lists.map((list) => (
+              <li key={list.id} className={`px-6 py-4 flex items-center justify-between ${list.is_active ? '' : 'opacity-60'}`}>
+                <div>
+                  <div className="text-sm font-medium text-gray-900">{list.name}</div>
+                  <div className="text-xs text-gray-500">
+                    {SUPPRESSION_LIST_KINDS.find(kind => kind.value === list.kind)?.label}
+                    {list.description && ` · ${list.description}`}
+                  </div>
+                </div>
+                <div className="flex items-center space-x-3">
+                  <button
+                    onClick={() => setEntriesList(list)}
+                    className="text-sm text-blue-600 hover:text-blue-900"
+                  >
+                    Entries
+                  </button>
+                  <button
+                    onClick={() => handleToggleList(list)}
+                    className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${
+                      list.is_active ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-800'
+                    }`}
+                  >
+                    {list.is_active ? 'Active' : 'Paused'}
+                  </button>
+                  <button
+                    onClick={() => handleDeleteList(list)}
+                    className="text-red-600 hover:text-red-900"
+                    title="Delete"
+                  >
+                    <TrashIcon className="h-4 w-4" />
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <div className="text-center py-12">
+            <NoSymbolIcon className="mx-auto h-12 w-12 text-gray-400" />
+            <h3 className="mt-2 text-sm font-medium text-gray-900">No suppression lists yet</h3>
+            <p className="mt-1 text-sm text-gray-500">
+              Add your existing customers or competitors so no campaign calls them.
+            </p>
+          </div>
+        )}
+      </div>
+
+      {showSegmentModal && (
+        <SegmentModal
+          segment={editingSegment}
+          campaigns={campaigns}
+          onClose={() => setShowSegmentModal(false)}
+          onSuccess={loadData}
+        />
+      )}
+
+      {feedingSegment && (
+        <FeedCampaignModal
+          segment={feedingSegment}
+          campaigns={campaigns}
+          onClose={() => setFeedingSegment(null)}
+          onSuccess={loadData}
+        />
+      )}
+
+      {showListModal && (
+        <SuppressionListModal
+          onClose={() => setShowListModal(false)}
+          onSuccess={loadData}
+        />
+      )}
+
+      {entriesList && (
+        <SuppressionEntriesModal
+          list={entriesList}
+          onClose={() => setEntriesList(null)}
+        />
+      )}
+    </div>
+  );
+}
+
+function SegmentModal({ segment, campaigns, onClose, onSuccess }: {
+  segment: LeadSegment | null
+  campaigns: Campaign[]
+  onClose: () => void
+  onSuccess: () => void
+}) {
+  const { user } = useUser();
+  const [loading, setLoading] = useState(false);
+  const [formData, setFormData] = useState({
+    name: segment?.name || '',
+    description: segment?.description || '',
+    match: segment?.match || 'all' as LeadSegment['match'],
+    rules: segment?.rules || [] as LeadSegmentRule[],
+    source_campaign_ids: segment?.source_campaign_ids || [] as string[]
+  });
+  const [preview, setPreview] = useState<CampaignLead[] | null>(null);
+  const [previewing, setPreviewing] = useState(false);
+
+  const updateRule = (index: number, updates: Partial<LeadSegmentRule>) => {
+    setFormData(prev => ({ ...prev, rules: prev.rules.map((rule, i) => (i === index ? { ...rule, ...updates } : rule)) }));
+    setPreview(null);
+  };
+
+  const addRule = () => {
+    setFormData(prev => ({ ...prev, rules: [...prev.rules, { field: 'company', operator: 'contains', value: '' }] }));
+    setPreview(null);
+  };
+
+  const removeRule = (index: number) => {
+    setFormData(prev => ({ ...prev, rules: prev.rules.filter((_, i) => i !== index) }));
+    setPreview(null);
+  };
+
+  const handlePreview = async () => {
+    if (!user) return;
+
+    setPreviewing(true);
+    try {
+      setPreview(await LeadSegmentService.getSegmentLeads({ ...formData, profile_id: user.id }));
+    } catch (error) {
+      console.error('Error previewing segment:', error);
+      toast.error('Failed to preview segment');
+    } finally {
+      setPreviewing(false);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user) return;
+
+    setLoading(true);
+    try {
+      const data = {
+        name: formData.name,
+        description: formData.description || undefined,
+        match: formData.match,
+        rules: formData.rules,
+        source_campaign_ids: formData.source_campaign_ids
+      };
+      if (segment) {
+        await DatabaseService.updateLeadSegment(segment.id, data);
+      } else {
+        await DatabaseService.createLeadSegment({ ...data, profile_id: user.id });
+      }
+
+      toast.success(segment ? 'Segment updated' : 'Segment created');
+      onSuccess();
+      onClose();
+    } catch (error) {
+      console.error('Error saving segment:', error);
+      toast.error('Failed to save segment');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
+      <div className="relative top-10 mx-auto p-5 border w-11/12 max-w-3xl shadow-lg rounded-md bg-white">
+        <div className="mt-3">
+          <h3 className="text-lg font-medium text-gray-900 mb-4">{segment ? 'Edit Segment' : 'New Segment'}</h3>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Name</label>
+                <input
+                  type="text"
+                  required
+                  value={formData.name}
+                  onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                  className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500"
+                  placeholder="Texas SaaS, not reached yet"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Description (Optional)</label>
+                <input
+                  type="text"
+                  value={formData.description}
+                  onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+                  className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500"
+                />
+              </div>
+            </div>
+
+            <div>
+              <div className="flex items-center justify-between">
+                <label className="block text-sm font-medium text-gray-700">
+                  Leads matching{' '}
+                  <select
+                    value={formData.match}
+                    onChange={(e) => setFormData({ ...formData, match: e.target.value as LeadSegment['match'] })}
+                    className="mx-1 border-gray-300 rounded-md text-sm py-1"
+                  >
+                    <option value="all">all</option>
+                    <option value="any">any</option>
+                  </select>{' '}
+                  of these rules
+                </label>
+                <button
+                  type="button"
+                  onClick={addRule}
+                  className="inline-flex items-center text-sm text-blue-600 hover:text-blue-800"
+                >
+                  <PlusIcon className="h-4 w-4 mr-1" />
+                  Add Rule
+                </button>
+              </div>
+
+              <div className="mt-2 space-y-2">
+                {formData.rules.length === 0 && (
+                  <p className="text-sm text-gray-500">No rules: every lead of the source campaigns matches.</p>
+                )}
+                {formData.rules.map((rule, index) => {
+                  const isCustom = rule.field.startsWith(CUSTOM_FIELD);
+                  const field = LeadSegmentService.getField(rule.field);
+                  const operators = SEGMENT_OPERATORS.filter(operator => operator.types.includes(field.type));
+
+                  return (
+                    <div key={index} className="flex items-center space-x-2">
+                      <select
+                        value={isCustom ? CUSTOM_FIELD : rule.field}
+                        onChange={(e) => updateRule(index, { field: e.target.value, operator: 'equals', value: '' })}
+                        className="border-gray-300 rounded-md shadow-sm text-sm"
+                      >
+                        {SEGMENT_FIELDS.map((option) => (
+                          <option key={option.field} value={option.field}>{option.label}</option>
+                        ))}
+                        <option value={CUSTOM_FIELD}>Custom field...</option>
+                      </select>
+                      {isCustom && (
+                        <input
+                          type="text"
+                          value={rule.field.slice(CUSTOM_FIELD.length)}
+                          onChange={(e) => updateRule(index, { field: `${CUSTOM_FIELD}${e.target.value}` })}
+                          placeholder="Column name"
+                          className="w-32 border-gray-300 rounded-md shadow-sm text-sm"
+                        />
+                      )}
+                      <select
+                        value={rule.operator}
+                        onChange={(e) => updateRule(index, { operator: e.target.value as LeadSegmentRule['operator'] })}
+                        className="border-gray-300 rounded-md shadow-sm text-sm"
+                      >
+                        {operators.map((operator) => (
+                          <option key={operator.value} value={operator.value}>{operator.label}</option>
+                        ))}
+                      </select>
+                      {!VALUELESS_OPERATORS.includes(rule.operator) && (
+                        <input
+                          type={field.type === 'number' ? 'number' : field.type === 'date' ? 'date' : 'text'}
+                          value={Array.isArray(rule.value) ? rule.value.join(', ') : rule.value ?? ''}
+                          onChange={(e) => updateRule(index, {
+                            value: LIST_OPERATORS.includes(rule.operator)
+                              ? e.target.value.split(',').map(value => value.trim())
+                              : e.target.value
+                          })}
+                          placeholder={LIST_OPERATORS.includes(rule.operator)
+                            ? field.options ? field.options.slice(0, 3).join(', ') : 'TX, OK, NM'
+                            : ''}
+                          className="flex-1 border-gray-300 rounded-md shadow-sm text-sm"
+                        />
+                      )}
+                      <button
+                        type="button"
+                        onClick={() => removeRule(index)}
+                        className="text-gray-400 hover:text-red-600"
+                        title="Remove rule"
+                      >
+                        <TrashIcon className="h-4 w-4" />
+                      </button>
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Source Campaigns</label>
+              <p className="text-xs text-gray-500">Leads are taken from these campaigns; none selected means all of them.</p>
+              <div className="mt-2 grid grid-cols-2 gap-2 max-h-32 overflow-y-auto">
+                {campaigns.map((campaign) => (
+                  <label key={campaign.id} className="flex items-center text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={formData.source_campaign_ids.includes(campaign.id)}
+                      onChange={(e) => {
+                        setFormData(prev => ({
+                          ...prev,
+                          source_campaign_ids: e.target.checked
+                            ? [...prev.source_campaign_ids, campaign.id]
+                            : prev.source_campaign_ids.filter(id => id !== campaign.id)
+                        }));
+                        setPreview(null);
+                      }}
+                      className="h-4 w-4 text-blue-600 border-gray-300 rounded mr-2"
+                    />
+                    {campaign.name}
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            <div className="rounded-md bg-gray-50 border border-gray-200 p-3">
+              <div className="flex items-center justify-between">
+                <span className="text-sm text-gray-700">
+                  {preview === null ? 'Preview the leads this segment matches right now.' : `${preview.length} matching leads`}
+                </span>
+                <button
+                  type="button"
+                  onClick={handlePreview}
+                  disabled={previewing}
+                  className="text-sm text-blue-600 hover:text-blue-800 disabled:opacity-50"
+                >
+                  {previewing ? 'Counting...' : 'Preview'}
+                </button>
+              </div>
+              {preview && preview.length > 0 && (
+                <ul className="mt-2 text-xs text-gray-600 space-y-1">
+                  {preview.slice(0, 5).map((lead) => (
+                    <li key={lead.id}>
+                      {[lead.first_name, lead.last_name].filter(Boolean).join(' ') || lead.phone_number}
+                      {lead.company && ` · ${lead.company}`}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+
+            <div className="flex justify-end space-x-3 pt-4">
+              <button
+                type="button"
+                onClick={onClose}
+                className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={loading}
+                className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+              >
+                {loading ? 'Saving...' : 'Save Segment'}
+              </button>
+            </div>
+          </form>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function FeedCampaignModal({ segment, campaigns, onClose, onSuccess }: {
+  segment: LeadSegment
+  campaigns: Campaign[]
+  onClose: () => void
+  onSuccess: () => void
+}) {
+  const [loading, setLoading] = useState(false);
+  const [campaignId, setCampaignId] = useState('');
+  const [keepFeeding, setKeepFeeding] = useState(true);
+  const targets = campaigns.filter(campaign => campaign.status !== 'completed' && campaign.status !== 'cancelled');
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const campaign = targets.find(c => c.id === campaignId);
+    if (!campaign) return;
+
+    setLoading(true);
+    try {
+      const result = await LeadSegmentService.feedCampaign(campaign, segment);
+      if (keepFeeding) {
+        await DatabaseService.updateCampaign(campaign.id, { segment_id: segment.id });
+      }
+      toast.success(`Leads added to ${campaign.name}: ${LeadImportService.summarize(result)}`);
+      onSuccess();
+      onClose();
+    } catch (error) {
+      console.error('Error feeding campaign:', error);
+      toast.error('Failed to add segment leads');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
+      <div className="relative top-20 mx-auto p-5 border w-96 shadow-lg rounded-md bg-white">
+        <div className="mt-3">
+          <h3 className="text-lg font-medium text-gray-900 mb-4">Feed "{segment.name}" into a Campaign</h3>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Campaign</label>
+              <select
+                required
+                value={campaignId}
+                onChange={(e) => setCampaignId(e.target.value)}
+                className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500"
+              >
+                <option value="">Select a campaign</option>
+                {targets.map((campaign) => (
+                  <option key={campaign.id} value={campaign.id}>{campaign.name}</option>
+                ))}
+              </select>
+              <p className="mt-1 text-xs text-gray-500">
+                Matching leads are copied in as new leads. Numbers already in the campaign or on a suppression list are skipped.
+              </p>
+            </div>
+
+            <label className="flex items-center">
+              <input
+                type="checkbox"
+                checked={keepFeeding}
+                onChange={(e) => setKeepFeeding(e.target.checked)}
+                className="h-4 w-4 text-blue-600 border-gray-300 rounded"
+              />
+              <span className="ml-2 text-sm text-gray-700">Keep adding new matches while the campaign runs</span>
+            </label>
+
+            <div className="flex justify-end space-x-3 pt-4">
+              <button
+                type="button"
+                onClick={onClose}
+                className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={loading || !campaignId}
+                className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+              >
+                {loading ? 'Adding...' : 'Add Leads'}
+              </button>
+            </div>
+          </form>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function SuppressionListModal({ onClose, onSuccess }: { onClose: () => void; onSuccess: () => void }) {
+  const { user } = useUser();
+  const [loading, setLoading] = useState(false);
+  const [formData, setFormData] = useState({
+    name: '',
+    kind: 'existing_customers' as SuppressionList['kind'],
+    description: ''
+  });
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user) return;
+
+    setLoading(true);
+    try {
+      await DatabaseService.createSuppressionList({
+        profile_id: user.id,
+        name: formData.name,
+        kind: formData.kind,
+        description: formData.description || undefined,
+        is_active: true
+      });
+
+      toast.success('Suppression list created');
+      onSuccess();
+      onClose();
+    } catch (error) {
+      console.error('Error creating suppression list:', error);
+      toast.error('Failed to create suppression list');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
+      <div className="relative top-20 mx-auto p-5 border w-96 shadow-lg rounded-md bg-white">
+        <div className="mt-3">
+          <h3 className="text-lg font-medium text-gray-900 mb-4">New Suppression List</h3>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Name</label>
+              <input
+                type="text"
+                required
+                value={formData.name}
+                onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500"
+                placeholder="Current customers"
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Kind</label>
+              <select
+                value={formData.kind}
+                onChange={(e) => setFormData({ ...formData, kind: e.target.value as SuppressionList['kind'] })}
+                className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500"
+              >
+                {SUPPRESSION_LIST_KINDS.map((kind) => (
+                  <option key={kind.value} value={kind.value}>{kind.label}</option>
+                ))}
+              </select>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Description (Optional)</label>
+              <input
+                type="text"
+                value={formData.description}
+                onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+                className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500"
+              />
+            </div>
+
+            <div className="flex justify-end space-x-3 pt-4">
+              <button
+                type="button"
+                onClick={onClose}
+                className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={loading}
+                className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+              >
+                {loading ? 'Creating...' : 'Create List'}
+              </button>
+            </div>
+          </form>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function SuppressionEntriesModal({ list, onClose }: { list: SuppressionList; onClose: () => void }) {
+  const { user } = useUser();
+  const [entries, setEntries] = useState<SuppressionEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [adding, setAdding] = useState(false);
+  const [text, setText] = useState('');
+  const [type, setType] = useState<SuppressionEntryType | ''>('');
+
+  useEffect(() => {
+    loadEntries();
+  }, [list.id]);
+
+  const loadEntries = async () => {
+    setLoading(true);
+    setEntries(await DatabaseService.getSuppressionEntries(list.id));
+    setLoading(false);
+  };
+
+  const handleAdd = async () => {
+    if (!user || !text.trim()) return;
+
+    setAdding(true);
+    try {
+      const added = await SuppressionService.addEntries(user.id, list.id, text, type || undefined);
+      toast.success(`${added} entries added`);
+      setText('');
+      loadEntries();
+    } catch (error) {
+      console.error('Error adding suppression entries:', error);
+      toast.error('Failed to add entries');
+    } finally {
+      setAdding(false);
+    }
+  };
+
+  const handleDelete = async (entry: SuppressionEntry) => {
+    try {
+      await DatabaseService.deleteSuppressionEntry(entry.id);
+      setEntries(prev => prev.filter(e => e.id !== entry.id));
+    } catch (error) {
+      console.error('Error deleting suppression entry:', error);
+      toast.error('Failed to delete entry');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
+      <div className="relative top-10 mx-auto p-5 border w-11/12 max-w-2xl shadow-lg rounded-md bg-white">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-medium text-gray-900">{list.name}</h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">✕</button>
+        </div>
+
+        <div className="space-y-2">
+          <label className="block text-sm font-medium text-gray-700">Add Entries</label>
+          <textarea
+            rows={4}
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            placeholder={'One per line: phone numbers, emails, domains (acme.com) or company names'}
+            className="block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 text-sm"
+          />
+          <div className="flex items-center justify-between">
+            <select
+              value={type}
+              onChange={(e) => setType(e.target.value as SuppressionEntryType | '')}
+              className="border-gray-300 rounded-md shadow-sm text-sm"
+            >
+              <option value="">Detect type per line</option>
+              <option value="phone">Phone numbers</option>
+              <option value="email">Emails</option>
+              <option value="domain">Email domains</option>
+              <option value="company">Company names</option>
+            </select>
+            <button
+              type="button"
+              onClick={handleAdd}
+              disabled={adding || !text.trim()}
+              className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+            >
+              {adding ? 'Adding...' : 'Add'}
+            </button>
+          </div>
+        </div>
+
+        <div className="mt-6 max-h-80 overflow-y-auto">
+          {loading ? (
+            <div className="flex items-center justify-center h-24">
+              <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-500"></div>
+            </div>
+          ) : entries.length === 0 ? (
+            <p className="text-sm text-gray-500 text-center py-6">This list is empty.</p>
+          ) : (
+            <table className="min-w-full divide-y divide-gray-200">
+              <tbody className="divide-y divide-gray-200">
+                {entries.map((entry) => (
+                  <tr key={entry.id}>
+                    <td className="py-2 text-xs text-gray-500 w-24 capitalize">{entry.type}</td>
+                    <td className="py-2 text-sm text-gray-900 font-mono">{entry.value}</td>
+                    <td className="py-2 text-right">
+                      <button
+                        onClick={() => handleDelete(entry)}
+                        className="text-red-600 hover:text-red-900"
+                        title="Remove"
+                      >
+                        <TrashIcon className="h-4 w-4" />
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
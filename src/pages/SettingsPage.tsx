@@ -1,6 +1,9 @@
 import { useState, useEffect } from 'react';
 import { EyeIcon, EyeSlashIcon, KeyIcon, UserIcon, PhoneIcon } from '@heroicons/react/24/outline';
 import { useUser } from '../contexts/UserContext';
+import { COUNTRY_PLANS, DEFAULT_PHONE_COUNTRY } from '../lib/phoneNumbers';
+import DispositionSettings from '../components/DispositionSettings';
+import InboundRoutingSettings from '../components/InboundRoutingSettings';
 import toast from 'react-hot-toast';
 
 export default function SettingsPage() {
@@ -18,6 +21,7 @@ export default function SettingsPage() {
     company_name: '',
     email: '',
     phone_number: '',
+    default_country: DEFAULT_PHONE_COUNTRY,
     
     // AI Configuration
     system_instruction: '',
@@ -42,6 +46,7 @@ export default function SettingsPage() {
         company_name: user.company_name || '',
         email: user.email || '',
         phone_number: user.phone_number || '',
+        default_country: user.default_country || DEFAULT_PHONE_COUNTRY,
         system_instruction: '',
         voice_name: 'Puck',
         language_code: 'en-US',
@@ -67,7 +72,8 @@ export default function SettingsPage() {
       await updateUser({
         client_name: formData.client_name,
         company_name: formData.company_name,
-        phone_number: formData.phone_number
+        phone_number: formData.phone_number,
+        default_country: formData.default_country
       });
     } catch (error) {
       console.error('Error saving profile:', error);
@@ -162,6 +168,23 @@ export default function SettingsPage() {
                 placeholder="+1 (555) 123-4567"
               />
             </div>
+
+            <div>
+              <label htmlFor="default-country" className="block text-sm font-medium text-gray-700">
+                Default Country
+              </label>
+              <select
+                id="default-country"
+                value={formData.default_country}
+                onChange={(e) => handleInputChange('default_country', e.target.value)}
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+              >
+                {Object.entries(COUNTRY_PLANS).map(([country, plan]) => (
+                  <option key={country} value={country}>{country} (+{plan.callingCode})</option>
+                ))}
+              </select>
+              <p className="mt-1 text-xs text-gray-500">Used for phone numbers entered without a country code</p>
+            </div>
           </div>
         </div>
       </div>
@@ -297,6 +320,12 @@ export default function SettingsPage() {
         </div>
       </div>
 
+      {/* Call Dispositions */}
+      {user && <DispositionSettings profileId={user.id} />}
+
+      {/* Inbound Hours & Holidays */}
+      {user && <InboundRoutingSettings profile={user} />}
+
       {/* API Keys */}
       <div className="bg-white shadow-sm rounded-lg border border-gray-200">
         <div className="px-4 py-5 sm:p-6">
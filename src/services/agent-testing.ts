@@ -0,0 +1,211 @@
+import { DatabaseService } from './database';
+import { AgentToolService } from './agent-tools';
+import { KnowledgeBaseService } from './knowledge-base';
+import { GeminiConversationModel, SimulatedConversationModel } from './conversation-models';
+import type { ConversationModel } from './conversation-models';
+import { getMergeFieldNames, mergeLeadFields } from '../lib/mergeFields';
+import type { AIAgent, AgentTestCase, AgentTestMessage, AgentTool, CampaignLead, Profile } from '../lib/supabase';
+
+export type TestModelKind = 'simulator' | 'gemini'
+
+export type TestFunctionCall = NonNullable<AgentTestMessage['function_calls']>[number]
+
+export interface AgentTestTurnResult {
+  user: string
+  expected?: AgentTestMessage
+  actual?: AgentTestMessage
+  problems: string[]
+}
+
+export interface AgentTestRunResult {
+  passed: boolean
+  turns: AgentTestTurnResult[]
+}
+
+// Lead fields the console offers to fill even when the instruction does not use them
+export const DEFAULT_LEAD_VARIABLES = ['first_name', 'last_name', 'company'];
+
+// Standard lead fields; other variables are custom fields
+const LEAD_FIELDS = ['first_name', 'last_name', 'email', 'company', 'title', 'phone_number', 'timezone', 'notes'];
+
+// Rounds of function calls the agent may make before it has to answer
+const MAX_FUNCTION_ROUNDS = 3;
+
+/**
+ * Text conversations with an agent's current configuration before it takes live calls. Replies
+ * come from Gemini or from the offline stand-in model; function calls are shown, not run, except
+ * read-only knowledge base searches. Saved sessions replay as regression cases: each user turn is
+ * sent again and the agent must make the same function calls it made when the case was saved.
+ */
+export class AgentTestService {
+  static createModel(kind: TestModelKind, profile: Pick<Profile, 'gemini_api_key'> | null): ConversationModel {
+    if (kind === 'gemini') {
+      if (!profile?.gemini_api_key) {
+        throw new Error('Add a Gemini API key in Settings to test against Gemini');
+      }
+      return new GeminiConversationModel(profile.gemini_api_key);
+    }
+    return new SimulatedConversationModel();
+  }
+
+  // Variables the agent's instruction uses, after the default lead fields
+  static getVariableNames(agent: Pick<AIAgent, 'system_instruction'>): string[] {
+    return Array.from(new Set([...DEFAULT_LEAD_VARIABLES, ...getMergeFieldNames(agent.system_instruction || '')]));
+  }
+
+  static toLead(variables: Record<string, string>): Partial<CampaignLead> {
+    const lead: Record<string, unknown> = { custom_fields: {} };
+    for (const [name, value] of Object.entries(variables)) {
+      if (LEAD_FIELDS.includes(name)) {
+        lead[name] = value;
+      } else {
+        (lead.custom_fields as Record<string, string>)[name] = value;
+      }
+    }
+    return lead as Partial<CampaignLead>;
+  }
+
+  // Line by line so the instruction keeps its line breaks
+  static buildInstruction(agent: Pick<AIAgent, 'system_instruction'>, variables: Record<string, string>): string {
+    const lead = this.toLead(variables);
+    return (agent.system_instruction || '')
+      .split('\n')
+      .map(line => mergeLeadFields(line, lead))
+      .join('\n');
+  }
+
+  static async getActiveTools(agentId: string): Promise<AgentTool[]> {
+    return (await DatabaseService.getAgentTools(agentId)).filter(tool => tool.is_active);
+  }
+
+  // Result the agent is given for a function call it makes in the console
+  static async simulateToolCall(agent: AIAgent, tools: AgentTool[], call: Omit<TestFunctionCall, 'result'>): Promise<Record<string, unknown>> {
+    const tool = tools.find(candidate => candidate.name === call.name);
+    if (!tool) {
+      return { success: false, message: `The agent has no tool named ${call.name}` };
+    }
+
+    const errors = AgentToolService.validateArguments(tool.parameters, call.args);
+    if (errors.length > 0) {
+      return { success: false, message: `Invalid arguments: ${errors.join('; ')}` };
+    }
+
+    if (tool.action_type === 'builtin' && tool.builtin_action === 'search_knowledge_base') {
+      const results = await KnowledgeBaseService.search(agent.id, String(call.args.query || ''));
+      return { success: true, message: `Found ${results.length} passage${results.length === 1 ? '' : 's'}`, results };
+    }
+    return { success: true, simulated: true, message: 'Not run in the test console' };
+  }
+
+  // The agent's reply to the conversation so far, including any function calls it makes on the way
+  static async converse(
+    agent: AIAgent,
+    tools: AgentTool[],
+    model: ConversationModel,
+    variables: Record<string, string>,
+    messages: AgentTestMessage[]
+  ): Promise<AgentTestMessage> {
+    const request = {
+      agentName: agent.name,
+      systemInstruction: this.buildInstruction(agent, variables),
+      tools: tools.map(tool => AgentToolService.getDeclaration(tool)),
+      variables
+    };
+
+    const reply: AgentTestMessage = { role: 'agent', text: '', function_calls: [] };
+    for (let round = 0; round <= MAX_FUNCTION_ROUNDS; round++) {
+      const pending = reply.function_calls!.length > 0 ? [{ ...reply, text: '' }] : [];
+      const response = await model.respond({ ...request, messages: [...messages, ...pending] });
+      if (response.text) {
+        reply.text = reply.text ? `${reply.text} ${response.text}` : response.text;
+      }
+      if (response.functionCalls.length === 0 || round === MAX_FUNCTION_ROUNDS) break;
+
+      for (const call of response.functionCalls) {
+        reply.function_calls!.push({ ...call, result: await this.simulateToolCall(agent, tools, call) });
+      }
+    }
+
+    if (reply.function_calls!.length === 0) {
+      delete reply.function_calls;
+    }
+    return reply;
+  }
+
+  // Differences that fail a replayed turn: the function calls made, by name
+  static compareTurn(expected: AgentTestMessage | undefined, actual: AgentTestMessage): string[] {
+    const expectedNames = (expected?.function_calls || []).map(call => call.name).sort();
+    const actualNames = (actual.function_calls || []).map(call => call.name).sort();
+    const problems: string[] = [];
+
+    for (const name of new Set([...expectedNames, ...actualNames])) {
+      const wanted = expectedNames.filter(n => n === name).length;
+      const made = actualNames.filter(n => n === name).length;
+      if (made < wanted) problems.push(`Expected a call to ${name}${wanted > 1 ? ` (${wanted}×)` : ''}`);
+      if (made > wanted) problems.push(`Unexpected call to ${name}`);
+    }
+    for (const call of actual.function_calls || []) {
+      if (call.result?.success === false) problems.push(`${call.name}: ${call.result.message}`);
+    }
+    if (!actual.text.trim() && !actual.function_calls?.length) {
+      problems.push('The agent did not reply');
+    }
+    return problems;
+  }
+
+  static async runTestCase(
+    agent: AIAgent,
+    testCase: Pick<AgentTestCase, 'lead_variables' | 'messages'>,
+    model: ConversationModel
+  ): Promise<AgentTestRunResult> {
+    const tools = await this.getActiveTools(agent.id);
+    const conversation: AgentTestMessage[] = [];
+    const turns: AgentTestTurnResult[] = [];
+
+    for (let index = 0; index < testCase.messages.length; index++) {
+      const message = testCase.messages[index];
+      if (message.role !== 'user') continue;
+
+      const next = testCase.messages[index + 1];
+      const expected = next?.role === 'agent' ? next : undefined;
+      conversation.push(message);
+
+      try {
+        const actual = await this.converse(agent, tools, model, testCase.lead_variables, conversation);
+        conversation.push(actual);
+        turns.push({ user: message.text, expected, actual, problems: this.compareTurn(expected, actual) });
+      } catch (error) {
+        console.error('Error replaying test case:', error);
+        turns.push({ user: message.text, expected, problems: [error instanceof Error ? error.message : 'The model did not respond'] });
+        break;
+      }
+    }
+
+    return { passed: turns.every(turn => turn.problems.length === 0), turns };
+  }
+
+  static async saveTestCase(
+    agent: AIAgent,
+    name: string,
+    variables: Record<string, string>,
+    messages: AgentTestMessage[]
+  ): Promise<AgentTestCase> {
+    if (!messages.some(message => message.role === 'user')) {
+      throw new Error('Have a conversation before saving it');
+    }
+    return DatabaseService.createAgentTestCase({
+      profile_id: agent.profile_id,
+      agent_id: agent.id,
+      name: name.trim() || `Test ${new Date().toLocaleString()}`,
+      // Blank variables are left to the instruction's fallbacks
+      lead_variables: Object.fromEntries(Object.entries(variables).filter(([, value]) => value.trim())),
+      messages
+    });
+  }
+
+  static async recordRun(testCase: AgentTestCase, result: AgentTestRunResult): Promise<AgentTestCase> {
+    const updates = { last_run_at: new Date().toISOString(), last_run_passed: result.passed };
+    const saved = await DatabaseService.updateAgentTestCase(testCase.id, updates);
+    return saved || { ...testCase, ...updates };
+  }
+}
@@ -0,0 +1,561 @@
+import { DatabaseService } from './database';
+import { CallbackService, SCHEDULE_CALLBACK_FUNCTION } from './callbacks';
+import { KnowledgeBaseService, SEARCH_KNOWLEDGE_BASE_FUNCTION } from './knowledge-base';
+import type { AgentTool, AgentToolCall, FunctionCallLog } from '../lib/supabase';
+
+export type BuiltinAction = NonNullable<AgentTool['builtin_action']>
+export type HttpMethod = NonNullable<AgentTool['http_config']>['method']
+
+export const HTTP_METHODS: HttpMethod[] = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE'];
+
+// Actions that run inside the app; their name and parameters come from the built-in declaration
+export const BUILTIN_TOOLS: Record<BuiltinAction, { label: string; declaration: ToolDeclaration }> = {
+  schedule_callback: { label: 'Schedule a callback', declaration: SCHEDULE_CALLBACK_FUNCTION },
+  search_knowledge_base: { label: 'Search the knowledge base', declaration: SEARCH_KNOWLEDGE_BASE_FUNCTION }
+};
+
+// Built-in actions every agent, outbound or inbound, is offered without a tool of its own
+const DEFAULT_BUILTIN_ACTIONS: BuiltinAction[] = ['schedule_callback'];
+
+export interface ToolDeclaration {
+  name: string
+  description: string
+  parameters: AgentTool['parameters']
+}
+
+// Arguments as the model sent them
+export type ToolArguments = Record<string, unknown>
+
+// The parts of a JSON Schema property that arguments are checked against
+export interface SchemaProperty {
+  type?: string
+  enum?: unknown[]
+  description?: string
+}
+
+export interface ToolInvocationResult {
+  success: boolean
+  message: string
+  status?: number // HTTP status of the bound request
+  data?: unknown
+  durationMs: number
+}
+
+export interface AgentToolStats {
+  calls: number
+  errorRate: number // 0..1
+  averageMs: number
+  p95Ms: number
+  lastCalledAt?: string
+}
+
+const DEFAULT_TIMEOUT_MS = 10000;
+const MAX_TIMEOUT_MS = 30000;
+// Window and sample the per-tool stats are computed from
+const STATS_WINDOW_DAYS = 30;
+const STATS_SAMPLE_SIZE = 2000;
+const TOOL_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]{0,63}$/;
+const SCHEMA_TYPES = ['string', 'number', 'integer', 'boolean', 'array', 'object'];
+// Response bodies longer than this are cut before they are read back to the agent
+const MAX_RESPONSE_CHARS = 4000;
+// How often and how long the tools panel waits for the dialer worker to run a test
+const TEST_POLL_MS = 1000;
+const TEST_WAIT_SLACK_MS = 15000;
+const MAX_REDIRECTS = 3;
+
+// Loopback, private, carrier-grade NAT, link-local (cloud metadata) and IPv6 unique-local addresses
+function isInternalAddress(address: string): boolean {
+  const ip = address.toLowerCase().replace(/^\[|\]$/g, '');
+  const mapped = ip.match(/^::ffff:(?:0:)?(\d+\.\d+\.\d+\.\d+)$/);
+  if (mapped) return isInternalAddress(mapped[1]);
+  const mappedHex = ip.match(/^::ffff:(?:0:)?([0-9a-f]{1,4}):([0-9a-f]{1,4})$/);
+  if (mappedHex) {
+    const [high, low] = [parseInt(mappedHex[1], 16), parseInt(mappedHex[2], 16)];
+    return isInternalAddress(`${high >> 8}.${high & 255}.${low >> 8}.${low & 255}`);
+  }
+
+  const octets = ip.split('.');
+  if (octets.length === 4 && octets.every(octet => /^\d{1,3}$/.test(octet))) {
+    const [a, b] = octets.map(Number);
+    return a === 0 || a === 10 || a === 127
+      || (a === 100 && b >= 64 && b <= 127)
+      || (a === 169 && b === 254)
+      || (a === 172 && b >= 16 && b <= 31)
+      || (a === 192 && b === 168)
+      || a >= 224;
+  }
+
+  if (ip.includes(':')) {
+    return ip === '::' || ip === '::1'
+      || /^f[cd][0-9a-f]{0,2}:/.test(ip)
+      || /^fe[89ab][0-9a-f]?:/.test(ip)
+      || /^ff[0-9a-f]{0,2}:/.test(ip);
+  }
+  return false;
+}
+
+/**
+ * Functions an agent can call during a conversation. Each tool declares its arguments with a JSON
+ * Schema and is bound either to an HTTP request, whose URL and header templates are filled from the
+ * arguments and the tool's secret, or to a built-in action. HTTP requests only run on the dialer worker:
+ * the secret is written to agent_tool_secrets (DatabaseService.setAgentToolSecret), which the browser
+ * cannot read back. Live calls are logged
+ * to function_call_logs under the tool's name, which the per-tool stats are read back from.
+ */
+export class AgentToolService {
+  // Problems with a tool definition, empty when it can be saved
+  static validateTool(tool: Partial<AgentTool>, otherTools: AgentTool[] = []): string[] {
+    const errors: string[] = [];
+    const name = tool.name?.trim() || '';
+
+    if (!TOOL_NAME_PATTERN.test(name)) {
+      errors.push('Name must start with a letter or underscore and use only letters, digits and underscores');
+    }
+    if (otherTools.some(other => other.id !== tool.id && other.name === name)) {
+      errors.push(`This agent already has a tool named ${name}`);
+    }
+    if (!tool.description?.trim()) {
+      errors.push('Describe when the agent should call this tool');
+    }
+    errors.push(...this.validateSchema(tool.parameters));
+
+    if (tool.action_type === 'builtin') {
+      if (!tool.builtin_action || !BUILTIN_TOOLS[tool.builtin_action]) {
+        errors.push('Choose a built-in action');
+      } else if (name !== BUILTIN_TOOLS[tool.builtin_action].declaration.name) {
+        errors.push(`Built-in tools keep their name, ${BUILTIN_TOOLS[tool.builtin_action].declaration.name}`);
+      }
+    } else if (tool.action_type === 'http') {
+      const url = tool.http_config?.url?.trim() || '';
+      try {
+        const parsed = new URL(url.replace(/\{\{[^}]*\}\}/g, 'x'));
+        if (parsed.protocol !== 'https:' && parsed.protocol !== 'http:') throw new Error();
+      } catch {
+        errors.push('Enter a full http(s) URL');
+      }
+      if (!tool.http_config || !HTTP_METHODS.includes(tool.http_config.method)) {
+        errors.push('Choose an HTTP method');
+      }
+    } else {
+      errors.push('Choose what the tool does');
+    }
+
+    return errors;
+  }
+
+  static validateSchema(schema: unknown): string[] {
+    if (!schema || typeof schema !== 'object' || Array.isArray(schema)) {
+      return ['Parameters must be a JSON Schema object'];
+    }
+    const { type, properties, required } = schema as AgentTool['parameters'];
+    const errors: string[] = [];
+    if (type !== 'object') {
+      errors.push('Parameters schema must have "type": "object"');
+    }
+    if (properties !== undefined && (!properties || typeof properties !== 'object' || Array.isArray(properties))) {
+      errors.push('"properties" must be an object');
+    } else {
+      for (const [key, property] of Object.entries<SchemaProperty>(this.getProperties(schema as AgentTool['parameters']))) {
+        if (!property || typeof property !== 'object' || !SCHEMA_TYPES.includes(property.type || '')) {
+          errors.push(`Property ${key} needs a type (${SCHEMA_TYPES.join(', ')})`);
+        }
+      }
+    }
+    const declared = this.getProperties(schema as AgentTool['parameters']);
+    if (required !== undefined && (!Array.isArray(required) || required.some(field => typeof field !== 'string' || !declared[field]))) {
+      errors.push('"required" must list properties that are declared');
+    }
+    return errors;
+  }
+
+  // The schema's declared properties; empty when "properties" is missing or not an object
+  static getProperties(schema: AgentTool['parameters']): Record<string, SchemaProperty> {
+    const { properties } = schema;
+    return properties && typeof properties === 'object' && !Array.isArray(properties)
+      ? properties as Record<string, SchemaProperty>
+      : {};
+  }
+
+  static getRequired(schema: AgentTool['parameters']): string[] {
+    return Array.isArray(schema.required) ? schema.required.filter((field): field is string => typeof field === 'string') : [];
+  }
+
+  // A string argument, or undefined when the model sent something else
+  static getString(args: ToolArguments, key: string): string | undefined {
+    const value = args[key];
+    return typeof value === 'string' ? value : undefined;
+  }
+
+  // Parses the schema typed in the editor; throws with a readable message
+  static parseSchema(text: string): AgentTool['parameters'] {
+    let schema: unknown;
+    try {
+      schema = JSON.parse(text || '{}');
+    } catch (error) {
+      throw new Error(`Parameters are not valid JSON: ${error instanceof Error ? error.message : 'parse error'}`);
+    }
+    const errors = this.validateSchema(schema);
+    if (errors.length > 0) {
+      throw new Error(errors[0]);
+    }
+    return schema as AgentTool['parameters'];
+  }
+
+  // Checks arguments against the declared required fields, types and enums
+  static validateArguments(schema: AgentTool['parameters'], args: ToolArguments): string[] {
+    const errors: string[] = [];
+    const properties = this.getProperties(schema);
+
+    for (const field of this.getRequired(schema)) {
+      if (args[field] === undefined || args[field] === null || args[field] === '') {
+        errors.push(`${field} is required`);
+      }
+    }
+
+    for (const [field, value] of Object.entries(args)) {
+      const property = properties[field];
+      if (!property || value === undefined || value === null) continue;
+
+      const actual = Array.isArray(value) ? 'array' : typeof value;
+      const matches = property.type === 'integer'
+        ? Number.isInteger(value)
+        : property.type === actual;
+      if (!matches) {
+        errors.push(`${field} must be ${property.type === 'integer' ? 'an integer' : `a${/^[aeiou]/.test(property.type || '') ? 'n' : ''} ${property.type}`}`);
+      } else if (Array.isArray(property.enum) && !property.enum.includes(value)) {
+        errors.push(`${field} must be one of ${property.enum.join(', ')}`);
+      }
+    }
+
+    return errors;
+  }
+
+  // Fills {{secret}}, {{call_id}} and {{args.name}}, each passed through encode; unknown placeholders become empty
+  static renderTemplate(
+    template: string,
+    context: { args: ToolArguments; secret?: string; callId?: string },
+    encode: (value: string) => string = value => value
+  ): string {
+    return template.replace(/\{\{\s*([\w.]+)\s*\}\}/g, (_, key: string) => {
+      if (key === 'secret') return encode(context.secret || '');
+      if (key === 'call_id') return encode(context.callId || '');
+      if (key.startsWith('args.')) {
+        const value = context.args[key.slice(5)];
+        if (value === undefined || value === null) return '';
+        return encode(typeof value === 'object' ? JSON.stringify(value) : String(value));
+      }
+      return '';
+    });
+  }
+
+  static getDeclaration(tool: AgentTool): ToolDeclaration {
+    return { name: tool.name, description: tool.description, parameters: tool.parameters };
+  }
+
+  // What the agent is told it can call: its active tools, then the default built-ins it has no tool for
+  static async getDeclarations(agentId: string): Promise<ToolDeclaration[]> {
+    const tools = await DatabaseService.getAgentTools(agentId);
+    const defaults = (await this.getDefaultActions(agentId))
+      .map(action => BUILTIN_TOOLS[action].declaration)
+      .filter(declaration => !tools.some(tool => tool.name === declaration.name));
+    return [...tools.filter(tool => tool.is_active).map(tool => this.getDeclaration(tool)), ...defaults];
+  }
+
+  // A tool of the same name, even an inactive one, replaces the default; knowledge search needs indexed documents
+  private static async getDefaultActions(agentId: string): Promise<BuiltinAction[]> {
+    const documents = await DatabaseService.getKnowledgeDocuments(agentId);
+    return documents.some(document => document.chunk_count > 0)
+      ? [...DEFAULT_BUILTIN_ACTIONS, 'search_knowledge_base']
+      : DEFAULT_BUILTIN_ACTIONS;
+  }
+
+  // Runs a tool. Without a call id this is a test run: built-in actions only report what they would do
+  static async invoke(tool: AgentTool, args: ToolArguments, callId?: string): Promise<ToolInvocationResult> {
+    const startedAt = Date.now();
+    const done = (result: Omit<ToolInvocationResult, 'durationMs'>): ToolInvocationResult => ({
+      ...result,
+      durationMs: Date.now() - startedAt
+    });
+
+    const errors = this.validateArguments(tool.parameters, args);
+    if (errors.length > 0) {
+      return done({ success: false, message: `Invalid arguments: ${errors.join('; ')}` });
+    }
+
+    try {
+      if (tool.action_type === 'builtin') {
+        return done(await this.runBuiltin(tool.builtin_action, tool.agent_id, args, callId));
+      }
+      return done(await this.runHttp(tool, args, callId));
+    } catch (error) {
+      console.error(`Error invoking tool ${tool.name}:`, error);
+      return done({ success: false, message: error instanceof Error ? error.message : 'Tool failed' });
+    }
+  }
+
+  private static async runBuiltin(
+    action: BuiltinAction | undefined,
+    agentId: string,
+    args: ToolArguments,
+    callId?: string
+  ): Promise<Omit<ToolInvocationResult, 'durationMs'>> {
+    switch (action) {
+      case 'schedule_callback': {
+        const request = { date: this.getString(args, 'date'), time: this.getString(args, 'time'), notes: this.getString(args, 'notes') };
+        if (!callId) {
+          return { success: true, message: `Test run: a callback would be scheduled for ${request.date} at ${request.time}`, data: args };
+        }
+        const result = await CallbackService.handleFunctionCall(callId, request);
+        return { success: result.success, message: result.message, data: result };
+      }
+      case 'search_knowledge_base': {
+        if (!callId) {
+          const results = await KnowledgeBaseService.search(agentId, this.getString(args, 'query') || '');
+          return { success: true, message: `Found ${results.length} passage${results.length === 1 ? '' : 's'}`, data: results };
+        }
+        const result = await KnowledgeBaseService.handleFunctionCall(callId, { query: this.getString(args, 'query') });
+        return { success: result.success, message: result.message, data: result };
+      }
+      default:
+        throw new Error('Unknown built-in action');
+    }
+  }
+
+  private static async runHttp(
+    tool: AgentTool,
+    args: ToolArguments,
+    callId?: string
+  ): Promise<Omit<ToolInvocationResult, 'durationMs'>> {
+    const config = tool.http_config;
+    if (!config?.url) {
+      throw new Error('Tool has no URL');
+    }
+
+    // Only readable with the worker's key; in a browser the read fails and the request is not sent
+    const secret = tool.has_secret ? await DatabaseService.getAgentToolSecret(tool.id) : undefined;
+    if (tool.has_secret && !secret) {
+      throw new Error('The tool secret could not be read; HTTP tools run on the dialer worker');
+    }
+    const context = { args, secret: secret || undefined, callId };
+    const url = new URL(this.renderTemplate(config.url, context, encodeURIComponent));
+
+    const headers: Record<string, string> = {};
+    for (const [name, value] of Object.entries(config.headers || {})) {
+      if (name.trim()) headers[name.trim()] = this.renderTemplate(value, context);
+    }
+
+    let body: string | undefined;
+    if (config.method === 'GET') {
+      for (const [key, value] of Object.entries(args)) {
+        if (value === undefined || value === null) continue;
+        url.searchParams.set(key, typeof value === 'object' ? JSON.stringify(value) : String(value));
+      }
+    } else {
+      body = JSON.stringify({ ...args, ...(callId ? { call_id: callId } : {}) });
+      if (!Object.keys(headers).some(name => name.toLowerCase() === 'content-type')) {
+        headers['Content-Type'] = 'application/json';
+      }
+    }
+
+    // Redirects are followed by hand so every hop is checked before it is requested
+    const signal = AbortSignal.timeout(Math.min(config.timeout_ms || DEFAULT_TIMEOUT_MS, MAX_TIMEOUT_MS));
+    let target = url;
+    let method: string = config.method;
+    let requestHeaders = headers;
+    let response: Response;
+    for (let redirects = 0; ; redirects++) {
+      await this.assertPublicHost(target);
+      response = await fetch(target.toString(), { method, headers: requestHeaders, body, signal, redirect: 'manual' }).catch((error: unknown) => {
+        throw new Error(error instanceof Error && error.name === 'TimeoutError'
+          ? 'The request timed out'
+          : `Request failed: ${error instanceof Error ? error.message : 'network error'}`);
+      });
+
+      const location = response.headers.get('location');
+      if (response.status < 300 || response.status >= 400 || !location) break;
+      if (redirects >= MAX_REDIRECTS) {
+        throw new Error(`Request failed: more than ${MAX_REDIRECTS} redirects`);
+      }
+
+      const next = new URL(location, target);
+      if (next.protocol !== 'https:' && next.protocol !== 'http:') {
+        throw new Error('Request failed: redirected to a non-http(s) URL');
+      }
+      // Header templates may carry the secret; they only go to the origin the tool was set up with
+      if (next.origin !== target.origin) {
+        requestHeaders = Object.fromEntries(Object.entries(requestHeaders).filter(([name]) => name.toLowerCase() === 'content-type'));
+      }
+      if (response.status === 303 || ((response.status === 301 || response.status === 302) && method === 'POST')) {
+        method = 'GET';
+        body = undefined;
+      }
+      target = next;
+    }
+
+    const text = (await response.text()).slice(0, MAX_RESPONSE_CHARS);
+    let data: unknown = text;
+    try {
+      data = text ? JSON.parse(text) : undefined;
+    } catch {
+      // Not JSON; the agent gets the text
+    }
+
+    return {
+      success: response.ok,
+      status: response.status,
+      message: response.ok ? `${config.method} returned ${response.status}` : `${config.method} failed with ${response.status} ${response.statusText}`.trim(),
+      data
+    };
+  }
+
+  // Refuses hosts that resolve to the worker's own network; the worker can reach what the internet cannot
+  private static async assertPublicHost(url: URL): Promise<void> {
+    const host = url.hostname.replace(/^\[|\]$/g, '');
+    const { lookup } = await import('node:dns/promises');
+    const addresses = await lookup(host, { all: true, verbatim: true }).catch(() => {
+      throw new Error(`Request failed: ${host} could not be resolved`);
+    });
+    if (addresses.length === 0 || addresses.some(({ address }) => isInternalAddress(address))) {
+      throw new Error(`Request failed: ${host} is a private or internal address`);
+    }
+  }
+
+  // Test run from the tools panel. HTTP tools run on the dialer worker, which holds the secrets;
+  // built-in actions only report what they would do, so they run here
+  static async test(tool: AgentTool, args: ToolArguments): Promise<ToolInvocationResult> {
+    if (tool.action_type === 'builtin') {
+      return this.invoke(tool, args);
+    }
+
+    const startedAt = Date.now();
+    const failed = (message: string): ToolInvocationResult => ({ success: false, message, durationMs: Date.now() - startedAt });
+    try {
+      const request = await DatabaseService.createAgentToolCall({
+        profile_id: tool.profile_id,
+        tool_id: tool.id,
+        name: tool.name,
+        args
+      });
+      if (!request) {
+        return failed('Tool tests are not available in demo mode');
+      }
+
+      const deadline = startedAt + Math.min(tool.http_config?.timeout_ms || DEFAULT_TIMEOUT_MS, MAX_TIMEOUT_MS) + TEST_WAIT_SLACK_MS;
+      while (Date.now() < deadline) {
+        await new Promise(resolve => setTimeout(resolve, TEST_POLL_MS));
+        const call = await DatabaseService.getAgentToolCall(request.id);
+        if (call?.result && (call.status === 'completed' || call.status === 'failed')) {
+          return call.result;
+        }
+      }
+      return failed('No dialer worker ran the test; start one with npm run worker');
+    } catch (error) {
+      console.error(`Error testing tool ${tool.name}:`, error);
+      return failed(error instanceof Error ? error.message : 'Tool test failed');
+    }
+  }
+
+  // Runs a queued tool call on the dialer worker: a live call from the voice runtime, or a test run
+  static async runQueuedCall(request: AgentToolCall): Promise<ToolInvocationResult> {
+    // The worker reads past row-level security, so the queuing profile must own the call, its agent and the tool
+    if (request.call_id) {
+      const call = await DatabaseService.getCallLog(request.call_id);
+      const agent = call?.agent_id ? await DatabaseService.getAIAgent(call.agent_id) : null;
+      if (!call || call.profile_id !== request.profile_id || (agent && agent.profile_id !== request.profile_id)) {
+        return { success: false, message: 'Call not found', durationMs: 0 };
+      }
+      return this.handleFunctionCall(request.call_id, request.name, request.args || {});
+    }
+
+    const tool = request.tool_id ? await DatabaseService.getAgentTool(request.tool_id) : null;
+    if (!tool || tool.profile_id !== request.profile_id) {
+      return { success: false, message: 'Tool not found', durationMs: 0 };
+    }
+    return this.invoke(tool, request.args || {});
+  }
+
+  // Runs the named tool of the call's agent; never throws, the result is read back to the agent
+  static async handleFunctionCall(callId: string, name: string, args: ToolArguments): Promise<ToolInvocationResult> {
+    const startedAt = Date.now();
+    let profileId: string | undefined;
+    let result: ToolInvocationResult;
+
+    try {
+      const call = await DatabaseService.getCallLog(callId);
+      profileId = call?.profile_id;
+      if (!call?.agent_id) {
+        throw new Error('No agent is assigned to this call');
+      }
+
+      const tool = (await DatabaseService.getAgentTools(call.agent_id))
+        .find(candidate => candidate.name === name && candidate.profile_id === call.profile_id);
+      const builtinAction = tool
+        ? tool.is_active && tool.action_type === 'builtin' ? tool.builtin_action : undefined
+        : (await this.getDefaultActions(call.agent_id)).find(action => BUILTIN_TOOLS[action].declaration.name === name);
+
+      // Built-in handlers check their arguments and log their own calls
+      if (builtinAction) {
+        return { ...(await this.runBuiltin(builtinAction, call.agent_id, args || {}, callId)), durationMs: Date.now() - startedAt };
+      }
+      if (!tool?.is_active) {
+        throw new Error(`This agent has no tool named ${name}`);
+      }
+      result = await this.invoke(tool, args || {}, callId);
+    } catch (error) {
+      console.error('Error handling tool call:', error);
+      result = {
+        success: false,
+        message: error instanceof Error ? error.message : 'Tool call failed',
+        durationMs: Date.now() - startedAt
+      };
+    }
+
+    await DatabaseService.logFunctionCall({
+      profile_id: profileId,
+      call_id: callId,
+      function_name: name,
+      parameters: args,
+      result: { message: result.message, status: result.status, data: result.data },
+      execution_time_ms: result.durationMs,
+      success: result.success,
+      error_message: result.success ? undefined : result.message
+    });
+    return result;
+  }
+
+  // Calls, error rate and latency per tool name over the last 30 days
+  static async getToolStats(profileId: string, toolNames: string[]): Promise<Record<string, AgentToolStats>> {
+    if (toolNames.length === 0) return {};
+
+    try {
+      const since = new Date(Date.now() - STATS_WINDOW_DAYS * 24 * 60 * 60 * 1000).toISOString();
+      const logs = await DatabaseService.getFunctionCallLogs(profileId, {
+        functionNames: toolNames,
+        since,
+        limit: STATS_SAMPLE_SIZE
+      });
+
+      const byName: Record<string, FunctionCallLog[]> = {};
+      for (const log of logs) {
+        if (!byName[log.function_name]) byName[log.function_name] = [];
+        byName[log.function_name].push(log);
+      }
+
+      const stats: Record<string, AgentToolStats> = {};
+      for (const [name, entries] of Object.entries(byName)) {
+        const durations = entries.map(entry => entry.execution_time_ms || 0).sort((a, b) => a - b);
+        stats[name] = {
+          calls: entries.length,
+          errorRate: entries.filter(entry => !entry.success).length / entries.length,
+          averageMs: Math.round(durations.reduce((sum, duration) => sum + duration, 0) / durations.length),
+          p95Ms: durations[Math.min(durations.length - 1, Math.ceil(durations.length * 0.95) - 1)],
+          lastCalledAt: entries[0].created_at // logs come newest first
+        };
+      }
+      return stats;
+    } catch (error) {
+      console.error('Error loading tool stats:', error);
+      return {};
+    }
+  }
+}
@@ -0,0 +1,126 @@
+import { DatabaseService } from './database';
+import { DispositionService } from './dispositions';
+import type { AIAgent, AgentVersion, CallLog } from '../lib/supabase';
+
+// Agent fields a version captures; name, phone number, hours and capacity are edited in place
+export const VERSIONED_FIELDS = [
+  'system_instruction',
+  'voice_name',
+  'language_code',
+  'escalation_enabled',
+  'escalation_type',
+  'escalation_phone_number',
+  'escalation_email'
+] as const satisfies ReadonlyArray<keyof AIAgent>;
+
+export type AgentVersionConfig = Pick<AgentVersion, typeof VERSIONED_FIELDS[number]>
+
+export interface AgentVersionStats {
+  calls: number
+  contacts: number // calls whose outcome counts as a contact
+  averageDurationSeconds: number
+}
+
+// Recent calls the per-version stats are computed from
+const STATS_SAMPLE_SIZE = 1000;
+
+/**
+ * Immutable history of an agent's conversational configuration. Every save that changes a
+ * versioned field appends a version and points the agent's active_version_id at it; rolling back
+ * re-applies an old version and points back at that version. Calls record the version they ran
+ * with in metadata.agent_version_id.
+ */
+export class AgentVersionService {
+  static extractConfig(agent: Partial<AIAgent> | AgentVersion): AgentVersionConfig {
+    const config: Record<string, unknown> = {};
+    for (const field of VERSIONED_FIELDS) {
+      config[field] = agent[field];
+    }
+    return config as AgentVersionConfig;
+  }
+
+  // Empty strings and missing values are the same setting
+  static isSameConfig(a: Partial<AIAgent> | AgentVersion, b: Partial<AIAgent> | AgentVersion): boolean {
+    return VERSIONED_FIELDS.every(field => (a[field] ?? '') === (b[field] ?? ''));
+  }
+
+  static async createVersion(agent: AIAgent, note?: string, latest?: number): Promise<AgentVersion> {
+    const previous = latest ?? (await DatabaseService.getAgentVersions(agent.id))[0]?.version ?? 0;
+    return DatabaseService.createAgentVersion({
+      ...this.extractConfig(agent),
+      profile_id: agent.profile_id,
+      agent_id: agent.id,
+      version: previous + 1,
+      note: note?.trim() || undefined
+    });
+  }
+
+  // Records the agent's first version right after it is created
+  static async recordInitialVersion(agent: AIAgent): Promise<void> {
+    const version = await this.createVersion(agent, 'Created');
+    await DatabaseService.updateAIAgent(agent.id, { active_version_id: version.id });
+  }
+
+  // Saves an edit; a new version is only cut when a versioned field changed
+  static async saveAgent(agent: AIAgent, updates: Partial<AIAgent>, note?: string): Promise<AIAgent | null> {
+    const updated = { ...agent, ...updates };
+    if (this.isSameConfig(agent, updated)) {
+      return DatabaseService.updateAIAgent(agent.id, updates);
+    }
+
+    const versions = await DatabaseService.getAgentVersions(agent.id);
+    let latest = versions[0]?.version ?? 0;
+
+    // Agents from before versioning keep the configuration being replaced as their first version
+    if (versions.length === 0) {
+      await this.createVersion(agent, 'Before version history', latest);
+      latest = 1;
+    }
+
+    const version = await this.createVersion(updated, note, latest);
+    return DatabaseService.updateAIAgent(agent.id, { ...updates, active_version_id: version.id });
+  }
+
+  static async rollback(agent: AIAgent, version: AgentVersion): Promise<AIAgent | null> {
+    return DatabaseService.updateAIAgent(agent.id, {
+      ...this.extractConfig(version),
+      active_version_id: version.id
+    });
+  }
+
+  // Calls per version of the agent among the profile's recent calls, keyed by version id
+  static async getVersionStats(agent: AIAgent): Promise<Record<string, AgentVersionStats>> {
+    try {
+      const [calls, catalog] = await Promise.all([
+        DatabaseService.getCallLogs(agent.profile_id, STATS_SAMPLE_SIZE),
+        DispositionService.getCatalog(agent.profile_id)
+      ]);
+
+      const stats: Record<string, AgentVersionStats> = {};
+      const durations: Record<string, number> = {};
+      for (const call of calls) {
+        const versionId = this.getCallVersionId(call);
+        if (call.agent_id !== agent.id || !versionId) continue;
+
+        const entry = stats[versionId] || (stats[versionId] = { calls: 0, contacts: 0, averageDurationSeconds: 0 });
+        entry.calls++;
+        if (DispositionService.isContact(catalog, call.outcome)) {
+          entry.contacts++;
+        }
+        durations[versionId] = (durations[versionId] || 0) + (call.duration_seconds || 0);
+      }
+
+      for (const [versionId, entry] of Object.entries(stats)) {
+        entry.averageDurationSeconds = Math.round(durations[versionId] / entry.calls);
+      }
+      return stats;
+    } catch (error) {
+      console.error('Error loading agent version stats:', error);
+      return {};
+    }
+  }
+
+  static getCallVersionId(call: Pick<CallLog, 'metadata'>): string | undefined {
+    return call.metadata?.agent_version_id;
+  }
+}
@@ -1,31 +1,77 @@
 import { DatabaseService } from './database';
 import { RealtimeService } from './realtime';
-import type { CampaignLead } from '../lib/supabase';
-
-interface DialerConfig {
+import { ComplianceService } from './compliance';
+import type { CampaignComplianceSettings, ComplianceDecision } from './compliance';
+import { SimulatedTelephonyProvider, isTerminalStatus } from './telephony';
+import type { AnsweredBy, TelephonyProvider, TelephonyCallEvent } from './telephony';
+import { DialerPacing, DEFAULT_MAX_ABANDON_RATE } from './dialer-pacing';
+import type { PacingMode, PacingDecision, CallAttemptSample } from './dialer-pacing';
+import { isValidTimezone, isWithinWindow, minutesUntilWindowOpens } from './calling-windows';
+import type { CallingWindow } from './calling-windows';
+import { LeadLifecycle } from './lead-lifecycle';
+import { CallerIdPool } from './caller-id-pool';
+import { CampaignVariantService } from './campaign-variants';
+import { DispositionService } from './dispositions';
+import { SuppressionService } from './suppression';
+import type { SuppressionMatch } from './suppression';
+import { LeadSegmentService, SEGMENT_SYNC_INTERVAL_MS } from './lead-segments';
+import { CallbackService } from './callbacks';
+import { CampaignBudgetService, MINUTES_RESERVED_PER_CALL } from './campaign-budget';
+import { AgentToolService } from './agent-tools';
+import type { CampaignBudget } from './campaign-budget';
+import type { AttemptOutcome } from './lead-lifecycle';
+import { mergeLeadFields } from '../lib/mergeFields';
+import type { Campaign, CampaignLead, DialerQueueEntry, LeadCallback } from '../lib/supabase';
+
+// What to do with a call answering-machine detection did not report as a human
+export type AmdAction = NonNullable<Campaign['amd_machine_action']>
+
+export interface DialerConfig {
   campaignId: string
   maxConcurrentCalls: number
   callTimeoutSeconds: number
   retryAttempts: number
   retryDelayMinutes: number
+  retryPolicy?: Campaign['retry_policy'] // per-outcome overrides of the default retry rules
   startTime: string // HH:MM format
   endTime: string // HH:MM format
   timezone: string
   daysOfWeek: number[] // 0=Sunday, 1=Monday, etc.
-  dialingRate: number // calls per minute
+  dialingRate: number // max calls per minute
+  pacingMode: PacingMode
+  maxAbandonRate: number // percent of answered calls
+  machineDetection: boolean
+  machineAction: AmdAction
+  unknownAction: AmdAction
+  voicemailMessage?: string // merge template, see mergeLeadFields
 }
 
 // Using CampaignLead from supabase types instead of custom interface
 
 interface ActiveCall {
   id: string
+  providerCallId?: string
   leadId: string
   phoneNumber: string
   startedAt: string
+  connectedAt?: string
   agentId: string
   status: 'dialing' | 'ringing' | 'connected' | 'completed' | 'failed'
+  abandoned?: boolean
+  answeredBy?: AnsweredBy
+  amdOutcome?: AttemptOutcome // set when we act on the detection result instead of the agent taking the call
+  queueEntryId?: string // dialer_queue row, when run by a dialer worker
+  recovered?: boolean // adopted from a worker that stopped
+  callerIdNumberId?: string // pool number the call was placed from
 }
 
+const PACING_TICK_MS = 1000;
+// How long a dialer worker's claim on an in-flight attempt lasts without renewal
+export const DIALER_LEASE_SECONDS = 60;
+// A connected call that never reports its end is closed after this long, so it cannot hold a
+// concurrency slot forever (e.g. its status events go to a relay nobody listens to)
+const CONNECTED_CALL_MAX_MINUTES = 120;
+
 export class AutoDialerEngine {
   private campaignId: string;
   private config: DialerConfig;
@@ -35,11 +81,59 @@ export class AutoDialerEngine {
   private dialingInterval?: NodeJS.Timeout;
   private statusCheckInterval?: NodeJS.Timeout;
   private userId: string;
-
-  constructor(campaignId: string, config: DialerConfig, userId: string) {
+  private provider: TelephonyProvider;
+  private unsubscribeProvider?: () => void;
+  private recentAttempts: CallAttemptSample[] = [];
+  private recentDialTimes: number[] = [];
+  private lastPacingDecision?: PacingDecision;
+  private isDialing = false;
+  // Leads moved to 'dialing' whose attempt has not been resolved yet, keyed by lead id
+  private dialedLeads: Map<string, CampaignLead> = new Map();
+  // Callbacks that are due, keyed by lead id; their leads are dialed first
+  private dueCallbacks: Map<string, LeadCallback> = new Map();
+  // Campaign budget and usage, re-read on start and resume and updated after every call
+  private budget: CampaignBudget = {};
+  // Set when a dialer worker runs the engine; attempts are then leased in dialer_queue
+  private workerId?: string;
+  // Preview mode: the lead last offered through the campaign row
+  private previewLeadId?: string | null;
+  // Realtime channel watching the campaign row, when the engine runs without a worker
+  private campaignSubscription?: string;
+
+  constructor(
+    campaignId: string,
+    config: DialerConfig,
+    userId: string,
+    provider: TelephonyProvider = new SimulatedTelephonyProvider(),
+    workerId?: string
+  ) {
     this.campaignId = campaignId;
     this.config = config;
     this.userId = userId;
+    this.provider = provider;
+    this.workerId = workerId;
+  }
+
+  static configFromCampaign(campaign: Campaign): DialerConfig {
+    return {
+      campaignId: campaign.id,
+      maxConcurrentCalls: campaign.max_concurrent_calls,
+      callTimeoutSeconds: campaign.call_timeout_seconds,
+      retryAttempts: campaign.retry_attempts,
+      retryDelayMinutes: campaign.retry_delay_minutes,
+      retryPolicy: campaign.retry_policy,
+      startTime: campaign.start_time || '09:00',
+      endTime: campaign.end_time || '17:00',
+      timezone: campaign.timezone,
+      daysOfWeek: campaign.days_of_week,
+      dialingRate: Math.max(10, campaign.max_concurrent_calls * 10),
+      pacingMode: campaign.dialing_mode || 'progressive',
+      maxAbandonRate: campaign.max_abandon_rate ?? DEFAULT_MAX_ABANDON_RATE,
+      machineDetection: campaign.amd_enabled ?? false,
+      machineAction: campaign.amd_machine_action || 'hangup',
+      unknownAction: campaign.amd_unknown_action || 'agent',
+      voicemailMessage: campaign.voicemail_message
+    };
   }
 
   async start(): Promise<void> {
@@ -47,17 +141,25 @@ export class AutoDialerEngine {
       throw new Error('Auto-dialer is already running');
     }
 
+    await this.loadBudget();
+
     console.log(`Starting auto-dialer for campaign ${this.campaignId}`);
     this.isRunning = true;
 
+    // Listen for call progress from the telephony provider
+    this.attachProvider();
+
     // Load leads to call
     await this.loadDialingQueue();
 
     // Start dialing process
     this.startDialing();
+    await this.publishPreviewLead();
 
     // Start status monitoring
-    this.startStatusMonitoring();
+    if (!this.statusCheckInterval) {
+      this.startStatusMonitoring();
+    }
 
     // Subscribe to real-time updates
     this.subscribeToUpdates();
@@ -74,13 +176,17 @@ export class AutoDialerEngine {
     // Clear intervals
     if (this.dialingInterval) {
       clearInterval(this.dialingInterval);
+      this.dialingInterval = undefined;
     }
     if (this.statusCheckInterval) {
       clearInterval(this.statusCheckInterval);
+      this.statusCheckInterval = undefined;
     }
+    this.unsubscribeFromUpdates();
 
     // Hang up active calls
     await this.hangupActiveCalls();
+    await this.publishPreviewLead();
 
     // Update campaign status
     await DatabaseService.updateCampaign(this.campaignId, {
@@ -100,6 +206,7 @@ export class AutoDialerEngine {
       clearInterval(this.dialingInterval);
       this.dialingInterval = undefined;
     }
+    await this.publishPreviewLead();
 
     await DatabaseService.updateCampaign(this.campaignId, {
       status: 'paused'
@@ -112,44 +219,104 @@ export class AutoDialerEngine {
       return;
     }
 
+    // The budget may have been raised while paused
+    await this.loadBudget();
+
     console.log(`Resuming auto-dialer for campaign ${this.campaignId}`);
     
     // Restart dialing if not already running
     if (!this.dialingInterval) {
       this.startDialing();
     }
+    await this.publishPreviewLead();
 
     await DatabaseService.updateCampaign(this.campaignId, {
       status: 'active'
     });
   }
 
+  // Stops work in this process without touching the campaign status or the calls in flight.
+  // Their leases lapse and another worker adopts them.
+  shutdown(): void {
+    console.log(`Shutting down auto-dialer for campaign ${this.campaignId}`);
+    this.isRunning = false;
+
+    if (this.dialingInterval) {
+      clearInterval(this.dialingInterval);
+      this.dialingInterval = undefined;
+    }
+    if (this.statusCheckInterval) {
+      clearInterval(this.statusCheckInterval);
+      this.statusCheckInterval = undefined;
+    }
+    this.unsubscribeFromUpdates();
+
+    this.activeCalls.clear();
+    this.dialedLeads.clear();
+    this.detachProviderIfIdle();
+  }
+
+  // Takes over an attempt left in flight by a worker that stopped. The provider keeps
+  // reporting on the call, so it completes like any other once the next event arrives.
+  async adoptCall(entry: DialerQueueEntry): Promise<void> {
+    const metadata = entry.metadata || {};
+    const lead = await DatabaseService.getCampaignLead(entry.lead_id);
+    if (!lead) {
+      await DatabaseService.updateDialerQueueStatus(entry.id, 'failed', { ...metadata, outcome: 'lead_not_found' });
+      return;
+    }
+
+    const call: ActiveCall = {
+      id: metadata.call_log_id || entry.id,
+      providerCallId: metadata.provider_call_id,
+      leadId: lead.id,
+      phoneNumber: lead.phone_number,
+      startedAt: entry.started_at || entry.created_at,
+      connectedAt: metadata.connected_at,
+      agentId: entry.agent_id || '',
+      status: metadata.connected_at ? 'connected' : 'dialing',
+      queueEntryId: entry.id,
+      recovered: true,
+      callerIdNumberId: metadata.caller_id_number_id
+    };
+
+    console.log(`Recovered in-flight call to ${call.phoneNumber}`);
+    this.activeCalls.set(call.id, call);
+    if (lead.status === 'dialing' || lead.status === 'called') {
+      this.dialedLeads.set(lead.id, lead);
+    }
+
+    this.attachProvider();
+    if (!this.statusCheckInterval) {
+      this.startStatusMonitoring();
+    }
+
+    // The previous worker stopped before the provider accepted the call
+    if (!call.providerCallId) {
+      await this.handleCallCompletion(call, 'dialer_error');
+    }
+  }
+
+  private attachProvider(): void {
+    if (!this.unsubscribeProvider) {
+      this.unsubscribeProvider = this.provider.onStatus(event => this.handleProviderEvent(event));
+    }
+  }
+
   private async loadDialingQueue(): Promise<void> {
     try {
+      await this.syncSegment();
+
       // Get leads that need to be called
       const leads = await DatabaseService.getCampaignLeads(this.campaignId, {
         status: ['pending', 'retry'],
         limit: 1000
       });
 
-      // Filter and prioritize leads
-      this.dialingQueue = leads
-        .filter(lead => this.shouldCallLead(lead))
-        .sort((a, b) => {
-          // Sort by priority, then by last call attempt
-          const priorityOrder = { urgent: 4, high: 3, normal: 2, low: 1 };
-          const aPriority = priorityOrder[a.priority] || 2;
-          const bPriority = priorityOrder[b.priority] || 2;
-          
-          if (aPriority !== bPriority) {
-            return bPriority - aPriority;
-          }
-          
-          // If same priority, call older attempts first
-          const aLastCall = a.last_call_at ? new Date(a.last_call_at).getTime() : 0;
-          const bLastCall = b.last_call_at ? new Date(b.last_call_at).getTime() : 0;
-          return aLastCall - bLastCall;
-        });
+      // Leads outside their local window stay queued until it opens
+      this.dialingQueue = leads.filter(lead => this.isEligible(lead));
+      await this.loadDueCallbacks();
+      this.reorderQueue();
 
       console.log(`Loaded ${this.dialingQueue.length} leads for dialing`);
     } catch (error) {
@@ -158,13 +325,90 @@ export class AutoDialerEngine {
     }
   }
 
-  private shouldCallLead(lead: CampaignLead): boolean {
+  // Due callbacks whose lead is not queued yet (e.g. beyond the queue's page) are added to it
+  private async loadDueCallbacks(): Promise<void> {
+    try {
+      const callbacks = await CallbackService.getDueCallbacks(this.userId, {
+        id: this.campaignId,
+        retry_attempts: this.config.retryAttempts
+      });
+      this.dueCallbacks = new Map(callbacks.map(callback => [callback.lead_id, callback]));
+
+      for (const callback of callbacks) {
+        if (this.dialingQueue.some(lead => lead.id === callback.lead_id) || this.dialedLeads.has(callback.lead_id)) {
+          continue;
+        }
+        const lead = await DatabaseService.getCampaignLead(callback.lead_id);
+        if (lead && (lead.status === 'pending' || lead.status === 'retry') && this.isEligible(lead)) {
+          this.dialingQueue.push(lead);
+        }
+      }
+    } catch (error) {
+      console.error('Error loading due callbacks:', error);
+    }
+  }
+
+  // Due callbacks come first, then leads whose local window is open, then those whose window opens soonest
+  private reorderQueue(): void {
+    const now = new Date();
+    const priorityOrder = { urgent: 4, high: 3, normal: 2, low: 1 };
+    const waits = new Map(this.dialingQueue.map(lead => [
+      lead.id,
+      minutesUntilWindowOpens(this.getCallingWindow(), this.getLeadTimezone(lead), now)
+    ]));
+
+    this.dialingQueue.sort((a, b) => {
+      const aCallback = this.dueCallbacks.has(a.id);
+      if (aCallback !== this.dueCallbacks.has(b.id)) {
+        return aCallback ? -1 : 1;
+      }
+
+      const aWait = waits.get(a.id) ?? Infinity;
+      const bWait = waits.get(b.id) ?? Infinity;
+      if ((aWait === 0) !== (bWait === 0)) {
+        return aWait === 0 ? -1 : 1;
+      }
+
+      // Sort by priority, then by last call attempt
+      const aPriority = priorityOrder[a.priority] || 2;
+      const bPriority = priorityOrder[b.priority] || 2;
+      
+      if (aPriority !== bPriority) {
+        return bPriority - aPriority;
+      }
+
+      if (aWait !== bWait) {
+        return aWait - bWait;
+      }
+      
+      // If same priority, call older attempts first
+      const aLastCall = a.last_call_at ? new Date(a.last_call_at).getTime() : 0;
+      const bLastCall = b.last_call_at ? new Date(b.last_call_at).getTime() : 0;
+      return aLastCall - bLastCall;
+    });
+  }
+
+  private isEligible(lead: CampaignLead): boolean {
+    if (lead.do_not_call) {
+      return false;
+    }
+
+    // The lead asked for this call, so it does not depend on attempts left
+    if (this.dueCallbacks.has(lead.id)) {
+      return true;
+    }
+
     // Check if lead has exceeded retry attempts
     if ((lead.call_attempts || 0) >= this.config.retryAttempts) {
       return false;
     }
 
-    // Check if enough time has passed since last call attempt
+    // Retries are scheduled by the lead lifecycle
+    if (lead.next_call_at) {
+      return new Date(lead.next_call_at).getTime() <= Date.now();
+    }
+
+    // Leads called before next_call_at was tracked fall back to the campaign retry delay
     if (lead.last_call_at) {
       const lastCallTime = new Date(lead.last_call_at).getTime();
       const retryDelayMs = this.config.retryDelayMinutes * 60 * 1000;
@@ -175,63 +419,169 @@ export class AutoDialerEngine {
       }
     }
 
-    // Check if current time is within calling hours
-    if (!this.isWithinCallingHours()) {
-      return false;
-    }
-
     return true;
   }
 
-  private isWithinCallingHours(): boolean {
-    const now = new Date();
-    const currentDay = now.getDay();
-    const currentTime = now.toTimeString().slice(0, 5); // HH:MM format
+  private shouldCallLead(lead: CampaignLead): boolean {
+    // Check if current time is within calling hours where the lead is; a callback is made at the
+    // time the lead asked for, the compliance gate still applies
+    return this.isEligible(lead)
+      && (this.dueCallbacks.has(lead.id) || this.isWithinCallingHours(this.getLeadTimezone(lead)));
+  }
 
-    // Check if today is a calling day
-    if (!this.config.daysOfWeek.includes(currentDay)) {
-      return false;
-    }
+  private getLeadTimezone(lead: CampaignLead): string {
+    return CallbackService.getLeadTimezone(lead, this.config.timezone);
+  }
+
+  private getCallingWindow(): CallingWindow {
+    return {
+      startTime: this.config.startTime,
+      endTime: this.config.endTime,
+      daysOfWeek: this.config.daysOfWeek
+    };
+  }
 
-    // Check if current time is within calling hours
-    if (currentTime < this.config.startTime || currentTime > this.config.endTime) {
+  private isWithinCallingHours(timezone: string = this.config.timezone): boolean {
+    if (!isValidTimezone(timezone)) {
       return false;
     }
-
-    return true;
+    return isWithinWindow(this.getCallingWindow(), timezone);
   }
 
   private startDialing(): void {
-    // Calculate interval based on dialing rate
-    const intervalMs = (60 / this.config.dialingRate) * 1000;
-
     this.dialingInterval = setInterval(async () => {
-      if (!this.isRunning || !this.isWithinCallingHours()) {
+      if (!this.isRunning || this.isDialing) {
         return;
       }
 
-      // Check if we can make more calls
-      if (this.activeCalls.size >= this.config.maxConcurrentCalls) {
-        return;
-      }
+      this.isDialing = true;
+      try {
+        const callsToPlace = Math.min(this.getPacingDecision().callsToPlace, this.getRateBudget(), this.getMinuteBudget());
 
-      // Get next lead to call
-      const lead = this.getNextLead();
-      if (!lead) {
-        console.log('No more leads to call');
-        return;
+        for (let i = 0; i < callsToPlace; i++) {
+          const lead = this.getNextLead();
+          if (!lead) {
+            console.log('No more leads to call');
+            break;
+          }
+
+          await this.initiateCall(lead);
+        }
+      } finally {
+        this.isDialing = false;
       }
+    }, PACING_TICK_MS);
+  }
+
+  private getPacingDecision(): PacingDecision {
+    const now = Date.now();
+    const calls = Array.from(this.activeCalls.values());
+    const connected = calls.filter(call => call.status === 'connected');
+
+    this.lastPacingDecision = DialerPacing.decide({
+      mode: this.config.pacingMode,
+      agentSlots: this.config.maxConcurrentCalls,
+      pendingCalls: calls.length - connected.length,
+      connectedCallAges: connected.map(call => (now - new Date(call.connectedAt || call.startedAt).getTime()) / 1000),
+      maxAbandonRate: this.config.maxAbandonRate,
+      recentAttempts: this.recentAttempts
+    });
+
+    return this.lastPacingDecision;
+  }
 
-      // Initiate call
-      await this.initiateCall(lead);
-    }, intervalMs);
+  // dialingRate is a ceiling on calls placed in any rolling minute
+  private getRateBudget(): number {
+    const windowStart = Date.now() - 60000;
+    this.recentDialTimes = this.recentDialTimes.filter(time => time > windowStart);
+    return Math.max(0, this.config.dialingRate - this.recentDialTimes.length);
+  }
+
+  // Calls the campaign's remaining minutes still cover, holding some back for the calls in flight
+  private getMinuteBudget(): number {
+    const remaining = CampaignBudgetService.getRemainingMinutes(this.budget);
+    if (remaining === undefined) {
+      return Infinity;
+    }
+    return Math.max(0, Math.floor(remaining / MINUTES_RESERVED_PER_CALL) - this.activeCalls.size);
+  }
+
+  // Throws when the campaign has no budget left to dial with
+  private async loadBudget(): Promise<void> {
+    const campaign = await DatabaseService.getCampaign(this.campaignId);
+    if (campaign) {
+      this.budget = campaign;
+    }
+    if (CampaignBudgetService.isExhausted(this.budget)) {
+      throw new Error('Campaign budget is used up; raise it to keep dialing');
+    }
+  }
+
+  // Preview mode: the user inspects the next lead and decides whether to dial it
+  getPreviewLead(): CampaignLead | null {
+    this.dialingQueue = this.dialingQueue.filter(lead => this.isEligible(lead));
+    return this.dialingQueue.find(lead => this.shouldCallLead(lead)) || null;
+  }
+
+  // Offers the next preview lead to the UI through the campaign row
+  async publishPreviewLead(): Promise<void> {
+    if (this.config.pacingMode !== 'preview') return;
+
+    const leadId = this.isRunning && this.dialingInterval ? this.getPreviewLead()?.id ?? null : null;
+    if (leadId === this.previewLeadId) return;
+
+    try {
+      await DatabaseService.updateCampaign(this.campaignId, { preview_lead_id: leadId });
+      this.previewLeadId = leadId;
+    } catch (error) {
+      console.error('Error publishing preview lead:', error);
+    }
+  }
+
+  async dialPreviewLead(leadId: string): Promise<boolean> {
+    // Paused campaigns keep their engine running but place no calls
+    if (!this.isRunning || !this.dialingInterval || this.config.pacingMode !== 'preview') {
+      return false;
+    }
+    if (this.activeCalls.size >= this.config.maxConcurrentCalls) {
+      return false;
+    }
+
+    const index = this.dialingQueue.findIndex(lead => lead.id === leadId);
+    if (index === -1 || !this.shouldCallLead(this.dialingQueue[index])) {
+      return false;
+    }
+
+    const [lead] = this.dialingQueue.splice(index, 1);
+    await this.initiateCall(lead);
+    return true;
+  }
+
+  // A skipped lead comes back after the campaign retry delay instead of on the next queue reload
+  async skipPreviewLead(leadId: string): Promise<void> {
+    const lead = this.dialingQueue.find(queued => queued.id === leadId);
+    this.dialingQueue = this.dialingQueue.filter(queued => queued.id !== leadId);
+    if (!lead) return;
+
+    try {
+      await DatabaseService.updateCampaignLead(leadId, {
+        next_call_at: new Date(Date.now() + this.config.retryDelayMinutes * 60000).toISOString()
+      });
+    } catch (error) {
+      console.error('Error skipping preview lead:', error);
+    }
   }
 
   private getNextLead(): CampaignLead | null {
     // Remove leads that are no longer valid
-    this.dialingQueue = this.dialingQueue.filter(lead => this.shouldCallLead(lead));
+    this.dialingQueue = this.dialingQueue.filter(lead => this.isEligible(lead));
+
+    const index = this.dialingQueue.findIndex(lead => this.shouldCallLead(lead));
+    if (index === -1) {
+      return null;
+    }
     
-    return this.dialingQueue.shift() || null;
+    return this.dialingQueue.splice(index, 1)[0];
   }
 
   private async initiateCall(lead: CampaignLead): Promise<void> {
@@ -244,127 +594,443 @@ export class AutoDialerEngine {
         throw new Error('Campaign not found');
       }
 
-      // Create call record
-      const callId = `call_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-      const activeCall: ActiveCall = {
-        id: callId,
-        leadId: lead.id,
-        phoneNumber: lead.phone_number,
-        startedAt: new Date().toISOString(),
-        agentId: campaign.agent_id || '',
-        status: 'dialing'
-      };
+      // Every dial attempt goes through the compliance gate
+      const compliance = await ComplianceService.checkPreDial(
+        this.userId,
+        { ...lead, state: lead.custom_fields?.state },
+        this.getLeadTimezone(lead),
+        campaign.compliance_settings as CampaignComplianceSettings | undefined
+      );
+      if (!compliance.allowed) {
+        await this.handleComplianceBlock(lead, compliance);
+        return;
+      }
 
-      this.activeCalls.set(callId, activeCall);
+      const suppressed = await SuppressionService.checkLead(this.userId, lead);
+      if (suppressed) {
+        await this.handleSuppressed(lead, suppressed);
+        return;
+      }
 
-      // Update lead status
-      await DatabaseService.updateCampaignLead(lead.id, {
-        status: 'called',
-        call_attempts: (lead.call_attempts || 0) + 1,
-        last_call_at: activeCall.startedAt
-      });
+      const callerId = await CallerIdPool.pickCallerId(this.userId, campaign, lead);
+      const variant = CampaignVariantService.resolveVariant(campaign, lead);
+      const agentId = variant?.agent_id || campaign.agent_id;
+      // The agent version the call runs with, so outcomes can be compared across prompt changes
+      const agentVersionId = agentId ? (await DatabaseService.getAIAgent(agentId))?.active_version_id : undefined;
+      // Functions the voice runtime offers the agent; it queues their calls in agent_tool_calls for the worker
+      const tools = agentId ? await AgentToolService.getDeclarations(agentId) : [];
+      const callMetadata = agentVersionId || tools.length > 0
+        ? { ...(agentVersionId ? { agent_version_id: agentVersionId } : {}), ...(tools.length > 0 ? { tools } : {}) }
+        : undefined;
+
+      const startedAt = new Date().toISOString();
+      this.recentDialTimes.push(Date.now());
+
+      const attempt = {
+        ...LeadLifecycle.startAttempt(lead, new Date(startedAt)),
+        ...(variant && variant.id !== lead.variant_id ? { variant_id: variant.id } : {})
+      };
+      await DatabaseService.updateCampaignLead(lead.id, attempt);
+      this.dialedLeads.set(lead.id, { ...lead, ...attempt });
 
       // Create call log entry
-      await DatabaseService.createCallLog({
+      const callLog = await DatabaseService.createCallLog({
         profile_id: this.userId,
-        agent_id: campaign.agent_id,
-        phone_number_from: campaign.caller_id || '',
+        agent_id: agentId,
+        variant_id: variant?.id,
+        phone_number_from: callerId.phoneNumber,
         phone_number_to: lead.phone_number,
         direction: 'outbound',
         status: 'pending',
-        started_at: activeCall.startedAt,
+        started_at: startedAt,
         duration_seconds: 0,
         priority: lead.priority || 'normal',
         follow_up_required: false,
         campaign_id: this.campaignId,
-        lead_id: lead.id
+        lead_id: lead.id,
+        metadata: callMetadata
       });
 
-      // TODO: Integrate with Twilio to actually place the call
-      // For now, simulate call progression
-      this.simulateCallProgression(activeCall);
+      const activeCall: ActiveCall = {
+        id: callLog?.id || `call_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+        leadId: lead.id,
+        phoneNumber: lead.phone_number,
+        startedAt,
+        agentId: agentId || '',
+        status: 'dialing',
+        callerIdNumberId: callerId.numberId
+      };
+
+      this.activeCalls.set(activeCall.id, activeCall);
+      await this.trackAttempt(activeCall, lead);
+
+      const callback = this.dueCallbacks.get(lead.id);
+      if (callback) {
+        this.dueCallbacks.delete(lead.id);
+        await CallbackService.markDialed(callback, activeCall.id);
+      }
+
+      try {
+        const placed = await this.provider.placeCall({
+          to: lead.phone_number,
+          from: callerId.phoneNumber,
+          timeoutSeconds: this.config.callTimeoutSeconds,
+          machineDetection: this.config.machineDetection,
+          metadata: {
+            call_id: activeCall.id,
+            campaign_id: this.campaignId,
+            lead_id: lead.id,
+            ...(agentId ? { agent_id: agentId } : {}),
+            ...(agentVersionId ? { agent_version_id: agentVersionId } : {}),
+            ...(variant ? { variant_id: variant.id } : {})
+          }
+        });
+        activeCall.providerCallId = placed.providerCallId;
+        await DatabaseService.updateCallLog(activeCall.id, {
+          metadata: { ...callMetadata, provider: this.provider.name, provider_call_id: placed.providerCallId }
+        });
+        if (activeCall.queueEntryId) {
+          await DatabaseService.updateDialerQueueEntry(activeCall.queueEntryId, { metadata: this.queueMetadata(activeCall) });
+        }
+      } catch (error) {
+        console.error(`Error placing call via ${this.provider.name}:`, error);
+        await this.handleCallCompletion(activeCall, 'failed');
+      }
 
     } catch (error) {
       console.error('Error initiating call:', error);
-      
-      // Update lead status to failed
+
+      // Only a lead that was moved to 'dialing' has an attempt to resolve
+      await this.resolveLeadAttempt(lead.id, 'dialer_error');
+    }
+  }
+
+  // Durable record of the attempt, so another worker can adopt the call if this one stops
+  private async trackAttempt(call: ActiveCall, lead: CampaignLead): Promise<void> {
+    if (!this.workerId) return;
+
+    const entry = await DatabaseService.addToDialerQueue({
+      profile_id: this.userId,
+      campaign_id: this.campaignId,
+      lead_id: lead.id,
+      agent_id: call.agentId || undefined,
+      priority: lead.priority || 'normal',
+      status: 'dialing',
+      lease_owner: this.workerId,
+      lease_expires_at: new Date(Date.now() + DIALER_LEASE_SECONDS * 1000).toISOString(),
+      started_at: call.startedAt,
+      metadata: this.queueMetadata(call)
+    });
+    call.queueEntryId = entry?.id;
+  }
+
+  private queueMetadata(call: ActiveCall, outcome?: string): Record<string, string> {
+    const metadata: Record<string, string> = { call_log_id: call.id, provider: this.provider.name };
+    if (call.providerCallId) metadata.provider_call_id = call.providerCallId;
+    if (call.connectedAt) metadata.connected_at = call.connectedAt;
+    if (call.answeredBy) metadata.answered_by = call.answeredBy;
+    if (call.callerIdNumberId) metadata.caller_id_number_id = call.callerIdNumberId;
+    if (outcome) metadata.outcome = outcome;
+    return metadata;
+  }
+
+  // Records how the attempt ended and schedules the lead's next call, if any
+  private async resolveLeadAttempt(leadId: string, outcome: AttemptOutcome, callId?: string, dispositionCode?: string): Promise<void> {
+    const lead = this.dialedLeads.get(leadId);
+    if (!lead) return;
+    this.dialedLeads.delete(leadId);
+
+    try {
+      const dispositions = await DispositionService.getCatalog(this.userId);
+      const resolution = LeadLifecycle.resolveAttempt(lead, outcome, {
+        retry_attempts: this.config.retryAttempts,
+        retry_delay_minutes: this.config.retryDelayMinutes,
+        retry_policy: this.config.retryPolicy
+      }, new Date(), DispositionService.toRetryPolicy(dispositions));
+
+      // The lead may have asked for a callback during the call
+      const callback = (await DatabaseService.getScheduledCallbacks(leadId))
+        .find(scheduled => new Date(scheduled.scheduled_at).getTime() > Date.now());
+      const updates = callback ? CallbackService.keepOpenForCallback(resolution.updates, callback) : resolution.updates;
+
+      // The agent's disposition decides how the lead ends, applied from the attempt's outcome status
+      const disposition = DispositionService.find(dispositions, dispositionCode);
+      if (disposition && callId) {
+        await DispositionService.applyToLead(this.userId, { ...lead, status: resolution.path[0] }, disposition, callId, updates);
+        return;
+      }
+      await DatabaseService.updateCampaignLead(leadId, updates);
+    } catch (error) {
+      console.error('Error resolving lead attempt:', error);
+    }
+  }
+
+  private async handleComplianceBlock(lead: CampaignLead, result: ComplianceDecision): Promise<void> {
+    const failed = result.decidedBy!;
+    console.log(`Compliance gate held ${lead.phone_number}:\n${ComplianceService.formatTrace(result.trace)}`);
+
+    if (!result.blocked && result.retryAt) {
+      // Temporary block (calling hours, frequency); the lead goes back in the queue until retryAt
+      const deferred = { ...lead, next_call_at: result.retryAt };
+      this.dialingQueue.push(deferred);
+      try {
+        await DatabaseService.updateCampaignLead(lead.id, { next_call_at: result.retryAt });
+      } catch (error) {
+        console.error('Error deferring lead:', error);
+      }
+      return;
+    }
+
+    await ComplianceService.logViolation({
+      profile_id: this.userId,
+      violation_type: failed.violationType || 'dnc_violation',
+      severity: failed.severity || 'high',
+      description: `Dial blocked before connecting: ${failed.reason}`,
+      phone_number: lead.phone_number,
+      campaign_id: this.campaignId,
+      rule_id: failed.rule.id,
+      auto_resolved: true,
+      resolved_at: new Date().toISOString(),
+      resolution_notes: `Call prevented by the auto-dialer compliance gate\n${ComplianceService.formatTrace(result.trace)}`
+    });
+
+    // Closed leads are never reloaded into the queue, so the lead is not retried
+    const status = failed.violationType === 'dnc_violation' ? 'dnc' : 'completed';
+    await DatabaseService.updateCampaignLead(lead.id, {
+      ...LeadLifecycle.close(lead, status, 'compliance_blocked'),
+      notes: [lead.notes, `Compliance: ${failed.reason}`].filter(Boolean).join('\n')
+    });
+  }
+
+  // Suppressed people are not called from any campaign; the lead is closed rather than retried
+  private async handleSuppressed(lead: CampaignLead, match: SuppressionMatch): Promise<void> {
+    console.log(`Suppressed ${lead.phone_number}: ${match.reason}`);
+    try {
       await DatabaseService.updateCampaignLead(lead.id, {
-        status: 'failed',
-        outcome: 'dialer_error'
+        ...LeadLifecycle.close(lead, 'completed', 'suppressed'),
+        notes: [lead.notes, `Suppressed: ${match.reason}`].filter(Boolean).join('\n')
       });
+    } catch (error) {
+      console.error('Error closing suppressed lead:', error);
     }
   }
 
-  private simulateCallProgression(call: ActiveCall): void {
-    // Simulate call states for demo purposes
-    // In production, this would be handled by Twilio webhooks
-    
-    setTimeout(() => {
+  // Pulls new matches of the campaign's segment into it, at most every SEGMENT_SYNC_INTERVAL_MS
+  private async syncSegment(): Promise<void> {
+    try {
+      const campaign = await DatabaseService.getCampaign(this.campaignId);
+      if (!campaign?.segment_id) return;
+      if (campaign.segment_synced_at && Date.now() - new Date(campaign.segment_synced_at).getTime() < SEGMENT_SYNC_INTERVAL_MS) {
+        return;
+      }
+
+      const segment = await DatabaseService.getLeadSegment(campaign.segment_id);
+      if (!segment) return;
+
+      const result = await LeadSegmentService.feedCampaign(campaign, segment);
+      if (result.inserted > 0) {
+        console.log(`Segment ${segment.name} added ${result.inserted} leads to campaign ${this.campaignId}`);
+      }
+    } catch (error) {
+      console.error('Error syncing campaign segment:', error);
+    }
+  }
+
+  private handleProviderEvent(event: TelephonyCallEvent): void {
+    const call = Array.from(this.activeCalls.values())
+      .find(activeCall => activeCall.providerCallId === event.providerCallId);
+    if (!call) return;
+
+    if (isTerminalStatus(event.status)) {
+      const outcomes: Record<string, AttemptOutcome> = {
+        completed: 'answered',
+        busy: 'busy',
+        no_answer: 'no_answer',
+        failed: 'failed',
+        canceled: 'cancelled'
+      };
+      // 'completed' is also reported when we hang up, so only count it as answered if it connected
+      const answered = call.status === 'connected' || (event.durationSeconds ?? 0) > 0;
+      const outcome = call.abandoned
+        ? 'abandoned'
+        : call.amdOutcome && answered ? call.amdOutcome
+        : event.status === 'completed' && !answered ? 'cancelled' : outcomes[event.status];
+      this.handleCallCompletion(call, outcome, event.durationSeconds);
+      return;
+    }
+
+    if (event.answeredBy) {
+      this.handleAnsweredBy(call, event.answeredBy, event.timestamp);
+      return;
+    }
+
+    if (event.status === 'ringing') {
       call.status = 'ringing';
-      this.activeCalls.set(call.id, call);
-    }, 2000);
+    } else if (event.status === 'in_progress') {
+      call.status = 'connected';
+      call.connectedAt = event.timestamp;
+
+      // Predictive overdial answered more calls than there are agents to take them
+      const connected = Array.from(this.activeCalls.values()).filter(active => active.status === 'connected');
+      if (connected.length > this.config.maxConcurrentCalls) {
+        console.log(`No agent free for ${call.phoneNumber}, abandoning call`);
+        call.abandoned = true;
+        this.hangup(call);
+        return;
+      }
 
-    setTimeout(() => {
-      // Randomly determine call outcome
-      const outcomes = ['answered', 'no_answer', 'busy', 'failed'];
-      const outcome = outcomes[Math.floor(Math.random() * outcomes.length)];
-      
-      this.handleCallCompletion(call, outcome);
-    }, 10000 + Math.random() * 20000); // 10-30 seconds
+      DatabaseService.updateCallLog(call.id, { status: 'in_progress' }).catch(error => {
+        console.error('Error updating call log status:', error);
+      });
+      if (call.queueEntryId) {
+        DatabaseService.updateDialerQueueEntry(call.queueEntryId, { metadata: this.queueMetadata(call) }).catch(error => {
+          console.error('Error updating dialer queue entry:', error);
+        });
+      }
+    }
+  }
+
+  // Acts on the answering-machine detection result per the campaign's policy
+  private async handleAnsweredBy(call: ActiveCall, answeredBy: AnsweredBy, timestamp: string): Promise<void> {
+    if (call.answeredBy) return;
+    call.answeredBy = answeredBy;
+    if (call.status !== 'connected') {
+      call.status = 'connected';
+      call.connectedAt = timestamp;
+    }
+
+    DatabaseService.updateCallLog(call.id, { answered_by: answeredBy }).catch(error => {
+      console.error('Error recording answering machine result:', error);
+    });
+
+    const action: AmdAction = answeredBy === 'human' ? 'agent'
+      : answeredBy === 'fax' ? 'hangup'
+      : answeredBy === 'machine' ? this.config.machineAction
+      : this.config.unknownAction;
+    if (action === 'agent') return;
+
+    if (action === 'voicemail' && call.providerCallId) {
+      const message = mergeLeadFields(this.config.voicemailMessage || '', this.dialedLeads.get(call.leadId));
+      if (message) {
+        try {
+          call.amdOutcome = 'voicemail';
+          await this.provider.dropVoicemail(call.providerCallId, message);
+          console.log(`Leaving voicemail for ${call.phoneNumber}`);
+          return;
+        } catch (error) {
+          console.error(`Error leaving voicemail via ${this.provider.name}:`, error);
+        }
+      }
+    }
+
+    call.amdOutcome = answeredBy === 'fax' ? 'fax' : 'machine';
+    await this.hangup(call);
   }
 
-  private async handleCallCompletion(call: ActiveCall, outcome: string): Promise<void> {
+  private async handleCallCompletion(call: ActiveCall, outcome: AttemptOutcome, talkSeconds?: number): Promise<void> {
+    // Provider events and the timeout watchdog can both end a call; only handle it once
+    if (!this.activeCalls.delete(call.id)) {
+      return;
+    }
+
+    this.recordAttempt(call, outcome);
+
     try {
       const endTime = new Date().toISOString();
-      const durationSeconds = Math.floor(
+      const durationSeconds = talkSeconds ?? Math.floor(
         (new Date(endTime).getTime() - new Date(call.startedAt).getTime()) / 1000
       );
 
       // Update call log
+      const callStatus = outcome === 'answered' || outcome === 'voicemail' || outcome === 'machine' ? 'completed'
+        : outcome === 'abandoned' ? 'abandoned' : 'failed';
+      // An agent may have dispositioned the call while it was live
+      const disposition: string | undefined = (await DatabaseService.getCallLog(call.id))?.metadata?.disposition;
       await DatabaseService.updateCallLog(call.id, {
-        status: outcome === 'answered' ? 'completed' : 'failed',
+        status: callStatus,
         ended_at: endTime,
         duration_seconds: durationSeconds,
-        outcome: outcome
+        outcome: disposition || outcome
       });
 
-      // Update lead status
-      const leadStatus = outcome === 'answered' ? 'completed' : 'failed';
-      await DatabaseService.updateCampaignLead(call.leadId, {
-        status: leadStatus,
-        outcome: outcome
-      });
+      await this.resolveLeadAttempt(call.leadId, outcome, call.id, disposition);
 
-      // Update campaign statistics
-      await this.updateCampaignStats(outcome);
+      // Answer rates per caller ID only count calls that actually rang
+      if (call.callerIdNumberId && !['cancelled', 'failed', 'dialer_error'].includes(outcome)) {
+        await CallerIdPool.recordOutcome(call.callerIdNumberId, outcome === 'answered' || outcome === 'abandoned' || call.answeredBy === 'human');
+      }
+
+      if (call.queueEntryId) {
+        const queueStatus = outcome === 'cancelled' ? 'cancelled'
+          : outcome === 'failed' || outcome === 'dialer_error' ? 'failed'
+          : 'completed';
+        await DatabaseService.updateDialerQueueStatus(call.queueEntryId, queueStatus, this.queueMetadata(call, outcome));
+      }
 
-      // Remove from active calls
-      this.activeCalls.delete(call.id);
+      // Update campaign statistics
+      await this.updateCampaignStats(outcome, CampaignBudgetService.billedMinutes(durationSeconds, outcome));
 
       console.log(`Call completed: ${call.phoneNumber} - ${outcome}`);
     } catch (error) {
       console.error('Error handling call completion:', error);
+    } finally {
+      this.detachProviderIfIdle();
     }
   }
 
-  private async updateCampaignStats(outcome: string): Promise<void> {
-    try {
-      const campaign = await DatabaseService.getCampaign(this.campaignId);
-      if (!campaign) return;
+  // Feeds the pacing model; cancelled calls say nothing about answer rates
+  private recordAttempt(call: ActiveCall, outcome: string): void {
+    if (outcome === 'cancelled') return;
 
-      const updates: any = {
-        leads_called: (campaign.leads_called || 0) + 1
-      };
+    const now = Date.now();
+    const startedAt = new Date(call.startedAt).getTime();
+    const connectedAt = call.connectedAt ? new Date(call.connectedAt).getTime() : undefined;
 
-      if (outcome === 'answered') {
-        updates.leads_answered = (campaign.leads_answered || 0) + 1;
-      }
+    // Machines we dealt with ourselves never needed an agent
+    const reachedAgent = !!connectedAt && !call.amdOutcome;
 
-      if (outcome === 'answered' || outcome === 'completed') {
-        updates.leads_completed = (campaign.leads_completed || 0) + 1;
-      }
+    this.recentAttempts.push({
+      answered: reachedAgent,
+      abandoned: !!call.abandoned,
+      ringSeconds: ((connectedAt ?? now) - startedAt) / 1000,
+      handleSeconds: reachedAgent ? (now - connectedAt!) / 1000 : 0,
+      completedAt: now
+    });
+
+    if (this.recentAttempts.length > DialerPacing.SAMPLE_WINDOW) {
+      this.recentAttempts.splice(0, this.recentAttempts.length - DialerPacing.SAMPLE_WINDOW);
+    }
+  }
+
+  // Once stopped, keep listening only until the last in-flight call reports back
+  private detachProviderIfIdle(): void {
+    if (!this.isRunning && this.activeCalls.size === 0 && this.unsubscribeProvider) {
+      this.unsubscribeProvider();
+      this.unsubscribeProvider = undefined;
+    }
+  }
+
+  private async updateCampaignStats(outcome: string, billedMinutes: number): Promise<void> {
+    try {
+      // Counted by disposition category, so relabelled or custom codes land in the same buckets
+      const dispositions = await DispositionService.getCatalog(this.userId);
+      const answered = DispositionService.isContact(dispositions, outcome);
+
+      // Calls finish side by side, so the counters are added to in the database rather than rewritten
+      const campaign = await DatabaseService.incrementCampaignStats(this.campaignId, {
+        leads_called: 1,
+        leads_answered: answered ? 1 : 0,
+        leads_completed: answered && DispositionService.find(dispositions, outcome)?.is_final ? 1 : 0,
+        minutes_used: billedMinutes
+      });
+      if (!campaign) return;
 
-      await DatabaseService.updateCampaign(this.campaignId, updates);
+      this.budget = campaign;
+      if (this.dialingInterval && CampaignBudgetService.isExhausted(this.budget)) {
+        console.log(`Campaign ${this.campaignId} used up its budget`);
+        await this.pause();
+        await DatabaseService.updateCampaign(this.campaignId, { budget_exhausted_at: new Date().toISOString() });
+      }
     } catch (error) {
       console.error('Error updating campaign stats:', error);
     }
@@ -379,44 +1045,80 @@ export class AutoDialerEngine {
       for (const [, call] of this.activeCalls.entries()) {
         const callAge = now - new Date(call.startedAt).getTime();
         
-        if (callAge > timeoutMs) {
+        // The timeout covers ringing; connected calls end when the provider says so
+        if (call.status !== 'connected' && callAge > timeoutMs) {
           console.log(`Call timeout: ${call.phoneNumber}`);
+          // Recorded before hanging up, so the cancel the hangup reports is ignored and the
+          // lead is retried on the timeout schedule
           await this.handleCallCompletion(call, 'timeout');
+          await this.hangup(call);
+        } else if (call.status === 'connected' && callAge > CONNECTED_CALL_MAX_MINUTES * 60000) {
+          // Its end was reported while no worker was listening, or never reached us
+          console.log(`Closing call to ${call.phoneNumber} after ${CONNECTED_CALL_MAX_MINUTES} minutes connected`);
+          await this.handleCallCompletion(call, 'answered');
+          await this.hangup(call);
         }
       }
 
       // Check if we should reload the queue
-      if (this.dialingQueue.length < 10) {
+      if (!this.isRunning) {
+        this.detachProviderIfIdle();
+      } else if (this.dialingQueue.length < 10) {
         await this.loadDialingQueue();
+      } else {
+        await this.loadDueCallbacks();
+        this.reorderQueue();
       }
+      await this.publishPreviewLead();
     }, 30000); // Check every 30 seconds
   }
 
+  // Under a dialer worker, status changes arrive as dialer commands, which only the lease holder
+  // carries out; an engine that lost its lease must not react to the campaign row
   private subscribeToUpdates(): void {
-    // Subscribe to campaign updates
-    RealtimeService.subscribeToCampaignUpdates(
-      this.userId,
-      async (campaign) => {
-        if (campaign.id === this.campaignId) {
-          if (campaign.status === 'paused' && this.isRunning) {
-            await this.pause();
-          } else if (campaign.status === 'active' && !this.isRunning) {
-            await this.resume();
-          }
+    if (this.workerId || this.campaignSubscription) return;
+
+    this.campaignSubscription = RealtimeService.subscribeToCampaign(this.campaignId, async (campaign) => {
+      try {
+        if (campaign.status === 'paused' && this.isRunning) {
+          await this.pause();
+        } else if (campaign.status === 'active' && !this.isRunning) {
+          await this.resume();
         }
-      },
-      () => {}, // onInsert
-      () => {}  // onDelete
-    );
+      } catch (error) {
+        // e.g. resumed with no budget left
+        console.error(`Error applying status ${campaign.status} to campaign ${this.campaignId}:`, error);
+      }
+    });
+  }
+
+  private unsubscribeFromUpdates(): void {
+    if (this.campaignSubscription) {
+      RealtimeService.unsubscribe(this.campaignSubscription);
+      this.campaignSubscription = undefined;
+    }
   }
 
   private async hangupActiveCalls(): Promise<void> {
-    const hangupPromises = Array.from(this.activeCalls.values()).map(call =>
-      this.handleCallCompletion(call, 'cancelled')
-    );
+    // Completion is recorded when the provider reports the hangup
+    const hangupPromises = Array.from(this.activeCalls.values()).map(call => this.hangup(call));
     
     await Promise.all(hangupPromises);
-    this.activeCalls.clear();
+    this.detachProviderIfIdle();
+  }
+
+  private async hangup(call: ActiveCall): Promise<void> {
+    if (!call.providerCallId) {
+      await this.handleCallCompletion(call, 'cancelled');
+      return;
+    }
+
+    try {
+      await this.provider.hangup(call.providerCallId);
+    } catch (error) {
+      console.error(`Error hanging up call ${call.providerCallId}:`, error);
+      await this.handleCallCompletion(call, 'cancelled');
+    }
   }
 
   // Public getters for monitoring
@@ -427,7 +1129,11 @@ export class AutoDialerEngine {
       queuedLeads: this.dialingQueue.length,
       maxConcurrentCalls: this.config.maxConcurrentCalls,
       dialingRate: this.config.dialingRate,
-      withinCallingHours: this.isWithinCallingHours()
+      pacingMode: this.config.pacingMode,
+      pacing: this.lastPacingDecision,
+      provider: this.provider.name,
+      withinCallingHours: this.isWithinCallingHours(),
+      leadsInCallingWindow: this.dialingQueue.filter(lead => this.shouldCallLead(lead)).length
     };
   }
 
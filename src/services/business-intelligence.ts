@@ -1,4 +1,6 @@
 import { supabase } from '../lib/supabase';
+import { DispositionService } from './dispositions';
+import type { DispositionCategory } from './dispositions';
 
 export interface AnalyticsMetric {
   id: string
@@ -78,6 +80,18 @@ export interface BenchmarkData {
   percentile: number
 }
 
+export interface AnsweringMachineAnalytics {
+  detectedCalls: number
+  human: number
+  machine: number
+  fax: number
+  unknown: number
+  voicemailsLeft: number
+  humanRate: number
+  machineRate: number
+  campaignBreakdown: Array<{ campaign_id: string; detected: number; human: number; machine: number; machine_rate: number }>
+}
+
 export class BusinessIntelligenceService {
   // Core Analytics Methods
   static async getCallAnalytics(profileId: string, timeRange: { start: string; end: string }): Promise<{
@@ -86,7 +100,7 @@ export class BusinessIntelligenceService {
     averageDuration: number
     conversionRate: number
     hourlyDistribution: Array<{ hour: number; calls: number }>
-    outcomeBreakdown: Array<{ outcome: string; count: number; percentage: number }>
+    outcomeBreakdown: Array<{ outcome: string; label: string; category?: DispositionCategory; count: number; percentage: number }>
   }> {
     try {
       const { data: callLogs, error } = await supabase
@@ -101,15 +115,16 @@ export class BusinessIntelligenceService {
         return this.getEmptyCallAnalytics();
       }
 
+      const dispositions = await DispositionService.getCatalog(profileId);
       const totalCalls = callLogs?.length || 0;
       const successfulCalls = callLogs?.filter(call => 
-        call.outcome === 'completed' || call.outcome === 'converted'
+        DispositionService.isContact(dispositions, call.outcome)
       ).length || 0;
 
       const totalDuration = callLogs?.reduce((sum, call) => sum + (call.duration_seconds || 0), 0) || 0;
       const averageDuration = totalCalls > 0 ? Math.round(totalDuration / totalCalls) : 0;
 
-      const conversions = callLogs?.filter(call => call.outcome === 'converted').length || 0;
+      const conversions = callLogs?.filter(call => DispositionService.getCategory(dispositions, call.outcome) === 'success').length || 0;
       const conversionRate = totalCalls > 0 ? Math.round((conversions / totalCalls) * 100) : 0;
 
       // Hourly distribution
@@ -128,10 +143,12 @@ export class BusinessIntelligenceService {
         outcomeMap.set(outcome, (outcomeMap.get(outcome) || 0) + 1);
       });
 
-      const outcomeBreakdown = Array.from(outcomeMap.entries()).map(([outcome, count]) => ({
-        outcome,
-        count,
-        percentage: totalCalls > 0 ? Math.round((count / totalCalls) * 100) : 0
+      const outcomeBreakdown = DispositionService.labelOutcomes(
+        dispositions,
+        Array.from(outcomeMap.entries()).map(([outcome, count]) => ({ outcome, count }))
+      ).map(entry => ({
+        ...entry,
+        percentage: totalCalls > 0 ? Math.round((entry.count / totalCalls) * 100) : 0
       }));
 
       return {
@@ -148,6 +165,71 @@ export class BusinessIntelligenceService {
     }
   }
 
+  // Who picked up outbound calls that ran answering-machine detection
+  static async getAnsweringMachineAnalytics(profileId: string, timeRange: { start: string; end: string }, campaignId?: string): Promise<AnsweringMachineAnalytics> {
+    const empty: AnsweringMachineAnalytics = {
+      detectedCalls: 0, human: 0, machine: 0, fax: 0, unknown: 0, voicemailsLeft: 0, humanRate: 0, machineRate: 0,
+      campaignBreakdown: []
+    };
+
+    try {
+      let query = supabase
+        .from('call_logs')
+        .select('campaign_id, answered_by, outcome')
+        .eq('profile_id', profileId)
+        .eq('direction', 'outbound')
+        .not('answered_by', 'is', null)
+        .gte('created_at', timeRange.start)
+        .lte('created_at', timeRange.end);
+
+      if (campaignId) {
+        query = query.eq('campaign_id', campaignId);
+      }
+
+      const { data: callLogs, error } = await query;
+      if (error) {
+        console.error('Error fetching answering machine analytics:', error);
+        return empty;
+      }
+
+      const calls = callLogs || [];
+      const count = (answeredBy: string) => calls.filter(call => call.answered_by === answeredBy).length;
+      const rate = (part: number, total: number) => total > 0 ? Math.round((part / total) * 100) : 0;
+      const detectedCalls = calls.length;
+      const human = count('human');
+      const machine = count('machine');
+
+      const campaignMap = new Map<string, { detected: number; human: number; machine: number }>();
+      calls.forEach(call => {
+        if (!call.campaign_id) return;
+        const entry = campaignMap.get(call.campaign_id) || { detected: 0, human: 0, machine: 0 };
+        entry.detected++;
+        if (call.answered_by === 'human') entry.human++;
+        if (call.answered_by === 'machine') entry.machine++;
+        campaignMap.set(call.campaign_id, entry);
+      });
+
+      return {
+        detectedCalls,
+        human,
+        machine,
+        fax: count('fax'),
+        unknown: count('unknown'),
+        voicemailsLeft: calls.filter(call => call.outcome === 'voicemail').length,
+        humanRate: rate(human, detectedCalls),
+        machineRate: rate(machine, detectedCalls),
+        campaignBreakdown: Array.from(campaignMap.entries()).map(([id, entry]) => ({
+          campaign_id: id,
+          ...entry,
+          machine_rate: rate(entry.machine, entry.detected)
+        }))
+      };
+    } catch (error) {
+      console.error('Error calculating answering machine analytics:', error);
+      return empty;
+    }
+  }
+
   private static getEmptyCallAnalytics() {
     return {
       totalCalls: 0,
@@ -284,12 +366,13 @@ export class BusinessIntelligenceService {
       const averageCallsPerAgent = activeAgents > 0 ? Math.round(totalCalls / activeAgents) : 0;
 
       // Calculate agent metrics
+      const dispositions = await DispositionService.getCatalog(profileId);
       const agentMetrics = agents?.map(agent => {
         const agentCalls = callLogs?.filter(call => call.agent_id === agent.id) || [];
         const successfulCalls = agentCalls.filter(call => 
-          call.outcome === 'completed' || call.outcome === 'converted'
+          DispositionService.isContact(dispositions, call.outcome)
         ).length;
-        const conversions = agentCalls.filter(call => call.outcome === 'converted').length;
+        const conversions = agentCalls.filter(call => DispositionService.getCategory(dispositions, call.outcome) === 'success').length;
         const totalDuration = agentCalls.reduce((sum, call) => sum + (call.duration_seconds || 0), 0);
         const averageDuration = agentCalls.length > 0 ? Math.round(totalDuration / agentCalls.length) : 0;
         const conversionRate = agentCalls.length > 0 ? Math.round((conversions / agentCalls.length) * 100) : 0;
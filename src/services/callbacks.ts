@@ -0,0 +1,249 @@
+import { DatabaseService } from './database';
+import { LeadLifecycle } from './lead-lifecycle';
+import { fromLocalDateTime, isValidTimezone } from './calling-windows';
+import { getTimezoneForPhoneNumber } from '../lib/areaCodes';
+import type { Campaign, CampaignLead, LeadCallback } from '../lib/supabase';
+
+// A callback not dialed this long after its time is reported as missed and loses its priority
+export const CALLBACK_MISSED_AFTER_MINUTES = 60;
+
+// Declaration of the function voice agents call when a contact asks to be called back
+export const SCHEDULE_CALLBACK_FUNCTION = {
+  name: 'schedule_callback',
+  description: 'Schedule a call back when the person asks to be called at another time, e.g. "call me back Thursday at 3". Convert the requested day to a calendar date and the time to 24-hour format, both in the person\'s local time.',
+  parameters: {
+    type: 'object',
+    properties: {
+      date: { type: 'string', description: 'Local date of the callback, YYYY-MM-DD' },
+      time: { type: 'string', description: 'Local time of the callback, HH:MM (24-hour)' },
+      notes: { type: 'string', description: 'Anything the person said about the callback' }
+    },
+    required: ['date', 'time']
+  }
+};
+
+export interface ScheduleCallbackRequest {
+  lead: CampaignLead
+  campaign: Pick<Campaign, 'id' | 'profile_id' | 'timezone'>
+  date: string // YYYY-MM-DD, local to `timezone`
+  time: string // HH:MM, local to `timezone`
+  timezone?: string // defaults to the lead's timezone
+  notes?: string
+  requestedBy: LeadCallback['requested_by']
+  callId?: string
+}
+
+// What a callback looks like to someone reading the list right now
+export type CallbackDisplayStatus = 'upcoming' | 'due' | 'missed' | 'dialed' | 'cancelled'
+
+/**
+ * Callbacks a lead asked for, scheduled by the voice agent (schedule_callback function) or by a user.
+ * The time is agreed in the lead's timezone and stored as an instant. Scheduling reopens the lead
+ * with next_call_at at that time; the dialer then calls it ahead of fresh leads, outside the
+ * campaign's calling window if need be, but never past the compliance gate. A missed callback
+ * closes a lead that has no attempts left.
+ */
+export class CallbackService {
+  // Lead's own timezone, else inferred from the area code, else the campaign's
+  static getLeadTimezone(lead: Pick<CampaignLead, 'timezone' | 'phone_number'>, fallback?: string): string {
+    if (isValidTimezone(lead.timezone)) {
+      return lead.timezone;
+    }
+
+    const inferred = getTimezoneForPhoneNumber(lead.phone_number);
+    if (inferred) {
+      return inferred;
+    }
+
+    return isValidTimezone(fallback) ? fallback : 'UTC';
+  }
+
+  // e.g. "Thu, Oct 22, 3:00 PM CDT"
+  static formatLocalTime(instant: string, timezone: string): string {
+    return new Date(instant).toLocaleString('en-US', {
+      timeZone: timezone,
+      weekday: 'short',
+      month: 'short',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: '2-digit',
+      timeZoneName: 'short'
+    });
+  }
+
+  static getDisplayStatus(callback: LeadCallback, now: Date = new Date()): CallbackDisplayStatus {
+    if (callback.status !== 'scheduled') return callback.status;
+    const overdueMinutes = (now.getTime() - new Date(callback.scheduled_at).getTime()) / 60000;
+    if (overdueMinutes > CALLBACK_MISSED_AFTER_MINUTES) return 'missed';
+    return overdueMinutes >= 0 ? 'due' : 'upcoming';
+  }
+
+  // Replaces any callback already scheduled for the lead; throws for do-not-call leads and past times
+  static async scheduleCallback(request: ScheduleCallbackRequest): Promise<LeadCallback> {
+    const { lead, campaign } = request;
+    if (lead.do_not_call || lead.status === 'dnc') {
+      throw new Error('This lead is on the do-not-call list');
+    }
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(request.date) || !/^\d{1,2}:\d{2}$/.test(request.time)) {
+      throw new Error('Callback date must be YYYY-MM-DD and time HH:MM');
+    }
+
+    const timezone = isValidTimezone(request.timezone) ? request.timezone : this.getLeadTimezone(lead, campaign.timezone);
+    const scheduledAt = fromLocalDateTime(request.date, request.time, timezone);
+    if (Number.isNaN(scheduledAt.getTime())) {
+      throw new Error('Callback date or time is not valid');
+    }
+    if (scheduledAt.getTime() <= Date.now()) {
+      throw new Error('Callback time is in the past');
+    }
+
+    for (const existing of await DatabaseService.getScheduledCallbacks(lead.id)) {
+      await DatabaseService.updateLeadCallback(existing.id, { status: 'cancelled' });
+    }
+
+    const callback = await DatabaseService.createLeadCallback({
+      profile_id: campaign.profile_id,
+      campaign_id: campaign.id,
+      lead_id: lead.id,
+      scheduled_at: scheduledAt.toISOString(),
+      timezone,
+      status: 'scheduled',
+      requested_by: request.requestedBy,
+      requested_call_id: request.callId,
+      notes: request.notes?.trim() || undefined
+    });
+
+    // A lead in a call right now is updated when the dialer resolves the attempt (see keepOpenForCallback)
+    if (lead.status !== 'dialing' && lead.status !== 'called') {
+      await DatabaseService.updateCampaignLead(lead.id, {
+        ...(LeadLifecycle.isClosed(lead.status) ? LeadLifecycle.reopen(lead) : {}),
+        ...this.callbackTiming(callback)
+      });
+    }
+    return callback;
+  }
+
+  private static callbackTiming(callback: LeadCallback): Partial<CampaignLead> {
+    return {
+      next_call_at: callback.scheduled_at,
+      preferred_call_time: this.formatLocalTime(callback.scheduled_at, callback.timezone)
+    };
+  }
+
+  // Holds the lead open until the callback, whatever its last attempt resolved to (except do-not-call)
+  static keepOpenForCallback(updates: Partial<CampaignLead>, callback: LeadCallback): Partial<CampaignLead> {
+    if (updates.status === 'dnc' || updates.do_not_call) {
+      return updates;
+    }
+    return { ...updates, status: 'retry', ...this.callbackTiming(callback) };
+  }
+
+  // The lead keeps its next call time; a disposition closes it if it should not be called at all
+  static async cancelCallback(callback: LeadCallback): Promise<void> {
+    await DatabaseService.updateLeadCallback(callback.id, { status: 'cancelled' });
+  }
+
+  static async markDialed(callback: LeadCallback, callId: string): Promise<void> {
+    try {
+      await DatabaseService.updateLeadCallback(callback.id, {
+        status: 'dialed',
+        dialed_call_id: callId,
+        dialed_at: new Date().toISOString()
+      });
+    } catch (error) {
+      console.error('Error marking callback dialed:', error);
+    }
+  }
+
+  // Due callbacks of a campaign, marking those past CALLBACK_MISSED_AFTER_MINUTES as missed
+  static async getDueCallbacks(
+    profileId: string,
+    campaign: Pick<Campaign, 'id' | 'retry_attempts'>,
+    now: Date = new Date()
+  ): Promise<LeadCallback[]> {
+    const callbacks = await DatabaseService.getLeadCallbacks(profileId, {
+      campaignId: campaign.id,
+      status: ['scheduled'],
+      dueBefore: now.toISOString()
+    });
+
+    const due: LeadCallback[] = [];
+    for (const callback of callbacks) {
+      if (this.getDisplayStatus(callback, now) === 'missed') {
+        try {
+          await DatabaseService.updateLeadCallback(callback.id, { status: 'missed' });
+          await this.closeMissedLead(callback, campaign);
+        } catch (error) {
+          console.error('Error marking callback missed:', error);
+        }
+      } else {
+        due.push(callback);
+      }
+    }
+    return due;
+  }
+
+  // Only the callback kept the lead open past its last attempt; without it the dialer would never
+  // pick the lead again and the campaign could not complete
+  private static async closeMissedLead(callback: LeadCallback, campaign: Pick<Campaign, 'retry_attempts'>): Promise<void> {
+    const lead = await DatabaseService.getCampaignLead(callback.lead_id);
+    if (!lead || lead.status !== 'retry' || (lead.call_attempts || 0) < campaign.retry_attempts) {
+      return;
+    }
+    await DatabaseService.updateCampaignLead(lead.id, LeadLifecycle.close(lead, 'completed', lead.outcome || 'callback_requested'));
+  }
+
+  // Runs the agent's schedule_callback function for the call it was made in; never throws, the
+  // result is spoken back to the agent
+  static async handleFunctionCall(
+    callId: string,
+    args: { date?: string; time?: string; notes?: string }
+  ): Promise<{ success: boolean; message: string; scheduled_for?: string }> {
+    const startedAt = Date.now();
+    let result: { success: boolean; message: string; scheduled_for?: string };
+    let profileId: string | undefined;
+
+    try {
+      const call = await DatabaseService.getCallLog(callId);
+      profileId = call?.profile_id;
+      if (!call?.lead_id || !call.campaign_id) {
+        throw new Error('Callbacks can only be scheduled on campaign calls');
+      }
+
+      const [lead, campaign] = await Promise.all([
+        DatabaseService.getCampaignLead(call.lead_id),
+        DatabaseService.getCampaign(call.campaign_id)
+      ]);
+      if (!lead || !campaign) {
+        throw new Error('Lead or campaign not found');
+      }
+
+      const callback = await this.scheduleCallback({
+        lead,
+        campaign,
+        date: args.date || '',
+        time: args.time || '',
+        notes: args.notes,
+        requestedBy: 'agent',
+        callId
+      });
+      const scheduledFor = this.formatLocalTime(callback.scheduled_at, callback.timezone);
+      result = { success: true, message: `Callback scheduled for ${scheduledFor}`, scheduled_for: callback.scheduled_at };
+    } catch (error) {
+      console.error('Error scheduling callback:', error);
+      result = { success: false, message: error instanceof Error ? error.message : 'Callback could not be scheduled' };
+    }
+
+    await DatabaseService.logFunctionCall({
+      profile_id: profileId,
+      call_id: callId,
+      function_name: SCHEDULE_CALLBACK_FUNCTION.name,
+      parameters: args,
+      result,
+      execution_time_ms: Date.now() - startedAt,
+      success: result.success,
+      error_message: result.success ? undefined : result.message
+    });
+    return result;
+  }
+}
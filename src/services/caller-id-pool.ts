@@ -0,0 +1,184 @@
+import { DatabaseService } from './database';
+import { resolveLeadState } from './state-regulations';
+import { getLocalDateParts, isValidTimezone } from './calling-windows';
+import { getAreaCode } from '../lib/areaCodes';
+import type { Campaign, CallerIdNumber, CampaignLead } from '../lib/supabase';
+
+export type CallerIdStrategy = NonNullable<Campaign['caller_id_strategy']>
+
+export interface CallerIdSelection {
+  phoneNumber: string
+  numberId?: string // set when the number came from the pool
+  match: 'area_code' | 'region' | 'any' | 'fixed'
+}
+
+export interface CallerIdHealth {
+  recentRate: number | null // over the latest attempts, null until there are enough of them
+  lifetimeRate: number | null
+  sampleSize: number
+  collapsed: boolean
+}
+
+export const DEFAULT_CALLER_ID_DAILY_LIMIT = 100;
+// Attempts kept per number for the recent answer rate
+const HEALTH_WINDOW = 50;
+const MIN_HEALTH_SAMPLE = 20;
+// Rested when the recent answer rate falls below this share of its lifetime rate...
+const COLLAPSE_RATIO = 0.5;
+// ...or below this rate outright
+const MIN_ANSWER_RATE = 0.05;
+const REST_HOURS = 72;
+const MAX_RESERVE_ATTEMPTS = 3;
+const MAX_RECORD_ATTEMPTS = 5;
+
+const MATCH_ORDER: CallerIdSelection['match'][] = ['area_code', 'region', 'any'];
+
+/**
+ * Picks the caller ID for each outbound call from the profile's number pool. Local presence
+ * prefers a number with the lead's area code, then one from the lead's state; within a tier
+ * the least used number today goes first. Each number has a daily call limit, counted per day in the
+ * calling campaign's timezone, and a number whose answer rate collapses (typically because carriers
+ * started labelling it as spam) is rested for a while.
+ */
+export class CallerIdPool {
+  // The local day (YYYY-MM-DD) daily limits are counted against
+  static today(now: Date = new Date(), timezone: string = 'UTC'): string {
+    return getLocalDateParts(isValidTimezone(timezone) ? timezone : 'UTC', now).date;
+  }
+
+  static callsToday(number: CallerIdNumber, now: Date = new Date(), timezone?: string): number {
+    return number.usage_date === this.today(now, timezone) ? number.calls_today : 0;
+  }
+
+  static isAvailable(number: CallerIdNumber, now: Date = new Date(), timezone?: string): boolean {
+    if (number.status === 'retired') return false;
+    if (number.status === 'resting' && (!number.rested_until || new Date(number.rested_until) > now)) {
+      return false;
+    }
+    return number.daily_limit <= 0 || this.callsToday(number, now, timezone) < number.daily_limit;
+  }
+
+  // Best available number for the lead, or null when the whole pool is used up for today
+  static selectNumber(
+    numbers: CallerIdNumber[],
+    lead: Pick<CampaignLead, 'phone_number' | 'custom_fields'>,
+    strategy: CallerIdStrategy,
+    now: Date = new Date(),
+    timezone?: string
+  ): { number: CallerIdNumber; match: CallerIdSelection['match'] } | null {
+    const available = numbers.filter(number => this.isAvailable(number, now, timezone));
+    if (available.length === 0) return null;
+
+    const areaCode = strategy === 'local_presence' ? getAreaCode(lead.phone_number) : null;
+    const state = strategy === 'local_presence'
+      ? resolveLeadState({ phone_number: lead.phone_number, state: lead.custom_fields?.state })
+      : null;
+
+    const matchOf = (number: CallerIdNumber): CallerIdSelection['match'] => {
+      if (areaCode && number.area_code === areaCode) return 'area_code';
+      if (state && number.region === state) return 'region';
+      return 'any';
+    };
+
+    const [best] = available
+      .map(number => ({ number, match: matchOf(number) }))
+      .sort((a, b) =>
+        MATCH_ORDER.indexOf(a.match) - MATCH_ORDER.indexOf(b.match)
+        || this.callsToday(a.number, now, timezone) - this.callsToday(b.number, now, timezone)
+        || (a.number.last_used_at || '').localeCompare(b.number.last_used_at || '')
+      );
+    return best;
+  }
+
+  // Chooses and reserves the caller ID for one call; falls back to the campaign's own caller ID
+  static async pickCallerId(
+    profileId: string,
+    campaign: Pick<Campaign, 'caller_id' | 'caller_id_strategy' | 'timezone'>,
+    lead: Pick<CampaignLead, 'phone_number' | 'custom_fields'>,
+    now: Date = new Date()
+  ): Promise<CallerIdSelection> {
+    const fixed: CallerIdSelection = { phoneNumber: campaign.caller_id || '', match: 'fixed' };
+    const strategy = campaign.caller_id_strategy || 'fixed';
+    if (strategy === 'fixed') return fixed;
+
+    // Another dialer can take the same number between reading and reserving it
+    for (let attempt = 0; attempt < MAX_RESERVE_ATTEMPTS; attempt++) {
+      const numbers = await DatabaseService.getCallerIdNumbers(profileId);
+      const selected = this.selectNumber(numbers, lead, strategy, now, campaign.timezone);
+      if (!selected) break;
+
+      const reserved = await DatabaseService.reserveCallerIdNumber(selected.number, {
+        calls_today: this.callsToday(selected.number, now, campaign.timezone) + 1,
+        usage_date: this.today(now, campaign.timezone),
+        last_used_at: now.toISOString(),
+        status: 'active'
+      });
+      if (reserved) {
+        return { phoneNumber: reserved.phone_number, numberId: reserved.id, match: selected.match };
+      }
+    }
+
+    console.warn(`Caller ID pool exhausted for profile ${profileId}, using the campaign caller ID`);
+    return fixed;
+  }
+
+  static getHealth(number: Pick<CallerIdNumber, 'recent_outcomes' | 'total_calls' | 'answered_calls'>): CallerIdHealth {
+    const recent = number.recent_outcomes || '';
+    const recentAnswered = recent.split('').filter(outcome => outcome === '1').length;
+    const recentRate = recent.length >= MIN_HEALTH_SAMPLE ? recentAnswered / recent.length : null;
+    const lifetimeRate = number.total_calls > 0 ? number.answered_calls / number.total_calls : null;
+
+    // The lifetime rate only means something once it covers more than the recent window
+    const collapsedAgainstHistory = recentRate !== null && lifetimeRate !== null
+      && number.total_calls >= HEALTH_WINDOW * 2
+      && recentRate < lifetimeRate * COLLAPSE_RATIO;
+
+    return {
+      recentRate,
+      lifetimeRate,
+      sampleSize: recent.length,
+      collapsed: recentRate !== null && (recentRate < MIN_ANSWER_RATE || collapsedAgainstHistory)
+    };
+  }
+
+  // Takes the number out of rotation for a while; it rejoins by itself once rested_until passes
+  static restUpdates(reason: string, now: Date = new Date()): Partial<CallerIdNumber> {
+    return {
+      status: 'resting',
+      rested_until: new Date(now.getTime() + REST_HOURS * 60 * 60 * 1000).toISOString(),
+      rest_reason: reason
+    };
+  }
+
+  // Records whether a call placed from the number was answered, resting the number if its answer rate collapsed
+  static async recordOutcome(numberId: string, answered: boolean, now: Date = new Date()): Promise<void> {
+    try {
+      // Calls from the same number finish side by side; the write only lands if no other outcome did since the read
+      for (let attempt = 0; attempt < MAX_RECORD_ATTEMPTS; attempt++) {
+        const number = await DatabaseService.getCallerIdNumber(numberId);
+        if (!number) return;
+
+        const updates: Partial<CallerIdNumber> = {
+          total_calls: number.total_calls + 1,
+          answered_calls: number.answered_calls + (answered ? 1 : 0),
+          recent_outcomes: ((number.recent_outcomes || '') + (answered ? '1' : '0')).slice(-HEALTH_WINDOW)
+        };
+
+        const health = this.getHealth({ ...number, ...updates });
+        if (health.collapsed && number.status === 'active') {
+          const rate = Math.round((health.recentRate ?? 0) * 100);
+          console.warn(`Resting caller ID ${number.phone_number}: answer rate dropped to ${rate}%`);
+          Object.assign(updates, this.restUpdates(`Answer rate dropped to ${rate}% over the last ${health.sampleSize} calls`, now));
+          // Judged afresh when it comes back
+          updates.recent_outcomes = '';
+        }
+
+        if (await DatabaseService.recordCallerIdOutcome(number, updates)) return;
+      }
+
+      console.warn(`Could not record an outcome for caller ID ${numberId}: too many concurrent updates`);
+    } catch (error) {
+      console.error('Error recording caller ID outcome:', error);
+    }
+  }
+}
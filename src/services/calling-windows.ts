@@ -0,0 +1,114 @@
+export interface CallingWindow {
+  startTime: string // HH:MM format
+  endTime: string // HH:MM format
+  daysOfWeek: number[] // 0=Sunday, 1=Monday, etc.
+}
+
+export interface LocalDateParts {
+  dayOfWeek: number
+  time: string // HH:MM format
+  minutesOfDay: number
+  date: string // YYYY-MM-DD
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const formatters: Map<string, Intl.DateTimeFormat> = new Map();
+
+export function isValidTimezone(timezone?: string): timezone is string {
+  if (!timezone) return false;
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function getFormatter(timezone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timezone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      weekday: 'short',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23'
+    });
+    formatters.set(timezone, formatter);
+  }
+  return formatter;
+}
+
+// Wall-clock date and time at `date` in the given IANA timezone
+export function getLocalDateParts(timezone: string, date: Date = new Date()): LocalDateParts {
+  const parts = Object.fromEntries(
+    getFormatter(timezone).formatToParts(date).map(part => [part.type, part.value])
+  );
+  const hour = parseInt(parts.hour, 10);
+  const minute = parseInt(parts.minute, 10);
+
+  return {
+    dayOfWeek: WEEKDAYS.indexOf(parts.weekday),
+    time: `${parts.hour}:${parts.minute}`,
+    minutesOfDay: hour * 60 + minute,
+    date: `${parts.year}-${parts.month}-${parts.day}`
+  };
+}
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + (minutes || 0);
+}
+
+// Instant at which the wall clock in `timezone` reads `date` (YYYY-MM-DD) at `time` (HH:MM)
+export function fromLocalDateTime(date: string, time: string, timezone: string): Date {
+  const [year, month, day] = date.split('-').map(Number);
+  const [hour, minute] = time.split(':').map(Number);
+  const target = Date.UTC(year, month - 1, day, hour, minute);
+
+  // Two corrections settle the offset, also across a daylight saving change
+  let instant = target;
+  for (let i = 0; i < 2; i++) {
+    const local = getLocalDateParts(timezone, new Date(instant));
+    const [localYear, localMonth, localDay] = local.date.split('-').map(Number);
+    const localMs = Date.UTC(localYear, localMonth - 1, localDay, Math.floor(local.minutesOfDay / 60), local.minutesOfDay % 60);
+    instant += target - localMs;
+  }
+  return new Date(instant);
+}
+
+export function isWithinWindow(window: CallingWindow, timezone: string, date: Date = new Date()): boolean {
+  const local = getLocalDateParts(timezone, date);
+  if (!window.daysOfWeek.includes(local.dayOfWeek)) {
+    return false;
+  }
+  return local.minutesOfDay >= toMinutes(window.startTime) && local.minutesOfDay < toMinutes(window.endTime);
+}
+
+// 0 when the window is open now, Infinity when it never opens (no calling days)
+export function minutesUntilWindowOpens(window: CallingWindow, timezone: string, date: Date = new Date()): number {
+  if (window.daysOfWeek.length === 0) {
+    return Infinity;
+  }
+  if (isWithinWindow(window, timezone, date)) {
+    return 0;
+  }
+
+  const local = getLocalDateParts(timezone, date);
+  const start = toMinutes(window.startTime);
+
+  for (let offset = 0; offset <= 7; offset++) {
+    const day = (local.dayOfWeek + offset) % 7;
+    if (!window.daysOfWeek.includes(day)) continue;
+
+    const minutes = offset * 24 * 60 + start - local.minutesOfDay;
+    if (minutes > 0) {
+      return minutes;
+    }
+  }
+
+  return Infinity;
+}
@@ -0,0 +1,133 @@
+import { DatabaseService } from './database';
+import type { AttemptOutcome } from './lead-lifecycle';
+import type { Campaign, CallLog, Profile } from '../lib/supabase';
+
+export type CampaignBudget = Pick<Campaign, 'budget_minutes' | 'budget_spend' | 'cost_per_minute' | 'minutes_used'>
+
+// Recent outbound calls the estimate learns attempts per lead and minutes per attempt from
+const HISTORY_SAMPLE_SIZE = 500;
+// Used until the account has placed this many calls
+const MIN_HISTORY_CALLS = 20;
+const DEFAULT_MINUTES_PER_ATTEMPT = 2;
+// Each call in flight holds back this much of the budget while the dialer decides how many more to place
+export const MINUTES_RESERVED_PER_CALL = 1;
+
+export interface CallHistory {
+  calls: number
+  attemptsPerLead?: number
+  minutesPerAttempt?: number // billed minutes, unanswered attempts count as zero
+}
+
+export interface CampaignEstimate {
+  leads: number
+  attemptsPerLead: number
+  minutesPerAttempt: number
+  fromHistory: boolean // false when the defaults stood in for too little history
+  minutes: number
+  spend?: number // when the campaign has a cost per minute
+  budgetMinutesLeft?: number
+  accountMinutesLeft: number
+  exceedsBudget: boolean // the dialer will pause the campaign before it finishes
+  leadsCovered: number // leads the campaign budget pays for
+  exceedsAccount: boolean
+}
+
+/**
+ * Per-campaign minute and spend budgets. Calls are billed per started minute once someone (or
+ * something) answered; the dialer adds each call to the campaign's minutes_used, stops placing calls
+ * the budget cannot cover and pauses the campaign when it is used up. The estimate is what the
+ * campaign form shows before launch.
+ */
+export class CampaignBudgetService {
+  static billedMinutes(durationSeconds: number, outcome: AttemptOutcome | CallLog['status']): number {
+    const connected = ['answered', 'abandoned', 'voicemail', 'machine', 'completed'].includes(outcome);
+    return connected && durationSeconds > 0 ? Math.ceil(durationSeconds / 60) : 0;
+  }
+
+  // The tighter of the minute budget and the spend budget; undefined when the campaign has neither
+  static getBudgetMinutes(budget: CampaignBudget): number | undefined {
+    const limits: number[] = [];
+    if (budget.budget_minutes) {
+      limits.push(budget.budget_minutes);
+    }
+    if (budget.budget_spend && budget.cost_per_minute) {
+      limits.push(Math.floor(budget.budget_spend / budget.cost_per_minute));
+    }
+    return limits.length > 0 ? Math.min(...limits) : undefined;
+  }
+
+  static getRemainingMinutes(budget: CampaignBudget): number | undefined {
+    const limit = this.getBudgetMinutes(budget);
+    return limit === undefined ? undefined : Math.max(0, limit - (budget.minutes_used || 0));
+  }
+
+  static isExhausted(budget: CampaignBudget): boolean {
+    return this.getRemainingMinutes(budget) === 0;
+  }
+
+  static getSpend(budget: CampaignBudget): number | undefined {
+    return budget.cost_per_minute ? (budget.minutes_used || 0) * budget.cost_per_minute : undefined;
+  }
+
+  static getAccountMinutesLeft(profile: Pick<Profile, 'monthly_minute_limit' | 'minutes_used'>): number {
+    return Math.max(0, profile.monthly_minute_limit - profile.minutes_used);
+  }
+
+  static async getCallHistory(profileId: string): Promise<CallHistory> {
+    try {
+      const calls = (await DatabaseService.getCallLogs(profileId, HISTORY_SAMPLE_SIZE))
+        .filter(call => call.direction === 'outbound' && call.status !== 'pending' && call.status !== 'in_progress');
+      if (calls.length === 0) {
+        return { calls: 0 };
+      }
+
+      const leads = new Set(calls.filter(call => call.lead_id).map(call => call.lead_id));
+      const billed = calls.reduce((sum, call) => sum + this.billedMinutes(call.duration_seconds || 0, call.status), 0);
+      return {
+        calls: calls.length,
+        attemptsPerLead: leads.size > 0 ? calls.filter(call => call.lead_id).length / leads.size : undefined,
+        minutesPerAttempt: billed / calls.length
+      };
+    } catch (error) {
+      console.error('Error loading call history:', error);
+      return { calls: 0 };
+    }
+  }
+
+  // leads × expected attempts × average billed minutes per attempt; attempts never exceed retry_attempts
+  static estimate(
+    leads: number,
+    campaign: Pick<Campaign, 'retry_attempts'> & CampaignBudget,
+    history: CallHistory,
+    profile: Pick<Profile, 'monthly_minute_limit' | 'minutes_used'>
+  ): CampaignEstimate {
+    const maxAttempts = Math.max(1, campaign.retry_attempts);
+    const fromHistory = history.calls >= MIN_HISTORY_CALLS;
+    const attemptsPerLead = fromHistory && history.attemptsPerLead
+      ? Math.min(maxAttempts, Math.max(1, history.attemptsPerLead))
+      : maxAttempts;
+    const minutesPerAttempt = fromHistory && history.minutesPerAttempt !== undefined
+      ? history.minutesPerAttempt
+      : DEFAULT_MINUTES_PER_ATTEMPT;
+
+    const minutes = Math.ceil(leads * attemptsPerLead * minutesPerAttempt);
+    const budgetMinutesLeft = this.getRemainingMinutes(campaign);
+    const accountMinutesLeft = this.getAccountMinutesLeft(profile);
+
+    return {
+      leads,
+      attemptsPerLead,
+      minutesPerAttempt,
+      fromHistory,
+      minutes,
+      spend: campaign.cost_per_minute ? minutes * campaign.cost_per_minute : undefined,
+      budgetMinutesLeft,
+      accountMinutesLeft,
+      exceedsBudget: budgetMinutesLeft !== undefined && minutes > budgetMinutesLeft,
+      exceedsAccount: minutes > accountMinutesLeft,
+      leadsCovered: budgetMinutesLeft !== undefined && minutes > budgetMinutesLeft
+        ? Math.floor(budgetMinutesLeft / (minutes / leads))
+        : leads
+    };
+  }
+}
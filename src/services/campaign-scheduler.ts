@@ -0,0 +1,262 @@
+import { DatabaseService } from './database';
+import { NotificationService } from './notifications';
+import { CallbackService } from './callbacks';
+import { DispositionService } from './dispositions';
+import { getLocalDateParts, isValidTimezone, isWithinWindow } from './calling-windows';
+import type { Campaign, CampaignLeadStats, DialerCommand } from '../lib/supabase';
+
+export type ScheduleAction = 'start' | 'pause' | 'resume' | 'complete' | 'none'
+
+export interface ScheduleDecision {
+  action: ScheduleAction
+  reason: string
+}
+
+// What the dialer could call, from the leads still to call and the callbacks that are due
+export interface ScheduleLeadContext {
+  leadTimezones: string[] // distinct local timezones of the leads still to call
+  callbackDue: boolean
+}
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+// Leads sampled for their timezones; a campaign rarely spans more zones than this many leads show
+const LEAD_TIMEZONE_SAMPLE = 1000;
+
+// Dialer command that carries out each transition
+const ACTION_COMMANDS: Record<Exclude<ScheduleAction, 'none'>, DialerCommand['command']> = {
+  start: 'start',
+  pause: 'pause',
+  resume: 'resume',
+  complete: 'stop'
+};
+
+/**
+ * Moves campaigns through their schedule: drafts start on scheduled_start_date, scheduled
+ * campaigns pause while no lead is inside its local calling window and no callback is due and
+ * resume once one is, and campaigns complete once scheduled_end_date has passed or no lead is
+ * left to call. Campaigns without a start date are never paused by the scheduler; the dialer
+ * already holds each lead until its own window opens.
+ * Runs inside the dialer worker; status changes are compare-and-set, so when several workers
+ * run the scheduler only one of them acts on (and announces) each transition.
+ */
+export class CampaignScheduler {
+  // Pure decision for one campaign at `now`; stats and leads are left out when they could not be loaded
+  static evaluate(
+    campaign: Campaign,
+    now: Date = new Date(),
+    stats?: CampaignLeadStats | null,
+    leads?: ScheduleLeadContext
+  ): ScheduleDecision {
+    if (campaign.status === 'completed' || campaign.status === 'cancelled') {
+      return { action: 'none', reason: 'Campaign is closed' };
+    }
+
+    const timezone = isValidTimezone(campaign.timezone) ? campaign.timezone : 'UTC';
+
+    if (campaign.status === 'draft') {
+      if (!campaign.scheduled_start_date) {
+        return { action: 'none', reason: 'Not scheduled' };
+      }
+      if (this.hasEnded(campaign, timezone, now)) {
+        return { action: 'none', reason: 'Scheduled end date passed before the campaign started' };
+      }
+      if (!this.hasStarted(campaign, timezone, now)) {
+        return { action: 'none', reason: 'Start date not reached' };
+      }
+      if (!this.canDial(campaign, timezone, now, leads)) {
+        return { action: 'none', reason: 'Waiting for the calling window' };
+      }
+      return { action: 'start', reason: 'Scheduled start date reached' };
+    }
+
+    if (this.hasEnded(campaign, timezone, now)) {
+      return { action: 'complete', reason: 'Scheduled end date passed' };
+    }
+    if (campaign.status === 'active' && stats && stats.total > 0 && stats.remaining === 0) {
+      return { action: 'complete', reason: 'No leads left to call' };
+    }
+
+    const canDial = this.canDial(campaign, timezone, now, leads);
+    if (campaign.status === 'active' && campaign.scheduled_start_date && !canDial) {
+      return { action: 'pause', reason: 'Outside every lead\'s calling window' };
+    }
+    // Campaigns paused by hand stay paused
+    if (campaign.status === 'paused' && campaign.paused_by_schedule && canDial) {
+      return { action: 'resume', reason: leads?.callbackDue ? 'A callback is due' : 'Calling window opened' };
+    }
+
+    return { action: 'none', reason: 'Nothing to do' };
+  }
+
+  // One pass over every campaign that has a schedule or is running
+  static async run(now: Date = new Date()): Promise<void> {
+    const campaigns = await DatabaseService.getSchedulableCampaigns();
+
+    for (const campaign of campaigns) {
+      try {
+        const stats = campaign.status === 'active' ? await this.loadLeadStats(campaign) : null;
+        const leads = await this.loadLeadContext(campaign, now);
+        const decision = this.evaluate(campaign, now, stats, leads);
+        if (decision.action !== 'none') {
+          await this.apply(campaign, decision, now);
+        }
+      } catch (error) {
+        console.error(`Error scheduling campaign ${campaign.id}:`, error);
+      }
+    }
+  }
+
+  // Answered counts every lead whose last outcome is a contact, including the codes agents set
+  private static async loadLeadStats(campaign: Campaign): Promise<CampaignLeadStats | null> {
+    const catalog = await DispositionService.getCatalog(campaign.profile_id);
+    return DatabaseService.getCampaignLeadStats(campaign.id, DispositionService.getContactCodes(catalog));
+  }
+
+  private static async apply(campaign: Campaign, decision: ScheduleDecision, now: Date): Promise<void> {
+    let updated: Campaign | null = null;
+
+    switch (decision.action) {
+      case 'start':
+        updated = await DatabaseService.transitionCampaignStatus(campaign.id, ['draft'], 'active', {
+          started_at: now.toISOString(),
+          paused_by_schedule: false
+        });
+        break;
+
+      case 'pause':
+        updated = await DatabaseService.transitionCampaignStatus(campaign.id, ['active'], 'paused', {
+          paused_by_schedule: true
+        });
+        break;
+
+      case 'resume':
+        updated = await DatabaseService.transitionCampaignStatus(campaign.id, ['paused'], 'active', {
+          paused_by_schedule: false
+        });
+        break;
+
+      case 'complete':
+        updated = await DatabaseService.transitionCampaignStatus(campaign.id, ['active', 'paused'], 'completed', {
+          completed_at: now.toISOString(),
+          paused_by_schedule: false
+        });
+        break;
+
+      case 'none':
+        return;
+    }
+
+    // Another worker got there first, or the campaign changed under us
+    if (!updated) return;
+
+    console.log(`Scheduler: ${decision.action} campaign ${campaign.id} (${decision.reason})`);
+    await DatabaseService.sendDialerCommand(campaign.profile_id, campaign.id, ACTION_COMMANDS[decision.action]);
+
+    if (decision.action === 'start') {
+      await this.announceStarted(updated);
+    } else if (decision.action === 'complete') {
+      await this.announceCompleted(updated);
+    }
+  }
+
+  static async announceStarted(campaign: Campaign): Promise<void> {
+    try {
+      await NotificationService.notifyCampaignStarted(campaign.profile_id, {
+        campaign_id: campaign.id,
+        name: campaign.name,
+        started_at: campaign.started_at || new Date().toISOString(),
+        scheduled_end_date: campaign.scheduled_end_date
+      });
+    } catch (error) {
+      console.error('Error announcing campaign start:', error);
+    }
+  }
+
+  // Counts come from the leads themselves; the counters on the campaign row are not kept up to date
+  static async announceCompleted(campaign: Campaign): Promise<void> {
+    try {
+      const stats = await this.loadLeadStats(campaign);
+      const results = stats
+        ? {
+          total_leads: stats.total,
+          leads_called: stats.called,
+          leads_answered: stats.answered,
+          leads_completed: stats.completed
+        }
+        : {
+          total_leads: campaign.total_leads,
+          leads_called: campaign.leads_called,
+          leads_answered: campaign.leads_answered,
+          leads_completed: campaign.leads_completed
+        };
+
+      if (stats) {
+        await DatabaseService.updateCampaign(campaign.id, results);
+      }
+
+      await NotificationService.notifyCampaignCompleted(campaign.profile_id, {
+        campaign_id: campaign.id,
+        name: campaign.name,
+        started_at: campaign.started_at,
+        completed_at: campaign.completed_at || new Date().toISOString(),
+        ...results
+      });
+    } catch (error) {
+      console.error('Error announcing campaign completion:', error);
+    }
+  }
+
+  // Date-only values are whole days in the campaign timezone; full timestamps are instants
+  private static hasStarted(campaign: Campaign, timezone: string, now: Date): boolean {
+    const start = campaign.scheduled_start_date;
+    if (!start) return true;
+    if (DATE_ONLY.test(start)) {
+      return getLocalDateParts(timezone, now).date >= start;
+    }
+    return new Date(start).getTime() <= now.getTime();
+  }
+
+  private static hasEnded(campaign: Campaign, timezone: string, now: Date): boolean {
+    const end = campaign.scheduled_end_date;
+    if (!end) return false;
+    if (DATE_ONLY.test(end)) {
+      return getLocalDateParts(timezone, now).date > end;
+    }
+    return new Date(end).getTime() <= now.getTime();
+  }
+
+  // Where the leads still to call are, and whether a callback is due; undefined when it could not be loaded
+  private static async loadLeadContext(campaign: Campaign, now: Date): Promise<ScheduleLeadContext | undefined> {
+    try {
+      const [leads, callbacks] = await Promise.all([
+        DatabaseService.getCampaignLeads(campaign.id, { status: ['pending', 'retry'], limit: LEAD_TIMEZONE_SAMPLE }),
+        CallbackService.getDueCallbacks(campaign.profile_id, campaign, now)
+      ]);
+      return {
+        leadTimezones: Array.from(new Set(leads.map(lead => CallbackService.getLeadTimezone(lead, campaign.timezone)))),
+        callbackDue: callbacks.length > 0
+      };
+    } catch (error) {
+      console.error(`Error loading leads of campaign ${campaign.id}:`, error);
+      return undefined;
+    }
+  }
+
+  // A due callback is dialed outside the window; otherwise some lead must be inside its local window.
+  // Without lead information the campaign's own timezone stands in.
+  private static canDial(campaign: Campaign, timezone: string, now: Date, leads?: ScheduleLeadContext): boolean {
+    if (leads?.callbackDue) return true;
+
+    const timezones = leads?.leadTimezones.length ? leads.leadTimezones : [timezone];
+    return timezones.some(leadTimezone => this.isWindowOpen(campaign, leadTimezone, now));
+  }
+
+  private static isWindowOpen(campaign: Campaign, timezone: string, now: Date): boolean {
+    return isWithinWindow({
+      startTime: campaign.start_time || '09:00',
+      endTime: campaign.end_time || '17:00',
+      daysOfWeek: campaign.days_of_week
+    }, timezone, now);
+  }
+}
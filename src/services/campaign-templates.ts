@@ -0,0 +1,128 @@
+import { DatabaseService } from './database';
+import { DispositionService } from './dispositions';
+import type { DispositionDefinition } from './dispositions';
+import { LeadImportService } from './lead-import';
+import type { LeadImportResult } from './lead-import';
+import type { Campaign, CampaignLead, CampaignTemplate } from '../lib/supabase';
+
+// Campaign configuration a template carries; identity, status, schedule dates, leads and counters stay behind
+export const TEMPLATE_SETTING_FIELDS = [
+  'description',
+  'agent_id',
+  'caller_id',
+  'caller_id_strategy',
+  'max_concurrent_calls',
+  'call_timeout_seconds',
+  'retry_attempts',
+  'retry_delay_minutes',
+  'retry_policy',
+  'start_time',
+  'end_time',
+  'timezone',
+  'days_of_week',
+  'custom_system_instruction',
+  'custom_voice_name',
+  'priority',
+  'dialing_mode',
+  'max_abandon_rate',
+  'amd_enabled',
+  'amd_machine_action',
+  'amd_unknown_action',
+  'voicemail_message',
+  'compliance_settings',
+  'budget_minutes',
+  'budget_spend',
+  'cost_per_minute',
+  'variants'
+] as const satisfies ReadonlyArray<keyof Campaign>;
+
+export type CampaignSettings = Partial<Pick<Campaign, typeof TEMPLATE_SETTING_FIELDS[number]>>
+
+// none: settings only; unreached: leads nobody answered yet; all: every lead that may still be called
+export type CloneLeadOption = 'none' | 'unreached' | 'all'
+
+export interface CloneCampaignResult {
+  campaign: Campaign
+  leads?: LeadImportResult
+}
+
+// Leads read per request while copying a campaign
+const CLONE_PAGE_SIZE = 500;
+
+/**
+ * Reusable campaign configurations. Any campaign can be saved as a template, the create form starts
+ * from one, and a campaign can be cloned into a new draft with all, only the unreached, or none of its leads.
+ */
+export class CampaignTemplateService {
+  static extractSettings(campaign: Partial<Campaign>): CampaignSettings {
+    const settings: Record<string, unknown> = {};
+    for (const field of TEMPLATE_SETTING_FIELDS) {
+      if (campaign[field] !== undefined && campaign[field] !== null) {
+        settings[field] = campaign[field];
+      }
+    }
+    return settings as CampaignSettings;
+  }
+
+  static async saveTemplate(campaign: Campaign, name: string, description?: string): Promise<CampaignTemplate> {
+    return DatabaseService.createCampaignTemplate({
+      profile_id: campaign.profile_id,
+      name: name.trim(),
+      description: description?.trim() || undefined,
+      settings: this.extractSettings(campaign),
+      source_campaign_id: campaign.id
+    });
+  }
+
+  // A lead counts as reached once a person answered or it was marked do-not-call
+  static isUnreached(lead: CampaignLead, catalog: DispositionDefinition[]): boolean {
+    if (lead.do_not_call || lead.status === 'dnc' || lead.status === 'answered') return false;
+    return !DispositionService.isContact(catalog, lead.outcome);
+  }
+
+  static async cloneCampaign(
+    source: Campaign,
+    options: { name: string; leads: CloneLeadOption }
+  ): Promise<CloneCampaignResult> {
+    const campaign = await DatabaseService.createCampaign({
+      ...this.extractSettings(source),
+      profile_id: source.profile_id,
+      name: options.name.trim(),
+      caller_id: source.caller_id,
+      max_concurrent_calls: source.max_concurrent_calls,
+      call_timeout_seconds: source.call_timeout_seconds,
+      retry_attempts: source.retry_attempts,
+      retry_delay_minutes: source.retry_delay_minutes,
+      timezone: source.timezone,
+      days_of_week: source.days_of_week,
+      priority: source.priority,
+      status: 'draft',
+      total_leads: 0,
+      leads_called: 0,
+      leads_answered: 0,
+      leads_completed: 0
+    });
+    if (!campaign) {
+      throw new Error('Campaign could not be created');
+    }
+    if (options.leads === 'none') {
+      return { campaign };
+    }
+
+    const catalog = await DispositionService.getCatalog(source.profile_id);
+    const leads: CampaignLead[] = [];
+    for (let offset = 0; ; offset += CLONE_PAGE_SIZE) {
+      const page = await DatabaseService.getCampaignLeads(source.id, { limit: CLONE_PAGE_SIZE, offset });
+      leads.push(...page.filter(lead =>
+        options.leads === 'all' ? !lead.do_not_call && lead.status !== 'dnc' : this.isUnreached(lead, catalog)
+      ));
+      if (page.length < CLONE_PAGE_SIZE) break;
+    }
+
+    const result = await LeadImportService.importLeads(campaign.id, LeadImportService.rowsFromLeads(leads), {
+      duplicates: { policy: 'skip', acrossCampaigns: false },
+      profileId: source.profile_id
+    });
+    return { campaign, leads: result };
+  }
+}
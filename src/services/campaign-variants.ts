@@ -0,0 +1,217 @@
+import { supabase } from '../lib/supabase';
+import { DispositionService } from './dispositions';
+import type { Campaign, CampaignLead, CampaignVariant } from '../lib/supabase';
+
+export type VariantMetric = 'answerRate' | 'appointmentRate' | 'conversionRate'
+
+export interface SignificanceResult {
+  pValue: number | null // null while either side has too few samples
+  lift: number | null // relative change against the control, in percent
+  significant: boolean
+}
+
+export interface VariantResult {
+  variant: CampaignVariant
+  isControl: boolean
+  calls: number
+  leads: number // leads dialed with this variant
+  answered: number // leads that picked up at least once
+  appointments: number
+  conversions: number
+  answerRate: number // answered / leads
+  appointmentRate: number // appointments / answered
+  conversionRate: number // conversions / answered
+  significance: Record<VariantMetric, SignificanceResult>
+}
+
+export interface VariantComparison {
+  campaignId: string
+  results: VariantResult[]
+  // Best variant on the metric that beats every other one significantly, if any
+  winner?: { variantId: string; metric: VariantMetric }
+}
+
+// Per variant and side, below this the test is not run at all
+export const MIN_VARIANT_SAMPLE = 30;
+const SIGNIFICANCE_LEVEL = 0.05;
+// PostgREST returns at most 1000 rows per request, so call logs are read page by page
+const CALL_LOG_PAGE_SIZE = 1000;
+// Call ids per appointments lookup, to keep the request URL short
+const APPOINTMENT_LOOKUP_CHUNK = 200;
+
+// Abramowitz & Stegun 7.1.26, accurate to about 1e-7
+function erf(x: number): number {
+  const sign = x < 0 ? -1 : 1;
+  const t = 1 / (1 + 0.3275911 * Math.abs(x));
+  const y = 1 - (((((1.061405429 * t - 1.453152027) * t) + 1.421413741) * t - 0.284496736) * t + 0.254829592) * t * Math.exp(-x * x);
+  return sign * y;
+}
+
+// 32-bit FNV-1a with a murmur3 finalizer, so a lead lands in the same bucket on every worker
+// and similar ids still spread evenly
+function hashString(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  hash ^= hash >>> 16;
+  hash = Math.imul(hash, 0x85ebca6b);
+  hash ^= hash >>> 13;
+  hash = Math.imul(hash, 0xc2b2ae35);
+  hash ^= hash >>> 16;
+  return hash >>> 0;
+}
+
+/**
+ * Campaign A/B tests: leads are split across agent/script variants by weight and keep their
+ * variant across retries, and the variants are compared on answer, appointment and conversion
+ * rates with a two-proportion z-test against the first variant (the control).
+ */
+export class CampaignVariantService {
+  static getActiveVariants(campaign: Pick<Campaign, 'variants'>): CampaignVariant[] {
+    return (campaign.variants || []).filter(variant => variant.weight > 0);
+  }
+
+  // Weighted and deterministic: the same lead id always maps to the same variant
+  static pickVariant(variants: CampaignVariant[], leadId: string): CampaignVariant | null {
+    const active = variants.filter(variant => variant.weight > 0);
+    const totalWeight = active.reduce((sum, variant) => sum + variant.weight, 0);
+    if (totalWeight <= 0) return null;
+
+    let point = (hashString(leadId) / 0x100000000) * totalWeight;
+    for (const variant of active) {
+      point -= variant.weight;
+      if (point < 0) return variant;
+    }
+    return active[active.length - 1];
+  }
+
+  // Variant for the lead's next call; a lead stays on its variant while the variant still takes traffic
+  static resolveVariant(campaign: Pick<Campaign, 'variants'>, lead: Pick<CampaignLead, 'id' | 'variant_id'>): CampaignVariant | null {
+    const variants = this.getActiveVariants(campaign);
+    if (variants.length === 0) return null;
+
+    return variants.find(variant => variant.id === lead.variant_id) || this.pickVariant(variants, lead.id);
+  }
+
+  static compareProportions(successA: number, totalA: number, successB: number, totalB: number): SignificanceResult {
+    if (totalA < MIN_VARIANT_SAMPLE || totalB < MIN_VARIANT_SAMPLE) {
+      return { pValue: null, lift: null, significant: false };
+    }
+
+    const rateA = successA / totalA;
+    const rateB = successB / totalB;
+    const lift = rateA > 0 ? ((rateB - rateA) / rateA) * 100 : null;
+    const pooled = (successA + successB) / (totalA + totalB);
+    const standardError = Math.sqrt(pooled * (1 - pooled) * (1 / totalA + 1 / totalB));
+    if (standardError === 0) {
+      return { pValue: 1, lift, significant: false };
+    }
+
+    const z = (rateB - rateA) / standardError;
+    // Two-sided
+    const pValue = Math.min(1, 2 * (1 - 0.5 * (1 + erf(Math.abs(z) / Math.SQRT2))));
+    return { pValue, lift, significant: pValue < SIGNIFICANCE_LEVEL };
+  }
+
+  static async getVariantComparison(campaign: Campaign): Promise<VariantComparison> {
+    const comparison: VariantComparison = { campaignId: campaign.id, results: [] };
+    const variants = campaign.variants || [];
+    if (variants.length === 0) return comparison;
+
+    try {
+      const calls: Array<{ id: string; lead_id?: string; variant_id: string; outcome?: string; answered_by?: string }> = [];
+      for (let offset = 0; ; offset += CALL_LOG_PAGE_SIZE) {
+        const { data: page, error } = await supabase
+          .from('call_logs')
+          .select('id, lead_id, variant_id, outcome, answered_by')
+          .eq('campaign_id', campaign.id)
+          .not('variant_id', 'is', null)
+          .order('id', { ascending: true })
+          .range(offset, offset + CALL_LOG_PAGE_SIZE - 1);
+
+        if (error) {
+          console.error('Error fetching variant call logs:', error);
+          return comparison;
+        }
+        calls.push(...(page || []));
+        if (!page || page.length < CALL_LOG_PAGE_SIZE) break;
+      }
+
+      // Only appointments booked on this campaign's calls count
+      const appointmentCalls = new Set<string>();
+      for (let index = 0; index < calls.length; index += APPOINTMENT_LOOKUP_CHUNK) {
+        const { data: appointments, error } = await supabase
+          .from('appointments')
+          .select('call_id')
+          .in('call_id', calls.slice(index, index + APPOINTMENT_LOOKUP_CHUNK).map(call => call.id));
+
+        if (error) {
+          console.error('Error fetching variant appointments:', error);
+          return comparison;
+        }
+        (appointments || []).forEach(appointment => appointmentCalls.add(appointment.call_id));
+      }
+      const dispositions = await DispositionService.getCatalog(campaign.profile_id);
+
+      const counts = variants.map(variant => {
+        const variantCalls = calls.filter(call => call.variant_id === variant.id);
+        const leadsWhere = (predicate: (call: typeof calls[number]) => boolean) =>
+          new Set(variantCalls.filter(predicate).map(call => call.lead_id || call.id)).size;
+
+        return {
+          variant,
+          calls: variantCalls.length,
+          leads: leadsWhere(() => true),
+          answered: leadsWhere(call => DispositionService.isContact(dispositions, call.outcome) || call.answered_by === 'human'),
+          appointments: leadsWhere(call => appointmentCalls.has(call.id)),
+          conversions: leadsWhere(call => DispositionService.getCategory(dispositions, call.outcome) === 'success')
+        };
+      });
+
+      const control = counts[0];
+      const rate = (part: number, total: number) => total > 0 ? (part / total) * 100 : 0;
+
+      comparison.results = counts.map((entry, index) => ({
+        ...entry,
+        isControl: index === 0,
+        answerRate: rate(entry.answered, entry.leads),
+        appointmentRate: rate(entry.appointments, entry.answered),
+        conversionRate: rate(entry.conversions, entry.answered),
+        significance: {
+          answerRate: this.compareProportions(control.answered, control.leads, entry.answered, entry.leads),
+          appointmentRate: this.compareProportions(control.appointments, control.answered, entry.appointments, entry.answered),
+          conversionRate: this.compareProportions(control.conversions, control.answered, entry.conversions, entry.answered)
+        }
+      }));
+
+      comparison.winner = this.findWinner(comparison.results);
+      return comparison;
+    } catch (error) {
+      console.error('Error building variant comparison:', error);
+      return comparison;
+    }
+  }
+
+  // Conversions decide first, then appointments, then answers
+  private static findWinner(results: VariantResult[]): VariantComparison['winner'] {
+    if (results.length < 2) return undefined;
+
+    const metrics: Array<{ metric: VariantMetric; success: (r: VariantResult) => number; total: (r: VariantResult) => number }> = [
+      { metric: 'conversionRate', success: r => r.conversions, total: r => r.answered },
+      { metric: 'appointmentRate', success: r => r.appointments, total: r => r.answered },
+      { metric: 'answerRate', success: r => r.answered, total: r => r.leads }
+    ];
+
+    for (const { metric, success, total } of metrics) {
+      const [best] = [...results].sort((a, b) => b[metric] - a[metric]);
+      const beatsAll = results.every(other => other === best
+        || this.compareProportions(success(other), total(other), success(best), total(best)).significant);
+      if (best[metric] > 0 && beatsAll) {
+        return { variantId: best.variant.id, metric };
+      }
+    }
+    return undefined;
+  }
+}
@@ -1,4 +1,7 @@
 import { supabase } from '../lib/supabase';
+import { normalizePhoneNumber, phoneNumberVariants } from '../lib/phoneNumbers';
+import { minutesUntilWindowOpens } from './calling-windows';
+import { checkStateRestrictions, resolveLeadState } from './state-regulations';
 
 export interface DNCEntry {
   id: string
@@ -34,7 +37,7 @@ export interface TCPAConsent {
 export interface ComplianceRule {
   id: string
   profile_id: string
-  rule_type: 'calling_hours' | 'frequency_limit' | 'dnc_check' | 'consent_verification' | 'recording_disclosure'
+  rule_type: 'calling_hours' | 'frequency_limit' | 'dnc_check' | 'consent_verification' | 'recording_disclosure' | 'state_regulations'
   name: string
   description: string
   enabled: boolean
@@ -80,26 +83,85 @@ export interface ComplianceReport {
   generated_at: string
 }
 
+export type ComplianceRuleSource = 'default' | 'profile' | 'campaign'
+
+// A rule as the engine applied it, after campaign overrides
+export type EffectiveComplianceRule = Omit<ComplianceRule, 'id' | 'created_at' | 'updated_at'> & {
+  id?: string
+  source: ComplianceRuleSource
+}
+
+// Shape of Campaign.compliance_settings
+export interface CampaignComplianceSettings {
+  // Keyed by rule type; a campaign can switch a rule on/off or adjust its parameters
+  rules?: Partial<Record<ComplianceRule['rule_type'], {
+    enabled?: boolean
+    parameters?: ComplianceRule['parameters']
+  }>>
+}
+
+// What the engine needs to know about the number being dialed
+export interface ComplianceLeadContext {
+  phone_number: string
+  do_not_call?: boolean
+  // Two-letter state/province; inferred from the area code when missing
+  state?: string
+}
+
+export interface ComplianceRuleCheck {
+  rule: EffectiveComplianceRule
+  outcome: 'passed' | 'failed' | 'skipped'
+  reason: string
+  violationType?: ComplianceViolation['violation_type']
+  severity?: ComplianceViolation['severity']
+  warning?: string
+  // Set when the block is temporary and the lead may be dialed again later
+  retryAt?: string
+}
+
+export interface ComplianceDecision {
+  allowed: boolean
+  // True when the lead must never be dialed again by this campaign
+  blocked: boolean
+  retryAt?: string
+  // The failed check that decided the outcome, if any
+  decidedBy?: ComplianceRuleCheck
+  // Every rule in priority order, including disabled and unevaluated ones
+  trace: ComplianceRuleCheck[]
+}
+
+export interface ComplianceEvaluationOptions {
+  campaignSettings?: CampaignComplianceSettings
+  // Stop at the first failed rule (the dialer) or evaluate every rule (reports, manual checks)
+  stopOnFirstFailure?: boolean
+}
+
 export class ComplianceService {
   // Check if phone number is on DNC list
   static async isDNCListed(profileId: string, phoneNumber: string): Promise<boolean> {
+    const { listed } = await this.lookupDNC(profileId, phoneNumber);
+    return listed;
+  }
+
+  // Like isDNCListed, but tells a failed lookup apart from a clean one
+  private static async lookupDNC(profileId: string, phoneNumber: string): Promise<{ listed: boolean; failed: boolean }> {
     try {
       const { data, error } = await supabase
         .from('dnc_lists')
         .select('id')
         .eq('profile_id', profileId)
-        .eq('phone_number', phoneNumber)
+        .in('phone_number', phoneNumberVariants(phoneNumber))
         .limit(1);
 
       if (error) {
         console.error('Error checking DNC list:', error);
-        return false;
+        return { listed: false, failed: true };
       }
 
-      return data && data.length > 0;
+      return { listed: !!data && data.length > 0, failed: false };
     } catch (error) {
       console.error('Error checking DNC list:', error);
-      return false;
+      return { listed: false, failed: true };
     }
   }
 
@@ -108,7 +170,7 @@ export class ComplianceService {
     try {
       const { data, error } = await supabase
         .from('dnc_lists')
-        .insert(entry)
+        .insert({ ...entry, phone_number: normalizePhoneNumber(entry.phone_number) })
         .select()
         .single();
 
@@ -131,7 +193,7 @@ export class ComplianceService {
         .from('dnc_lists')
         .delete()
         .eq('profile_id', profileId)
-        .eq('phone_number', phoneNumber);
+        .in('phone_number', phoneNumberVariants(phoneNumber));
 
       return !error;
     } catch (error) {
@@ -173,7 +235,7 @@ export class ComplianceService {
         .from('tcpa_consents')
         .select('*')
         .eq('profile_id', profileId)
-        .eq('phone_number', phoneNumber)
+        .in('phone_number', phoneNumberVariants(phoneNumber))
         .is('revoked_at', null)
         .order('created_at', { ascending: false })
         .limit(1);
@@ -208,6 +270,7 @@ export class ComplianceService {
         .from('tcpa_consents')
         .insert({
           ...consent,
+          phone_number: normalizePhoneNumber(consent.phone_number),
           updated_at: new Date().toISOString()
         })
         .select()
@@ -236,7 +299,7 @@ export class ComplianceService {
           updated_at: new Date().toISOString()
         })
         .eq('profile_id', profileId)
-        .eq('phone_number', phoneNumber)
+        .in('phone_number', phoneNumberVariants(phoneNumber))
         .is('revoked_at', null);
 
       return !error;
@@ -273,7 +336,7 @@ export class ComplianceService {
         .from('call_logs')
         .select('created_at')
         .eq('profile_id', profileId)
-        .eq('phone_number_to', phoneNumber)
+        .in('phone_number_to', phoneNumberVariants(phoneNumber))
         .gte('created_at', cutoffTime.toISOString())
         .order('created_at', { ascending: false });
 
@@ -300,58 +363,38 @@ export class ComplianceService {
   }
 
   // Validate call compliance before making call
-  static async validateCallCompliance(profileId: string, phoneNumber: string, timezone: string): Promise<{
+  static async validateCallCompliance(
+    profileId: string,
+    phoneNumber: string,
+    timezone: string,
+    options: { state?: string; campaignSettings?: CampaignComplianceSettings } = {}
+  ): Promise<{
     compliant: boolean
     violations: string[]
     warnings: string[]
+    trace: ComplianceRuleCheck[]
   }> {
-    const violations: string[] = [];
-    const warnings: string[] = [];
-
     try {
-      // Check DNC list
-      const isDNC = await this.isDNCListed(profileId, phoneNumber);
-      if (isDNC) {
-        violations.push('Phone number is on Do Not Call list');
-      }
-
-      // Check TCPA consent
-      const consentCheck = await this.hasValidConsent(profileId, phoneNumber);
-      if (!consentCheck.hasConsent) {
-        violations.push(`TCPA consent required: ${consentCheck.reason}`);
-      }
-
-      // Check calling hours
-      if (!this.isWithinCallingHours(timezone)) {
-        violations.push('Outside allowed calling hours (8 AM - 9 PM local time)');
-      }
-
-      // Check frequency limits
-      const frequencyCheck = await this.checkFrequencyLimit(profileId, phoneNumber);
-      if (!frequencyCheck.withinLimit) {
-        violations.push(`Frequency limit exceeded (${frequencyCheck.callCount} calls in last 24 hours)`);
-      }
-
-      // Add warnings for edge cases
-      if (consentCheck.consent?.expires_at) {
-        const expiryDate = new Date(consentCheck.consent.expires_at);
-        const daysUntilExpiry = Math.ceil((expiryDate.getTime() - Date.now()) / (1000 * 60 * 60 * 24));
-        if (daysUntilExpiry <= 30) {
-          warnings.push(`TCPA consent expires in ${daysUntilExpiry} days`);
-        }
-      }
+      const decision = await this.evaluateRules(
+        profileId,
+        { phone_number: phoneNumber, state: options.state },
+        timezone,
+        { campaignSettings: options.campaignSettings }
+      );
 
       return {
-        compliant: violations.length === 0,
-        violations,
-        warnings
+        compliant: decision.allowed,
+        violations: decision.trace.filter(check => check.outcome === 'failed').map(check => check.reason),
+        warnings: decision.trace.filter(check => check.warning).map(check => check.warning!),
+        trace: decision.trace
       };
     } catch (error) {
       console.error('Error validating call compliance:', error);
       return {
         compliant: false,
         violations: ['Error validating compliance'],
-        warnings: []
+        warnings: [],
+        trace: []
       };
     }
   }
@@ -532,9 +575,9 @@ export class ComplianceService {
     }
   }
 
-  // Create default compliance rules for new users
-  static async createDefaultRules(profileId: string): Promise<void> {
-    const defaultRules: Omit<ComplianceRule, 'id' | 'created_at' | 'updated_at'>[] = [
+  // Default rule set, applied in memory for every rule type a profile has not stored
+  private static buildDefaultRules(profileId: string): Omit<ComplianceRule, 'id' | 'created_at' | 'updated_at'>[] {
+    return [
       {
         profile_id: profileId,
         rule_type: 'dnc_check',
@@ -553,6 +596,15 @@ export class ComplianceService {
         parameters: { start_hour: 8, end_hour: 21 },
         priority: 2
       },
+      {
+        profile_id: profileId,
+        rule_type: 'state_regulations',
+        name: 'State Telemarketing Rules',
+        description: 'Apply stricter state calling hours, Sunday and holiday bans, and call limits',
+        enabled: true,
+        parameters: { exempt_states: [], enforce_call_limits: true },
+        priority: 3
+      },
       {
         profile_id: profileId,
         rule_type: 'frequency_limit',
@@ -560,7 +612,7 @@ export class ComplianceService {
         description: 'Limit calls to same number to 3 per 24 hours',
         enabled: true,
         parameters: { max_calls: 3, period_hours: 24 },
-        priority: 3
+        priority: 4
       },
       {
         profile_id: profileId,
@@ -569,7 +621,7 @@ export class ComplianceService {
         description: 'Verify TCPA consent before making calls',
         enabled: true,
         parameters: { require_express_consent: true },
-        priority: 4
+        priority: 5
       },
       {
         profile_id: profileId,
@@ -578,23 +630,283 @@ export class ComplianceService {
         description: 'Disclose call recording at beginning of calls',
         enabled: true,
         parameters: { disclosure_text: 'This call may be recorded for quality assurance purposes.' },
-        priority: 5
+        priority: 6
       }
     ];
+  }
 
-    try {
-      const { error } = await supabase
-        .from('compliance_rules')
-        .insert(defaultRules.map(rule => ({
+  // Stored rules, plus the defaults for rule types the profile has not stored, with a campaign's
+  // overrides applied, in priority order
+  static async getEffectiveRules(profileId: string, campaignSettings?: CampaignComplianceSettings): Promise<EffectiveComplianceRule[]> {
+    const storedRules = await this.getComplianceRules(profileId);
+    const baseRules: EffectiveComplianceRule[] = storedRules.map(rule => ({ ...rule, source: 'profile' }));
+
+    // Rule types added after a profile stored its rules (e.g. state_regulations) apply to it too
+    const missingDefaults = this.buildDefaultRules(profileId)
+      .filter(rule => !baseRules.some(base => base.rule_type === rule.rule_type))
+      .map(rule => ({ ...rule, source: 'default' as const }));
+
+    return [...baseRules, ...missingDefaults]
+      .map(rule => {
+        const override = campaignSettings?.rules?.[rule.rule_type];
+        if (!override) {
+          return rule;
+        }
+        return {
           ...rule,
-          updated_at: new Date().toISOString()
-        })));
+          enabled: override.enabled ?? rule.enabled,
+          parameters: { ...rule.parameters, ...override.parameters },
+          source: 'campaign' as const
+        };
+      })
+      .sort((a, b) => a.priority - b.priority);
+  }
 
-      if (error) {
-        console.error('Error creating default compliance rules:', error);
+  // Rule engine: evaluates the effective rules for one number and explains the outcome
+  static async evaluateRules(
+    profileId: string,
+    lead: ComplianceLeadContext,
+    timezone: string,
+    options: ComplianceEvaluationOptions = {}
+  ): Promise<ComplianceDecision> {
+    const rules = await this.getEffectiveRules(profileId, options.campaignSettings);
+    const trace: ComplianceRuleCheck[] = [];
+    let decidedBy: ComplianceRuleCheck | undefined;
+
+    for (const rule of rules) {
+      if (!rule.enabled) {
+        trace.push({
+          rule,
+          outcome: 'skipped',
+          reason: rule.source === 'campaign' ? 'Disabled for this campaign' : 'Rule disabled'
+        });
+        continue;
       }
-    } catch (error) {
-      console.error('Error creating default compliance rules:', error);
+
+      if (decidedBy && options.stopOnFirstFailure) {
+        trace.push({ rule, outcome: 'skipped', reason: `Not evaluated, already blocked by ${decidedBy.rule.name}` });
+        continue;
+      }
+
+      let check: ComplianceRuleCheck;
+      try {
+        check = await this.evaluateRule(rule, profileId, lead, timezone);
+      } catch (error) {
+        console.error(`Error evaluating compliance rule ${rule.name}:`, error);
+        check = {
+          rule,
+          outcome: 'failed',
+          reason: 'Rule could not be evaluated',
+          severity: 'medium',
+          retryAt: new Date(Date.now() + 15 * 60000).toISOString()
+        };
+      }
+      trace.push(check);
+
+      // A permanent block outranks a temporary one when every rule is evaluated
+      if (check.outcome === 'failed' && (!decidedBy || (decidedBy.retryAt && !check.retryAt))) {
+        decidedBy = check;
+      }
+    }
+
+    const failures = trace.filter(check => check.outcome === 'failed');
+    const blocked = failures.some(check => !check.retryAt);
+    const retryAt = !blocked && failures.length > 0
+      ? failures.map(check => check.retryAt!).sort().pop()
+      : undefined;
+
+    return {
+      allowed: failures.length === 0,
+      blocked,
+      retryAt,
+      decidedBy,
+      trace
+    };
+  }
+
+  // Gate run by the auto-dialer before every dial attempt
+  static async checkPreDial(
+    profileId: string,
+    lead: ComplianceLeadContext,
+    timezone: string,
+    campaignSettings?: CampaignComplianceSettings
+  ): Promise<ComplianceDecision> {
+    return this.evaluateRules(profileId, lead, timezone, { campaignSettings, stopOnFirstFailure: true });
+  }
+
+  // One line per rule, for logs and violation notes
+  static formatTrace(trace: ComplianceRuleCheck[]): string {
+    return trace
+      .map(check => `[${check.outcome}] ${check.rule.name} (${check.rule.source}): ${check.reason}`)
+      .join('\n');
+  }
+
+  private static async evaluateRule(
+    rule: EffectiveComplianceRule,
+    profileId: string,
+    lead: ComplianceLeadContext,
+    timezone: string
+  ): Promise<ComplianceRuleCheck> {
+    const params = rule.parameters || {};
+
+    switch (rule.rule_type) {
+      case 'dnc_check': {
+        if (lead.do_not_call) {
+          return {
+            rule,
+            outcome: 'failed',
+            violationType: 'dnc_violation',
+            severity: 'critical',
+            reason: 'Lead is marked Do Not Call'
+          };
+        }
+
+        const dnc = await this.lookupDNC(profileId, lead.phone_number);
+        if (dnc.listed) {
+          return {
+            rule,
+            outcome: 'failed',
+            violationType: 'dnc_violation',
+            severity: 'critical',
+            reason: 'Phone number is on Do Not Call list'
+          };
+        }
+        if (dnc.failed) {
+          // Strict mode fails closed when the list cannot be checked
+          return params.strict_mode
+            ? {
+                rule,
+                outcome: 'failed',
+                violationType: 'dnc_violation',
+                severity: 'high',
+                reason: 'DNC list could not be checked (strict mode)',
+                retryAt: new Date(Date.now() + 15 * 60000).toISOString()
+              }
+            : { rule, outcome: 'passed', reason: 'DNC list could not be checked', warning: 'DNC lookup failed, call allowed' };
+        }
+        return { rule, outcome: 'passed', reason: 'Not on Do Not Call list' };
+      }
+
+      case 'calling_hours': {
+        const startHour = Number(params.start_hour ?? 8);
+        const endHour = Number(params.end_hour ?? 21);
+        const hours = `${startHour}:00 - ${endHour}:00 ${timezone}`;
+        if (this.isWithinCallingHours(timezone, { start: startHour, end: endHour })) {
+          return { rule, outcome: 'passed', reason: `Within calling hours (${hours})` };
+        }
+
+        const window = {
+          startTime: `${String(startHour).padStart(2, '0')}:00`,
+          endTime: `${String(endHour).padStart(2, '0')}:00`,
+          daysOfWeek: [0, 1, 2, 3, 4, 5, 6]
+        };
+        const minutes = minutesUntilWindowOpens(window, timezone);
+        return {
+          rule,
+          outcome: 'failed',
+          violationType: 'calling_hours_violation',
+          severity: 'medium',
+          reason: `Outside allowed calling hours (${hours})`,
+          retryAt: new Date(Date.now() + (Number.isFinite(minutes) ? minutes : 60) * 60000).toISOString()
+        };
+      }
+
+      case 'frequency_limit': {
+        const periodHours = Number(params.period_hours ?? 24);
+        const maxCalls = Number(params.max_calls ?? 3);
+        const frequency = await this.checkFrequencyLimit(profileId, lead.phone_number, periodHours, maxCalls);
+        if (frequency.withinLimit) {
+          return { rule, outcome: 'passed', reason: `${frequency.callCount} of ${maxCalls} calls in last ${periodHours} hours` };
+        }
+        return {
+          rule,
+          outcome: 'failed',
+          violationType: 'frequency_violation',
+          severity: 'medium',
+          reason: `Frequency limit exceeded (${frequency.callCount} of ${maxCalls} calls in last ${periodHours} hours)`,
+          retryAt: frequency.nextAllowedTime || new Date(Date.now() + periodHours * 3600000).toISOString()
+        };
+      }
+
+      case 'state_regulations': {
+        const state = resolveLeadState(lead);
+        if (!state) {
+          return { rule, outcome: 'passed', reason: 'State could not be determined', warning: 'State rules not applied, unknown state' };
+        }
+        if ((params.exempt_states || []).includes(state)) {
+          return { rule, outcome: 'passed', reason: `${state} exempted by rule parameters` };
+        }
+
+        const restriction = checkStateRestrictions(state, timezone);
+        const source = restriction.rule ? `${restriction.rule.name}, rules v${restriction.version}` : `rules v${restriction.version}`;
+        if (!restriction.allowed) {
+          const minutes = Number.isFinite(restriction.minutesUntilAllowed) ? restriction.minutesUntilAllowed : 24 * 60;
+          return {
+            rule,
+            outcome: 'failed',
+            violationType: 'calling_hours_violation',
+            severity: 'high',
+            reason: `${restriction.reason} (${source})`,
+            retryAt: new Date(Date.now() + minutes * 60000).toISOString()
+          };
+        }
+
+        const maxCalls = restriction.rule?.maxCallsPer24Hours;
+        if (maxCalls && params.enforce_call_limits !== false) {
+          const frequency = await this.checkFrequencyLimit(profileId, lead.phone_number, 24, maxCalls);
+          if (!frequency.withinLimit) {
+            return {
+              rule,
+              outcome: 'failed',
+              violationType: 'frequency_violation',
+              severity: 'high',
+              reason: `${state} allows ${maxCalls} calls per 24 hours, ${frequency.callCount} already placed (${source})`,
+              retryAt: frequency.nextAllowedTime || new Date(Date.now() + 24 * 3600000).toISOString()
+            };
+          }
+        }
+
+        return { rule, outcome: 'passed', reason: `${restriction.reason} (${source})` };
+      }
+
+      case 'consent_verification': {
+        const consent = await this.hasValidConsent(profileId, lead.phone_number);
+        if (!consent.hasConsent) {
+          // A failed lookup is not evidence of missing consent; try again later
+          const lookupFailed = consent.reason === 'Database error' || consent.reason === 'Unknown error';
+          return {
+            rule,
+            outcome: 'failed',
+            violationType: 'consent_violation',
+            severity: 'high',
+            reason: `TCPA consent required: ${consent.reason}`,
+            retryAt: lookupFailed ? new Date(Date.now() + 15 * 60000).toISOString() : undefined
+          };
+        }
+
+        if (params.require_express_consent && consent.consent?.consent_type === 'prior_business_relationship') {
+          return {
+            rule,
+            outcome: 'failed',
+            violationType: 'consent_violation',
+            severity: 'high',
+            reason: 'Express consent required, only a prior business relationship is on record'
+          };
+        }
+
+        let warning: string | undefined;
+        if (consent.consent?.expires_at) {
+          const daysUntilExpiry = Math.ceil((new Date(consent.consent.expires_at).getTime() - Date.now()) / (1000 * 60 * 60 * 24));
+          if (daysUntilExpiry <= 30) {
+            warning = `TCPA consent expires in ${daysUntilExpiry} days`;
+          }
+        }
+        return { rule, outcome: 'passed', reason: `Valid ${consent.consent?.consent_type} consent on record`, warning };
+      }
+
+      default:
+        // Disclosure rules apply during the call, not before dialing
+        return { rule, outcome: 'passed', reason: 'Applied during the call' };
     }
   }
 
@@ -0,0 +1,230 @@
+import { AgentToolService } from './agent-tools';
+import type { AgentTestMessage } from '../lib/supabase';
+import type { ToolArguments, ToolDeclaration } from './agent-tools';
+
+export interface ModelRequest {
+  agentName: string
+  systemInstruction: string // lead variables already merged in
+  tools: ToolDeclaration[]
+  variables: Record<string, string>
+  // Conversation so far; a last agent turn holding function calls (with results) asks the model to continue
+  messages: AgentTestMessage[]
+}
+
+export interface ModelReply {
+  text: string
+  functionCalls: Array<{ name: string; args: ToolArguments }>
+}
+
+export interface ConversationModel {
+  readonly name: string
+  respond(request: ModelRequest): Promise<ModelReply>
+}
+
+const GEMINI_API_URL = 'https://generativelanguage.googleapis.com/v1beta/models';
+const GEMINI_MODEL = 'gemini-2.0-flash';
+const GEMINI_TIMEOUT_MS = 30000;
+
+type GeminiPart =
+  | { text: string }
+  | { functionCall: { name: string; args: ToolArguments } }
+  | { functionResponse: { name: string; response: Record<string, unknown> } }
+
+/**
+ * Text conversations with Gemini using the profile's API key, declaring the agent's tools as
+ * function declarations. Function calls come back for the caller to answer; nothing runs here.
+ */
+export class GeminiConversationModel implements ConversationModel {
+  readonly name = 'gemini';
+  private apiKey: string;
+  private model: string;
+
+  constructor(apiKey: string, model = GEMINI_MODEL) {
+    this.apiKey = apiKey;
+    this.model = model;
+  }
+
+  async respond(request: ModelRequest): Promise<ModelReply> {
+    const contents: Array<{ role: 'user' | 'model'; parts: GeminiPart[] }> = [];
+    for (const message of request.messages) {
+      if (message.role === 'user') {
+        contents.push({ role: 'user', parts: [{ text: message.text }] });
+        continue;
+      }
+      if (message.function_calls?.length) {
+        contents.push({ role: 'model', parts: message.function_calls.map(call => ({ functionCall: { name: call.name, args: call.args } })) });
+        contents.push({
+          role: 'user',
+          parts: message.function_calls.map(call => ({ functionResponse: { name: call.name, response: call.result || {} } }))
+        });
+      }
+      if (message.text) {
+        contents.push({ role: 'model', parts: [{ text: message.text }] });
+      }
+    }
+
+    const response = await fetch(`${GEMINI_API_URL}/${this.model}:generateContent?key=${encodeURIComponent(this.apiKey)}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        systemInstruction: { parts: [{ text: request.systemInstruction || `You are ${request.agentName}.` }] },
+        contents,
+        ...(request.tools.length > 0 ? { tools: [{ functionDeclarations: request.tools }] } : {})
+      }),
+      signal: AbortSignal.timeout(GEMINI_TIMEOUT_MS)
+    });
+
+    const body = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      throw new Error(`Gemini request failed: ${body?.error?.message || response.statusText}`);
+    }
+
+    const parts: GeminiPart[] = body?.candidates?.[0]?.content?.parts || [];
+    return {
+      text: parts.map(part => ('text' in part ? part.text : '')).join('').trim(),
+      functionCalls: parts
+        .filter((part): part is Extract<GeminiPart, { functionCall: unknown }> => 'functionCall' in part)
+        .map(part => ({ name: part.functionCall.name, args: part.functionCall.args || {} }))
+    };
+  }
+}
+
+// Words of a tool name that say nothing about when to call it
+const GENERIC_TOOL_WORDS = new Set(['get', 'set', 'find', 'lookup', 'look', 'up', 'check', 'create', 'update', 'send', 'make', 'do', 'the', 'a', 'to', 'for', 'by']);
+
+// Phrases that trigger the built-in tools, which callers rarely ask for by name
+const BUILTIN_TRIGGERS: Record<string, RegExp> = {
+  schedule_callback: /\b(call (me )?back|callback|another time|later|tomorrow|next week)\b/i,
+  search_knowledge_base: /\?|\b(how much|price|pricing|cost|policy|refund|what is|do you)\b/i
+};
+
+/**
+ * Local stand-in for a model. It answers from fixed rules: it greets with the lead's first name,
+ * calls a tool when the caller's words match the tool's trigger phrases or name, fills arguments
+ * from dates, times and numbers in the message, and otherwise acknowledges. The same conversation
+ * always gets the same replies, so regression cases run offline and repeatably.
+ */
+export class SimulatedConversationModel implements ConversationModel {
+  readonly name = 'simulator';
+  private now: () => Date;
+
+  constructor(now: () => Date = () => new Date()) {
+    this.now = now;
+  }
+
+  async respond(request: ModelRequest): Promise<ModelReply> {
+    const last = request.messages[request.messages.length - 1];
+
+    // Continue after function results
+    if (last?.role === 'agent' && last.function_calls?.length) {
+      const failed = last.function_calls.find(call => call.result?.success === false);
+      if (failed) {
+        return { text: `I wasn't able to do that just now (${failed.result?.message || failed.name}). Is there anything else I can help with?`, functionCalls: [] };
+      }
+      const passage = last.function_calls
+        .map(call => {
+          const [first]: unknown[] = Array.isArray(call.result?.results) ? call.result.results : [];
+          return first && typeof first === 'object' && 'content' in first ? first.content : undefined;
+        })
+        .find(Boolean);
+      return { text: passage ? `Here's what I found: ${String(passage).slice(0, 300)}` : "All done, I've taken care of that.", functionCalls: [] };
+    }
+
+    const text = last?.role === 'user' ? last.text.trim() : '';
+    const userTurns = request.messages.filter(message => message.role === 'user').length;
+
+    const tool = request.tools.find(candidate => this.matchesTool(candidate, text));
+    if (tool) {
+      return {
+        text: '',
+        functionCalls: [{ name: tool.name, args: this.extractArguments(tool, text) }]
+      };
+    }
+
+    const firstName = request.variables.first_name?.trim();
+    if (/\b(bye|goodbye|that's all|hang up)\b/i.test(text)) {
+      return { text: 'Thanks for your time. Goodbye!', functionCalls: [] };
+    }
+    if (/\b(not interested|stop calling|do not call|don't call|remove me)\b/i.test(text)) {
+      return { text: "Understood, I'm sorry to have bothered you. I'll make sure we don't call again.", functionCalls: [] };
+    }
+    if (userTurns <= 1 || /^(hi|hello|hey|good (morning|afternoon|evening))\b/i.test(text)) {
+      return {
+        text: `Hi${firstName ? ` ${firstName}` : ''}, this is ${request.agentName}. How can I help you today?`,
+        functionCalls: []
+      };
+    }
+    if (text.endsWith('?')) {
+      return { text: "That's a good question. Let me find out and get back to you on that.", functionCalls: [] };
+    }
+    return { text: 'Got it. Is there anything else I can help you with?', functionCalls: [] };
+  }
+
+  matchesTool(tool: ToolDeclaration, text: string): boolean {
+    if (!text) return false;
+    const trigger = BUILTIN_TRIGGERS[tool.name];
+    if (trigger) return trigger.test(text);
+
+    const words = tool.name.toLowerCase().split(/_+/).filter(word => word.length > 2 && !GENERIC_TOOL_WORDS.has(word));
+    const lower = text.toLowerCase();
+    return words.some(word => new RegExp(`\\b${word.replace(/s$/, '')}`).test(lower));
+  }
+
+  extractArguments(tool: ToolDeclaration, text: string): ToolArguments {
+    const args: ToolArguments = {};
+    const properties = AgentToolService.getProperties(tool.parameters || {});
+
+    for (const [name, property] of Object.entries(properties)) {
+      let value: unknown;
+      if (Array.isArray(property.enum)) {
+        value = property.enum.find(option => text.toLowerCase().includes(String(option).toLowerCase()));
+      } else if (/date/i.test(name)) {
+        value = this.extractDate(text);
+      } else if (/time/i.test(name)) {
+        value = this.extractTime(text);
+      } else if (property.type === 'number' || property.type === 'integer') {
+        const number = text.match(/-?\d+(\.\d+)?/);
+        value = number ? (property.type === 'integer' ? parseInt(number[0], 10) : parseFloat(number[0])) : undefined;
+      } else if (property.type === 'boolean') {
+        value = /\b(yes|yeah|sure|ok|okay)\b/i.test(text) ? true : /\b(no|nope)\b/i.test(text) ? false : undefined;
+      } else if (property.type === 'string') {
+        // Identifiers are read out as a run of digits or letters and digits
+        value = /(_id|number|code)$/i.test(name) ? text.match(/\b[A-Z0-9-]*\d[A-Z0-9-]*\b/i)?.[0] : text;
+      }
+      if (value !== undefined) args[name] = value;
+    }
+
+    return args;
+  }
+
+  // YYYY-MM-DD from an explicit date, "today" or "tomorrow"
+  private extractDate(text: string): string | undefined {
+    const explicit = text.match(/\b\d{4}-\d{2}-\d{2}\b/);
+    if (explicit) return explicit[0];
+
+    const date = this.now();
+    if (/\btomorrow\b/i.test(text)) {
+      date.setDate(date.getDate() + 1);
+    } else if (!/\btoday\b/i.test(text)) {
+      return undefined;
+    }
+    return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+  }
+
+  // HH:MM from "15:30", "3pm", "3:30 pm" or "at 3"; bare hours before 8 are taken as afternoon
+  private extractTime(text: string): string | undefined {
+    const match = text.match(/\b(\d{1,2})(?::(\d{2}))?\s*(am|pm)\b/i)
+      || text.match(/\b(\d{1,2}):(\d{2})\b/)
+      || text.match(/\bat (\d{1,2})\b/i);
+    if (!match) return undefined;
+
+    let hour = parseInt(match[1], 10);
+    const minute = match[2] || '00';
+    const meridiem = match[3]?.toLowerCase();
+    if (meridiem === 'pm' && hour < 12) hour += 12;
+    if (meridiem === 'am' && hour === 12) hour = 0;
+    if (!meridiem && !match[2] && hour < 8) hour += 12;
+    if (hour > 23) return undefined;
+    return `${String(hour).padStart(2, '0')}:${minute}`;
+  }
+}
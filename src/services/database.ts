@@ -1,9 +1,12 @@
 import { supabase } from '../lib/supabase';
+import { normalizePhoneNumber, phoneNumberVariants } from '../lib/phoneNumbers';
+import { getAreaCode, getRegionForAreaCode } from '../lib/areaCodes';
 import type { 
   Profile, 
   CallLog, 
   Campaign, 
   CampaignLead, 
+  CampaignTemplate,
   AnalyticsData,
   DNCEntry,
   WebhookEndpoint,
@@ -12,15 +15,52 @@ import type {
   UsageRecord,
   SystemStatus,
   AIAgent,
+  AgentVersion,
+  KnowledgeDocument,
+  KnowledgeChunk,
   Appointment,
   ActiveCall,
-  // FunctionCallLog
+  DialerQueueEntry,
+  DialerCommand,
+  CampaignLeadStats,
+  CallerIdNumber,
+  LeadCallback,
+  LeadSegment,
+  LeadSegmentRule,
+  SuppressionList,
+  SuppressionEntry,
+  FunctionCallLog,
+  AgentTool,
+  AgentToolCall,
+  AgentTestCase,
+  BusinessHoliday
 } from '../lib/supabase';
 
+// Lead columns getCampaignLeads can filter on in the database, by how they compare
+const LEAD_FILTER_COLUMNS: Record<string, 'text' | 'number' | 'date' | 'choice'> = {
+  phone_number: 'text',
+  first_name: 'text',
+  last_name: 'text',
+  email: 'text',
+  company: 'text',
+  title: 'text',
+  outcome: 'text',
+  timezone: 'text',
+  status: 'choice',
+  priority: 'choice',
+  line_type: 'choice',
+  call_attempts: 'number',
+  last_call_at: 'date',
+  created_at: 'date'
+};
+
 export class DatabaseService {
   // Check if we're in demo mode
   private static isDemoMode(): boolean {
-    // Get the current mode from localStorage (set by AppContext)
+    // Get the current mode from localStorage (set by AppContext); the dialer worker has none
+    if (typeof localStorage === 'undefined') {
+      return false;
+    }
     const appMode = localStorage.getItem('app_mode');
     return appMode === 'demo';
   }
@@ -169,6 +209,179 @@ export class DatabaseService {
     return true;
   }
 
+  static async getAIAgent(id: string): Promise<AIAgent | null> {
+    if (this.isDemoMode()) {
+      return this.getDemoAgents().find(agent => agent.id === id) || null;
+    }
+
+    const { data, error } = await supabase
+      .from('ai_agents')
+      .select('*')
+      .eq('id', id)
+      .single();
+
+    if (error) {
+      console.error('Error fetching AI agent:', error);
+      return null;
+    }
+
+    return data;
+  }
+
+  // Agent version operations; versions are never updated or deleted
+  static async getAgentVersions(agentId: string): Promise<AgentVersion[]> {
+    if (this.isDemoMode()) {
+      return [];
+    }
+
+    const { data, error } = await supabase
+      .from('agent_versions')
+      .select('*')
+      .eq('agent_id', agentId)
+      .order('version', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching agent versions:', error);
+      return [];
+    }
+
+    return data || [];
+  }
+
+  static async createAgentVersion(version: Omit<AgentVersion, 'id' | 'created_at'>): Promise<AgentVersion> {
+    if (this.isDemoMode()) {
+      console.log('Demo mode: agent version creation simulated');
+      return {
+        ...version,
+        id: 'demo-agent-version-' + Date.now(),
+        created_at: new Date().toISOString()
+      };
+    }
+
+    const { data, error } = await supabase
+      .from('agent_versions')
+      .insert(version)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error creating agent version:', error);
+      throw error;
+    }
+
+    return data;
+  }
+
+  // Knowledge base operations
+  static async getKnowledgeDocuments(agentId: string): Promise<KnowledgeDocument[]> {
+    if (this.isDemoMode()) {
+      return [];
+    }
+
+    const { data, error } = await supabase
+      .from('knowledge_documents')
+      .select('*')
+      .eq('agent_id', agentId)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching knowledge documents:', error);
+      return [];
+    }
+
+    return data || [];
+  }
+
+  static async createKnowledgeDocument(document: Omit<KnowledgeDocument, 'id' | 'created_at'>): Promise<KnowledgeDocument> {
+    if (this.isDemoMode()) {
+      throw new Error('Knowledge base not available in demo mode');
+    }
+
+    const { data, error } = await supabase
+      .from('knowledge_documents')
+      .insert(document)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error creating knowledge document:', error);
+      throw error;
+    }
+
+    return data;
+  }
+
+  // Chunks go with their document
+  static async deleteKnowledgeDocument(id: string): Promise<boolean> {
+    if (this.isDemoMode()) {
+      throw new Error('Knowledge base not available in demo mode');
+    }
+
+    const { error: chunksError } = await supabase
+      .from('knowledge_chunks')
+      .delete()
+      .eq('document_id', id);
+
+    if (chunksError) {
+      console.error('Error deleting knowledge chunks:', chunksError);
+      throw chunksError;
+    }
+
+    const { error } = await supabase
+      .from('knowledge_documents')
+      .delete()
+      .eq('id', id);
+
+    if (error) {
+      console.error('Error deleting knowledge document:', error);
+      throw error;
+    }
+
+    return true;
+  }
+
+  static async getKnowledgeChunks(agentId: string): Promise<KnowledgeChunk[]> {
+    if (this.isDemoMode()) {
+      return [];
+    }
+
+    const { data, error } = await supabase
+      .from('knowledge_chunks')
+      .select(`
+        *,
+        knowledge_documents(name)
+      `)
+      .eq('agent_id', agentId)
+      .order('chunk_index', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching knowledge chunks:', error);
+      return [];
+    }
+
+    return data || [];
+  }
+
+  static async createKnowledgeChunks(chunks: Omit<KnowledgeChunk, 'id' | 'created_at'>[]): Promise<boolean> {
+    if (this.isDemoMode()) {
+      throw new Error('Knowledge base not available in demo mode');
+    }
+    if (chunks.length === 0) {
+      return true;
+    }
+
+    const { error } = await supabase
+      .from('knowledge_chunks')
+      .insert(chunks);
+
+    if (error) {
+      console.error('Error creating knowledge chunks:', error);
+      throw error;
+    }
+
+    return true;
+  }
+
   // Call logs operations
   static async getCallLogs(profileId: string, limit = 50, offset = 0): Promise<CallLog[]> {
     if (this.isDemoMode()) {
@@ -222,7 +435,11 @@ export class DatabaseService {
 
     const { data, error } = await supabase
       .from('call_logs')
-      .insert(callLog)
+      .insert({
+        ...callLog,
+        phone_number_from: normalizePhoneNumber(callLog.phone_number_from),
+        phone_number_to: normalizePhoneNumber(callLog.phone_number_to)
+      })
       .select()
       .single();
 
@@ -234,6 +451,25 @@ export class DatabaseService {
     return data;
   }
 
+  static async getCallLog(id: string): Promise<CallLog | null> {
+    if (this.isDemoMode()) {
+      return this.getDemoCallLogs().find(call => call.id === id) || null;
+    }
+
+    const { data, error } = await supabase
+      .from('call_logs')
+      .select('*')
+      .eq('id', id)
+      .single();
+
+    if (error) {
+      console.error('Error fetching call log:', error);
+      return null;
+    }
+
+    return data;
+  }
+
   static async updateCallLog(id: string, updates: Partial<CallLog>): Promise<CallLog | null> {
     if (this.isDemoMode()) {
       console.log('Demo mode: Call log update simulated');
@@ -255,6 +491,49 @@ export class DatabaseService {
     return data;
   }
 
+  // Inbound calls the voice runtime logged and that still wait to be routed
+  static async getPendingInboundCalls(limit = 50): Promise<CallLog[]> {
+    if (this.isDemoMode()) {
+      return [];
+    }
+
+    const { data, error } = await supabase
+      .from('call_logs')
+      .select('*')
+      .eq('direction', 'inbound')
+      .eq('status', 'pending')
+      .order('started_at', { ascending: true })
+      .limit(limit);
+
+    if (error) {
+      console.error('Error fetching pending inbound calls:', error);
+      return [];
+    }
+
+    return data || [];
+  }
+
+  // Marks a pending inbound call as being routed; false if another worker got it first
+  static async claimInboundCall(id: string): Promise<boolean> {
+    if (this.isDemoMode()) {
+      return false;
+    }
+
+    const { data, error } = await supabase
+      .from('call_logs')
+      .update({ status: 'in_progress' })
+      .eq('id', id)
+      .eq('status', 'pending')
+      .select('id');
+
+    if (error) {
+      console.error('Error claiming inbound call:', error);
+      return false;
+    }
+
+    return (data || []).length > 0;
+  }
+
   // Campaign operations
   static async getCampaigns(profileId: string): Promise<Campaign[]> {
     if (this.isDemoMode()) {
@@ -342,6 +621,31 @@ export class DatabaseService {
     return data;
   }
 
+  // Adds to the campaign's counters in one statement (increment_campaign_stats), so concurrent calls all count
+  static async incrementCampaignStats(
+    id: string,
+    increments: Required<Pick<Campaign, 'leads_called' | 'leads_answered' | 'leads_completed' | 'minutes_used'>>
+  ): Promise<Campaign | null> {
+    if (this.isDemoMode()) {
+      return null;
+    }
+
+    const { data, error } = await supabase.rpc('increment_campaign_stats', {
+      target_campaign_id: id,
+      called: increments.leads_called,
+      answered: increments.leads_answered,
+      completed: increments.leads_completed,
+      minutes: increments.minutes_used
+    });
+
+    if (error) {
+      console.error('Error updating campaign stats:', error);
+      throw error;
+    }
+
+    return data;
+  }
+
   static async deleteCampaign(id: string): Promise<boolean> {
     if (this.isDemoMode()) {
       console.log('Demo mode: Campaign deletion simulated');
@@ -361,9 +665,68 @@ export class DatabaseService {
     return true;
   }
 
+  // Campaign template operations
+  static async getCampaignTemplates(profileId: string): Promise<CampaignTemplate[]> {
+    if (this.isDemoMode()) {
+      return [];
+    }
+
+    const { data, error } = await supabase
+      .from('campaign_templates')
+      .select('*')
+      .eq('profile_id', profileId)
+      .order('name', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching campaign templates:', error);
+      return [];
+    }
+
+    return data || [];
+  }
+
+  static async createCampaignTemplate(template: Omit<CampaignTemplate, 'id' | 'created_at' | 'updated_at'>): Promise<CampaignTemplate> {
+    if (this.isDemoMode()) {
+      throw new Error('Campaign templates not available in demo mode');
+    }
+
+    const { data, error } = await supabase
+      .from('campaign_templates')
+      .insert(template)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error creating campaign template:', error);
+      throw error;
+    }
+
+    return data;
+  }
+
+  static async deleteCampaignTemplate(id: string): Promise<boolean> {
+    if (this.isDemoMode()) {
+      throw new Error('Campaign templates not available in demo mode');
+    }
+
+    const { error } = await supabase
+      .from('campaign_templates')
+      .delete()
+      .eq('id', id);
+
+    if (error) {
+      console.error('Error deleting campaign template:', error);
+      throw error;
+    }
+
+    return true;
+  }
+
   // Campaign leads operations
-  static async getCampaignLeads(campaignId: string, options: { limit?: number; offset?: number; status?: string[]; } = {}): Promise<CampaignLead[]> {
-    const { limit = 100, offset = 0, status } = options;
+  // `filters` narrow the query where the database can evaluate them; the result can still hold
+  // leads a rule does not match, so callers check them with LeadSegmentService.matches
+  static async getCampaignLeads(campaignId: string, options: { limit?: number; offset?: number; status?: string[]; filters?: LeadSegmentRule[] } = {}): Promise<CampaignLead[]> {
+    const { limit = 100, offset = 0, status, filters = [] } = options;
     
     if (this.isDemoMode()) {
       return this.getDemoCampaignLeads();
@@ -378,6 +741,10 @@ export class DatabaseService {
       query = query.in('status', status);
     }
 
+    for (const rule of filters) {
+      query = this.applyLeadFilter(query, rule);
+    }
+
     query = query
       .order('priority', { ascending: false })
       .order('created_at', { ascending: false })
@@ -393,6 +760,61 @@ export class DatabaseService {
     return data || [];
   }
 
+  // Narrows the query by one segment rule, only where that can never drop a lead the rule matches
+  // (null handling and case differ between SQL and LeadSegmentService.matches)
+  private static applyLeadFilter<Q extends ReturnType<ReturnType<typeof supabase.from>['select']>>(query: Q, rule: LeadSegmentRule): Q {
+    const isCustom = rule.field.startsWith('custom_fields.');
+    const kind = isCustom ? 'text' : LEAD_FILTER_COLUMNS[rule.field];
+    if (!kind) {
+      return query;
+    }
+
+    const column = isCustom ? `custom_fields->>${rule.field.slice('custom_fields.'.length)}` : rule.field;
+    const values = Array.isArray(rule.value) ? rule.value : [String(rule.value ?? '')];
+    const value = values[0].trim();
+    // Escape LIKE wildcards typed by the user
+    const pattern = value.replace(/[%_\\]/g, match => `\\${match}`);
+
+    switch (rule.operator) {
+      case 'equals':
+        if (kind === 'text') return query.ilike(column, pattern) as Q;
+        return kind === 'number' ? query.eq(column, value) as Q : query;
+      case 'contains': return kind === 'text' ? query.ilike(column, `%${pattern}%`) as Q : query;
+      case 'starts_with': return kind === 'text' ? query.ilike(column, `${pattern}%`) as Q : query;
+      case 'in': return kind === 'choice' ? query.in(column, values.map(item => item.trim().toLowerCase())) as Q : query;
+      case 'is_not_empty': return query.not(column, 'is', null) as Q;
+      case 'lt': return kind === 'number' || kind === 'date' ? query.lt(column, value) as Q : query;
+      case 'gt': return kind === 'number' || kind === 'date' ? query.gt(column, value) as Q : query;
+      default: return query;
+    }
+  }
+
+  // Existing leads with any of the given (E.164) numbers, across one or more campaigns
+  static async findCampaignLeadsByPhone(campaignIds: string[], phoneNumbers: string[]): Promise<CampaignLead[]> {
+    if (this.isDemoMode() || campaignIds.length === 0 || phoneNumbers.length === 0) {
+      return [];
+    }
+
+    const leads: CampaignLead[] = [];
+    // Keep the IN list short enough for the request URL
+    for (let start = 0; start < phoneNumbers.length; start += 200) {
+      const { data, error } = await supabase
+        .from('campaign_leads')
+        .select('*')
+        .in('campaign_id', campaignIds)
+        .in('phone_number', phoneNumbers.slice(start, start + 200));
+
+      if (error) {
+        console.error('Error finding campaign leads by phone:', error);
+        throw error;
+      }
+
+      leads.push(...(data || []));
+    }
+
+    return leads;
+  }
+
   // Appointments operations
   static async getAppointments(profileId: string): Promise<Appointment[]> {
     if (this.isDemoMode()) {
@@ -548,7 +970,7 @@ export class DatabaseService {
 
     const { data, error } = await supabase
       .from('dnc_lists')
-      .insert(entry)
+      .insert({ ...entry, phone_number: normalizePhoneNumber(entry.phone_number) })
       .select()
       .single();
 
@@ -566,12 +988,905 @@ export class DatabaseService {
     }
 
     const { error } = await supabase
-      .from('dnc_lists')
+      .from('dnc_lists')
+      .delete()
+      .eq('id', id);
+
+    if (error) {
+      console.error('Error deleting DNC entry:', error);
+      throw error;
+    }
+
+    return true;
+  }
+
+  // Caller ID pool
+  static async getCallerIdNumbers(profileId: string): Promise<CallerIdNumber[]> {
+    if (this.isDemoMode()) {
+      return [];
+    }
+
+    const { data, error } = await supabase
+      .from('caller_id_numbers')
+      .select('*')
+      .eq('profile_id', profileId)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching caller ID numbers:', error);
+      return [];
+    }
+
+    return data || [];
+  }
+
+  static async getCallerIdNumber(id: string): Promise<CallerIdNumber | null> {
+    if (this.isDemoMode()) {
+      return null;
+    }
+
+    const { data, error } = await supabase
+      .from('caller_id_numbers')
+      .select('*')
+      .eq('id', id)
+      .single();
+
+    if (error) {
+      console.error('Error fetching caller ID number:', error);
+      return null;
+    }
+
+    return data;
+  }
+
+  static async addCallerIdNumber(
+    entry: Pick<CallerIdNumber, 'profile_id' | 'phone_number' | 'daily_limit'> & Partial<CallerIdNumber>
+  ): Promise<CallerIdNumber> {
+    if (this.isDemoMode()) {
+      throw new Error('Caller ID pool not available in demo mode');
+    }
+
+    const phoneNumber = normalizePhoneNumber(entry.phone_number);
+    const areaCode = getAreaCode(phoneNumber);
+
+    const { data, error } = await supabase
+      .from('caller_id_numbers')
+      .insert({
+        status: 'active',
+        calls_today: 0,
+        total_calls: 0,
+        answered_calls: 0,
+        ...entry,
+        phone_number: phoneNumber,
+        area_code: areaCode ?? undefined,
+        region: (areaCode && getRegionForAreaCode(areaCode)) || undefined
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error adding caller ID number:', error);
+      throw error;
+    }
+
+    return data;
+  }
+
+  static async updateCallerIdNumber(id: string, updates: Partial<CallerIdNumber>): Promise<CallerIdNumber | null> {
+    if (this.isDemoMode()) {
+      throw new Error('Caller ID pool not available in demo mode');
+    }
+
+    const { data, error } = await supabase
+      .from('caller_id_numbers')
+      .update(updates)
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error updating caller ID number:', error);
+      throw error;
+    }
+
+    return data;
+  }
+
+  static async deleteCallerIdNumber(id: string): Promise<boolean> {
+    if (this.isDemoMode()) {
+      throw new Error('Caller ID pool not available in demo mode');
+    }
+
+    const { error } = await supabase
+      .from('caller_id_numbers')
+      .delete()
+      .eq('id', id);
+
+    if (error) {
+      console.error('Error deleting caller ID number:', error);
+      throw error;
+    }
+
+    return true;
+  }
+
+  // Counts one call against the number's daily limit, only if nobody else used it since it was read
+  static async reserveCallerIdNumber(number: CallerIdNumber, updates: Partial<CallerIdNumber>): Promise<CallerIdNumber | null> {
+    if (this.isDemoMode()) {
+      return null;
+    }
+
+    let query = supabase
+      .from('caller_id_numbers')
+      .update(updates)
+      .eq('id', number.id)
+      .eq('calls_today', number.calls_today);
+    query = number.usage_date ? query.eq('usage_date', number.usage_date) : query.is('usage_date', null);
+
+    const { data, error } = await query.select();
+
+    if (error) {
+      console.error('Error reserving caller ID number:', error);
+      return null;
+    }
+
+    return data?.[0] || null;
+  }
+
+  // Applies an outcome to the number's counters, only if no other outcome was recorded since it was read
+  static async recordCallerIdOutcome(number: CallerIdNumber, updates: Partial<CallerIdNumber>): Promise<CallerIdNumber | null> {
+    if (this.isDemoMode()) {
+      return null;
+    }
+
+    const { data, error } = await supabase
+      .from('caller_id_numbers')
+      .update(updates)
+      .eq('id', number.id)
+      .eq('total_calls', number.total_calls)
+      .select();
+
+    if (error) {
+      console.error('Error recording caller ID outcome:', error);
+      return null;
+    }
+
+    return data?.[0] || null;
+  }
+
+  // Lead segment operations
+  static async getLeadSegments(profileId: string): Promise<LeadSegment[]> {
+    if (this.isDemoMode()) {
+      return [];
+    }
+
+    const { data, error } = await supabase
+      .from('lead_segments')
+      .select('*')
+      .eq('profile_id', profileId)
+      .order('name', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching lead segments:', error);
+      return [];
+    }
+
+    return data || [];
+  }
+
+  static async getLeadSegment(id: string): Promise<LeadSegment | null> {
+    if (this.isDemoMode()) {
+      return null;
+    }
+
+    const { data, error } = await supabase
+      .from('lead_segments')
+      .select('*')
+      .eq('id', id)
+      .single();
+
+    if (error) {
+      console.error('Error fetching lead segment:', error);
+      return null;
+    }
+
+    return data;
+  }
+
+  static async createLeadSegment(segment: Omit<LeadSegment, 'id' | 'created_at' | 'updated_at'>): Promise<LeadSegment> {
+    if (this.isDemoMode()) {
+      throw new Error('Lead segments not available in demo mode');
+    }
+
+    const { data, error } = await supabase
+      .from('lead_segments')
+      .insert(segment)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error creating lead segment:', error);
+      throw error;
+    }
+
+    return data;
+  }
+
+  static async updateLeadSegment(id: string, updates: Partial<LeadSegment>): Promise<LeadSegment | null> {
+    if (this.isDemoMode()) {
+      throw new Error('Lead segments not available in demo mode');
+    }
+
+    const { data, error } = await supabase
+      .from('lead_segments')
+      .update(updates)
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error updating lead segment:', error);
+      throw error;
+    }
+
+    return data;
+  }
+
+  static async deleteLeadSegment(id: string): Promise<boolean> {
+    if (this.isDemoMode()) {
+      throw new Error('Lead segments not available in demo mode');
+    }
+
+    const { error } = await supabase
+      .from('lead_segments')
+      .delete()
+      .eq('id', id);
+
+    if (error) {
+      console.error('Error deleting lead segment:', error);
+      throw error;
+    }
+
+    return true;
+  }
+
+  // Suppression list operations
+  static async getSuppressionLists(profileId: string): Promise<SuppressionList[]> {
+    if (this.isDemoMode()) {
+      return [];
+    }
+
+    const { data, error } = await supabase
+      .from('suppression_lists')
+      .select('*')
+      .eq('profile_id', profileId)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching suppression lists:', error);
+      return [];
+    }
+
+    return data || [];
+  }
+
+  static async createSuppressionList(list: Omit<SuppressionList, 'id' | 'created_at' | 'updated_at'>): Promise<SuppressionList> {
+    if (this.isDemoMode()) {
+      throw new Error('Suppression lists not available in demo mode');
+    }
+
+    const { data, error } = await supabase
+      .from('suppression_lists')
+      .insert(list)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error creating suppression list:', error);
+      throw error;
+    }
+
+    return data;
+  }
+
+  static async updateSuppressionList(id: string, updates: Partial<SuppressionList>): Promise<SuppressionList | null> {
+    if (this.isDemoMode()) {
+      throw new Error('Suppression lists not available in demo mode');
+    }
+
+    const { data, error } = await supabase
+      .from('suppression_lists')
+      .update(updates)
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error updating suppression list:', error);
+      throw error;
+    }
+
+    return data;
+  }
+
+  // Entries go with the list
+  static async deleteSuppressionList(id: string): Promise<boolean> {
+    if (this.isDemoMode()) {
+      throw new Error('Suppression lists not available in demo mode');
+    }
+
+    const { error: entriesError } = await supabase
+      .from('suppression_entries')
+      .delete()
+      .eq('list_id', id);
+
+    if (entriesError) {
+      console.error('Error deleting suppression entries:', entriesError);
+      throw entriesError;
+    }
+
+    const { error } = await supabase
+      .from('suppression_lists')
+      .delete()
+      .eq('id', id);
+
+    if (error) {
+      console.error('Error deleting suppression list:', error);
+      throw error;
+    }
+
+    return true;
+  }
+
+  static async getSuppressionEntries(listId: string): Promise<SuppressionEntry[]> {
+    if (this.isDemoMode()) {
+      return [];
+    }
+
+    const { data, error } = await supabase
+      .from('suppression_entries')
+      .select('*')
+      .eq('list_id', listId)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching suppression entries:', error);
+      return [];
+    }
+
+    return data || [];
+  }
+
+  static async addSuppressionEntries(entries: Omit<SuppressionEntry, 'id' | 'created_at'>[]): Promise<SuppressionEntry[]> {
+    if (this.isDemoMode()) {
+      throw new Error('Suppression lists not available in demo mode');
+    }
+    if (entries.length === 0) {
+      return [];
+    }
+
+    // Unique per list, type and value: adding an entry twice is not an error
+    const { data, error } = await supabase
+      .from('suppression_entries')
+      .upsert(entries, { onConflict: 'list_id,type,value', ignoreDuplicates: true })
+      .select();
+
+    if (error) {
+      console.error('Error adding suppression entries:', error);
+      throw error;
+    }
+
+    return data || [];
+  }
+
+  static async deleteSuppressionEntry(id: string): Promise<boolean> {
+    if (this.isDemoMode()) {
+      throw new Error('Suppression lists not available in demo mode');
+    }
+
+    const { error } = await supabase
+      .from('suppression_entries')
+      .delete()
+      .eq('id', id);
+
+    if (error) {
+      console.error('Error deleting suppression entry:', error);
+      throw error;
+    }
+
+    return true;
+  }
+
+  // Entries of the profile's lists holding any of the given normalized values; throws so callers can fail closed
+  static async findSuppressionEntries(profileId: string, values: string[]): Promise<SuppressionEntry[]> {
+    if (this.isDemoMode() || values.length === 0) {
+      return [];
+    }
+
+    const entries: SuppressionEntry[] = [];
+    // Keep the IN list short enough for the request URL
+    for (let start = 0; start < values.length; start += 200) {
+      const { data, error } = await supabase
+        .from('suppression_entries')
+        .select('*')
+        .eq('profile_id', profileId)
+        .in('value', values.slice(start, start + 200));
+
+      if (error) {
+        console.error('Error looking up suppression entries:', error);
+        throw error;
+      }
+
+      entries.push(...(data || []));
+    }
+
+    return entries;
+  }
+
+  // Lead callback operations
+  static async getLeadCallbacks(
+    profileId: string,
+    options: { campaignId?: string; status?: LeadCallback['status'][]; dueBefore?: string; limit?: number } = {}
+  ): Promise<LeadCallback[]> {
+    if (this.isDemoMode()) {
+      return [];
+    }
+
+    let query = supabase
+      .from('lead_callbacks')
+      .select(`
+        *,
+        campaign_leads(first_name, last_name, phone_number, company, status),
+        outbound_campaigns(name)
+      `)
+      .eq('profile_id', profileId);
+
+    if (options.campaignId) {
+      query = query.eq('campaign_id', options.campaignId);
+    }
+    if (options.status && options.status.length > 0) {
+      query = query.in('status', options.status);
+    }
+    if (options.dueBefore) {
+      query = query.lte('scheduled_at', options.dueBefore);
+    }
+
+    const { data, error } = await query
+      .order('scheduled_at', { ascending: true })
+      .limit(options.limit || 500);
+
+    if (error) {
+      console.error('Error fetching lead callbacks:', error);
+      return [];
+    }
+
+    return data || [];
+  }
+
+  // Callbacks still waiting to be dialed for one lead, earliest first
+  static async getScheduledCallbacks(leadId: string): Promise<LeadCallback[]> {
+    if (this.isDemoMode()) {
+      return [];
+    }
+
+    const { data, error } = await supabase
+      .from('lead_callbacks')
+      .select('*')
+      .eq('lead_id', leadId)
+      .eq('status', 'scheduled')
+      .order('scheduled_at', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching scheduled callbacks:', error);
+      return [];
+    }
+
+    return data || [];
+  }
+
+  static async createLeadCallback(callback: Omit<LeadCallback, 'id' | 'created_at' | 'updated_at'>): Promise<LeadCallback> {
+    if (this.isDemoMode()) {
+      throw new Error('Callbacks not available in demo mode');
+    }
+
+    const { data, error } = await supabase
+      .from('lead_callbacks')
+      .insert(callback)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error creating lead callback:', error);
+      throw error;
+    }
+
+    return data;
+  }
+
+  static async updateLeadCallback(id: string, updates: Partial<LeadCallback>): Promise<LeadCallback | null> {
+    if (this.isDemoMode()) {
+      throw new Error('Callbacks not available in demo mode');
+    }
+
+    const { data, error } = await supabase
+      .from('lead_callbacks')
+      .update(updates)
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error updating lead callback:', error);
+      throw error;
+    }
+
+    return data;
+  }
+
+  // Agent tool operations
+  static async getAgentTools(agentId: string): Promise<AgentTool[]> {
+    if (this.isDemoMode()) {
+      return [];
+    }
+
+    const { data, error } = await supabase
+      .from('agent_tools')
+      .select('*')
+      .eq('agent_id', agentId)
+      .order('name', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching agent tools:', error);
+      return [];
+    }
+
+    return data || [];
+  }
+
+  static async createAgentTool(tool: Omit<AgentTool, 'id' | 'created_at' | 'updated_at'>): Promise<AgentTool> {
+    if (this.isDemoMode()) {
+      throw new Error('Agent tools not available in demo mode');
+    }
+
+    const { data, error } = await supabase
+      .from('agent_tools')
+      .insert(tool)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error creating agent tool:', error);
+      throw error;
+    }
+
+    return data;
+  }
+
+  static async updateAgentTool(id: string, updates: Partial<AgentTool>): Promise<AgentTool> {
+    if (this.isDemoMode()) {
+      throw new Error('Agent tools not available in demo mode');
+    }
+
+    const { data, error } = await supabase
+      .from('agent_tools')
+      .update({ ...updates, updated_at: new Date().toISOString() })
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error updating agent tool:', error);
+      throw error;
+    }
+
+    return data;
+  }
+
+  static async deleteAgentTool(id: string): Promise<boolean> {
+    if (this.isDemoMode()) {
+      throw new Error('Agent tools not available in demo mode');
+    }
+
+    const { error } = await supabase
+      .from('agent_tools')
+      .delete()
+      .eq('id', id);
+
+    if (error) {
+      console.error('Error deleting agent tool:', error);
+      throw error;
+    }
+
+    return true;
+  }
+
+  static async getAgentTool(id: string): Promise<AgentTool | null> {
+    if (this.isDemoMode()) {
+      return null;
+    }
+
+    const { data, error } = await supabase
+      .from('agent_tools')
+      .select('*')
+      .eq('id', id)
+      .single();
+
+    if (error) {
+      console.error('Error fetching agent tool:', error);
+      return null;
+    }
+
+    return data;
+  }
+
+  // Through set_agent_tool_secret: agent_tool_secrets has no policies, so only the worker's key reads it back
+  static async setAgentToolSecret(toolId: string, secret: string): Promise<void> {
+    if (this.isDemoMode()) {
+      throw new Error('Agent tools not available in demo mode');
+    }
+
+    const { error } = await supabase.rpc('set_agent_tool_secret', {
+      target_tool_id: toolId,
+      new_secret: secret
+    });
+
+    if (error) {
+      console.error('Error saving agent tool secret:', error);
+      throw error;
+    }
+  }
+
+  static async getAgentToolSecret(toolId: string): Promise<string | null> {
+    if (this.isDemoMode()) {
+      return null;
+    }
+
+    const { data, error } = await supabase
+      .from('agent_tool_secrets')
+      .select('secret')
+      .eq('tool_id', toolId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching agent tool secret:', error);
+      return null;
+    }
+
+    return data?.secret || null;
+  }
+
+  // Agent tool calls, run by the dialer worker
+  static async createAgentToolCall(
+    request: Pick<AgentToolCall, 'profile_id' | 'name' | 'args'> & Partial<Pick<AgentToolCall, 'call_id' | 'tool_id'>>
+  ): Promise<AgentToolCall | null> {
+    if (this.isDemoMode()) {
+      return null;
+    }
+
+    const { data, error } = await supabase
+      .from('agent_tool_calls')
+      .insert({ ...request, status: 'pending' })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error queueing agent tool call:', error);
+      throw error;
+    }
+
+    return data;
+  }
+
+  static async getAgentToolCall(id: string): Promise<AgentToolCall | null> {
+    if (this.isDemoMode()) {
+      return null;
+    }
+
+    const { data, error } = await supabase
+      .from('agent_tool_calls')
+      .select('*')
+      .eq('id', id)
+      .single();
+
+    if (error) {
+      console.error('Error fetching agent tool call:', error);
+      return null;
+    }
+
+    return data;
+  }
+
+  static async getPendingAgentToolCalls(limit = 50): Promise<AgentToolCall[]> {
+    if (this.isDemoMode()) {
+      return [];
+    }
+
+    const { data, error } = await supabase
+      .from('agent_tool_calls')
+      .select('*')
+      .eq('status', 'pending')
+      .order('created_at', { ascending: true })
+      .limit(limit);
+
+    if (error) {
+      console.error('Error fetching agent tool calls:', error);
+      return [];
+    }
+
+    return data || [];
+  }
+
+  // Marks a pending tool call as taken by this worker; false if another worker got it first
+  static async claimAgentToolCall(id: string, workerId: string): Promise<boolean> {
+    if (this.isDemoMode()) {
+      return false;
+    }
+
+    const { data, error } = await supabase
+      .from('agent_tool_calls')
+      .update({ status: 'processing', processed_by: workerId })
+      .eq('id', id)
+      .eq('status', 'pending')
+      .select('id');
+
+    if (error) {
+      console.error('Error claiming agent tool call:', error);
+      return false;
+    }
+
+    return (data || []).length > 0;
+  }
+
+  static async finishAgentToolCall(id: string, result: NonNullable<AgentToolCall['result']>): Promise<boolean> {
+    if (this.isDemoMode()) {
+      return true;
+    }
+
+    const { error } = await supabase
+      .from('agent_tool_calls')
+      .update({
+        status: result.success ? 'completed' : 'failed',
+        result,
+        processed_at: new Date().toISOString()
+      })
+      .eq('id', id);
+
+    if (error) {
+      console.error('Error finishing agent tool call:', error);
+      return false;
+    }
+
+    return true;
+  }
+
+  // Agent test case operations
+  static async getAgentTestCases(agentId: string): Promise<AgentTestCase[]> {
+    if (this.isDemoMode()) {
+      return [];
+    }
+
+    const { data, error } = await supabase
+      .from('agent_test_cases')
+      .select('*')
+      .eq('agent_id', agentId)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching agent test cases:', error);
+      return [];
+    }
+
+    return data || [];
+  }
+
+  static async createAgentTestCase(testCase: Omit<AgentTestCase, 'id' | 'created_at' | 'updated_at'>): Promise<AgentTestCase> {
+    if (this.isDemoMode()) {
+      throw new Error('Test cases not available in demo mode');
+    }
+
+    const { data, error } = await supabase
+      .from('agent_test_cases')
+      .insert(testCase)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error creating agent test case:', error);
+      throw error;
+    }
+
+    return data;
+  }
+
+  static async updateAgentTestCase(id: string, updates: Partial<AgentTestCase>): Promise<AgentTestCase | null> {
+    if (this.isDemoMode()) {
+      return null;
+    }
+
+    const { data, error } = await supabase
+      .from('agent_test_cases')
+      .update({ ...updates, updated_at: new Date().toISOString() })
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error updating agent test case:', error);
+      return null;
+    }
+
+    return data;
+  }
+
+  static async deleteAgentTestCase(id: string): Promise<boolean> {
+    if (this.isDemoMode()) {
+      throw new Error('Test cases not available in demo mode');
+    }
+
+    const { error } = await supabase
+      .from('agent_test_cases')
+      .delete()
+      .eq('id', id);
+
+    if (error) {
+      console.error('Error deleting agent test case:', error);
+      throw error;
+    }
+
+    return true;
+  }
+
+  // Business holiday operations
+  static async getBusinessHolidays(profileId: string): Promise<BusinessHoliday[]> {
+    if (this.isDemoMode()) {
+      return [];
+    }
+
+    const { data, error } = await supabase
+      .from('business_holidays')
+      .select('*')
+      .eq('profile_id', profileId)
+      .order('date', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching business holidays:', error);
+      return [];
+    }
+
+    return data || [];
+  }
+
+  static async createBusinessHoliday(holiday: Omit<BusinessHoliday, 'id' | 'created_at'>): Promise<BusinessHoliday> {
+    if (this.isDemoMode()) {
+      throw new Error('Holidays not available in demo mode');
+    }
+
+    const { data, error } = await supabase
+      .from('business_holidays')
+      .insert(holiday)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error creating business holiday:', error);
+      throw error;
+    }
+
+    return data;
+  }
+
+  static async deleteBusinessHoliday(id: string): Promise<boolean> {
+    if (this.isDemoMode()) {
+      throw new Error('Holidays not available in demo mode');
+    }
+
+    const { error } = await supabase
+      .from('business_holidays')
       .delete()
       .eq('id', id);
 
     if (error) {
-      console.error('Error deleting DNC entry:', error);
+      console.error('Error deleting business holiday:', error);
       throw error;
     }
 
@@ -1134,7 +2449,7 @@ export class DatabaseService {
 
     const { data, error } = await supabase
       .from('dnc_lists')
-      .insert(entries)
+      .insert(entries.map(entry => ({ ...entry, phone_number: normalizePhoneNumber(entry.phone_number) })))
       .select();
 
     if (error) {
@@ -1154,26 +2469,32 @@ export class DatabaseService {
       .from('dnc_lists')
       .select('id')
       .eq('profile_id', profileId)
-      .eq('phone_number', phoneNumber)
+      .in('phone_number', phoneNumberVariants(phoneNumber))
       .eq('is_active', true)
-      .single();
+      .limit(1);
 
-    if (error && error.code !== 'PGRST116') {
+    if (error) {
       console.error('Error checking DNC status:', error);
       return false;
     }
 
-    return !!data;
+    return !!data && data.length > 0;
   }
 
   static async bulkCreateCampaignLeads(leads: Omit<CampaignLead, 'id' | 'created_at' | 'updated_at'>[]): Promise<CampaignLead[]> {
     if (this.isDemoMode()) {
-      throw new Error('Campaign lead management not available in demo mode');
+      console.log('Demo mode: Bulk campaign lead creation simulated');
+      return leads.map((lead, index) => ({
+        ...lead,
+        id: `demo-lead-${Date.now()}-${index}`,
+        created_at: new Date().toISOString(),
+        updated_at: new Date().toISOString()
+      }));
     }
 
     const { data, error } = await supabase
       .from('campaign_leads')
-      .insert(leads)
+      .insert(leads.map(lead => ({ ...lead, phone_number: normalizePhoneNumber(lead.phone_number) })))
       .select();
 
     if (error) {
@@ -1198,7 +2519,7 @@ export class DatabaseService {
 
     const { data, error } = await supabase
       .from('campaign_leads')
-      .insert(lead)
+      .insert({ ...lead, phone_number: normalizePhoneNumber(lead.phone_number) })
       .select()
       .single();
 
@@ -1210,6 +2531,25 @@ export class DatabaseService {
     return data;
   }
 
+  static async getCampaignLead(id: string): Promise<CampaignLead | null> {
+    if (this.isDemoMode()) {
+      return null;
+    }
+
+    const { data, error } = await supabase
+      .from('campaign_leads')
+      .select('*')
+      .eq('id', id)
+      .single();
+
+    if (error) {
+      console.error('Error fetching campaign lead:', error);
+      return null;
+    }
+
+    return data;
+  }
+
   static async updateCampaignLead(id: string, updates: Partial<CampaignLead>): Promise<CampaignLead | null> {
     if (this.isDemoMode()) {
       throw new Error('Campaign lead management not available in demo mode');
@@ -1217,7 +2557,7 @@ export class DatabaseService {
 
     const { data, error } = await supabase
       .from('campaign_leads')
-      .update(updates)
+      .update(updates.phone_number ? { ...updates, phone_number: normalizePhoneNumber(updates.phone_number) } : updates)
       .eq('id', id)
       .select()
       .single();
@@ -1347,21 +2687,28 @@ export class DatabaseService {
     agent_id?: string
     priority?: string
     scheduled_at?: string
-  }): Promise<boolean> {
+    status?: DialerQueueEntry['status']
+    lease_owner?: string
+    lease_expires_at?: string
+    started_at?: string
+    metadata?: Record<string, string>
+  }): Promise<DialerQueueEntry | null> {
     if (this.isDemoMode()) {
-      return true;
+      return null;
     }
 
-    const { error } = await supabase
+    const { data, error } = await supabase
       .from('dialer_queue')
-      .insert(entry);
+      .insert(entry)
+      .select()
+      .single();
 
     if (error) {
       console.error('Error adding to dialer queue:', error);
-      return false;
+      return null;
     }
 
-    return true;
+    return data;
   }
 
   static async getDialerQueue(profileId: string, campaignId?: string): Promise<any[]> {
@@ -1407,7 +2754,7 @@ export class DatabaseService {
 
     if (status === 'dialing') {
       updateData.started_at = new Date().toISOString();
-    } else if (status === 'completed' || status === 'failed') {
+    } else if (status === 'completed' || status === 'failed' || status === 'cancelled') {
       updateData.completed_at = new Date().toISOString();
     }
 
@@ -1428,6 +2775,316 @@ export class DatabaseService {
     return true;
   }
 
+  static async updateDialerQueueEntry(queueId: string, updates: Partial<DialerQueueEntry>): Promise<boolean> {
+    if (this.isDemoMode()) {
+      return true;
+    }
+
+    const { error } = await supabase
+      .from('dialer_queue')
+      .update({ ...updates, updated_at: new Date().toISOString() })
+      .eq('id', queueId);
+
+    if (error) {
+      console.error('Error updating dialer queue entry:', error);
+      return false;
+    }
+
+    return true;
+  }
+
+  // Extends the lease on every in-flight attempt held by the worker
+  static async renewDialerLeases(workerId: string, leaseSeconds: number): Promise<boolean> {
+    if (this.isDemoMode()) {
+      return true;
+    }
+
+    const { error } = await supabase
+      .from('dialer_queue')
+      .update({ lease_expires_at: new Date(Date.now() + leaseSeconds * 1000).toISOString() })
+      .eq('lease_owner', workerId)
+      .eq('status', 'dialing');
+
+    if (error) {
+      console.error('Error renewing dialer leases:', error);
+      return false;
+    }
+
+    return true;
+  }
+
+  // Takes over attempts whose worker stopped renewing; each row is claimed only if nobody beat us to it
+  static async claimExpiredDialerLeases(workerId: string, leaseSeconds: number, limit = 100): Promise<DialerQueueEntry[]> {
+    if (this.isDemoMode()) {
+      return [];
+    }
+
+    const { data, error } = await supabase
+      .from('dialer_queue')
+      .select('*')
+      .eq('status', 'dialing')
+      .lt('lease_expires_at', new Date().toISOString())
+      .limit(limit);
+
+    if (error) {
+      console.error('Error fetching expired dialer leases:', error);
+      return [];
+    }
+
+    const claimed: DialerQueueEntry[] = [];
+    for (const entry of (data || []) as DialerQueueEntry[]) {
+      const { data: rows, error: claimError } = await supabase
+        .from('dialer_queue')
+        .update({
+          lease_owner: workerId,
+          lease_expires_at: new Date(Date.now() + leaseSeconds * 1000).toISOString(),
+          updated_at: new Date().toISOString()
+        })
+        .eq('id', entry.id)
+        .eq('status', 'dialing')
+        .eq('lease_expires_at', entry.lease_expires_at)
+        .select();
+
+      if (claimError) {
+        console.error('Error claiming dialer lease:', claimError);
+      } else if (rows && rows.length > 0) {
+        claimed.push(rows[0]);
+      }
+    }
+
+    return claimed;
+  }
+
+  // Takes or renews ownership of a campaign; fails while another worker's lease is live
+  static async claimCampaignDialer(campaignId: string, workerId: string, leaseSeconds: number): Promise<boolean> {
+    if (this.isDemoMode()) {
+      return true;
+    }
+
+    const now = new Date().toISOString();
+    const { data, error } = await supabase
+      .from('outbound_campaigns')
+      .update({
+        dialer_owner: workerId,
+        dialer_lease_expires_at: new Date(Date.now() + leaseSeconds * 1000).toISOString()
+      })
+      .eq('id', campaignId)
+      .or(`dialer_owner.is.null,dialer_owner.eq.${workerId},dialer_lease_expires_at.lt.${now}`)
+      .select('id');
+
+    if (error) {
+      console.error('Error claiming campaign for dialer:', error);
+      return false;
+    }
+
+    return (data || []).length > 0;
+  }
+
+  static async releaseCampaignDialer(campaignId: string, workerId: string): Promise<boolean> {
+    if (this.isDemoMode()) {
+      return true;
+    }
+
+    const { error } = await supabase
+      .from('outbound_campaigns')
+      .update({ dialer_owner: null, dialer_lease_expires_at: null })
+      .eq('id', campaignId)
+      .eq('dialer_owner', workerId);
+
+    if (error) {
+      console.error('Error releasing campaign dialer:', error);
+      return false;
+    }
+
+    return true;
+  }
+
+  // Active campaigns no live worker is running, e.g. after a worker crashed
+  static async getUnownedActiveCampaigns(): Promise<Campaign[]> {
+    if (this.isDemoMode()) {
+      return [];
+    }
+
+    const { data, error } = await supabase
+      .from('outbound_campaigns')
+      .select('*')
+      .eq('status', 'active')
+      .or(`dialer_owner.is.null,dialer_lease_expires_at.lt.${new Date().toISOString()}`);
+
+    if (error) {
+      console.error('Error fetching unowned campaigns:', error);
+      return [];
+    }
+
+    return data || [];
+  }
+
+  // Moves a campaign to a new status only if it is still in one of the expected ones,
+  // so concurrent schedulers act on a transition once
+  static async transitionCampaignStatus(
+    campaignId: string,
+    from: Campaign['status'][],
+    to: Campaign['status'],
+    updates: Partial<Campaign> = {}
+  ): Promise<Campaign | null> {
+    if (this.isDemoMode()) {
+      return null;
+    }
+
+    const { data, error } = await supabase
+      .from('outbound_campaigns')
+      .update({ ...updates, status: to })
+      .eq('id', campaignId)
+      .in('status', from)
+      .select();
+
+    if (error) {
+      console.error('Error transitioning campaign status:', error);
+      return null;
+    }
+
+    return data?.[0] || null;
+  }
+
+  // Campaigns the scheduler may act on: anything with a schedule, plus running campaigns that may run out of leads
+  static async getSchedulableCampaigns(): Promise<Campaign[]> {
+    if (this.isDemoMode()) {
+      return [];
+    }
+
+    const { data, error } = await supabase
+      .from('outbound_campaigns')
+      .select('*')
+      .in('status', ['draft', 'active', 'paused'])
+      .or('scheduled_start_date.not.is.null,scheduled_end_date.not.is.null,status.eq.active');
+
+    if (error) {
+      console.error('Error fetching schedulable campaigns:', error);
+      return [];
+    }
+
+    return data || [];
+  }
+
+  // contactCodes are the disposition codes that count as answered; agents overwrite 'answered' with their own
+  static async getCampaignLeadStats(campaignId: string, contactCodes: string[]): Promise<CampaignLeadStats | null> {
+    if (this.isDemoMode()) {
+      return null;
+    }
+
+    const leads = () => supabase
+      .from('campaign_leads')
+      .select('id', { count: 'exact', head: true })
+      .eq('campaign_id', campaignId);
+
+    try {
+      const results = await Promise.all([
+        leads(),
+        leads().in('status', ['pending', 'retry', 'dialing', 'called']),
+        leads().gt('call_attempts', 0),
+        leads().in('outcome', contactCodes),
+        leads().in('status', ['completed', 'dnc'])
+      ]);
+      const failed = results.find(result => result.error);
+      if (failed) throw failed.error;
+
+      const [total, remaining, called, answered, completed] = results.map(result => result.count || 0);
+      return { total, remaining, called, answered, completed };
+    } catch (error) {
+      console.error('Error counting campaign leads:', error);
+      return null;
+    }
+  }
+
+  // Dialer commands
+  static async sendDialerCommand(
+    profileId: string,
+    campaignId: string,
+    command: DialerCommand['command'],
+    leadId?: string
+  ): Promise<DialerCommand | null> {
+    if (this.isDemoMode()) {
+      console.log('Demo mode: Dialer command simulated');
+      return null;
+    }
+
+    const { data, error } = await supabase
+      .from('dialer_commands')
+      .insert({ profile_id: profileId, campaign_id: campaignId, command, lead_id: leadId, status: 'pending' })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error sending dialer command:', error);
+      throw error;
+    }
+
+    return data;
+  }
+
+  static async getPendingDialerCommands(limit = 50): Promise<DialerCommand[]> {
+    if (this.isDemoMode()) {
+      return [];
+    }
+
+    const { data, error } = await supabase
+      .from('dialer_commands')
+      .select('*')
+      .eq('status', 'pending')
+      .order('created_at', { ascending: true })
+      .limit(limit);
+
+    if (error) {
+      console.error('Error fetching dialer commands:', error);
+      return [];
+    }
+
+    return data || [];
+  }
+
+  // Marks a pending command as taken by this worker; false if another worker got it first
+  static async claimDialerCommand(commandId: string, workerId: string): Promise<boolean> {
+    if (this.isDemoMode()) {
+      return false;
+    }
+
+    const { data, error } = await supabase
+      .from('dialer_commands')
+      .update({ status: 'processing', processed_by: workerId })
+      .eq('id', commandId)
+      .eq('status', 'pending')
+      .select('id');
+
+    if (error) {
+      console.error('Error claiming dialer command:', error);
+      return false;
+    }
+
+    return (data || []).length > 0;
+  }
+
+  static async finishDialerCommand(commandId: string, errorMessage?: string): Promise<boolean> {
+    if (this.isDemoMode()) {
+      return true;
+    }
+
+    const { error } = await supabase
+      .from('dialer_commands')
+      .update({
+        status: errorMessage ? 'failed' : 'completed',
+        error: errorMessage,
+        processed_at: new Date().toISOString()
+      })
+      .eq('id', commandId);
+
+    if (error) {
+      console.error('Error finishing dialer command:', error);
+      return false;
+    }
+
+    return true;
+  }
+
   // Campaign metrics methods
   static async getCampaignMetrics(profileId: string, campaignId?: string, days = 30): Promise<any[]> {
     if (this.isDemoMode()) {
@@ -1529,6 +3186,38 @@ export class DatabaseService {
     return true;
   }
 
+  static async getFunctionCallLogs(
+    profileId: string,
+    options: { functionNames?: string[]; since?: string; limit?: number } = {}
+  ): Promise<FunctionCallLog[]> {
+    if (this.isDemoMode()) {
+      return [];
+    }
+
+    let query = supabase
+      .from('function_call_logs')
+      .select('*')
+      .eq('profile_id', profileId);
+
+    if (options.functionNames) {
+      query = query.in('function_name', options.functionNames);
+    }
+    if (options.since) {
+      query = query.gte('created_at', options.since);
+    }
+
+    const { data, error } = await query
+      .order('created_at', { ascending: false })
+      .limit(options.limit ?? 1000);
+
+    if (error) {
+      console.error('Error fetching function call logs:', error);
+      return [];
+    }
+
+    return data || [];
+  }
+
   // Function call logging methods
   static async logFunctionCall(log: {
     profile_id?: string
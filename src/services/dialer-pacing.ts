@@ -0,0 +1,133 @@
+import type { Campaign } from '../lib/supabase';
+
+export type PacingMode = NonNullable<Campaign['dialing_mode']>
+
+export interface CallAttemptSample {
+  answered: boolean
+  abandoned: boolean
+  ringSeconds: number
+  handleSeconds: number
+  completedAt: number
+}
+
+export interface PacingSnapshot {
+  mode: PacingMode
+  agentSlots: number
+  // Calls still dialing or ringing
+  pendingCalls: number
+  // Elapsed talk time (seconds) of each connected call
+  connectedCallAges: number[]
+  maxAbandonRate: number
+  recentAttempts: CallAttemptSample[]
+}
+
+export interface PacingStats {
+  sampleSize: number
+  answerRate: number
+  abandonRate: number
+  averageHandleSeconds: number
+  averageRingSeconds: number
+}
+
+export interface PacingDecision {
+  callsToPlace: number
+  dialRatio: number
+  stats: PacingStats
+  reason: string
+}
+
+// Below this many completed attempts the predictive model does not trust its own numbers
+const MIN_PREDICTIVE_SAMPLE = 20;
+const MAX_DIAL_RATIO = 3;
+const DEFAULT_ANSWER_RATE = 0.3;
+
+export const DEFAULT_MAX_ABANDON_RATE = 3; // percent, the FTC safe-harbor limit
+
+export class DialerPacing {
+  static readonly SAMPLE_WINDOW = 200;
+
+  static getStats(attempts: CallAttemptSample[]): PacingStats {
+    const sample = attempts.slice(-this.SAMPLE_WINDOW);
+    const answered = sample.filter(attempt => attempt.answered);
+    const abandoned = answered.filter(attempt => attempt.abandoned);
+    const handled = answered.filter(attempt => !attempt.abandoned);
+
+    return {
+      sampleSize: sample.length,
+      answerRate: sample.length > 0 ? answered.length / sample.length : DEFAULT_ANSWER_RATE,
+      abandonRate: answered.length > 0 ? (abandoned.length / answered.length) * 100 : 0,
+      averageHandleSeconds: handled.length > 0
+        ? handled.reduce((sum, attempt) => sum + attempt.handleSeconds, 0) / handled.length
+        : 0,
+      averageRingSeconds: sample.length > 0
+        ? sample.reduce((sum, attempt) => sum + attempt.ringSeconds, 0) / sample.length
+        : 0
+    };
+  }
+
+  static decide(snapshot: PacingSnapshot): PacingDecision {
+    const stats = this.getStats(snapshot.recentAttempts);
+    const freeAgents = Math.max(0, snapshot.agentSlots - snapshot.connectedCallAges.length);
+
+    switch (snapshot.mode) {
+      case 'preview':
+        return { callsToPlace: 0, dialRatio: 1, stats, reason: 'Preview mode dials only on request' };
+
+      case 'progressive': {
+        const callsToPlace = Math.max(0, freeAgents - snapshot.pendingCalls);
+        return { callsToPlace, dialRatio: 1, stats, reason: `${freeAgents} free agent slot(s)` };
+      }
+
+      case 'predictive':
+        return this.decidePredictive(snapshot, stats, freeAgents);
+    }
+  }
+
+  private static decidePredictive(snapshot: PacingSnapshot, stats: PacingStats, freeAgents: number): PacingDecision {
+    const progressive = Math.max(0, freeAgents - snapshot.pendingCalls);
+    // A missing or invalid cap would turn every calculation below into NaN
+    const maxAbandonRate = Number.isFinite(snapshot.maxAbandonRate) && snapshot.maxAbandonRate >= 0
+      ? snapshot.maxAbandonRate
+      : DEFAULT_MAX_ABANDON_RATE;
+
+    if (stats.sampleSize < MIN_PREDICTIVE_SAMPLE) {
+      return {
+        callsToPlace: progressive,
+        dialRatio: 1,
+        stats,
+        reason: `Collecting data (${stats.sampleSize}/${MIN_PREDICTIVE_SAMPLE} attempts), dialing progressively`
+      };
+    }
+
+    if (stats.abandonRate >= maxAbandonRate) {
+      return {
+        callsToPlace: progressive,
+        dialRatio: 1,
+        stats,
+        reason: `Abandon rate ${stats.abandonRate.toFixed(1)}% at or above ${maxAbandonRate}% cap, dialing progressively`
+      };
+    }
+
+    // Agents whose current call should wrap up before a newly placed call is answered
+    const soonFree = stats.averageHandleSeconds > 0
+      ? snapshot.connectedCallAges.filter(age => age >= stats.averageHandleSeconds - stats.averageRingSeconds).length
+      : 0;
+    const expectedAgents = freeAgents + soonFree;
+
+    // Back the overdial off as the abandon rate approaches the cap
+    const headroom = 1 - stats.abandonRate / maxAbandonRate;
+    const answerRate = Math.max(stats.answerRate, 1 / MAX_DIAL_RATIO);
+    const dialRatio = 1 + (1 / answerRate - 1) * headroom;
+
+    const expectedAnswers = snapshot.pendingCalls * stats.answerRate;
+    const lineLimit = snapshot.agentSlots * MAX_DIAL_RATIO - snapshot.pendingCalls - snapshot.connectedCallAges.length;
+    const callsToPlace = Math.max(0, Math.min(lineLimit, Math.floor((expectedAgents - expectedAnswers) * dialRatio)));
+
+    return {
+      callsToPlace,
+      dialRatio,
+      stats,
+      reason: `Answer rate ${(stats.answerRate * 100).toFixed(0)}%, AHT ${Math.round(stats.averageHandleSeconds)}s, dial ratio ${dialRatio.toFixed(2)}`
+    };
+  }
+}
@@ -0,0 +1,369 @@
+import { DatabaseService } from './database';
+import { AutoDialerEngine, DIALER_LEASE_SECONDS } from './auto-dialer';
+import { CampaignScheduler } from './campaign-scheduler';
+import { AgentToolService } from './agent-tools';
+import { InboundRoutingService } from './inbound-routing';
+import { RealtimeService } from './realtime';
+import { SimulatedTelephonyProvider } from './telephony';
+import type { TelephonyProvider } from './telephony';
+import type { Campaign, DialerCommand } from '../lib/supabase';
+
+export interface DialerWorkerOptions {
+  pollIntervalMs?: number
+  maxCampaigns?: number
+}
+
+// Provider for one profile's campaigns; call status relays are per profile
+export type TelephonyProviderFactory = (profileId: string) => TelephonyProvider
+
+const DEFAULT_POLL_INTERVAL_MS = 5000;
+const DEFAULT_MAX_CAMPAIGNS = 20;
+const SCHEDULER_INTERVAL_MS = 60000;
+
+/**
+ * Headless process that runs campaigns for the UI. Campaigns and in-flight attempts are
+ * leased: while the worker renews its leases nobody else touches them, and once it stops
+ * another worker claims the campaign and adopts its calls from dialer_queue.
+ * The UI never runs the engine itself; it sends start/pause/resume/stop and preview decisions
+ * through dialer_commands. The worker also runs the agent tool calls queued in agent_tool_calls,
+ * since only it can read the tools' secrets, and routes the inbound calls the voice runtime logs.
+ */
+export class DialerWorker {
+  readonly workerId: string;
+  private providerFactory: TelephonyProviderFactory;
+  private providers: Map<string, TelephonyProvider> = new Map();
+  private pollIntervalMs: number;
+  private maxCampaigns: number;
+  private engines: Map<string, AutoDialerEngine> = new Map();
+  private pollInterval?: NodeJS.Timeout;
+  private isTicking = false;
+  private lastScheduledAt = 0;
+  private toolCallSubscription?: string;
+  private inboundCallSubscription?: string;
+
+  constructor(
+    workerId: string = `dialer_${Date.now()}_${Math.random().toString(36).substr(2, 6)}`,
+    providerFactory: TelephonyProviderFactory = () => new SimulatedTelephonyProvider(),
+    options: DialerWorkerOptions = {}
+  ) {
+    this.workerId = workerId;
+    this.providerFactory = providerFactory;
+    this.pollIntervalMs = options.pollIntervalMs ?? DEFAULT_POLL_INTERVAL_MS;
+    this.maxCampaigns = options.maxCampaigns ?? DEFAULT_MAX_CAMPAIGNS;
+  }
+
+  async start(): Promise<void> {
+    console.log(`Dialer worker ${this.workerId} starting`);
+    await this.tick();
+    this.pollInterval = setInterval(() => this.tick(), this.pollIntervalMs);
+    // An agent waits on the line for its tool result, so new calls are run as soon as they arrive
+    this.toolCallSubscription = RealtimeService.subscribeToAgentToolCalls(() => this.processToolCalls());
+    this.inboundCallSubscription = RealtimeService.subscribeToInboundCalls(() => this.processInboundCalls());
+  }
+
+  // Stops dialing and hands the campaigns back; calls in flight are adopted by the next worker
+  async shutdown(): Promise<void> {
+    console.log(`Dialer worker ${this.workerId} shutting down`);
+    if (this.pollInterval) {
+      clearInterval(this.pollInterval);
+      this.pollInterval = undefined;
+    }
+    if (this.toolCallSubscription) {
+      RealtimeService.unsubscribe(this.toolCallSubscription);
+      this.toolCallSubscription = undefined;
+    }
+    if (this.inboundCallSubscription) {
+      RealtimeService.unsubscribe(this.inboundCallSubscription);
+      this.inboundCallSubscription = undefined;
+    }
+
+    for (const [campaignId, engine] of this.engines) {
+      engine.shutdown();
+      await DatabaseService.releaseCampaignDialer(campaignId, this.workerId);
+    }
+    this.engines.clear();
+  }
+
+  getStatus() {
+    return {
+      workerId: this.workerId,
+      campaigns: Array.from(this.engines.entries()).map(([campaignId, engine]) => ({
+        campaignId,
+        ...engine.getStatus()
+      }))
+    };
+  }
+
+  private async tick(): Promise<void> {
+    // A slow tick must not overlap the next one
+    if (this.isTicking) return;
+    this.isTicking = true;
+
+    try {
+      await this.renewLeases();
+      await this.recoverExpiredAttempts();
+      await this.runScheduler();
+      await this.processCommands();
+      // Not awaited: a slow tool must not hold up lease renewals
+      this.processToolCalls();
+      await this.processInboundCalls();
+      await this.adoptUnownedCampaigns();
+    } catch (error) {
+      console.error('Error in dialer worker tick:', error);
+    } finally {
+      this.isTicking = false;
+    }
+  }
+
+  private async renewLeases(): Promise<void> {
+    for (const [campaignId, engine] of this.engines) {
+      const status = engine.getStatus();
+
+      // Stopped and nothing left in flight: hand the campaign back
+      if (!status.isRunning && status.activeCalls === 0) {
+        this.engines.delete(campaignId);
+        await DatabaseService.releaseCampaignDialer(campaignId, this.workerId);
+        continue;
+      }
+
+      const held = await DatabaseService.claimCampaignDialer(campaignId, this.workerId, DIALER_LEASE_SECONDS);
+      if (!held) {
+        console.warn(`Lost the lease on campaign ${campaignId}, another worker took over`);
+        engine.shutdown();
+        this.engines.delete(campaignId);
+      }
+    }
+
+    await DatabaseService.renewDialerLeases(this.workerId, DIALER_LEASE_SECONDS);
+  }
+
+  // Attempts whose worker stopped renewing are adopted by the engine of their campaign
+  private async recoverExpiredAttempts(): Promise<void> {
+    const entries = await DatabaseService.claimExpiredDialerLeases(this.workerId, DIALER_LEASE_SECONDS);
+
+    for (const entry of entries) {
+      try {
+        const campaign = await DatabaseService.getCampaign(entry.campaign_id);
+        const engine = campaign ? await this.acquireEngine(campaign) : null;
+        if (!campaign || !engine) {
+          // Left to lapse again; whoever owns the campaign picks it up
+          continue;
+        }
+
+        await engine.adoptCall(entry);
+        if (campaign.status === 'active' && !engine.getStatus().isRunning) {
+          await engine.start();
+        }
+      } catch (error) {
+        console.error(`Error recovering dialer attempt ${entry.id}:`, error);
+      }
+    }
+  }
+
+  // Schedule transitions turn into dialer commands, which the same tick then carries out
+  private async runScheduler(): Promise<void> {
+    if (Date.now() - this.lastScheduledAt < SCHEDULER_INTERVAL_MS) return;
+    this.lastScheduledAt = Date.now();
+    await CampaignScheduler.run();
+  }
+
+  private async processCommands(): Promise<void> {
+    const commands = await DatabaseService.getPendingDialerCommands();
+
+    for (const command of commands) {
+      const campaign = await DatabaseService.getCampaign(command.campaign_id);
+
+      // Another live worker runs the campaign; the command is left to it
+      if (campaign && !this.engines.has(campaign.id) && this.isOwnedElsewhere(campaign)) {
+        continue;
+      }
+      if (!(await DatabaseService.claimDialerCommand(command.id, this.workerId))) {
+        continue;
+      }
+
+      try {
+        if (!campaign) {
+          throw new Error('Campaign not found');
+        }
+        await this.runCommand(command, campaign);
+        await DatabaseService.finishDialerCommand(command.id);
+        console.log(`Dialer command ${command.command} done for campaign ${campaign.id}`);
+      } catch (error) {
+        console.error(`Error running dialer command ${command.command}:`, error);
+        await DatabaseService.finishDialerCommand(command.id, error instanceof Error ? error.message : String(error));
+      }
+    }
+  }
+
+  private async runCommand(command: DialerCommand, campaign: Campaign): Promise<void> {
+    const running = this.engines.get(campaign.id);
+
+    switch (command.command) {
+      case 'start':
+      case 'resume': {
+        const engine = running || await this.acquireEngine(campaign);
+        if (!engine) {
+          throw new Error('Campaign is running on another dialer worker');
+        }
+
+        if (engine.getStatus().isRunning) {
+          await engine.resume();
+        } else {
+          await engine.start();
+        }
+
+        // Started or resumed by hand: the scheduler no longer owns the pause
+        const updated = await DatabaseService.updateCampaign(campaign.id, {
+          status: 'active',
+          paused_by_schedule: false,
+          ...(campaign.status === 'draft' ? { started_at: new Date().toISOString() } : {})
+        });
+        if (campaign.status === 'draft') {
+          await CampaignScheduler.announceStarted(updated || campaign);
+        }
+        return;
+      }
+
+      case 'pause':
+        if (running) {
+          await running.pause();
+        } else if (campaign.status === 'active') {
+          await DatabaseService.updateCampaign(campaign.id, { status: 'paused' });
+        }
+        return;
+
+      case 'stop':
+        // Hangs up; the engine is dropped once the hangups are reported
+        if (running) {
+          await running.stop();
+        }
+
+        // The engine leaves the campaign paused; a stop sent by the scheduler has already completed and announced it
+        if (campaign.status === 'completed') {
+          await DatabaseService.updateCampaign(campaign.id, { status: 'completed' });
+        } else {
+          const updated = await DatabaseService.updateCampaign(campaign.id, {
+            status: 'completed',
+            completed_at: new Date().toISOString(),
+            paused_by_schedule: false
+          });
+          await CampaignScheduler.announceCompleted(updated || campaign);
+        }
+        return;
+
+      // Preview mode: the UI reads the offered lead from the campaign and answers with dial or skip
+      case 'preview_next':
+      case 'preview_dial':
+      case 'preview_skip': {
+        if (!running?.getStatus().isRunning) {
+          throw new Error('Campaign is not running');
+        }
+
+        const dialed = command.command !== 'preview_dial'
+          || (!!command.lead_id && await running.dialPreviewLead(command.lead_id));
+        if (command.command === 'preview_skip' && command.lead_id) {
+          await running.skipPreviewLead(command.lead_id);
+        }
+
+        // Offer the next lead even when the dial was refused, so the UI moves on
+        await running.publishPreviewLead();
+        if (!dialed) {
+          throw new Error('The lead can no longer be dialed');
+        }
+        return;
+      }
+    }
+  }
+
+  // Tool calls missed by the realtime subscription are picked up on the next tick. Runs may overlap;
+  // claiming keeps each call to one run
+  private async processToolCalls(): Promise<void> {
+    try {
+      const requests = await DatabaseService.getPendingAgentToolCalls();
+      await Promise.all(requests.map(async request => {
+        if (!(await DatabaseService.claimAgentToolCall(request.id, this.workerId))) return;
+        const result = await AgentToolService.runQueuedCall(request);
+        await DatabaseService.finishAgentToolCall(request.id, result);
+      }));
+    } catch (error) {
+      console.error('Error running agent tool calls:', error);
+    }
+  }
+
+  // Inbound calls are logged as pending by the voice runtime, which waits for metadata.inbound_route
+  private async processInboundCalls(): Promise<void> {
+    try {
+      for (const call of await DatabaseService.getPendingInboundCalls()) {
+        if (!(await DatabaseService.claimInboundCall(call.id))) continue;
+
+        const profile = await DatabaseService.getProfile(call.profile_id);
+        if (!profile) {
+          console.error(`Inbound call ${call.id} has no profile`);
+          continue;
+        }
+        const decision = await InboundRoutingService.routeIncomingCall(profile, call.phone_number_to, call.id);
+        if (decision) {
+          console.log(`Inbound call ${call.id} routed: ${decision.action} (${decision.reason})`);
+        }
+      }
+    } catch (error) {
+      console.error('Error routing inbound calls:', error);
+    }
+  }
+
+  // Picks up active campaigns nobody is running, e.g. after a worker crashed
+  private async adoptUnownedCampaigns(): Promise<void> {
+    if (this.engines.size >= this.maxCampaigns) return;
+
+    const campaigns = await DatabaseService.getUnownedActiveCampaigns();
+    for (const campaign of campaigns) {
+      try {
+        const engine = await this.acquireEngine(campaign);
+        if (engine && !engine.getStatus().isRunning) {
+          console.log(`Taking over active campaign ${campaign.id}`);
+          await engine.start();
+        }
+      } catch (error) {
+        console.error(`Error taking over campaign ${campaign.id}:`, error);
+      }
+    }
+  }
+
+  // Engine for a campaign this worker owns, claiming the campaign if it is free
+  private async acquireEngine(campaign: Campaign): Promise<AutoDialerEngine | null> {
+    const existing = this.engines.get(campaign.id);
+    if (existing) return existing;
+    if (this.engines.size >= this.maxCampaigns) return null;
+
+    if (!(await DatabaseService.claimCampaignDialer(campaign.id, this.workerId, DIALER_LEASE_SECONDS))) {
+      return null;
+    }
+
+    const engine = new AutoDialerEngine(
+      campaign.id,
+      AutoDialerEngine.configFromCampaign(campaign),
+      campaign.profile_id,
+      this.getProvider(campaign.profile_id),
+      this.workerId
+    );
+    this.engines.set(campaign.id, engine);
+    return engine;
+  }
+
+  // One provider per profile, shared by that profile's campaigns
+  private getProvider(profileId: string): TelephonyProvider {
+    let provider = this.providers.get(profileId);
+    if (!provider) {
+      provider = this.providerFactory(profileId);
+      this.providers.set(profileId, provider);
+    }
+    return provider;
+  }
+
+  private isOwnedElsewhere(campaign: Campaign): boolean {
+    return !!campaign.dialer_owner
+      && campaign.dialer_owner !== this.workerId
+      && !!campaign.dialer_lease_expires_at
+      && new Date(campaign.dialer_lease_expires_at).getTime() > Date.now();
+  }
+}
@@ -0,0 +1,305 @@
+import { supabase } from '../lib/supabase';
+import { DatabaseService } from './database';
+import { LeadLifecycle, DEFAULT_RETRY_POLICY } from './lead-lifecycle';
+import type { RetryPolicy } from './lead-lifecycle';
+import type { CampaignLead, Disposition } from '../lib/supabase';
+
+export type DispositionCategory = Disposition['category']
+
+// A catalog entry; built-in dispositions the profile never edited have no id
+export type DispositionDefinition = Omit<Disposition, 'id' | 'profile_id' | 'created_at' | 'updated_at'> & { id?: string }
+
+export const DISPOSITION_CATEGORIES: Array<{ value: DispositionCategory; label: string }> = [
+  { value: 'success', label: 'Success' },
+  { value: 'contact', label: 'Contact' },
+  { value: 'no_contact', label: 'No Contact' },
+  { value: 'dnc', label: 'Do Not Call' }
+];
+
+function systemDisposition(code: string, label: string, category: DispositionCategory, isFinal = false): DispositionDefinition {
+  const rule = DEFAULT_RETRY_POLICY[code];
+  return {
+    code,
+    label,
+    category,
+    is_final: isFinal,
+    retry_delay_minutes: rule?.delayMinutes,
+    max_attempts: rule?.maxAttempts,
+    is_system: true,
+    is_active: true,
+    sort_order: 0
+  };
+}
+
+function agentDisposition(code: string, label: string, category: DispositionCategory, isFinal = true): DispositionDefinition {
+  return { code, label, category, is_final: isFinal, is_system: false, is_active: true, sort_order: 0 };
+}
+
+// Every outcome the dialer reports, then the ones agents pick at the end of a call
+export const DEFAULT_DISPOSITIONS: DispositionDefinition[] = [
+  systemDisposition('answered', 'Answered', 'contact', true),
+  systemDisposition('abandoned', 'Abandoned', 'contact'),
+  systemDisposition('busy', 'Busy', 'no_contact'),
+  systemDisposition('no_answer', 'No Answer', 'no_contact'),
+  systemDisposition('timeout', 'Ring Timeout', 'no_contact'),
+  systemDisposition('machine', 'Answering Machine', 'no_contact'),
+  systemDisposition('voicemail', 'Voicemail Left', 'no_contact'),
+  systemDisposition('fax', 'Fax Line', 'no_contact', true),
+  systemDisposition('failed', 'Failed', 'no_contact'),
+  systemDisposition('dialer_error', 'Dialer Error', 'no_contact'),
+  systemDisposition('cancelled', 'Cancelled', 'no_contact'),
+  systemDisposition('compliance_blocked', 'Compliance Blocked', 'no_contact', true),
+  systemDisposition('suppressed', 'Suppressed', 'no_contact', true),
+  agentDisposition('interested', 'Interested', 'contact'),
+  agentDisposition('not_interested', 'Not Interested', 'contact'),
+  agentDisposition('callback_requested', 'Callback Requested', 'contact', false),
+  agentDisposition('appointment_set', 'Appointment Set', 'success'),
+  agentDisposition('converted', 'Converted', 'success'),
+  agentDisposition('wrong_number', 'Wrong Number', 'no_contact'),
+  agentDisposition('do_not_call', 'Do Not Call', 'dnc')
+].map((disposition, index) => ({ ...disposition, sort_order: (index + 1) * 10 }));
+
+// Catalog reads are frequent (every finished call), so each profile's catalog is kept briefly
+const CATALOG_TTL_MS = 60 * 1000;
+const catalogCache = new Map<string, { catalog: DispositionDefinition[]; loadedAt: number }>();
+
+/**
+ * Per-profile catalog of call dispositions. The built-in entries cover everything the dialer
+ * reports and can be relabelled or given other retry rules; profiles add their own for agents.
+ * Each disposition has a category (contact, no contact, do not call, success) that analytics and
+ * campaign stats count by, whether it closes the lead, and how soon the lead is retried.
+ */
+export class DispositionService {
+  static async getDispositions(profileId: string): Promise<Disposition[]> {
+    try {
+      const { data, error } = await supabase
+        .from('dispositions')
+        .select('*')
+        .eq('profile_id', profileId)
+        .order('sort_order', { ascending: true });
+
+      if (error) {
+        console.error('Error fetching dispositions:', error);
+        return [];
+      }
+
+      return data || [];
+    } catch (error) {
+      console.error('Error fetching dispositions:', error);
+      return [];
+    }
+  }
+
+  // Stored rows replace the built-in entry with the same code
+  static buildCatalog(rows: Disposition[]): DispositionDefinition[] {
+    const byCode = new Map<string, DispositionDefinition>(DEFAULT_DISPOSITIONS.map(disposition => [disposition.code, disposition]));
+    for (const row of rows) {
+      const builtIn = byCode.get(row.code);
+      byCode.set(row.code, { ...row, is_system: builtIn?.is_system ?? row.is_system });
+    }
+    return Array.from(byCode.values()).sort((a, b) => a.sort_order - b.sort_order);
+  }
+
+  static async getCatalog(profileId: string, refresh = false): Promise<DispositionDefinition[]> {
+    const cached = catalogCache.get(profileId);
+    if (!refresh && cached && Date.now() - cached.loadedAt < CATALOG_TTL_MS) {
+      return cached.catalog;
+    }
+
+    const catalog = this.buildCatalog(await this.getDispositions(profileId));
+    catalogCache.set(profileId, { catalog, loadedAt: Date.now() });
+    return catalog;
+  }
+
+  static find(catalog: DispositionDefinition[], code?: string | null): DispositionDefinition | undefined {
+    if (!code) return undefined;
+    // Leads closed before the catalog existed carry e.g. 'busy_max_attempts'
+    return catalog.find(disposition => disposition.code === code)
+      || catalog.find(disposition => disposition.code === code.replace(/_max_attempts$/, ''));
+  }
+
+  static getLabel(catalog: DispositionDefinition[], code?: string | null): string {
+    if (!code) return '';
+    return this.find(catalog, code)?.label
+      || code.replace(/_/g, ' ').replace(/\b\w/g, letter => letter.toUpperCase());
+  }
+
+  static getCategory(catalog: DispositionDefinition[], code?: string | null): DispositionCategory | undefined {
+    return this.find(catalog, code)?.category;
+  }
+
+  // Dispositions an agent can pick for a call
+  static getAgentDispositions(catalog: DispositionDefinition[]): DispositionDefinition[] {
+    return catalog.filter(disposition => disposition.is_active && !disposition.is_system);
+  }
+
+  // Throws for a code that is not in the catalog or was switched off
+  static assertDisposition(catalog: DispositionDefinition[], code: string): DispositionDefinition {
+    const disposition = catalog.find(entry => entry.code === code);
+    if (!disposition) {
+      throw new Error(`Unknown disposition: ${code}`);
+    }
+    if (!disposition.is_active) {
+      throw new Error(`Disposition is not active: ${disposition.label}`);
+    }
+    return disposition;
+  }
+
+  // Retry rules the lead lifecycle applies before campaign overrides
+  static toRetryPolicy(catalog: DispositionDefinition[]): RetryPolicy {
+    const policy: RetryPolicy = {};
+    for (const disposition of catalog) {
+      policy[disposition.code] = disposition.is_final
+        ? { delayMinutes: 0, maxAttempts: 0 }
+        : { delayMinutes: disposition.retry_delay_minutes, maxAttempts: disposition.max_attempts };
+    }
+    return policy;
+  }
+
+  // Reached a person, so it counts as answered in campaign stats
+  static isContact(catalog: DispositionDefinition[], code?: string | null): boolean {
+    const category = this.getCategory(catalog, code);
+    return category === 'contact' || category === 'success' || category === 'dnc';
+  }
+
+  // Every code that counts as answered, for counting leads by their last outcome
+  static getContactCodes(catalog: DispositionDefinition[]): string[] {
+    return catalog.filter(disposition => this.isContact(catalog, disposition.code)).map(disposition => disposition.code);
+  }
+
+  // Adds label and category to outcome counts, merging legacy codes into their disposition
+  static labelOutcomes<T extends { outcome: string; count: number }>(
+    catalog: DispositionDefinition[],
+    outcomes: T[]
+  ): Array<T & { label: string; category?: DispositionCategory }> {
+    const merged = new Map<string, T & { label: string; category?: DispositionCategory }>();
+    for (const entry of outcomes) {
+      const code = this.find(catalog, entry.outcome)?.code || entry.outcome;
+      const existing = merged.get(code);
+      if (existing) {
+        existing.count += entry.count;
+      } else {
+        merged.set(code, { ...entry, outcome: code, label: this.getLabel(catalog, code), category: this.getCategory(catalog, code) });
+      }
+    }
+    return Array.from(merged.values()).sort((a, b) => b.count - a.count);
+  }
+
+  // Saves the profile's version of a disposition, built-in or custom
+  static async saveDisposition(
+    profileId: string,
+    disposition: Omit<DispositionDefinition, 'is_system'>
+  ): Promise<Disposition> {
+    const code = disposition.code.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '');
+    if (!code) {
+      throw new Error('Disposition code is required');
+    }
+    if (!disposition.label.trim()) {
+      throw new Error('Disposition label is required');
+    }
+
+    const builtIn = DEFAULT_DISPOSITIONS.find(entry => entry.code === code);
+    const { data, error } = await supabase
+      .from('dispositions')
+      .upsert({
+        profile_id: profileId,
+        code,
+        label: disposition.label.trim(),
+        category: disposition.category,
+        is_final: disposition.is_final,
+        retry_delay_minutes: disposition.retry_delay_minutes ?? null,
+        max_attempts: Number.isFinite(disposition.max_attempts) ? disposition.max_attempts : null,
+        is_system: builtIn?.is_system ?? false,
+        is_active: disposition.is_active,
+        sort_order: disposition.sort_order
+      }, { onConflict: 'profile_id,code' })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error saving disposition:', error);
+      throw error;
+    }
+
+    catalogCache.delete(profileId);
+    return data;
+  }
+
+  // Custom dispositions only; built-in ones can be switched off instead
+  static async deleteDisposition(profileId: string, disposition: DispositionDefinition): Promise<boolean> {
+    if (disposition.is_system) {
+      throw new Error('Built-in dispositions cannot be deleted');
+    }
+    if (!disposition.id) return true;
+
+    const { error } = await supabase
+      .from('dispositions')
+      .delete()
+      .eq('id', disposition.id)
+      .eq('profile_id', profileId);
+
+    if (error) {
+      console.error('Error deleting disposition:', error);
+      throw error;
+    }
+
+    catalogCache.delete(profileId);
+    return true;
+  }
+
+  // Records the disposition an agent picked for a call, on the call and on its lead
+  static async setCallDisposition(profileId: string, callId: string, code: string): Promise<void> {
+    const catalog = await this.getCatalog(profileId);
+    const disposition = this.assertDisposition(catalog, code);
+
+    const call = await DatabaseService.getCallLog(callId);
+    if (!call) return;
+
+    let lead = call.lead_id ? await DatabaseService.getCampaignLead(call.lead_id) : null;
+    if (lead && LeadLifecycle.isDialing(lead.status)) {
+      // The dialer applies it when the call ends; closing a lead mid-call would be overwritten by the attempt result
+      await DatabaseService.updateCallLog(callId, { metadata: { ...call.metadata, disposition: disposition.code } });
+      lead = await DatabaseService.getCampaignLead(lead.id);
+      if (!lead || LeadLifecycle.isDialing(lead.status)) return;
+    }
+
+    await DatabaseService.updateCallLog(callId, { outcome: disposition.code });
+    if (!lead) return;
+
+    await this.applyToLead(profileId, lead, disposition, callId);
+  }
+
+  // Closes the lead for a final or dnc disposition, otherwise only records the code; extra updates go in with it
+  static async applyToLead(
+    profileId: string,
+    lead: CampaignLead,
+    disposition: DispositionDefinition,
+    callId: string,
+    attemptUpdates: Partial<CampaignLead> = {}
+  ): Promise<void> {
+    const isDnc = disposition.category === 'dnc';
+    const keepsStatus = LeadLifecycle.isClosed(lead.status) || (!disposition.is_final && !isDnc);
+    const updates = keepsStatus
+      ? { ...attemptUpdates, outcome: disposition.code, do_not_call: lead.do_not_call || isDnc }
+      : { ...attemptUpdates, ...LeadLifecycle.close(lead, isDnc ? 'dnc' : 'completed', disposition.code) };
+    await DatabaseService.updateCampaignLead(lead.id, updates);
+
+    // A lead closed by its disposition is not called back
+    if (!keepsStatus || isDnc) {
+      for (const callback of await DatabaseService.getScheduledCallbacks(lead.id)) {
+        await DatabaseService.updateLeadCallback(callback.id, { status: 'cancelled' });
+      }
+    }
+
+    if (isDnc) {
+      await DatabaseService.addDNCEntry({
+        profile_id: profileId,
+        phone_number: lead.phone_number,
+        added_date: new Date().toISOString(),
+        source: 'customer_request',
+        notes: `Disposition ${disposition.label} on call ${callId}`,
+        is_active: true
+      });
+    }
+  }
+}
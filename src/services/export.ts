@@ -1,7 +1,9 @@
 import type { CallLog, Campaign, Appointment, DNCEntry } from '../lib/supabase';
+import { DispositionService, DEFAULT_DISPOSITIONS, DISPOSITION_CATEGORIES } from './dispositions';
+import type { DispositionDefinition } from './dispositions';
 
 export class ExportService {
-  static exportCallsToCSV(calls: CallLog[], filename?: string) {
+  static exportCallsToCSV(calls: CallLog[], filename?: string, dispositions: DispositionDefinition[] = DEFAULT_DISPOSITIONS) {
     const headers = [
       'Date',
       'Time',
@@ -11,6 +13,8 @@ export class ExportService {
       'Duration (seconds)',
       'Status',
       'Outcome',
+      'Disposition',
+      'Disposition Category',
       'Sentiment Score',
       'Customer Satisfaction',
       'Agent',
@@ -27,6 +31,8 @@ export class ExportService {
       call.duration_seconds.toString(),
       call.status,
       call.outcome || '',
+      DispositionService.getLabel(dispositions, call.outcome),
+      DISPOSITION_CATEGORIES.find(category => category.value === DispositionService.getCategory(dispositions, call.outcome))?.label || '',
       call.sentiment_score?.toString() || '',
       call.customer_satisfaction_score?.toString() || '',
       call.agent_id || '',
@@ -0,0 +1,253 @@
+import { DatabaseService } from './database';
+import { AgentToolService } from './agent-tools';
+import type { ToolDeclaration } from './agent-tools';
+import { fromLocalDateTime, getLocalDateParts, isValidTimezone } from './calling-windows';
+import { normalizePhoneNumber } from '../lib/phoneNumbers';
+import type { AIAgent, BusinessHoliday, Profile } from '../lib/supabase';
+
+export type AgentAvailability = 'open' | 'closed' | 'holiday'
+
+export type InboundRouteAction = 'agent' | 'after_hours_agent' | 'voicemail' | 'callback'
+
+export interface AgentOpenStatus {
+  status: AgentAvailability
+  timezone: string
+  localDate: string // YYYY-MM-DD in the agent's timezone
+  localTime: string // HH:MM in the agent's timezone
+  holiday?: BusinessHoliday
+  nextOpenAt?: Date // set while closed, unless the agent never opens in the next two weeks
+}
+
+export interface InboundRoutingDecision extends AgentOpenStatus {
+  action: InboundRouteAction
+  agent?: AIAgent // who answers: the dialed agent or the after-hours agent
+  message?: string // played before voicemail or callback capture
+  reason: string
+}
+
+export interface InboundRoutingContext {
+  profile: Pick<Profile, 'company_name' | 'after_hours_action' | 'after_hours_agent_id' | 'after_hours_message'>
+  agents: AIAgent[]
+  holidays: BusinessHoliday[]
+}
+
+export const AFTER_HOURS_ACTIONS: Array<{ value: NonNullable<Profile['after_hours_action']>; label: string }> = [
+  { value: 'agent', label: 'Answer with the after-hours agent (voicemail if none is active)' },
+  { value: 'voicemail', label: 'Take a voicemail' },
+  { value: 'callback', label: 'Ask when to call back' }
+];
+
+// How far ahead the next opening is looked for
+const NEXT_OPENING_SEARCH_DAYS = 14;
+const ALL_DAYS = [0, 1, 2, 3, 4, 5, 6];
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + (minutes || 0);
+}
+
+function addDays(date: string, days: number): string {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day + days)).toISOString().slice(0, 10);
+}
+
+/**
+ * Decides where an incoming call goes from the dialed agent's business hours, business days and
+ * timezone and the profile's holiday calendar. Calls while the agent is open reach it; calls while
+ * it is closed or on a holiday follow the profile's after-hours setting: the after-hours agent,
+ * voicemail or callback capture. After-hours agents themselves answer at any time.
+ */
+export class InboundRoutingService {
+  static getTimezone(agent: Pick<AIAgent, 'timezone'>): string {
+    return isValidTimezone(agent.timezone) ? agent.timezone : 'UTC';
+  }
+
+  // An agent without business days set is treated as working every day
+  static getBusinessDays(agent: Pick<AIAgent, 'business_days'>): number[] {
+    return agent.business_days?.length ? agent.business_days : ALL_DAYS;
+  }
+
+  static findHoliday(holidays: BusinessHoliday[], date: string): BusinessHoliday | undefined {
+    return holidays.find(holiday => holiday.date === date)
+      || holidays.find(holiday => holiday.recurs_annually && holiday.date.slice(5) === date.slice(5));
+  }
+
+  // Hours that end at or before they start run past midnight into the next day
+  static isWithinHours(agent: AIAgent, dayOfWeek: number, minutesOfDay: number): boolean {
+    const days = this.getBusinessDays(agent);
+    if (!agent.business_hours_start || !agent.business_hours_end) {
+      return days.includes(dayOfWeek);
+    }
+
+    const start = toMinutes(agent.business_hours_start);
+    const end = toMinutes(agent.business_hours_end);
+    if (start < end) {
+      return days.includes(dayOfWeek) && minutesOfDay >= start && minutesOfDay < end;
+    }
+    return (days.includes(dayOfWeek) && minutesOfDay >= start)
+      || (days.includes((dayOfWeek + 6) % 7) && minutesOfDay < end);
+  }
+
+  static getOpenStatus(agent: AIAgent, holidays: BusinessHoliday[], at: Date = new Date()): AgentOpenStatus {
+    const timezone = this.getTimezone(agent);
+    const local = getLocalDateParts(timezone, at);
+    const holiday = this.findHoliday(holidays, local.date);
+    const base = { timezone, localDate: local.date, localTime: local.time };
+
+    if (!holiday && this.isWithinHours(agent, local.dayOfWeek, local.minutesOfDay)) {
+      return { ...base, status: 'open' };
+    }
+    return {
+      ...base,
+      status: holiday ? 'holiday' : 'closed',
+      holiday,
+      nextOpenAt: this.getNextOpening(agent, holidays, at)
+    };
+  }
+
+  // Start of the next business day that is not a holiday
+  static getNextOpening(agent: AIAgent, holidays: BusinessHoliday[], at: Date = new Date()): Date | undefined {
+    const timezone = this.getTimezone(agent);
+    const local = getLocalDateParts(timezone, at);
+    const days = this.getBusinessDays(agent);
+    const start = agent.business_hours_start && agent.business_hours_end ? agent.business_hours_start : '00:00';
+
+    for (let offset = 0; offset <= NEXT_OPENING_SEARCH_DAYS; offset++) {
+      const date = addDays(local.date, offset);
+      if (!days.includes((local.dayOfWeek + offset) % 7) || this.findHoliday(holidays, date)) continue;
+
+      const opening = fromLocalDateTime(date, start, timezone);
+      if (opening.getTime() > at.getTime()) {
+        return opening;
+      }
+    }
+    return undefined;
+  }
+
+  static isAfterHoursAgent(agent: AIAgent, profile: InboundRoutingContext['profile']): boolean {
+    return agent.agent_type === 'after_hours' || agent.id === profile.after_hours_agent_id;
+  }
+
+  // The profile's chosen after-hours agent, else its first active after_hours agent
+  static getAfterHoursAgent(context: InboundRoutingContext, dialed?: AIAgent): AIAgent | undefined {
+    const candidates = context.agents.filter(agent => agent.is_active && agent.id !== dialed?.id);
+    return candidates.find(agent => agent.id === context.profile.after_hours_agent_id)
+      || candidates.find(agent => agent.agent_type === 'after_hours');
+  }
+
+  // "Monday at 9:00 AM" in the agent's timezone
+  static formatNextOpening(nextOpenAt: Date, timezone: string): string {
+    const weekday = new Intl.DateTimeFormat('en-US', { timeZone: timezone, weekday: 'long' }).format(nextOpenAt);
+    const time = new Intl.DateTimeFormat('en-US', { timeZone: timezone, hour: 'numeric', minute: '2-digit' }).format(nextOpenAt);
+    return `${weekday} at ${time}`;
+  }
+
+  static getClosedMessage(
+    action: 'voicemail' | 'callback',
+    profile: InboundRoutingContext['profile'],
+    status: AgentOpenStatus
+  ): string {
+    if (profile.after_hours_message?.trim()) {
+      return profile.after_hours_message.trim();
+    }
+
+    const closed = status.holiday ? `We're closed today for ${status.holiday.name}` : "We're closed right now";
+    const reopening = status.nextOpenAt ? ` and open again ${this.formatNextOpening(status.nextOpenAt, status.timezone)}` : '';
+    const request = action === 'callback'
+      ? 'Tell us a good time to call you back and we will call you then.'
+      : 'Please leave a message after the tone and we will get back to you.';
+    return `Thanks for calling${profile.company_name ? ` ${profile.company_name}` : ''}. ${closed}${reopening}. ${request}`;
+  }
+
+  static evaluate(agent: AIAgent, context: InboundRoutingContext, at: Date = new Date()): InboundRoutingDecision {
+    const status = this.getOpenStatus(agent, context.holidays, at);
+
+    if (agent.is_active && this.isAfterHoursAgent(agent, context.profile)) {
+      return { ...status, action: 'agent', agent, reason: 'After-hours agents answer at any time' };
+    }
+    if (agent.is_active && status.status === 'open') {
+      return { ...status, action: 'agent', agent, reason: 'Within business hours' };
+    }
+
+    let reason = status.holiday
+      ? `Closed for ${status.holiday.name}`
+      : agent.is_active ? 'Outside business hours' : 'Agent is paused';
+
+    const afterHoursAgent = this.getAfterHoursAgent(context, agent);
+    let action = context.profile.after_hours_action || 'agent';
+    if (action === 'agent') {
+      if (afterHoursAgent) {
+        return { ...status, action: 'after_hours_agent', agent: afterHoursAgent, reason };
+      }
+      reason += '; no after-hours agent is available';
+      action = 'voicemail';
+    }
+
+    return { ...status, action, message: this.getClosedMessage(action, context.profile, status), reason };
+  }
+
+  // Routes a call to one of the profile's numbers; with a call id the decision is kept on the call log,
+  // which is where the voice runtime reads it from
+  static async routeIncomingCall(
+    profile: Profile,
+    dialedNumber: string,
+    callId?: string,
+    at: Date = new Date()
+  ): Promise<InboundRoutingDecision | null> {
+    const [agents, holidays] = await Promise.all([
+      DatabaseService.getAIAgents(profile.id),
+      DatabaseService.getBusinessHolidays(profile.id)
+    ]);
+
+    const number = normalizePhoneNumber(dialedNumber, profile.default_country);
+    const agent = agents.find(candidate =>
+      candidate.twilio_phone_number && normalizePhoneNumber(candidate.twilio_phone_number, profile.default_country) === number
+    );
+    if (!agent) {
+      console.error(`No agent answers ${dialedNumber}`);
+      // The caller is still on the line; take a message rather than leave the runtime waiting
+      if (callId) {
+        await this.recordRoute(callId, { action: 'voicemail', reason: `No agent answers ${dialedNumber}` });
+      }
+      return null;
+    }
+
+    const decision = this.evaluate(agent, { profile, agents, holidays }, at);
+
+    if (callId) {
+      await this.recordRoute(callId, {
+        status: decision.status,
+        action: decision.action,
+        dialed_agent_id: agent.id,
+        holiday_id: decision.holiday?.id,
+        reason: decision.reason
+      }, decision.agent || agent, decision.agent?.active_version_id, decision.agent ? await AgentToolService.getDeclarations(decision.agent.id) : []);
+    }
+
+    return decision;
+  }
+
+  // The agent version and the functions the agent is offered are stamped like they are on outbound calls
+  private static async recordRoute(
+    callId: string,
+    route: Record<string, string | undefined>,
+    agent?: AIAgent,
+    agentVersionId?: string,
+    tools: ToolDeclaration[] = []
+  ): Promise<void> {
+    try {
+      const call = await DatabaseService.getCallLog(callId);
+      await DatabaseService.updateCallLog(callId, {
+        ...(agent ? { agent_id: agent.id } : {}),
+        metadata: {
+          ...call?.metadata,
+          ...(agentVersionId ? { agent_version_id: agentVersionId } : {}),
+          ...(tools.length > 0 ? { tools } : {}),
+          inbound_route: route
+        }
+      });
+    } catch (error) {
+      console.error('Error recording inbound route:', error);
+    }
+  }
+}
@@ -0,0 +1,336 @@
+import { DatabaseService } from './database';
+import { LeadImportService } from './lead-import';
+import { extractPdfText } from '../lib/pdfText';
+import { unzip } from '../lib/zip';
+import type { AIAgent, KnowledgeChunk, KnowledgeDocument } from '../lib/supabase';
+
+export const KNOWLEDGE_FILE_TYPES: Record<string, KnowledgeDocument['file_type']> = {
+  pdf: 'pdf',
+  docx: 'docx',
+  md: 'markdown',
+  markdown: 'markdown',
+  csv: 'csv',
+  txt: 'text'
+};
+
+export const MAX_KNOWLEDGE_FILE_BYTES = 10 * 1024 * 1024;
+
+// Declaration of the function voice agents call to look up their knowledge base
+export const SEARCH_KNOWLEDGE_BASE_FUNCTION = {
+  name: 'search_knowledge_base',
+  description: 'Search the documents you were given (FAQs, price sheets, policies) for facts you need to answer the caller. Use it before answering questions about prices, policies or product details, and answer only from what it returns.',
+  parameters: {
+    type: 'object',
+    properties: {
+      query: { type: 'string', description: 'What to look up, in a few words, e.g. "refund policy for annual plans"' }
+    },
+    required: ['query']
+  }
+};
+
+export interface KnowledgeSearchResult {
+  document: string
+  heading?: string
+  content: string
+  score: number
+}
+
+interface KnowledgeIndex {
+  chunks: KnowledgeChunk[]
+  terms: Map<string, number>[] // term frequencies per chunk
+  lengths: number[]
+  averageLength: number
+  documentFrequency: Map<string, number>
+  builtAt: number
+}
+
+// Passages are cut near this many characters, at paragraph and then sentence boundaries
+const CHUNK_TARGET_CHARS = 1000;
+const DEFAULT_RESULT_COUNT = 3;
+// Indexes are rebuilt after this long so uploads from other sessions show up
+const INDEX_TTL_MS = 5 * 60 * 1000;
+// BM25 parameters
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'do', 'does', 'for', 'from', 'how', 'i', 'if', 'in', 'is', 'it',
+  'my', 'of', 'on', 'or', 'our', 'so', 'that', 'the', 'their', 'this', 'to', 'was', 'we', 'what', 'when', 'where',
+  'which', 'who', 'will', 'with', 'you', 'your'
+]);
+
+/**
+ * Documents attached to an agent (PDF, DOCX, Markdown, CSV, plain text). Uploads are read in the
+ * browser, split into passages under their nearest heading and stored as knowledge_chunks. Searches
+ * rank the agent's passages with BM25 over an index built in this process; voice agents reach it
+ * through the search_knowledge_base function.
+ */
+export class KnowledgeBaseService {
+  private static indexes: Map<string, KnowledgeIndex> = new Map();
+
+  static getFileType(fileName: string): KnowledgeDocument['file_type'] | undefined {
+    const extension = fileName.split('.').pop()?.toLowerCase() || '';
+    return KNOWLEDGE_FILE_TYPES[extension];
+  }
+
+  // Text of a document, with headings as "# " lines so chunking can keep them
+  static async readDocument(file: File): Promise<string> {
+    switch (this.getFileType(file.name)) {
+      case 'pdf':
+        return extractPdfText(new Uint8Array(await file.arrayBuffer()));
+      case 'docx':
+        return this.parseDOCX(await file.arrayBuffer());
+      case 'csv':
+        return this.csvToText(await file.text());
+      case 'markdown':
+      case 'text':
+        return file.text();
+      default:
+        throw new Error('Unsupported file type. Upload PDF, DOCX, Markdown, CSV or text files.');
+    }
+  }
+
+  static async parseDOCX(buffer: ArrayBuffer): Promise<string> {
+    const files = await unzip(new Uint8Array(buffer)).catch(() => {
+      throw new Error('Not a valid .docx file');
+    });
+    const xml = files.get('word/document.xml');
+    if (!xml) {
+      throw new Error('Document has no readable text');
+    }
+
+    const document = new DOMParser().parseFromString(xml, 'application/xml');
+    return Array.from(document.getElementsByTagName('w:p'))
+      .map(paragraph => {
+        let text = '';
+        for (const node of Array.from(paragraph.getElementsByTagName('*'))) {
+          if (node.tagName === 'w:t') text += node.textContent || '';
+          else if (node.tagName === 'w:tab') text += '\t';
+          else if (node.tagName === 'w:br') text += '\n';
+        }
+        const style = paragraph.getElementsByTagName('w:pStyle')[0]?.getAttribute('w:val') || '';
+        return /^(Heading|Title)/i.test(style) && text.trim() ? `# ${text.trim()}` : text;
+      })
+      .join('\n\n');
+  }
+
+  // One passage per row: "Header: value; Header: value"
+  static csvToText(text: string): string {
+    const [headers, ...rows] = LeadImportService.parseCSV(text);
+    if (!headers) return '';
+    return rows
+      .map(row => headers
+        .map((header, index) => (row[index]?.trim() ? `${header.trim() || `Column ${index + 1}`}: ${row[index].trim()}` : ''))
+        .filter(Boolean)
+        .join('; '))
+      .filter(Boolean)
+      .join('\n\n');
+  }
+
+  static chunkText(text: string): Array<{ heading?: string; content: string }> {
+    const chunks: Array<{ heading?: string; content: string }> = [];
+    let heading: string | undefined;
+    let current = '';
+
+    const flush = () => {
+      const content = current.trim();
+      if (content) chunks.push({ heading, content });
+      current = '';
+    };
+
+    // Paragraphs are joined by a blank line, sentences of one paragraph by a space
+    const add = (piece: string, separator = '\n\n') => {
+      if (current && current.length + separator.length + piece.length > CHUNK_TARGET_CHARS) flush();
+      current = current ? current + separator + piece : piece;
+    };
+
+    for (const block of text.replace(/\r\n?/g, '\n').split(/\n\s*\n/)) {
+      const lines = block.split('\n');
+      const headingLine = lines[0].match(/^#{1,6}\s+(.+)$/);
+      if (headingLine) {
+        flush();
+        heading = headingLine[1].trim();
+        lines.shift();
+      }
+
+      const paragraph = lines.join('\n').trim();
+      if (!paragraph) continue;
+      if (paragraph.length <= CHUNK_TARGET_CHARS) {
+        add(paragraph);
+        continue;
+      }
+
+      // Long paragraphs split by sentence, and very long sentences by length
+      paragraph.split(/(?<=[.!?])\s+/).forEach((sentence, index) => {
+        for (let start = 0; start < sentence.length; start += CHUNK_TARGET_CHARS) {
+          add(sentence.slice(start, start + CHUNK_TARGET_CHARS), index === 0 && start === 0 ? '\n\n' : ' ');
+        }
+      });
+    }
+    flush();
+
+    return chunks;
+  }
+
+  static async uploadDocument(agent: AIAgent, file: File): Promise<KnowledgeDocument> {
+    const fileType = this.getFileType(file.name);
+    if (!fileType) {
+      throw new Error('Unsupported file type. Upload PDF, DOCX, Markdown, CSV or text files.');
+    }
+    if (file.size > MAX_KNOWLEDGE_FILE_BYTES) {
+      throw new Error('File is larger than 10 MB');
+    }
+
+    const chunks = this.chunkText(await this.readDocument(file));
+    if (chunks.length === 0) {
+      throw new Error('No text found in this file');
+    }
+
+    const document = await DatabaseService.createKnowledgeDocument({
+      profile_id: agent.profile_id,
+      agent_id: agent.id,
+      name: file.name,
+      file_type: fileType,
+      size_bytes: file.size,
+      chunk_count: chunks.length
+    });
+
+    try {
+      await DatabaseService.createKnowledgeChunks(chunks.map((chunk, index) => ({
+        profile_id: agent.profile_id,
+        agent_id: agent.id,
+        document_id: document.id,
+        chunk_index: index,
+        heading: chunk.heading,
+        content: chunk.content
+      })));
+    } catch (error) {
+      // Leave no document behind without its text
+      await DatabaseService.deleteKnowledgeDocument(document.id).catch(() => undefined);
+      throw error;
+    }
+
+    this.indexes.delete(agent.id);
+    return document;
+  }
+
+  static async deleteDocument(document: KnowledgeDocument): Promise<void> {
+    await DatabaseService.deleteKnowledgeDocument(document.id);
+    this.indexes.delete(document.agent_id);
+  }
+
+  static tokenize(text: string): string[] {
+    return text
+      .toLowerCase()
+      .split(/[^\p{L}\p{N}$%]+/u)
+      .filter(term => term && !STOP_WORDS.has(term) && (term.length > 1 || /\d/.test(term)));
+  }
+
+  private static async getIndex(agentId: string): Promise<KnowledgeIndex> {
+    const cached = this.indexes.get(agentId);
+    if (cached && Date.now() - cached.builtAt < INDEX_TTL_MS) {
+      return cached;
+    }
+
+    const chunks = await DatabaseService.getKnowledgeChunks(agentId);
+    const terms: Map<string, number>[] = [];
+    const lengths: number[] = [];
+    const documentFrequency = new Map<string, number>();
+
+    for (const chunk of chunks) {
+      // Headings and file names match too
+      const tokens = this.tokenize([chunk.knowledge_documents?.name, chunk.heading, chunk.content].filter(Boolean).join(' '));
+      const frequencies = new Map<string, number>();
+      for (const token of tokens) {
+        frequencies.set(token, (frequencies.get(token) || 0) + 1);
+      }
+      for (const term of frequencies.keys()) {
+        documentFrequency.set(term, (documentFrequency.get(term) || 0) + 1);
+      }
+      terms.push(frequencies);
+      lengths.push(tokens.length);
+    }
+
+    const index: KnowledgeIndex = {
+      chunks,
+      terms,
+      lengths,
+      averageLength: lengths.reduce((sum, length) => sum + length, 0) / Math.max(1, lengths.length),
+      documentFrequency,
+      builtAt: Date.now()
+    };
+    this.indexes.set(agentId, index);
+    return index;
+  }
+
+  static async search(agentId: string, query: string, limit = DEFAULT_RESULT_COUNT): Promise<KnowledgeSearchResult[]> {
+    const queryTerms = Array.from(new Set(this.tokenize(query)));
+    if (queryTerms.length === 0) return [];
+
+    const index = await this.getIndex(agentId);
+    const total = index.chunks.length;
+
+    return index.chunks
+      .map((chunk, position) => {
+        let score = 0;
+        for (const term of queryTerms) {
+          const frequency = index.terms[position].get(term) || 0;
+          if (frequency === 0) continue;
+          const documents = index.documentFrequency.get(term) || 0;
+          const idf = Math.log(1 + (total - documents + 0.5) / (documents + 0.5));
+          const lengthNorm = 1 - BM25_B + BM25_B * (index.lengths[position] / (index.averageLength || 1));
+          score += idf * (frequency * (BM25_K1 + 1)) / (frequency + BM25_K1 * lengthNorm);
+        }
+        return {
+          document: chunk.knowledge_documents?.name || 'Document',
+          heading: chunk.heading,
+          content: chunk.content,
+          score
+        };
+      })
+      .filter(result => result.score > 0)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit);
+  }
+
+  // Runs the agent's search_knowledge_base function for the call it was made in; never throws, the
+  // result is read back to the agent
+  static async handleFunctionCall(
+    callId: string,
+    args: { query?: string }
+  ): Promise<{ success: boolean; message: string; results?: KnowledgeSearchResult[] }> {
+    const startedAt = Date.now();
+    let result: { success: boolean; message: string; results?: KnowledgeSearchResult[] };
+    let profileId: string | undefined;
+
+    try {
+      const call = await DatabaseService.getCallLog(callId);
+      profileId = call?.profile_id;
+      if (!call?.agent_id) {
+        throw new Error('No agent is assigned to this call');
+      }
+      if (!args.query?.trim()) {
+        throw new Error('Say what to search for');
+      }
+
+      const results = await this.search(call.agent_id, args.query);
+      result = results.length > 0
+        ? { success: true, message: `Found ${results.length} relevant passage${results.length === 1 ? '' : 's'}`, results }
+        : { success: true, message: 'Nothing in the knowledge base matches; say you will find out rather than guessing', results: [] };
+    } catch (error) {
+      console.error('Error searching knowledge base:', error);
+      result = { success: false, message: error instanceof Error ? error.message : 'Knowledge base search failed' };
+    }
+
+    await DatabaseService.logFunctionCall({
+      profile_id: profileId,
+      call_id: callId,
+      function_name: SEARCH_KNOWLEDGE_BASE_FUNCTION.name,
+      parameters: args,
+      result,
+      execution_time_ms: Date.now() - startedAt,
+      success: result.success,
+      error_message: result.success ? undefined : result.message
+    });
+    return result;
+  }
+}
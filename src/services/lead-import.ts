@@ -0,0 +1,542 @@
+import { DatabaseService } from './database';
+import { isValidTimezone } from './calling-windows';
+import { SuppressionService } from './suppression';
+import { parsePhoneNumber } from '../lib/phoneNumbers';
+import { unzip } from '../lib/zip';
+import type { CampaignLead } from '../lib/supabase';
+
+export type LeadImportField =
+  | 'phone_number'
+  | 'first_name'
+  | 'last_name'
+  | 'email'
+  | 'company'
+  | 'title'
+  | 'priority'
+  | 'notes'
+  | 'timezone'
+  | 'preferred_call_time'
+
+// 'custom_field' keeps the column under its header name in custom_fields
+export type ColumnTarget = LeadImportField | 'custom_field' | 'ignore'
+
+// One target per column, by column index (headers are not guaranteed unique)
+export type ColumnMapping = ColumnTarget[]
+
+export interface ParsedSheet {
+  headers: string[]
+  rows: string[][]
+}
+
+export type LeadDraft = Omit<CampaignLead, 'id' | 'campaign_id' | 'created_at' | 'updated_at'>
+
+export interface LeadImportRow {
+  rowNumber: number // 1-based record in the source file, the header row is 1
+  lead: LeadDraft
+  errors: string[]
+  // Earlier row in the same file with the same phone number
+  duplicateOfRow?: number
+}
+
+export interface LeadImportPreview {
+  rows: LeadImportRow[]
+  validCount: number
+  errorCount: number
+  duplicateCount: number
+}
+
+// skip: leave the existing lead alone
+// update: copy the imported non-empty fields onto the existing lead
+// keep_newest: the most recent record wins outright (last row in the file, imported over existing)
+export type DuplicatePolicy = 'skip' | 'update' | 'keep_newest'
+
+export interface DuplicateOptions {
+  policy: DuplicatePolicy
+  // Also treat numbers already in the profile's other campaigns as duplicates
+  acrossCampaigns: boolean
+}
+
+export interface LeadImportDuplicate {
+  rowNumber: number
+  phone_number: string
+  action: 'skipped' | 'updated' | 'merged' | 'suppressed'
+  reason: string
+  existingLeadId?: string
+}
+
+export interface LeadImportResult {
+  inserted: number
+  updated: number
+  merged: number // rows folded into an earlier row of the same file
+  skipped: number
+  suppressed: number // on one of the profile's suppression lists
+  failed: number
+  errors: string[]
+  duplicates: LeadImportDuplicate[]
+}
+
+export const LEAD_IMPORT_FIELDS: { field: LeadImportField; label: string; required?: boolean; aliases: string[] }[] = [
+  { field: 'phone_number', label: 'Phone Number', required: true, aliases: ['phone', 'phone number', 'mobile', 'cell', 'number', 'telephone', 'tel'] },
+  { field: 'first_name', label: 'First Name', aliases: ['first', 'firstname', 'fname', 'given name'] },
+  { field: 'last_name', label: 'Last Name', aliases: ['last', 'lastname', 'lname', 'surname', 'family name'] },
+  { field: 'email', label: 'Email', aliases: ['email address', 'e-mail', 'mail'] },
+  { field: 'company', label: 'Company', aliases: ['company name', 'business', 'organization', 'organisation', 'account'] },
+  { field: 'title', label: 'Job Title', aliases: ['job title', 'position', 'role'] },
+  { field: 'priority', label: 'Priority', aliases: [] },
+  { field: 'notes', label: 'Notes', aliases: ['note', 'comments', 'comment'] },
+  { field: 'timezone', label: 'Timezone', aliases: ['time zone', 'tz'] },
+  { field: 'preferred_call_time', label: 'Preferred Call Time', aliases: ['best time', 'call time', 'preferred time'] }
+];
+
+const PRIORITIES: CampaignLead['priority'][] = ['low', 'normal', 'high', 'urgent'];
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const DEFAULT_CHUNK_SIZE = 500;
+const MERGE_FIELDS = [
+  'first_name', 'last_name', 'email', 'company', 'title', 'notes', 'timezone', 'preferred_call_time', 'line_type'
+] as const;
+
+export const DEFAULT_DUPLICATE_OPTIONS: DuplicateOptions = { policy: 'skip', acrossCampaigns: false };
+
+function normalizeHeader(header: string): string {
+  return header.trim().toLowerCase().replace(/[_\-.]+/g, ' ').replace(/\s+/g, ' ');
+}
+
+// "AB12" -> 27
+function columnIndex(cellRef: string): number {
+  const letters = cellRef.replace(/[^A-Z]/gi, '').toUpperCase();
+  let index = 0;
+  for (const letter of letters) {
+    index = index * 26 + (letter.charCodeAt(0) - 64);
+  }
+  return index - 1;
+}
+
+export class LeadImportService {
+  // RFC 4180: quoted fields may contain commas, doubled quotes and line breaks
+  static parseCSV(text: string): string[][] {
+    const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let inQuotes = false;
+
+    for (let i = 0; i < input.length; i++) {
+      const char = input[i];
+
+      if (inQuotes) {
+        if (char === '"') {
+          if (input[i + 1] === '"') {
+            field += '"';
+            i++;
+          } else {
+            inQuotes = false;
+          }
+        } else {
+          field += char;
+        }
+        continue;
+      }
+
+      if (char === '"' && field === '') {
+        inQuotes = true;
+      } else if (char === ',') {
+        row.push(field);
+        field = '';
+      } else if (char === '\r' || char === '\n') {
+        if (char === '\r' && input[i + 1] === '\n') i++;
+        row.push(field);
+        rows.push(row);
+        row = [];
+        field = '';
+      } else {
+        field += char;
+      }
+    }
+
+    if (field !== '' || row.length > 0) {
+      row.push(field);
+      rows.push(row);
+    }
+
+    // Drop blank lines
+    return rows.filter(values => values.some(value => value.trim() !== ''));
+  }
+
+  // Reads the first worksheet of an .xlsx workbook
+  static async parseXLSX(buffer: ArrayBuffer): Promise<string[][]> {
+    const files = await unzip(new Uint8Array(buffer)).catch(() => {
+      throw new Error('Not a valid .xlsx file');
+    });
+    const parser = new DOMParser();
+    const parse = (name: string) => {
+      const xml = files.get(name);
+      return xml ? parser.parseFromString(xml, 'application/xml') : null;
+    };
+
+    const sharedStrings = Array.from(parse('xl/sharedStrings.xml')?.getElementsByTagName('si') || [])
+      .map(item => Array.from(item.getElementsByTagName('t')).map(text => text.textContent || '').join(''));
+
+    // Resolve the first sheet through the workbook relationships
+    let sheetPath = 'xl/worksheets/sheet1.xml';
+    const firstSheet = parse('xl/workbook.xml')?.getElementsByTagName('sheet')[0];
+    const relationId = firstSheet?.getAttribute('r:id');
+    if (relationId) {
+      const relation = Array.from(parse('xl/_rels/workbook.xml.rels')?.getElementsByTagName('Relationship') || [])
+        .find(rel => rel.getAttribute('Id') === relationId);
+      const target = relation?.getAttribute('Target');
+      if (target) {
+        sheetPath = target.startsWith('/') ? target.slice(1) : `xl/${target}`;
+      }
+    }
+
+    const sheet = parse(sheetPath);
+    if (!sheet) {
+      throw new Error('Workbook does not contain a readable worksheet');
+    }
+
+    const rows: string[][] = [];
+    for (const rowElement of Array.from(sheet.getElementsByTagName('row'))) {
+      const values: string[] = [];
+      Array.from(rowElement.getElementsByTagName('c')).forEach((cell, position) => {
+        const ref = cell.getAttribute('r');
+        const index = ref ? columnIndex(ref) : position;
+        const type = cell.getAttribute('t');
+        const raw = cell.getElementsByTagName('v')[0]?.textContent || '';
+
+        let value = raw;
+        if (type === 's') {
+          value = sharedStrings[parseInt(raw, 10)] || '';
+        } else if (type === 'inlineStr') {
+          value = Array.from(cell.getElementsByTagName('t')).map(text => text.textContent || '').join('');
+        } else if (type === 'b') {
+          value = raw === '1' ? 'TRUE' : 'FALSE';
+        }
+
+        while (values.length < index) values.push('');
+        values[index] = value;
+      });
+      rows.push(values);
+    }
+
+    return rows.filter(values => values.some(value => value.trim() !== ''));
+  }
+
+  static async readFile(file: File): Promise<ParsedSheet> {
+    const isExcel = /\.xlsx$/i.test(file.name);
+    const rows = isExcel
+      ? await this.parseXLSX(await file.arrayBuffer())
+      : this.parseCSV(await file.text());
+
+    if (rows.length === 0) {
+      throw new Error('File is empty');
+    }
+
+    const [headerRow, ...dataRows] = rows;
+    const headers = headerRow.map((header, index) => header.trim() || `Column ${index + 1}`);
+    return {
+      headers,
+      rows: dataRows.map(row => headers.map((_, index) => (row[index] || '').trim()))
+    };
+  }
+
+  // Best-guess mapping from header names; unknown columns go to custom_fields
+  static suggestMapping(headers: string[]): ColumnMapping {
+    const used = new Set<LeadImportField>();
+
+    return headers.map(header => {
+      const normalized = normalizeHeader(header);
+      const match = LEAD_IMPORT_FIELDS.find(({ field, aliases }) =>
+        !used.has(field) && (normalizeHeader(field) === normalized || aliases.includes(normalized))
+      );
+      if (match) {
+        used.add(match.field);
+        return match.field;
+      }
+      return 'custom_field';
+    });
+  }
+
+  static buildPreview(sheet: ParsedSheet, mapping: ColumnMapping): LeadImportPreview {
+    const rows = sheet.rows.map((values, index) => this.buildRow(sheet.headers, values, mapping, index + 2));
+    const errorCount = rows.filter(row => row.errors.length > 0).length;
+
+    const firstRowByPhone = new Map<string, number>();
+    for (const row of rows) {
+      if (row.errors.length > 0) continue;
+      const firstRow = firstRowByPhone.get(row.lead.phone_number);
+      if (firstRow) {
+        row.duplicateOfRow = firstRow;
+      } else {
+        firstRowByPhone.set(row.lead.phone_number, row.rowNumber);
+      }
+    }
+
+    return {
+      rows,
+      validCount: rows.length - errorCount,
+      errorCount,
+      duplicateCount: rows.filter(row => row.duplicateOfRow).length
+    };
+  }
+
+  private static buildRow(headers: string[], values: string[], mapping: ColumnMapping, rowNumber: number): LeadImportRow {
+    const lead: LeadDraft = {
+      phone_number: '',
+      status: 'pending',
+      priority: 'normal',
+      call_attempts: 0,
+      do_not_call: false
+    };
+    const customFields: Record<string, string> = {};
+    const errors: string[] = [];
+
+    mapping.forEach((target, index) => {
+      const value = values[index] || '';
+      if (target === 'ignore' || value === '') return;
+
+      switch (target) {
+        case 'custom_field':
+          customFields[headers[index]] = value;
+          break;
+        case 'priority': {
+          const priority = value.toLowerCase() as CampaignLead['priority'];
+          if (PRIORITIES.includes(priority)) {
+            lead.priority = priority;
+          } else {
+            errors.push(`Priority must be one of ${PRIORITIES.join(', ')}`);
+          }
+          break;
+        }
+        default:
+          lead[target] = value;
+      }
+    });
+
+    const phone = parsePhoneNumber(lead.phone_number);
+    if (!lead.phone_number) {
+      errors.push('Phone number is required');
+    } else if (!phone) {
+      errors.push(`Invalid phone number "${lead.phone_number}"`);
+    } else if (phone.lineType === 'premium_rate') {
+      errors.push(`Premium-rate number "${lead.phone_number}" cannot be dialed`);
+    } else {
+      lead.phone_number = phone.e164;
+      lead.line_type = phone.lineType;
+    }
+    if (lead.email && !EMAIL_PATTERN.test(lead.email)) {
+      errors.push(`Invalid email "${lead.email}"`);
+    }
+    if (lead.timezone && !isValidTimezone(lead.timezone)) {
+      errors.push(`Unknown timezone "${lead.timezone}"`);
+    }
+
+    if (Object.keys(customFields).length > 0) {
+      lead.custom_fields = customFields;
+    }
+
+    return { rowNumber, lead, errors };
+  }
+
+  // Changes to apply to `target` so it reflects `incoming` under the given policy
+  private static mergeLead(target: LeadDraft, incoming: LeadDraft, policy: DuplicatePolicy): Partial<LeadDraft> {
+    const changes: Partial<LeadDraft> = {};
+
+    for (const field of MERGE_FIELDS) {
+      const value = incoming[field];
+      if (value !== undefined && value !== target[field]) {
+        Object.assign(changes, { [field]: value });
+      } else if (value === undefined && policy === 'keep_newest' && target[field] != null) {
+        // The newest record wins outright, so fields it leaves out are cleared
+        Object.assign(changes, { [field]: null });
+      }
+    }
+
+    if (policy === 'keep_newest') {
+      if (incoming.custom_fields || Object.keys(target.custom_fields || {}).length > 0) {
+        changes.custom_fields = { ...incoming.custom_fields };
+      }
+    } else if (incoming.custom_fields) {
+      changes.custom_fields = { ...target.custom_fields, ...incoming.custom_fields };
+    }
+    if (policy === 'keep_newest' || incoming.priority !== 'normal') {
+      changes.priority = incoming.priority;
+    }
+
+    return changes;
+  }
+
+  // Collapses rows that share a phone number according to the policy
+  private static collapseFileDuplicates(rows: LeadImportRow[], policy: DuplicatePolicy, duplicates: LeadImportDuplicate[]): LeadImportRow[] {
+    const byPhone = new Map<string, LeadImportRow>();
+
+    for (const row of rows) {
+      const kept = byPhone.get(row.lead.phone_number);
+      if (!kept) {
+        byPhone.set(row.lead.phone_number, { ...row, lead: { ...row.lead } });
+        continue;
+      }
+
+      if (policy === 'skip') {
+        duplicates.push({ rowNumber: row.rowNumber, phone_number: row.lead.phone_number, action: 'skipped', reason: `Same number as row ${kept.rowNumber}` });
+      } else {
+        Object.assign(kept.lead, this.mergeLead(kept.lead, row.lead, policy));
+        duplicates.push({ rowNumber: row.rowNumber, phone_number: row.lead.phone_number, action: 'merged', reason: `Merged into row ${kept.rowNumber}` });
+      }
+    }
+
+    return Array.from(byPhone.values());
+  }
+
+  // Import rows copying existing leads into another campaign as fresh, uncalled leads
+  static rowsFromLeads(leads: CampaignLead[]): LeadImportRow[] {
+    return leads.map((lead, index) => ({
+      rowNumber: index + 1,
+      errors: [],
+      lead: {
+        phone_number: lead.phone_number,
+        line_type: lead.line_type,
+        first_name: lead.first_name,
+        last_name: lead.last_name,
+        email: lead.email,
+        company: lead.company,
+        title: lead.title,
+        priority: lead.priority,
+        notes: lead.notes,
+        custom_fields: lead.custom_fields,
+        timezone: lead.timezone,
+        preferred_call_time: lead.preferred_call_time,
+        status: 'pending',
+        call_attempts: 0,
+        do_not_call: false
+      }
+    }));
+  }
+
+  // Inserts valid rows in chunks after resolving duplicates; a failed chunk is reported and the rest continue
+  static async importLeads(
+    campaignId: string,
+    rows: LeadImportRow[],
+    options: {
+      chunkSize?: number
+      onProgress?: (done: number, total: number) => void
+      duplicates?: DuplicateOptions
+      profileId?: string
+    } = {}
+  ): Promise<LeadImportResult> {
+    const { policy, acrossCampaigns } = options.duplicates || DEFAULT_DUPLICATE_OPTIONS;
+    const chunkSize = options.chunkSize || DEFAULT_CHUNK_SIZE;
+    const result: LeadImportResult = { inserted: 0, updated: 0, merged: 0, skipped: 0, suppressed: 0, failed: 0, errors: [], duplicates: [] };
+
+    let uniqueRows = this.collapseFileDuplicates(rows.filter(row => row.errors.length === 0), policy, result.duplicates);
+
+    // Suppressed people are neither inserted nor used to update existing leads
+    if (options.profileId) {
+      let suppressed: Map<LeadDraft, { reason: string }>;
+      try {
+        suppressed = await SuppressionService.findSuppressed(options.profileId, uniqueRows.map(row => row.lead));
+      } catch (error) {
+        console.error('Error checking suppression lists:', error);
+        result.failed = uniqueRows.length;
+        result.errors.push('Could not check suppression lists, nothing was imported');
+        return result;
+      }
+
+      uniqueRows = uniqueRows.filter(row => {
+        const match = suppressed.get(row.lead);
+        if (match) {
+          result.duplicates.push({ rowNumber: row.rowNumber, phone_number: row.lead.phone_number, action: 'suppressed', reason: `On suppression list ${match.reason}` });
+        }
+        return !match;
+      });
+      result.suppressed = result.duplicates.filter(duplicate => duplicate.action === 'suppressed').length;
+    }
+
+    // Look up numbers that already exist in this campaign (and, optionally, the profile's other campaigns)
+    let campaignIds = [campaignId];
+    if (acrossCampaigns && options.profileId) {
+      const campaigns = await DatabaseService.getCampaigns(options.profileId);
+      campaignIds = Array.from(new Set([campaignId, ...campaigns.map(campaign => campaign.id)]));
+    }
+
+    let existingLeads: CampaignLead[] = [];
+    try {
+      existingLeads = await DatabaseService.findCampaignLeadsByPhone(campaignIds, uniqueRows.map(row => row.lead.phone_number));
+    } catch (error) {
+      console.error('Error checking for existing leads:', error);
+      result.failed = uniqueRows.length;
+      result.errors.push('Could not check for existing leads, nothing was imported');
+      return result;
+    }
+
+    const existingInCampaign = new Map(existingLeads.filter(lead => lead.campaign_id === campaignId).map(lead => [lead.phone_number, lead]));
+    const existingElsewhere = new Map(existingLeads.filter(lead => lead.campaign_id !== campaignId).map(lead => [lead.phone_number, lead]));
+
+    const newRows: LeadImportRow[] = [];
+    for (const row of uniqueRows) {
+      const existing = existingInCampaign.get(row.lead.phone_number);
+      const elsewhere = existingElsewhere.get(row.lead.phone_number);
+
+      if (existing && policy !== 'skip') {
+        try {
+          const changes = this.mergeLead(existing, row.lead, policy);
+          if (Object.keys(changes).length > 0) {
+            await DatabaseService.updateCampaignLead(existing.id, changes);
+          }
+          result.updated++;
+          result.duplicates.push({ rowNumber: row.rowNumber, phone_number: row.lead.phone_number, action: 'updated', reason: 'Already in this campaign', existingLeadId: existing.id });
+        } catch (error) {
+          console.error('Error updating existing lead:', error);
+          result.failed++;
+          result.errors.push(`Row ${row.rowNumber}: could not update existing lead`);
+        }
+      } else if (existing || elsewhere) {
+        // Leads in other campaigns are never modified from here, only kept from being dialed twice
+        result.duplicates.push({
+          rowNumber: row.rowNumber,
+          phone_number: row.lead.phone_number,
+          action: 'skipped',
+          reason: existing ? 'Already in this campaign' : 'Already in another campaign',
+          existingLeadId: (existing || elsewhere)!.id
+        });
+      } else {
+        newRows.push(row);
+      }
+    }
+
+    for (let start = 0; start < newRows.length; start += chunkSize) {
+      const chunk = newRows.slice(start, start + chunkSize);
+      try {
+        const created = await DatabaseService.bulkCreateCampaignLeads(
+          chunk.map(row => ({ ...row.lead, campaign_id: campaignId }))
+        );
+        result.inserted += created.length;
+      } catch (error) {
+        console.error('Error importing lead chunk:', error);
+        result.failed += chunk.length;
+        result.errors.push(
+          `Rows ${chunk[0].rowNumber}-${chunk[chunk.length - 1].rowNumber}: ${error instanceof Error ? error.message : 'insert failed'}`
+        );
+      }
+      options.onProgress?.(Math.min(start + chunkSize, newRows.length), newRows.length);
+    }
+
+    result.merged = result.duplicates.filter(duplicate => duplicate.action === 'merged').length;
+    result.skipped = result.duplicates.filter(duplicate => duplicate.action === 'skipped').length;
+    return result;
+  }
+
+  // One-line summary for toasts and logs
+  static summarize(result: LeadImportResult): string {
+    const parts = [`${result.inserted} inserted`, `${result.updated} updated`, `${result.skipped} skipped`];
+    if (result.merged > 0) {
+      parts.push(`${result.merged} merged`);
+    }
+    if (result.suppressed > 0) {
+      parts.push(`${result.suppressed} suppressed`);
+    }
+    if (result.failed > 0) {
+      parts.push(`${result.failed} failed`);
+    }
+    return parts.join(', ');
+  }
+}
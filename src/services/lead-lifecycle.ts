@@ -0,0 +1,183 @@
+import type { Campaign, CampaignLead } from '../lib/supabase';
+
+export type LeadStatus = CampaignLead['status']
+
+// Raw call outcomes reported by the dialer
+export type AttemptOutcome =
+  | 'answered'
+  | 'abandoned'
+  | 'busy'
+  | 'no_answer'
+  | 'timeout'
+  | 'failed'
+  | 'dialer_error'
+  | 'cancelled'
+  | 'machine' // answering machine, hung up
+  | 'voicemail' // answering machine, message left
+  | 'fax'
+
+export interface RetryRule {
+  delayMinutes: number
+  // Attempts ending with this outcome before the lead is closed
+  maxAttempts: number
+}
+
+// Keyed by disposition code; a field left out falls back to the campaign retry settings
+export type RetryPolicy = Record<string, Partial<RetryRule>>
+
+export interface AttemptResolution {
+  // Statuses the lead passes through, ending with the one that is stored
+  path: LeadStatus[]
+  updates: Partial<CampaignLead>
+}
+
+// pending → dialing → answered/no_answer/busy/failed → retry/completed/dnc
+// 'called' is the pre-lifecycle name for 'dialing' and is read the same way.
+const LEAD_TRANSITIONS: Record<LeadStatus, LeadStatus[]> = {
+  pending: ['dialing', 'completed', 'dnc'],
+  dialing: ['answered', 'no_answer', 'busy', 'failed'],
+  called: ['answered', 'no_answer', 'busy', 'failed'],
+  answered: ['completed', 'retry', 'dnc'],
+  no_answer: ['retry', 'completed', 'dnc'],
+  busy: ['retry', 'completed', 'dnc'],
+  failed: ['retry', 'completed', 'dnc'],
+  retry: ['dialing', 'completed', 'dnc'],
+  completed: [],
+  dnc: []
+};
+
+// Status recorded for each raw outcome before the lead is resolved
+const OUTCOME_STATUS: Record<AttemptOutcome, LeadStatus> = {
+  answered: 'answered',
+  abandoned: 'answered',
+  busy: 'busy',
+  no_answer: 'no_answer',
+  timeout: 'no_answer',
+  failed: 'failed',
+  dialer_error: 'failed',
+  cancelled: 'failed',
+  machine: 'no_answer',
+  voicemail: 'no_answer',
+  fax: 'failed'
+};
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  busy: { delayMinutes: 10, maxAttempts: 5 },
+  no_answer: { delayMinutes: 240, maxAttempts: 3 },
+  timeout: { delayMinutes: 240, maxAttempts: 3 },
+  // We hung up on a live person; call back soon
+  abandoned: { delayMinutes: 30, maxAttempts: 2 },
+  machine: { delayMinutes: 240, maxAttempts: 3 },
+  // A message is waiting for them; give it a day before calling again
+  voicemail: { delayMinutes: 1440, maxAttempts: 2 },
+  // A fax line will not become a person
+  fax: { delayMinutes: 0, maxAttempts: 0 },
+  // Dial cancelled by us (dialer stopped); does not count against the lead
+  cancelled: { delayMinutes: 0, maxAttempts: Infinity }
+};
+
+export class LeadLifecycle {
+  static canTransition(from: LeadStatus, to: LeadStatus): boolean {
+    return from === to || LEAD_TRANSITIONS[from]?.includes(to) || false;
+  }
+
+  static assertTransition(from: LeadStatus, to: LeadStatus): void {
+    if (!this.canTransition(from, to)) {
+      throw new Error(`Invalid lead status transition: ${from} → ${to}`);
+    }
+  }
+
+  static isClosed(status: LeadStatus): boolean {
+    return LEAD_TRANSITIONS[status].length === 0;
+  }
+
+  // A call to the lead is still in flight; only its attempt result may move it on
+  static isDialing(status: LeadStatus): boolean {
+    return status === 'dialing' || status === 'called';
+  }
+
+  // Campaign-level rules on top of the profile's disposition rules; unlisted outcomes use the campaign retry delay
+  static getRetryRule(
+    outcome: AttemptOutcome,
+    campaign: Pick<Campaign, 'retry_delay_minutes' | 'retry_attempts' | 'retry_policy'>,
+    basePolicy: RetryPolicy = DEFAULT_RETRY_POLICY
+  ): RetryRule | null {
+    if (outcome === 'answered') {
+      return null;
+    }
+
+    const override = campaign.retry_policy?.[outcome];
+    const base = basePolicy[outcome];
+
+    return {
+      delayMinutes: override?.delay_minutes ?? base?.delayMinutes ?? campaign.retry_delay_minutes,
+      maxAttempts: override?.max_attempts ?? base?.maxAttempts ?? campaign.retry_attempts
+    };
+  }
+
+  // Moves a lead into the dialing state
+  static startAttempt(lead: CampaignLead, now: Date = new Date()): Partial<CampaignLead> {
+    this.assertTransition(lead.status, 'dialing');
+    return {
+      status: 'dialing',
+      call_attempts: (lead.call_attempts || 0) + 1,
+      last_call_at: now.toISOString()
+    };
+  }
+
+  // Resolves a finished attempt to retry, completed or dnc and schedules the next call
+  static resolveAttempt(
+    lead: CampaignLead,
+    outcome: AttemptOutcome,
+    campaign: Pick<Campaign, 'retry_delay_minutes' | 'retry_attempts' | 'retry_policy'>,
+    now: Date = new Date(),
+    basePolicy: RetryPolicy = DEFAULT_RETRY_POLICY
+  ): AttemptResolution {
+    const outcomeStatus = OUTCOME_STATUS[outcome];
+    this.assertTransition(lead.status, outcomeStatus);
+
+    const outcomeAttempts = { ...lead.outcome_attempts };
+    if (outcome !== 'cancelled') {
+      outcomeAttempts[outcome] = (outcomeAttempts[outcome] || 0) + 1;
+    }
+
+    // A cancelled dial is handed back, so it does not use up one of the lead's attempts
+    const callAttempts = outcome === 'cancelled' ? Math.max(0, (lead.call_attempts || 0) - 1) : lead.call_attempts || 0;
+    const rule = this.getRetryRule(outcome, campaign, basePolicy);
+    const attemptsLeft = callAttempts < campaign.retry_attempts;
+    const retry = !!rule && attemptsLeft && (outcomeAttempts[outcome] || 0) < rule.maxAttempts;
+
+    const finalStatus: LeadStatus = retry ? 'retry' : 'completed';
+    this.assertTransition(outcomeStatus, finalStatus);
+
+    return {
+      path: [outcomeStatus, finalStatus],
+      updates: {
+        status: finalStatus,
+        // A disposition code; status 'completed' with a retryable outcome means its attempts ran out
+        outcome,
+        outcome_attempts: outcomeAttempts,
+        call_attempts: callAttempts,
+        ...(retry ? { next_call_at: new Date(now.getTime() + rule!.delayMinutes * 60000).toISOString() } : {})
+      }
+    };
+  }
+
+  // A closed lead asked to be called back; only a scheduled callback reopens one, never a dial outcome
+  static reopen(lead: CampaignLead): Partial<CampaignLead> {
+    if (lead.status === 'dnc' || lead.do_not_call) {
+      throw new Error('Do-not-call leads cannot be reopened');
+    }
+    return { status: 'retry' };
+  }
+
+  // Closes a lead without dialing it (compliance block, opt-out)
+  static close(lead: CampaignLead, status: 'completed' | 'dnc', outcome: string): Partial<CampaignLead> {
+    this.assertTransition(lead.status, status);
+    return {
+      status,
+      outcome,
+      do_not_call: status === 'dnc' ? true : lead.do_not_call
+    };
+  }
+}
@@ -0,0 +1,172 @@
+import { DatabaseService } from './database';
+import { LeadImportService } from './lead-import';
+import type { LeadImportResult } from './lead-import';
+import { resolveLeadState } from './state-regulations';
+import type { Campaign, CampaignLead, LeadSegment, LeadSegmentRule } from '../lib/supabase';
+
+export type SegmentOperator = LeadSegmentRule['operator']
+
+export interface SegmentField {
+  field: string
+  label: string
+  type: 'text' | 'number' | 'date' | 'choice'
+  options?: string[]
+}
+
+export const SEGMENT_FIELDS: SegmentField[] = [
+  { field: 'first_name', label: 'First Name', type: 'text' },
+  { field: 'last_name', label: 'Last Name', type: 'text' },
+  { field: 'company', label: 'Company', type: 'text' },
+  { field: 'title', label: 'Job Title', type: 'text' },
+  { field: 'email', label: 'Email', type: 'text' },
+  { field: 'phone_number', label: 'Phone Number', type: 'text' },
+  { field: 'state', label: 'State', type: 'text' },
+  { field: 'timezone', label: 'Timezone', type: 'text' },
+  { field: 'status', label: 'Status', type: 'choice', options: ['pending', 'retry', 'completed', 'no_answer', 'busy', 'failed', 'dnc'] },
+  { field: 'priority', label: 'Priority', type: 'choice', options: ['low', 'normal', 'high', 'urgent'] },
+  { field: 'outcome', label: 'Disposition', type: 'text' },
+  { field: 'call_attempts', label: 'Call Attempts', type: 'number' },
+  { field: 'last_call_at', label: 'Last Called', type: 'date' },
+  { field: 'created_at', label: 'Added', type: 'date' }
+];
+
+export const SEGMENT_OPERATORS: Array<{ value: SegmentOperator; label: string; types: SegmentField['type'][] }> = [
+  { value: 'equals', label: 'is', types: ['text', 'number', 'date', 'choice'] },
+  { value: 'not_equals', label: 'is not', types: ['text', 'number', 'date', 'choice'] },
+  { value: 'contains', label: 'contains', types: ['text'] },
+  { value: 'not_contains', label: 'does not contain', types: ['text'] },
+  { value: 'starts_with', label: 'starts with', types: ['text'] },
+  { value: 'in', label: 'is one of', types: ['text', 'choice'] },
+  { value: 'not_in', label: 'is not one of', types: ['text', 'choice'] },
+  { value: 'lt', label: 'is less than', types: ['number', 'date'] },
+  { value: 'gt', label: 'is more than', types: ['number', 'date'] },
+  { value: 'is_empty', label: 'is empty', types: ['text', 'number', 'date', 'choice'] },
+  { value: 'is_not_empty', label: 'is not empty', types: ['text', 'number', 'date', 'choice'] }
+];
+
+// Leads read per request while evaluating a segment, and in total
+const SEGMENT_PAGE_SIZE = 500;
+const MAX_SEGMENT_LEADS = 10000;
+// How often the dialer pulls new segment matches into a running campaign
+export const SEGMENT_SYNC_INTERVAL_MS = 15 * 60 * 1000;
+
+function isBlank(value: unknown): boolean {
+  return value === undefined || value === null || String(value).trim() === '';
+}
+
+/**
+ * Saved lead segments: rules over lead columns, the lead's state and its custom fields, matched
+ * against the leads of the profile's campaigns. A segment can feed a campaign, which copies the
+ * matching leads into it as new leads (suppression lists and duplicate checks apply as for an import).
+ */
+export class LeadSegmentService {
+  static getField(field: string): SegmentField {
+    const known = SEGMENT_FIELDS.find(entry => entry.field === field);
+    if (known) return known;
+    return { field, label: field.replace(/^custom_fields\./, ''), type: 'text' };
+  }
+
+  static getFieldValue(lead: CampaignLead, field: string): unknown {
+    if (field === 'state') {
+      return resolveLeadState({ phone_number: lead.phone_number, state: lead.custom_fields?.state });
+    }
+    if (field.startsWith('custom_fields.')) {
+      return lead.custom_fields?.[field.slice('custom_fields.'.length)];
+    }
+    return (lead as unknown as Record<string, unknown>)[field];
+  }
+
+  static matchesRule(lead: CampaignLead, rule: LeadSegmentRule): boolean {
+    const actual = this.getFieldValue(lead, rule.field);
+    const expected = Array.isArray(rule.value) ? rule.value : [String(rule.value ?? '')];
+    const text = isBlank(actual) ? '' : String(actual).toLowerCase();
+    const wanted = expected.map(value => value.trim().toLowerCase());
+
+    // Numbers compare as numbers, dates as timestamps, everything else as text
+    const compare = (): number | null => {
+      if (isBlank(actual) || isBlank(wanted[0])) return null;
+      const type = this.getField(rule.field).type;
+      if (type === 'date') {
+        return new Date(String(actual)).getTime() - new Date(wanted[0]).getTime();
+      }
+      const left = Number(actual);
+      const right = Number(wanted[0]);
+      return Number.isFinite(left) && Number.isFinite(right) ? left - right : text.localeCompare(wanted[0]);
+    };
+
+    switch (rule.operator) {
+      case 'equals': return text === wanted[0] || compare() === 0;
+      case 'not_equals': return !(text === wanted[0] || compare() === 0);
+      case 'contains': return text.includes(wanted[0]);
+      case 'not_contains': return !text.includes(wanted[0]);
+      case 'starts_with': return text.startsWith(wanted[0]);
+      case 'in': return wanted.includes(text);
+      case 'not_in': return !wanted.includes(text);
+      case 'lt': return (compare() ?? NaN) < 0;
+      case 'gt': return (compare() ?? NaN) > 0;
+      case 'is_empty': return isBlank(actual);
+      case 'is_not_empty': return !isBlank(actual);
+      default: return false;
+    }
+  }
+
+  // A segment without rules matches every lead
+  static matches(lead: CampaignLead, segment: Pick<LeadSegment, 'match' | 'rules'>): boolean {
+    if (segment.rules.length === 0) return true;
+    return segment.match === 'any'
+      ? segment.rules.some(rule => this.matchesRule(lead, rule))
+      : segment.rules.every(rule => this.matchesRule(lead, rule));
+  }
+
+  // Matching leads across the segment's source campaigns, one per phone number (the most recently updated)
+  static async getSegmentLeads(
+    segment: Pick<LeadSegment, 'profile_id' | 'match' | 'rules' | 'source_campaign_ids'>,
+    options: { excludeCampaignId?: string } = {}
+  ): Promise<CampaignLead[]> {
+    const campaignIds = segment.source_campaign_ids && segment.source_campaign_ids.length > 0
+      ? segment.source_campaign_ids
+      : (await DatabaseService.getCampaigns(segment.profile_id)).map(campaign => campaign.id);
+    // With 'any' a lead can match a rule the database is not filtering on, so everything is read
+    const filters = segment.match === 'all' ? segment.rules : [];
+
+    const byPhone = new Map<string, CampaignLead>();
+    let scanned = 0;
+    for (const campaignId of campaignIds) {
+      if (campaignId === options.excludeCampaignId) continue;
+
+      for (let offset = 0; scanned < MAX_SEGMENT_LEADS; offset += SEGMENT_PAGE_SIZE) {
+        const page = await DatabaseService.getCampaignLeads(campaignId, { limit: SEGMENT_PAGE_SIZE, offset, filters });
+        scanned += page.length;
+
+        for (const lead of page) {
+          if (!this.matches(lead, segment)) continue;
+          const existing = byPhone.get(lead.phone_number);
+          if (!existing || existing.updated_at < lead.updated_at) {
+            byPhone.set(lead.phone_number, lead);
+          }
+        }
+        if (page.length < SEGMENT_PAGE_SIZE) break;
+      }
+    }
+
+    if (scanned >= MAX_SEGMENT_LEADS) {
+      console.warn(`Segment evaluation stopped after ${MAX_SEGMENT_LEADS} leads`);
+    }
+    return Array.from(byPhone.values());
+  }
+
+  // Copies the segment's current matches into the campaign as fresh leads; leads already in it are left alone
+  static async feedCampaign(campaign: Pick<Campaign, 'id' | 'profile_id'>, segment: LeadSegment): Promise<LeadImportResult> {
+    const leads = await this.getSegmentLeads(segment, { excludeCampaignId: campaign.id });
+
+    const rows = LeadImportService.rowsFromLeads(leads.filter(lead => !lead.do_not_call && lead.status !== 'dnc'));
+
+    const result = await LeadImportService.importLeads(campaign.id, rows, {
+      duplicates: { policy: 'skip', acrossCampaigns: false },
+      profileId: campaign.profile_id
+    });
+
+    await DatabaseService.updateCampaign(campaign.id, { segment_synced_at: new Date().toISOString() });
+    return result;
+  }
+}
@@ -191,6 +191,11 @@ export class NotificationService {
     }
   }
 
+  // Campaign started notification (webhooks only)
+  static async notifyCampaignStarted(userId: string, campaignData: Record<string, unknown>) {
+    await this.processWebhookEvent('campaign.started', campaignData, userId);
+  }
+
   // Send campaign completion notification
   static async notifyCampaignCompleted(userId: string, campaignData: any) {
     const user = await this.getUserProfile(userId);
@@ -205,7 +210,9 @@ export class NotificationService {
         total_leads: campaignData.total_leads,
         calls_made: campaignData.leads_called,
         successful_contacts: campaignData.leads_answered,
-        success_rate: ((campaignData.leads_answered / campaignData.total_leads) * 100).toFixed(1),
+        success_rate: campaignData.total_leads > 0
+          ? ((campaignData.leads_answered / campaignData.total_leads) * 100).toFixed(1)
+          : '0.0',
         dashboard_url: `${process.env.VITE_APP_URL}/campaigns`
       }
     };
@@ -1,5 +1,6 @@
 import CryptoJS from 'crypto-js';
 import { supabase } from '../lib/supabase';
+import { phoneNumberVariants } from '../lib/phoneNumbers';
 
 export interface PIIField {
   field_name: string
@@ -356,7 +357,7 @@ export class PrivacySecurityService {
         // Assuming we can link calls to contacts via phone number
         const contact = personalData?.[0];
         if (contact?.phone_number) {
-          callHistoryQuery = callHistoryQuery.eq('phone_number_to', contact.phone_number);
+          callHistoryQuery = callHistoryQuery.in('phone_number_to', phoneNumberVariants(contact.phone_number));
         }
       }
 
@@ -499,7 +500,7 @@ export class PrivacySecurityService {
         .from('call_logs')
         .select('*')
         .eq('profile_id', profileId)
-        .eq('phone_number_to', contactId); // Assuming contactId could be phone number
+        .in('phone_number_to', phoneNumberVariants(contactId)); // Assuming contactId could be phone number
 
       if (callLogs) {
         for (const log of callLogs) {
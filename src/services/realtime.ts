@@ -1,5 +1,5 @@
 import { supabase } from '../lib/supabase';
-import type { CallLog, Campaign, DNCEntry, WebhookEndpoint, Appointment, AIAgent } from '../lib/supabase';
+import type { CallLog, Campaign, DNCEntry, WebhookEndpoint, Appointment, AIAgent, AgentToolCall } from '../lib/supabase';
 
 export interface RealtimeCallUpdate {
   id: string
@@ -158,6 +158,101 @@ export class RealtimeService {
     return channelName;
   }
 
+  // Subscribe to updates of a single campaign; several can be watched at once, unlike the per-profile channel
+  static subscribeToCampaign(campaignId: string, onUpdate: (campaign: Campaign) => void) {
+    if (this.isDemoMode()) {
+      console.log('Demo mode: Real-time subscriptions not available');
+      return 'demo-subscription';
+    }
+
+    const channelName = `campaign_${campaignId}`;
+
+    // Unsubscribe from existing channel if it exists
+    this.unsubscribe(channelName);
+
+    const channel = supabase
+      .channel(channelName)
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'outbound_campaigns',
+          filter: `id=eq.${campaignId}`
+        },
+        (payload) => {
+          onUpdate(payload.new as Campaign);
+        }
+      )
+      .subscribe();
+
+    this.channels.set(channelName, channel);
+    return channelName;
+  }
+
+  // Inbound calls of every profile as the voice runtime logs them, for the dialer worker that routes them
+  static subscribeToInboundCalls(onInsert: (call: CallLog) => void) {
+    if (this.isDemoMode()) {
+      console.log('Demo mode: Real-time subscriptions not available');
+      return 'demo-subscription';
+    }
+
+    const channelName = 'inbound_calls';
+
+    // Unsubscribe from existing channel if it exists
+    this.unsubscribe(channelName);
+
+    const channel = supabase
+      .channel(channelName)
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'call_logs',
+          filter: 'direction=eq.inbound'
+        },
+        (payload) => {
+          onInsert(payload.new as CallLog);
+        }
+      )
+      .subscribe();
+
+    this.channels.set(channelName, channel);
+    return channelName;
+  }
+
+  // New tool calls of every profile, for the dialer worker that runs them
+  static subscribeToAgentToolCalls(onInsert: (call: AgentToolCall) => void) {
+    if (this.isDemoMode()) {
+      console.log('Demo mode: Real-time subscriptions not available');
+      return 'demo-subscription';
+    }
+
+    const channelName = 'agent_tool_calls';
+
+    // Unsubscribe from existing channel if it exists
+    this.unsubscribe(channelName);
+
+    const channel = supabase
+      .channel(channelName)
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'agent_tool_calls'
+        },
+        (payload) => {
+          onInsert(payload.new as AgentToolCall);
+        }
+      )
+      .subscribe();
+
+    this.channels.set(channelName, channel);
+    return channelName;
+  }
+
   // Subscribe to AI agent updates
   static subscribeToAgentUpdates(
     profileId: string,
@@ -0,0 +1,153 @@
+import { getAreaCode, getRegionForAreaCode } from '../lib/areaCodes';
+import { HOLIDAY_DEFINITIONS, STATE_CALLING_RULES, STATE_RULES_VERSION } from '../lib/stateCallingRules';
+import type { HolidayId, StateCallingRule } from '../lib/stateCallingRules';
+import { getLocalDateParts } from './calling-windows';
+
+export interface StateRestrictionCheck {
+  allowed: boolean
+  state: string
+  version: string
+  reason: string
+  // 0 when allowed now, Infinity when no allowed time was found within the next week
+  minutesUntilAllowed: number
+  rule?: StateCallingRule
+}
+
+const holidayCache: Map<string, string> = new Map();
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + (minutes || 0);
+}
+
+function formatDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+// Calendar date (YYYY-MM-DD) of a holiday in the given year
+export function getHolidayDate(id: HolidayId, year: number): string {
+  const key = `${id}:${year}`;
+  const cached = holidayCache.get(key);
+  if (cached) return cached;
+
+  const definition = HOLIDAY_DEFINITIONS[id];
+  let date: Date;
+
+  if ('after' in definition) {
+    date = new Date(`${getHolidayDate(definition.after, year)}T00:00:00Z`);
+    date.setUTCDate(date.getUTCDate() + definition.days);
+  } else if ('day' in definition) {
+    date = new Date(Date.UTC(year, definition.month - 1, definition.day));
+  } else if (definition.nth > 0) {
+    date = new Date(Date.UTC(year, definition.month - 1, 1));
+    const offset = (definition.weekday - date.getUTCDay() + 7) % 7;
+    date.setUTCDate(1 + offset + (definition.nth - 1) * 7);
+  } else {
+    date = new Date(Date.UTC(year, definition.month, 0));
+    const offset = (date.getUTCDay() - definition.weekday + 7) % 7;
+    date.setUTCDate(date.getUTCDate() - offset);
+  }
+
+  const result = formatDate(date);
+  holidayCache.set(key, result);
+  return result;
+}
+
+// The holiday itself, plus the federal observed weekday when a fixed-date holiday falls on a weekend
+// (Saturday holidays are observed on Friday, Sunday holidays on Monday)
+export function getHolidayDates(id: HolidayId, year: number): string[] {
+  const actual = getHolidayDate(id, year);
+  if (!('day' in HOLIDAY_DEFINITIONS[id])) return [actual];
+
+  const observed = new Date(`${actual}T00:00:00Z`);
+  if (observed.getUTCDay() === 6) observed.setUTCDate(observed.getUTCDate() - 1);
+  if (observed.getUTCDay() === 0) observed.setUTCDate(observed.getUTCDate() + 1);
+  return observed.getTime() === new Date(`${actual}T00:00:00Z`).getTime() ? [actual] : [actual, formatDate(observed)];
+}
+
+export function getStateHoliday(state: string, localDate: string): HolidayId | null {
+  const rule = STATE_CALLING_RULES[state];
+  if (!rule) return null;
+
+  // New Year's Day observed on Friday December 31 belongs to the next year
+  const year = parseInt(localDate.slice(0, 4), 10);
+  return rule.holidays.find(id =>
+    getHolidayDates(id, year).includes(localDate) || getHolidayDates(id, year + 1).includes(localDate)
+  ) || null;
+}
+
+// An explicit state on the lead wins; otherwise infer it from the area code
+export function resolveLeadState(lead: { phone_number: string; state?: string }): string | null {
+  if (lead.state && lead.state.trim()) {
+    return lead.state.trim().toUpperCase();
+  }
+  const areaCode = getAreaCode(lead.phone_number);
+  return areaCode ? getRegionForAreaCode(areaCode) : null;
+}
+
+export function checkStateRestrictions(state: string, timezone: string, date: Date = new Date()): StateRestrictionCheck {
+  const rule = STATE_CALLING_RULES[state];
+  if (!rule) {
+    return {
+      allowed: true,
+      state,
+      version: STATE_RULES_VERSION,
+      reason: `No state-specific restrictions for ${state}`,
+      minutesUntilAllowed: 0
+    };
+  }
+
+  const now = getLocalDateParts(timezone, date);
+  let blockedReason: string | null = null;
+
+  // Walk forward day by day to the first moment the state allows a call
+  for (let offset = 0; offset <= 7; offset++) {
+    const local = offset === 0 ? now : getLocalDateParts(timezone, new Date(date.getTime() + offset * 24 * 60 * 60000));
+    const holiday = getStateHoliday(state, local.date);
+    const windows = rule.windows.filter(window => window.days.includes(local.dayOfWeek));
+
+    if (offset === 0) {
+      if (holiday) {
+        blockedReason = `No calls on ${HOLIDAY_DEFINITIONS[holiday].name}`;
+      } else if (windows.length === 0) {
+        blockedReason = `No calls on ${local.dayOfWeek === 0 ? 'Sundays' : 'this day of the week'}`;
+      } else if (windows.some(window => now.minutesOfDay >= toMinutes(window.start) && now.minutesOfDay < toMinutes(window.end))) {
+        return {
+          allowed: true,
+          state,
+          version: STATE_RULES_VERSION,
+          reason: `Within ${state} calling hours`,
+          minutesUntilAllowed: 0,
+          rule
+        };
+      } else {
+        blockedReason = `Outside ${state} calling hours (${windows.map(window => `${window.start}-${window.end}`).join(', ')})`;
+      }
+    }
+
+    if (holiday) continue;
+
+    const starts = windows
+      .map(window => offset * 24 * 60 + toMinutes(window.start) - now.minutesOfDay)
+      .filter(minutes => minutes > 0);
+    if (starts.length > 0) {
+      return {
+        allowed: false,
+        state,
+        version: STATE_RULES_VERSION,
+        reason: blockedReason!,
+        minutesUntilAllowed: Math.min(...starts),
+        rule
+      };
+    }
+  }
+
+  return {
+    allowed: false,
+    state,
+    version: STATE_RULES_VERSION,
+    reason: blockedReason!,
+    minutesUntilAllowed: Infinity,
+    rule
+  };
+}
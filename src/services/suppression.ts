@@ -0,0 +1,147 @@
+import { DatabaseService } from './database';
+import { parsePhoneNumber, normalizePhoneNumber } from '../lib/phoneNumbers';
+import type { CampaignLead, SuppressionEntry, SuppressionList } from '../lib/supabase';
+
+export type SuppressionEntryType = SuppressionEntry['type']
+
+export type SuppressibleLead = Pick<CampaignLead, 'phone_number' | 'email' | 'company'>
+
+export interface SuppressionMatch {
+  list: SuppressionList
+  entry: SuppressionEntry
+  reason: string
+}
+
+export const SUPPRESSION_LIST_KINDS: Array<{ value: SuppressionList['kind']; label: string }> = [
+  { value: 'existing_customers', label: 'Existing Customers' },
+  { value: 'competitors', label: 'Competitors' },
+  { value: 'other', label: 'Other' }
+];
+
+const ENTRY_TYPE_LABELS: Record<SuppressionEntryType, string> = {
+  phone: 'phone number',
+  email: 'email',
+  domain: 'email domain',
+  company: 'company'
+};
+
+// Legal-form suffixes dropped so "Acme Inc." and "ACME" are the same company
+const COMPANY_SUFFIX = /\b(inc|incorporated|llc|ltd|limited|corp|corporation|co|company|gmbh|plc|sa|ag)\b/g;
+const DOMAIN_PATTERN = /^[a-z0-9-]+(\.[a-z0-9-]+)+$/;
+
+/**
+ * Profile-level suppression lists (existing customers, competitors, ...). A lead matches when its
+ * phone number, email, email domain or company is on an active list; matching leads are left out
+ * of imports and segment feeds, and closed by the dialer instead of being called.
+ */
+export class SuppressionService {
+  static normalizeValue(type: SuppressionEntryType, value: string): string {
+    const trimmed = (value || '').trim().toLowerCase();
+    switch (type) {
+      case 'phone':
+        return normalizePhoneNumber(value);
+      case 'email':
+        return trimmed;
+      case 'domain':
+        return trimmed.replace(/^@/, '').replace(/^https?:\/\//, '').replace(/^www\./, '').replace(/\/.*$/, '');
+      case 'company':
+        return trimmed.replace(/[^a-z0-9]+/g, ' ').replace(COMPANY_SUFFIX, '').replace(/\s+/g, ' ').trim();
+    }
+  }
+
+  // Guesses the type of one pasted line: email, domain, phone number, otherwise a company name
+  static detectType(value: string): SuppressionEntryType {
+    const trimmed = value.trim().toLowerCase();
+    if (/^[^\s@]+@[^\s@]+$/.test(trimmed)) return 'email';
+    const domain = this.normalizeValue('domain', trimmed);
+    if (DOMAIN_PATTERN.test(domain) && /[a-z]/.test(domain)) return 'domain';
+    if (parsePhoneNumber(trimmed)) return 'phone';
+    return 'company';
+  }
+
+  // Normalized entries for pasted text, one value per line (or comma separated); blank and repeated values are dropped
+  static parseEntries(text: string, type?: SuppressionEntryType): Array<{ type: SuppressionEntryType; value: string }> {
+    const seen = new Set<string>();
+    const entries: Array<{ type: SuppressionEntryType; value: string }> = [];
+
+    for (const raw of text.split(/[\n,;]+/)) {
+      if (!raw.trim()) continue;
+      const entryType = type || this.detectType(raw);
+      const value = this.normalizeValue(entryType, raw);
+      const key = `${entryType}:${value}`;
+      if (!value || seen.has(key)) continue;
+      seen.add(key);
+      entries.push({ type: entryType, value });
+    }
+
+    return entries;
+  }
+
+  static async addEntries(profileId: string, listId: string, text: string, type?: SuppressionEntryType): Promise<number> {
+    const entries = this.parseEntries(text, type);
+    const added = await DatabaseService.addSuppressionEntries(
+      entries.map(entry => ({ ...entry, list_id: listId, profile_id: profileId }))
+    );
+    return added.length;
+  }
+
+  // The values a lead can be suppressed by
+  static leadKeys(lead: SuppressibleLead): Array<{ type: SuppressionEntryType; value: string }> {
+    const keys: Array<{ type: SuppressionEntryType; value: string }> = [];
+    if (lead.phone_number) keys.push({ type: 'phone', value: this.normalizeValue('phone', lead.phone_number) });
+    if (lead.email) {
+      keys.push({ type: 'email', value: this.normalizeValue('email', lead.email) });
+      const domain = lead.email.split('@')[1];
+      if (domain) keys.push({ type: 'domain', value: this.normalizeValue('domain', domain) });
+    }
+    if (lead.company) {
+      const company = this.normalizeValue('company', lead.company);
+      if (company) keys.push({ type: 'company', value: company });
+    }
+    return keys;
+  }
+
+  // Suppressed leads among `leads`, with the entry that matched; throws when the lists cannot be read
+  static async findSuppressed<T extends SuppressibleLead>(profileId: string, leads: T[]): Promise<Map<T, SuppressionMatch>> {
+    const matches = new Map<T, SuppressionMatch>();
+    const lists = (await DatabaseService.getSuppressionLists(profileId)).filter(list => list.is_active);
+    if (lists.length === 0 || leads.length === 0) return matches;
+
+    const keysByLead = leads.map(lead => this.leadKeys(lead));
+    const values = Array.from(new Set(keysByLead.flat().map(key => key.value)));
+    const entries = await DatabaseService.findSuppressionEntries(profileId, values);
+
+    const listsById = new Map(lists.map(list => [list.id, list]));
+    const entriesByKey = new Map<string, SuppressionEntry>();
+    for (const entry of entries) {
+      if (listsById.has(entry.list_id)) {
+        entriesByKey.set(`${entry.type}:${entry.value}`, entry);
+      }
+    }
+    if (entriesByKey.size === 0) return matches;
+
+    leads.forEach((lead, index) => {
+      for (const key of keysByLead[index]) {
+        const entry = entriesByKey.get(`${key.type}:${key.value}`);
+        if (entry) {
+          const list = listsById.get(entry.list_id)!;
+          matches.set(lead, { list, entry, reason: `${list.name} (${ENTRY_TYPE_LABELS[entry.type]} ${entry.value})` });
+          break;
+        }
+      }
+    });
+
+    return matches;
+  }
+
+  // Dial-time check; a lookup failure lets the call through, like a non-strict DNC check
+  static async checkLead(profileId: string, lead: SuppressibleLead): Promise<SuppressionMatch | null> {
+    try {
+      const matches = await this.findSuppressed(profileId, [lead]);
+      return matches.get(lead) || null;
+    } catch (error) {
+      console.error('Error checking suppression lists:', error);
+      return null;
+    }
+  }
+}
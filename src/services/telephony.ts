@@ -0,0 +1,416 @@
+import { RealtimeService } from './realtime';
+import { normalizePhoneNumber } from '../lib/phoneNumbers';
+
+export type TelephonyCallStatus =
+  | 'queued'
+  | 'ringing'
+  | 'in_progress'
+  | 'completed'
+  | 'busy'
+  | 'no_answer'
+  | 'failed'
+  | 'canceled'
+
+// Answering-machine detection result
+export type AnsweredBy = 'human' | 'machine' | 'fax' | 'unknown'
+
+export interface PlaceCallRequest {
+  to: string
+  from: string
+  timeoutSeconds: number
+  // Report who answered through answeredBy on a later status event
+  machineDetection?: boolean
+  metadata?: Record<string, string>
+}
+
+export interface PlaceCallResult {
+  providerCallId: string
+  status: TelephonyCallStatus
+}
+
+export interface TelephonyCallEvent {
+  providerCallId: string
+  status: TelephonyCallStatus
+  timestamp: string
+  durationSeconds?: number
+  errorMessage?: string
+  answeredBy?: AnsweredBy
+}
+
+export type TelephonyEventListener = (event: TelephonyCallEvent) => void
+
+export interface TelephonyProvider {
+  readonly name: string
+  placeCall(request: PlaceCallRequest): Promise<PlaceCallResult>
+  hangup(providerCallId: string): Promise<void>
+  // Speaks the message to an answering machine, then hangs up
+  dropVoicemail(providerCallId: string, message: string): Promise<void>
+  // Returns an unsubscribe function
+  onStatus(listener: TelephonyEventListener): () => void
+}
+
+const TERMINAL_STATUSES: TelephonyCallStatus[] = ['completed', 'busy', 'no_answer', 'failed', 'canceled'];
+
+export function isTerminalStatus(status: TelephonyCallStatus): boolean {
+  return TERMINAL_STATUSES.includes(status);
+}
+
+// Shared listener bookkeeping for provider implementations
+abstract class BaseTelephonyProvider implements TelephonyProvider {
+  abstract readonly name: string;
+  private listeners: Set<TelephonyEventListener> = new Set();
+
+  abstract placeCall(request: PlaceCallRequest): Promise<PlaceCallResult>;
+  abstract hangup(providerCallId: string): Promise<void>;
+  abstract dropVoicemail(providerCallId: string, message: string): Promise<void>;
+
+  onStatus(listener: TelephonyEventListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  protected emit(event: TelephonyCallEvent): void {
+    this.listeners.forEach(listener => {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error(`Error in ${this.name} status listener:`, error);
+      }
+    });
+  }
+
+  protected hasListeners(): boolean {
+    return this.listeners.size > 0;
+  }
+}
+
+export interface TwilioProviderConfig {
+  accountSid: string
+  authToken: string
+  // TwiML endpoint that connects the answered call to the AI agent
+  twimlUrl: string
+  // Endpoint Twilio posts call status changes to
+  statusCallbackUrl: string
+  // When set, status callbacks relayed by the backend into webhook_events are picked up over realtime
+  profileId?: string
+}
+
+interface TwilioCallResource {
+  sid?: string
+  status?: string
+  message?: string
+}
+
+/**
+ * Twilio Programmable Voice implementation.
+ * Calls are created through the REST API; status changes arrive as Twilio status
+ * callbacks, which are fed in through handleStatusCallback (directly by a server
+ * process, or via the webhook_events relay when profileId is configured).
+ */
+export class TwilioTelephonyProvider extends BaseTelephonyProvider {
+  readonly name = 'twilio';
+  private static readonly API_BASE = 'https://api.twilio.com/2010-04-01';
+  private config: TwilioProviderConfig;
+  private relaySubscription?: string;
+
+  constructor(config: TwilioProviderConfig) {
+    super();
+    this.config = config;
+  }
+
+  async placeCall(request: PlaceCallRequest): Promise<PlaceCallResult> {
+    const params = new URLSearchParams({
+      To: normalizePhoneNumber(request.to),
+      From: normalizePhoneNumber(request.from),
+      Url: this.withMetadata(this.config.twimlUrl, request.metadata),
+      StatusCallback: this.config.statusCallbackUrl,
+      StatusCallbackMethod: 'POST',
+      Timeout: String(request.timeoutSeconds)
+    });
+    ['initiated', 'ringing', 'answered', 'completed'].forEach(event => {
+      params.append('StatusCallbackEvent', event);
+    });
+    if (request.machineDetection) {
+      // Wait for the greeting to end so a dropped voicemail starts after the beep
+      params.set('MachineDetection', 'DetectMessageEnd');
+      params.set('AsyncAmd', 'true');
+      params.set('AsyncAmdStatusCallback', this.config.statusCallbackUrl);
+      params.set('AsyncAmdStatusCallbackMethod', 'POST');
+    }
+
+    const data = await this.request('Calls.json', params);
+    return {
+      providerCallId: data.sid || '',
+      status: TwilioTelephonyProvider.mapStatus(data.status || 'queued')
+    };
+  }
+
+  async hangup(providerCallId: string): Promise<void> {
+    await this.request(`Calls/${providerCallId}.json`, new URLSearchParams({ Status: 'completed' }));
+  }
+
+  async dropVoicemail(providerCallId: string, message: string): Promise<void> {
+    const escaped = message
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;');
+    const twiml = `<Response><Say>${escaped}</Say><Hangup/></Response>`;
+    await this.request(`Calls/${providerCallId}.json`, new URLSearchParams({ Twiml: twiml }));
+  }
+
+  onStatus(listener: TelephonyEventListener): () => void {
+    const unsubscribe = super.onStatus(listener);
+
+    if (this.config.profileId && !this.relaySubscription) {
+      this.relaySubscription = RealtimeService.subscribeToWebhookEventUpdates(
+        this.config.profileId,
+        (event) => {
+          if (event.event_type === 'twilio.call_status') {
+            this.handleStatusCallback(event.event_data);
+          }
+        }
+      );
+    }
+
+    return () => {
+      unsubscribe();
+      if (!this.hasListeners() && this.relaySubscription) {
+        RealtimeService.unsubscribe(this.relaySubscription);
+        this.relaySubscription = undefined;
+      }
+    };
+  }
+
+  // Accepts the form fields of a Twilio status callback request.
+  // Async AMD callbacks carry AnsweredBy without a CallStatus; the call is in progress by then.
+  handleStatusCallback(params: Record<string, string>): void {
+    if (!params.CallSid || (!params.CallStatus && !params.AnsweredBy)) {
+      console.warn('Ignoring malformed Twilio status callback:', params);
+      return;
+    }
+
+    this.emit({
+      providerCallId: params.CallSid,
+      status: params.CallStatus ? TwilioTelephonyProvider.mapStatus(params.CallStatus) : 'in_progress',
+      answeredBy: params.AnsweredBy ? TwilioTelephonyProvider.mapAnsweredBy(params.AnsweredBy) : undefined,
+      timestamp: params.Timestamp ? new Date(params.Timestamp).toISOString() : new Date().toISOString(),
+      durationSeconds: params.CallDuration ? parseInt(params.CallDuration, 10) : undefined,
+      errorMessage: params.ErrorMessage
+    });
+  }
+
+  static mapStatus(twilioStatus: string): TelephonyCallStatus {
+    switch (twilioStatus) {
+      case 'queued':
+      case 'initiated':
+        return 'queued';
+      case 'ringing':
+        return 'ringing';
+      case 'in-progress':
+      case 'answered':
+        return 'in_progress';
+      case 'completed':
+        return 'completed';
+      case 'busy':
+        return 'busy';
+      case 'no-answer':
+        return 'no_answer';
+      case 'canceled':
+        return 'canceled';
+      default:
+        return 'failed';
+    }
+  }
+
+  static mapAnsweredBy(twilioAnsweredBy: string): AnsweredBy {
+    if (twilioAnsweredBy === 'human' || twilioAnsweredBy === 'fax') {
+      return twilioAnsweredBy;
+    }
+    // machine_start, machine_end_beep, machine_end_silence, machine_end_other
+    return twilioAnsweredBy.startsWith('machine') ? 'machine' : 'unknown';
+  }
+
+  private withMetadata(url: string, metadata?: Record<string, string>): string {
+    if (!metadata || Object.keys(metadata).length === 0) {
+      return url;
+    }
+    const target = new URL(url);
+    Object.entries(metadata).forEach(([key, value]) => target.searchParams.set(key, value));
+    return target.toString();
+  }
+
+  private async request(path: string, body: URLSearchParams): Promise<TwilioCallResource> {
+    const response = await fetch(`${TwilioTelephonyProvider.API_BASE}/Accounts/${this.config.accountSid}/${path}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/x-www-form-urlencoded',
+        'Authorization': `Basic ${btoa(`${this.config.accountSid}:${this.config.authToken}`)}`
+      },
+      body
+    });
+
+    const data: TwilioCallResource = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      throw new Error(`Twilio request failed (${response.status}): ${data.message || response.statusText}`);
+    }
+
+    return data;
+  }
+}
+
+export interface SimulatedCallScript {
+  // Final status the call ends in
+  outcome: Extract<TelephonyCallStatus, 'completed' | 'busy' | 'no_answer' | 'failed'>
+  ringMs?: number
+  talkMs?: number
+  // Reported for answered calls when machine detection is requested
+  answeredBy?: AnsweredBy
+}
+
+export interface SimulatorConfig {
+  seed?: number
+  ringMs?: number
+  talkMs?: number
+  // Time from answer to the machine detection result
+  amdMs?: number
+  // Share of answered calls that reach a machine when no script says otherwise
+  machineRate?: number
+  // Outcomes are played back in order (cycling) when provided, otherwise drawn from weights
+  script?: SimulatedCallScript[]
+  outcomeWeights?: Partial<Record<SimulatedCallScript['outcome'], number>>
+}
+
+interface SimulatedCall {
+  id: string
+  timers: ReturnType<typeof setTimeout>[]
+  answeredAt?: number
+}
+
+/**
+ * Local stand-in for a carrier. Given the same seed (or script) it produces the same
+ * sequence of outcomes and timings, so dialer behaviour can be reproduced in tests and demos.
+ */
+export class SimulatedTelephonyProvider extends BaseTelephonyProvider {
+  readonly name = 'simulator';
+  private static readonly DEFAULT_WEIGHTS = { completed: 4, no_answer: 3, busy: 2, failed: 1 };
+  private config: Required<Omit<SimulatorConfig, 'script'>> & Pick<SimulatorConfig, 'script'>;
+  private calls: Map<string, SimulatedCall> = new Map();
+  private rngState: number;
+  private callCounter = 0;
+
+  constructor(config: SimulatorConfig = {}) {
+    super();
+    this.config = {
+      seed: config.seed ?? 1,
+      ringMs: config.ringMs ?? 2000,
+      talkMs: config.talkMs ?? 20000,
+      amdMs: config.amdMs ?? 1500,
+      machineRate: config.machineRate ?? 0.3,
+      script: config.script,
+      outcomeWeights: { ...SimulatedTelephonyProvider.DEFAULT_WEIGHTS, ...config.outcomeWeights }
+    };
+    this.rngState = this.config.seed;
+  }
+
+  async placeCall(request: PlaceCallRequest): Promise<PlaceCallResult> {
+    const index = this.callCounter++;
+    const id = `SIM${String(index).padStart(8, '0')}`;
+    const step = this.nextStep(index);
+    const ringMs = step.ringMs ?? this.config.ringMs;
+    const timeoutMs = request.timeoutSeconds * 1000;
+    const call: SimulatedCall = { id, timers: [] };
+    this.calls.set(id, call);
+
+    call.timers.push(setTimeout(() => this.emitStatus(call, 'ringing'), 0));
+
+    if (step.outcome === 'completed') {
+      call.timers.push(setTimeout(() => {
+        call.answeredAt = Date.now();
+        this.emitStatus(call, 'in_progress');
+      }, ringMs));
+      if (request.machineDetection) {
+        const answeredBy = step.answeredBy ?? (this.random() < this.config.machineRate ? 'machine' : 'human');
+        call.timers.push(setTimeout(() => this.emit({
+          providerCallId: call.id,
+          status: 'in_progress',
+          timestamp: new Date().toISOString(),
+          answeredBy
+        }), ringMs + this.config.amdMs));
+      }
+      call.timers.push(setTimeout(() => this.finish(call, 'completed'), ringMs + (step.talkMs ?? this.config.talkMs)));
+    } else if (step.outcome === 'no_answer') {
+      call.timers.push(setTimeout(() => this.finish(call, 'no_answer'), Math.max(ringMs, timeoutMs)));
+    } else {
+      call.timers.push(setTimeout(() => this.finish(call, step.outcome), ringMs));
+    }
+
+    return { providerCallId: id, status: 'queued' };
+  }
+
+  async hangup(providerCallId: string): Promise<void> {
+    const call = this.calls.get(providerCallId);
+    if (!call) return;
+
+    this.finish(call, call.answeredAt ? 'completed' : 'canceled');
+  }
+
+  // Plays for roughly the time it takes to speak the message
+  async dropVoicemail(providerCallId: string, message: string): Promise<void> {
+    const call = this.calls.get(providerCallId);
+    if (!call) return;
+
+    call.timers.forEach(timer => clearTimeout(timer));
+    const speakMs = Math.max(1000, message.split(/\s+/).length * 400);
+    call.timers = [setTimeout(() => this.finish(call, 'completed'), speakMs)];
+  }
+
+  private nextStep(index: number): SimulatedCallScript {
+    const { script, outcomeWeights } = this.config;
+    if (script && script.length > 0) {
+      return script[index % script.length];
+    }
+
+    const entries = Object.entries(outcomeWeights) as [SimulatedCallScript['outcome'], number][];
+    const total = entries.reduce((sum, [, weight]) => sum + weight, 0);
+    let roll = this.random() * total;
+    for (const [outcome, weight] of entries) {
+      roll -= weight;
+      if (roll < 0) {
+        return { outcome };
+      }
+    }
+    return { outcome: entries[entries.length - 1][0] };
+  }
+
+  // mulberry32 - small, fast and deterministic for a given seed
+  private random(): number {
+    this.rngState = (this.rngState + 0x6D2B79F5) | 0;
+    let t = this.rngState;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  private emitStatus(call: SimulatedCall, status: TelephonyCallStatus): void {
+    this.emit({
+      providerCallId: call.id,
+      status,
+      timestamp: new Date().toISOString()
+    });
+  }
+
+  private finish(call: SimulatedCall, status: TelephonyCallStatus): void {
+    if (!this.calls.has(call.id)) return;
+
+    call.timers.forEach(timer => clearTimeout(timer));
+    this.calls.delete(call.id);
+    this.emit({
+      providerCallId: call.id,
+      status,
+      timestamp: new Date().toISOString(),
+      durationSeconds: call.answeredAt ? Math.round((Date.now() - call.answeredAt) / 1000) : 0
+    });
+  }
+}